@@ -1,7 +1,11 @@
 import { useState } from "react";
 //import { Button } from "@/components/ui/button";
+import { useQuery } from "@tanstack/react-query";
+import { Heart } from "lucide-react";
 import type { Character, User, GameStats } from "@shared/schema";
 import { useChatNotifications } from "@/hooks/useChatNotifications";
+import { Progress } from "@/components/ui/progress";
+import { apiRequest } from "@/lib/queryClient";
 
 interface CharacterDisplayProps {
   character?: Character; // made optional
@@ -14,6 +18,53 @@ interface CharacterDisplayProps {
   userId?: string; // Add userId for notifications
 }
 
+// GET /api/bonds - only the fields the meter needs
+interface BondState {
+  character: { id: string };
+  affection: number;
+  level: number;
+  levelName: string;
+  currentLevelAffection: number;
+  nextLevel: { level: number; name: string; affection: number } | null;
+  today: Record<'chat' | 'tap' | 'gift', { gained: number; cap: number }>;
+}
+
+// Affection toward the shown character: level, progress to the next level and today's capped gains
+function BondMeter({ characterId, userId }: { characterId: string; userId: string }) {
+  const { data } = useQuery<{ bonds: BondState[] }>({
+    queryKey: ['/api/bonds', userId],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/bonds?userId=${userId}`);
+      return (await response.json()).data;
+    },
+    refetchInterval: 30000
+  });
+
+  const bond = data?.bonds.find(b => b.character.id === characterId);
+  if (!bond) return null;
+
+  const span = bond.nextLevel ? bond.nextLevel.affection - bond.currentLevelAffection : 0;
+  const percent = span > 0 ? Math.min(100, ((bond.affection - bond.currentLevelAffection) / span) * 100) : 100;
+  const todayLine = (['chat', 'tap', 'gift'] as const)
+    .map(source => `${source} ${bond.today[source].gained}/${bond.today[source].cap}`)
+    .join(' · ');
+
+  return (
+    <div className="mx-auto max-w-sm mt-2 space-y-1" title={`Today: ${todayLine}`}>
+      <div className="flex items-center justify-between text-xs">
+        <span className="flex items-center gap-1 text-pink-300 font-semibold">
+          <Heart className="w-3 h-3 fill-pink-400 text-pink-400" />
+          Lv {bond.level} · {bond.levelName}
+        </span>
+        <span className="font-mono text-gray-400">
+          {bond.nextLevel ? `${bond.affection}/${bond.nextLevel.affection}` : `${bond.affection} · Max`}
+        </span>
+      </div>
+      <Progress value={percent} className="h-1.5" />
+    </div>
+  );
+}
+
 // Fallback when no character is selected
 const defaultCharacter: Character = {
   id: "no-character-selected",
@@ -126,6 +177,9 @@ export default function CharacterDisplay({
         <div className="text-center mb-4">
           <h2 className="text-2xl font-bold gradient-text">{character?.name || "Unnamed"}</h2>
           <p className="text-gray-400 text-sm">{character?.backstory || "Tap to interact!"}</p>
+          {userId && character.id !== "no-character-selected" && (
+            <BondMeter characterId={character.id} userId={userId} />
+          )}
         </div>
 
         {/* ✅ FIXED: Character Main Image Container - DOUBLED SIZE */}
@@ -14,6 +14,10 @@ import OfflineIncomeDialog from "@/components/OfflineIncomeDialog";
 import AdminMenu from "@/plugins/admin/AdminMenu";
 import AIChat from "@/plugins/aicore/AIChat";
 import LevelUp from "@/plugins/gameplay/LevelUp";
+import LoginCalendar from "@/plugins/gameplay/LoginCalendar";
+import Leaderboard from "@/plugins/gameplay/Leaderboard";
+import Friends from "@/plugins/gameplay/Friends";
+import Clubs from "@/plugins/gameplay/Clubs";
 import Upgrades from "@/plugins/gameplay/Upgrades";
 import WheelGame from "@/components/wheel/WheelGame";
 import VIP from "@/components/vip/VIP";
@@ -174,6 +178,69 @@ export default function GameGUI({ playerData, onPluginAction }: GameGUIProps) {
   // Helper functions for claim rewards
   const [claimingRewards, setClaimingRewards] = useState<Set<string>>(new Set());
 
+  // Tap batching - taps are applied optimistically and flushed to the server in batches
+  const TAP_FLUSH_INTERVAL_MS = 1000;
+  const TAP_FLUSH_MAX_TAPS = 50;
+  const pendingTapsRef = React.useRef<number[]>([]);
+  const tapFlushTimerRef = React.useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const flushTaps = React.useCallback(async () => {
+    if (tapFlushTimerRef.current) {
+      clearTimeout(tapFlushTimerRef.current);
+      tapFlushTimerRef.current = null;
+    }
+    const timestamps = pendingTapsRef.current;
+    if (timestamps.length === 0 || !userId) return;
+    pendingTapsRef.current = [];
+
+    const lpPerTap = user?.lpPerTap || 1.5;
+    // Taps made while this batch is in flight are still optimistic and must stay applied
+    const stillPending = () => pendingTapsRef.current.length;
+
+    try {
+      const response = await apiRequest('POST', '/api/tap/batch', {
+        userId: userId,
+        taps: timestamps.length,
+        timestamps
+      });
+
+      if (response.ok) {
+        const result = await response.json();
+        const batch = result.data || result;
+        if (batch.flagged) {
+          console.warn('Tap batch clamped by server:', batch.reasons);
+        }
+        // Reconcile with server values to ensure consistency
+        queryClient.setQueryData(['/api/user', userId], (oldData: any) => {
+          if (!oldData) return oldData;
+          return {
+            ...oldData,
+            lp: batch.newLp + stillPending() * lpPerTap,
+            energy: Math.max(0, batch.newEnergy - stillPending())
+          };
+        });
+      }
+    } catch (error) {
+      console.error('Tap batch error:', error);
+      // Revert this batch's optimistic update on error
+      queryClient.setQueryData(['/api/user', userId], (oldData: any) => {
+        if (!oldData) return oldData;
+        return {
+          ...oldData,
+          lp: parseFloat(oldData.lp?.toString() || '0') - timestamps.length * lpPerTap,
+          energy: (oldData.energy || 0) + timestamps.length
+        };
+      });
+    }
+  }, [userId, user?.lpPerTap]);
+
+  // Flush whatever is left when leaving the game screen
+  React.useEffect(() => {
+    return () => {
+      flushTaps();
+    };
+  }, [flushTaps]);
+
   const handleTap = async () => {
     if (!user || user.energy <= 0 || actuallyTapping) return;
     
@@ -196,35 +263,12 @@ export default function GameGUI({ playerData, onPluginAction }: GameGUIProps) {
       };
     });
     
-    try {
-      // Use optimized tap endpoint in background
-      const response = await apiRequest('POST', '/api/tap', {
-        userId: userId
-      });
-      
-      if (response.ok) {
-        const result = await response.json();
-        // Update with server response to ensure consistency
-        queryClient.setQueryData(['/api/user', userId], (oldData: any) => {
-          if (!oldData) return oldData;
-          return {
-            ...oldData,
-            lp: result.newLp,
-            energy: result.newEnergy
-          };
-        });
-      }
-    } catch (error) {
-      console.error('Tap error:', error);
-      // Revert optimistic update on error
-      queryClient.setQueryData(['/api/user', userId], (oldData: any) => {
-        if (!oldData) return oldData;
-        return {
-          ...oldData,
-          lp: currentLp,
-          energy: user.energy
-        };
-      });
+    // Queue the tap; the server validates timestamps against tapCooldown
+    pendingTapsRef.current.push(Date.now());
+    if (pendingTapsRef.current.length >= TAP_FLUSH_MAX_TAPS) {
+      flushTaps();
+    } else if (!tapFlushTimerRef.current) {
+      tapFlushTimerRef.current = setTimeout(flushTaps, TAP_FLUSH_INTERVAL_MS);
     }
     
     // Much faster visual feedback reset
@@ -361,10 +405,7 @@ export default function GameGUI({ playerData, onPluginAction }: GameGUIProps) {
                 claimingRewards={claimingRewards}
                 onClaimReward={(id, type) => claimReward(id, type as "task" | "achievement")}
               />
-              <AchievementsPanel 
-                claimingRewards={claimingRewards}
-                onClaimReward={(id, type) => claimReward(id, type as "task" | "achievement")}
-              />
+              <AchievementsPanel />
             </div>
             <div className="flex flex-col gap-4">
               <GameProgressPanel 
@@ -379,6 +420,18 @@ export default function GameGUI({ playerData, onPluginAction }: GameGUIProps) {
           </div>
         );
 
+      case "daily":
+        return <LoginCalendar />;
+
+      case "leaderboard":
+        return <Leaderboard />;
+
+      case "friends":
+        return <Friends />;
+
+      case "clubs":
+        return <Clubs />;
+
       case "chat":
         return (
           <div className="w-full max-w-2xl h-full">
@@ -404,13 +457,25 @@ export default function GameGUI({ playerData, onPluginAction }: GameGUIProps) {
   // Handle offline income claim
   const handleClaimOfflineIncome = async () => {
     try {
-      await claimOfflineIncome();
+      const result = await claimOfflineIncome();
       setShowOfflineDialog(false);
+      if (result?.claimedLp > 0) {
+        toast({
+          title: "Passive Income Claimed!",
+          description: `+${Math.floor(result.claimedLp).toLocaleString()} LP${result.lostToCap > 0 ? ` (${Math.floor(result.lostToCap).toLocaleString()} LP lost to the offline cap)` : ''}`,
+        });
+      }
       // Force refresh user data to show updated LP
       queryClient.invalidateQueries({ queryKey: ['/api/user'] });
       queryClient.invalidateQueries({ queryKey: ['/api/player'] });
+      queryClient.invalidateQueries({ queryKey: ['/offline/history'] });
     } catch (error) {
       console.error('Failed to claim offline income:', error);
+      toast({
+        title: "Claim Failed",
+        description: "Unable to claim passive income. Please try again.",
+        variant: "destructive",
+      });
     }
   };
 
@@ -424,6 +489,7 @@ export default function GameGUI({ playerData, onPluginAction }: GameGUIProps) {
         onClose={() => setShowOfflineDialog(false)}
         offlineLP={gamePlayerData?.pendingOfflineLP || 0}
         offlineDuration={gamePlayerData?.offlineDuration || 0}
+        userId={userId}
       />
 
       {/* Status Bar */}
@@ -1,15 +1,60 @@
 import React from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
-import { Heart, Clock, Gift } from 'lucide-react';
+import { Heart, Clock, Gift, Zap, Crown, CalendarHeart, Hourglass, History } from 'lucide-react';
 import { formatDuration } from '@/lib/utils';
+import { apiRequest } from '@/lib/queryClient';
+
+interface OfflineIncomeLine {
+  source: 'base' | 'booster' | 'vip' | 'event';
+  label: string;
+  lp: number;
+  multiplier?: number;
+  minutes?: number;
+}
+
+interface OfflineIncomeQuote {
+  offlineMinutes: number;
+  minutesApplied: number;
+  capMinutes: number;
+  lpPerHour: number;
+  breakdown: OfflineIncomeLine[];
+  total: number;
+  lostMinutes: number;
+  lostToCap: number;
+  minutesUntilCap: number;
+}
+
+interface OfflineClaimRecord {
+  id: string;
+  lpClaimed: number;
+  lostToCap: number;
+  minutesApplied: number;
+  claimedAt: string;
+}
 
 interface OfflineIncomeDialogProps {
   isOpen: boolean;
   onClaim: () => void;
   onClose: () => void;
-  offlineLP: number;
+  offlineLP: number; // Local estimate, shown until the server preview loads
   offlineDuration: number; // in milliseconds
+  userId?: string;
+}
+
+const SOURCE_ICONS = {
+  base: Clock,
+  booster: Zap,
+  vip: Crown,
+  event: CalendarHeart
+};
+
+async function fetchData<T>(url: string): Promise<T> {
+  const response = await apiRequest('GET', url);
+  const result = await response.json();
+  if (!result.success) throw new Error(result.error || 'Request failed');
+  return result.data;
 }
 
 export default function OfflineIncomeDialog({ 
@@ -17,11 +62,27 @@ export default function OfflineIncomeDialog({
   onClaim, 
   onClose,
   offlineLP,
-  offlineDuration 
+  offlineDuration,
+  userId
 }: OfflineIncomeDialogProps) {
   const hours = Math.floor(offlineDuration / (1000 * 60 * 60));
   const minutes = Math.floor((offlineDuration % (1000 * 60 * 60)) / (1000 * 60));
 
+  const { data: quote } = useQuery({
+    queryKey: ['/offline/preview', userId],
+    queryFn: () => fetchData<OfflineIncomeQuote>(`/offline/preview?userId=${userId}`),
+    enabled: isOpen && !!userId,
+    staleTime: 0
+  });
+
+  const { data: history = [] } = useQuery({
+    queryKey: ['/offline/history', userId],
+    queryFn: () => fetchData<OfflineClaimRecord[]>(`/offline/history?userId=${userId}&limit=3`),
+    enabled: isOpen && !!userId
+  });
+
+  const total = quote ? quote.total : offlineLP;
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="sm:max-w-md bg-gradient-to-br from-purple-900/95 to-pink-900/95 border border-purple-500/50 text-white">
@@ -48,17 +109,72 @@ export default function OfflineIncomeDialog({
             <div className="flex items-center justify-center gap-3">
               <img src="/media/floatinghearts.png" alt="LP" className="w-8 h-8" />
               <span className="text-4xl font-bold text-yellow-400">
-                +{Math.floor(offlineLP).toLocaleString()}
+                +{Math.floor(total).toLocaleString()}
               </span>
               <span className="text-xl text-yellow-300">LP</span>
             </div>
+
+            {/* Per-source breakdown */}
+            {quote && quote.breakdown.length > 0 && (
+              <div className="mt-4 space-y-1.5 text-sm text-left">
+                {quote.breakdown.map((line, index) => {
+                  const Icon = SOURCE_ICONS[line.source] || Gift;
+                  return (
+                    <div key={`${line.source}-${index}`} className="flex items-center justify-between text-gray-300">
+                      <span className="flex items-center gap-2">
+                        <Icon className="w-4 h-4 text-purple-300" />
+                        {line.label}
+                        {line.source === 'base' && (
+                          <span className="text-xs text-gray-500">{quote.lpPerHour.toLocaleString()}/h × {formatDuration(quote.minutesApplied * 60000)}</span>
+                        )}
+                        {line.multiplier && <span className="text-xs text-gray-500">×{line.multiplier}</span>}
+                      </span>
+                      <span className="font-semibold text-yellow-300">+{line.lp.toLocaleString()}</span>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
           </div>
 
+          {/* Offline cap */}
+          {quote && (
+            quote.minutesUntilCap > 0 ? (
+              <div className="flex items-center justify-center gap-2 text-sm text-gray-300">
+                <Hourglass className="w-4 h-4" />
+                <span>Offline cap ({formatDuration(quote.capMinutes * 60000)}) reached in {formatDuration(quote.minutesUntilCap * 60000)}</span>
+              </div>
+            ) : (
+              <div className="text-sm text-red-300 bg-red-900/20 border border-red-700/50 rounded-lg p-3">
+                <p>Offline cap of {formatDuration(quote.capMinutes * 60000)} reached{quote.lostToCap > 0 ? ` - ${Math.floor(quote.lostToCap).toLocaleString()} LP lost over the last ${formatDuration(quote.lostMinutes * 60000)}` : ''}</p>
+              </div>
+            )
+          )}
+
           {/* Warning */}
           <div className="text-sm text-gray-400 bg-amber-900/20 border border-amber-700/50 rounded-lg p-3">
             <p>⚠️ You must claim this to resume passive income collection!</p>
           </div>
 
+          {/* Recent claims */}
+          {history.length > 0 && (
+            <div className="text-xs text-gray-400 space-y-1">
+              <div className="flex items-center justify-center gap-1">
+                <History className="w-3 h-3" />
+                <span>Recent claims</span>
+              </div>
+              {history.map(claim => (
+                <div key={claim.id} className="flex justify-between">
+                  <span>{new Date(claim.claimedAt).toLocaleString()}</span>
+                  <span>
+                    +{Math.floor(claim.lpClaimed).toLocaleString()} LP
+                    {claim.lostToCap > 0 && <span className="text-red-300"> ({Math.floor(claim.lostToCap).toLocaleString()} lost)</span>}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Claim Button */}
           <Button
             onClick={onClaim}
@@ -8,18 +8,23 @@ import { Textarea } from '@/components/ui/textarea';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Plus, Edit3, Trash2, Target } from 'lucide-react';
+import { Plus, Edit3, Trash2, Target, RotateCcw } from 'lucide-react';
 import { toast } from 'react-hot-toast';
 import { apiRequest } from '@/lib/queryClient';
 
+// One level of the unified model: generated from the GameSettings curve or overridden in JSON
 interface LevelRequirement {
   id?: string;
   level: number;
-  lpRequired: number;
+  xpRequired: number;
+  name?: string;
   description?: string;
   unlockRewards?: any[];
   functions?: any[];
   upgradeRequirements?: UpgradeRequirement[];
+  source?: 'generated' | 'override';
+  overriddenFields?: string[];
+  generatedXpRequired?: number;
 }
 
 interface UpgradeRequirement {
@@ -31,9 +36,10 @@ interface UpgradeRequirement {
 export default function LevelManagement() {
   const [showDialog, setShowDialog] = useState(false);
   const [editingLevel, setEditingLevel] = useState<LevelRequirement | null>(null);
+  const [overridesOnly, setOverridesOnly] = useState(false);
   const [formData, setFormData] = useState<LevelRequirement>({
     level: 1,
-    lpRequired: 0,
+    xpRequired: 0,
     description: '',
     unlockRewards: [],
     functions: [],
@@ -42,20 +48,22 @@ export default function LevelManagement() {
 
   const queryClient = useQueryClient();
 
-  const { data: levelRequirements = [], isLoading } = useQuery({
+  const { data: levelRequirements = [], isLoading } = useQuery<LevelRequirement[]>({
     queryKey: ['/api/admin/level-requirements'],
   });
 
-  const { data: upgrades = [] } = useQuery({
+  const visibleLevels = overridesOnly
+    ? levelRequirements.filter((l) => l.source === 'override')
+    : levelRequirements;
+  const overrideCount = levelRequirements.filter((l) => l.source === 'override').length;
+
+  const { data: upgrades = [] } = useQuery<any[]>({
     queryKey: ['/api/admin/upgrades'],
   });
 
   const createMutation = useMutation({
     mutationFn: async (data: LevelRequirement) => {
-      return await apiRequest('/api/admin/level-requirements', {
-        method: 'POST',
-        body: JSON.stringify(data)
-      });
+      return await apiRequest('POST', '/api/admin/level-requirements', data);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/admin/level-requirements'] });
@@ -68,10 +76,7 @@ export default function LevelManagement() {
 
   const updateMutation = useMutation({
     mutationFn: async (data: LevelRequirement) => {
-      return await apiRequest(`/api/admin/level-requirements/${data.id}`, {
-        method: 'PUT',
-        body: JSON.stringify(data)
-      });
+      return await apiRequest('PUT', `/api/admin/level-requirements/${data.level}`, data);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/admin/level-requirements'] });
@@ -83,22 +88,20 @@ export default function LevelManagement() {
   });
 
   const deleteMutation = useMutation({
-    mutationFn: async (id: string) => {
-      return await apiRequest(`/api/admin/level-requirements/${id}`, {
-        method: 'DELETE'
-      });
+    mutationFn: async (level: number) => {
+      return await apiRequest('DELETE', `/api/admin/level-requirements/${level}`);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/admin/level-requirements'] });
-      toast.success('Level requirement deleted!');
+      toast.success('Override removed - level uses the generated curve');
     },
-    onError: () => toast.error('Failed to delete level requirement')
+    onError: () => toast.error('Failed to remove level override')
   });
 
   const resetForm = () => {
     setFormData({
       level: 1,
-      lpRequired: 0,
+      xpRequired: 0,
       description: '',
       unlockRewards: [],
       functions: [],
@@ -135,11 +138,18 @@ export default function LevelManagement() {
     setShowDialog(true);
   };
 
+  // Only send what the override should pin; an untouched generated XP value keeps following the curve
+  const toOverride = (data: LevelRequirement): LevelRequirement => {
+    const { source, overriddenFields, generatedXpRequired, id, ...fields } = data;
+    const keepsCurve = editingLevel?.source === 'generated' && data.xpRequired === editingLevel.xpRequired;
+    return keepsCurve ? { ...fields, xpRequired: undefined as any } : fields;
+  };
+
   const handleSubmit = () => {
     if (editingLevel) {
-      updateMutation.mutate(formData);
+      updateMutation.mutate(toOverride(formData));
     } else {
-      createMutation.mutate(formData);
+      createMutation.mutate(toOverride(formData));
     }
   };
 
@@ -151,6 +161,14 @@ export default function LevelManagement() {
             <Target className="w-5 h-5 text-pink-500" />
             Level Requirements Management
           </CardTitle>
+          <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setOverridesOnly(!overridesOnly)}
+            className="border-gray-600 text-gray-300 hover:bg-gray-600"
+          >
+            {overridesOnly ? 'Show all levels' : `Overrides only (${overrideCount})`}
+          </Button>
           <Button 
             onClick={() => {
               resetForm();
@@ -162,22 +180,54 @@ export default function LevelManagement() {
             <Plus className="w-4 h-4 mr-2" />
             Add Level
           </Button>
+          </div>
         </div>
+        <p className="text-gray-400 text-sm">
+          Levels follow the GameSettings curve (baseExperienceRequired × experienceMultiplier per level) up to maxLevel.
+          Saving a level pins it as an override; removing the override returns it to the curve.
+        </p>
       </CardHeader>
       <CardContent>
         <ScrollArea className="h-[60vh]">
           <div className="space-y-3">
             {isLoading ? (
               <div className="text-center text-gray-400">Loading...</div>
-            ) : levelRequirements.length === 0 ? (
+            ) : visibleLevels.length === 0 ? (
               <div className="text-center text-gray-400">No level requirements found</div>
             ) : (
-              levelRequirements.map((level: LevelRequirement) => (
-                <div key={level.id} className="bg-gray-700 p-4 rounded border border-gray-600">
+              visibleLevels.map((level: LevelRequirement) => (
+                <div
+                  key={level.id ?? level.level}
+                  className={`p-4 rounded border ${
+                    level.source === 'override' ? 'bg-gray-700 border-pink-600/60' : 'bg-gray-700/50 border-gray-600'
+                  }`}
+                >
                   <div className="flex items-center justify-between">
                     <div>
-                      <h4 className="text-white font-medium">Level {level.level}</h4>
-                      <p className="text-gray-300">LP Required: {level.lpRequired.toLocaleString()}</p>
+                      <h4 className="text-white font-medium flex items-center gap-2">
+                        Level {level.level}
+                        {level.name && level.name !== `Level ${level.level}` && (
+                          <span className="text-gray-400 font-normal">· {level.name}</span>
+                        )}
+                        <span
+                          className={`text-xs px-2 py-0.5 rounded ${
+                            level.source === 'override' ? 'bg-pink-600 text-white' : 'bg-gray-600 text-gray-300'
+                          }`}
+                        >
+                          {level.source === 'override' ? 'Override' : 'Generated'}
+                        </span>
+                      </h4>
+                      <p className="text-gray-300">
+                        XP Required: {level.xpRequired.toLocaleString()}
+                        {level.generatedXpRequired !== undefined && level.generatedXpRequired !== level.xpRequired && (
+                          <span className="text-gray-500 text-xs ml-2">
+                            (curve: {level.generatedXpRequired.toLocaleString()})
+                          </span>
+                        )}
+                      </p>
+                      {level.source === 'override' && level.overriddenFields && level.overriddenFields.length > 0 && (
+                        <p className="text-pink-300 text-xs">Overrides: {level.overriddenFields.join(', ')}</p>
+                      )}
                       {level.upgradeRequirements && level.upgradeRequirements.length > 0 && (
                         <div className="mt-2">
                           <p className="text-gray-400 text-xs">Upgrade Requirements:</p>
@@ -202,14 +252,17 @@ export default function LevelManagement() {
                       >
                         <Edit3 className="w-4 h-4" />
                       </Button>
-                      <Button
-                        size="sm"
-                        variant="destructive"
-                        onClick={() => deleteMutation.mutate(level.id!)}
-                        data-testid={`button-delete-level-${level.id}`}
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </Button>
+                      {level.source === 'override' && (
+                        <Button
+                          size="sm"
+                          variant="destructive"
+                          title="Remove override (revert to curve)"
+                          onClick={() => deleteMutation.mutate(level.level)}
+                          data-testid={`button-delete-level-${level.id}`}
+                        >
+                          <RotateCcw className="w-4 h-4" />
+                        </Button>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -222,7 +275,9 @@ export default function LevelManagement() {
           <DialogContent className="bg-gray-800 border-gray-700 text-white">
             <DialogHeader>
               <DialogTitle>
-                {editingLevel ? 'Edit Level Requirement' : 'Create Level Requirement'}
+                {editingLevel
+                  ? `Edit Level ${editingLevel.level}${editingLevel.source === 'generated' ? ' (creates override)' : ''}`
+                  : 'Create Level Override'}
               </DialogTitle>
             </DialogHeader>
             <div className="space-y-4">
@@ -233,17 +288,18 @@ export default function LevelManagement() {
                   type="number"
                   value={formData.level}
                   onChange={(e) => setFormData({...formData, level: parseInt(e.target.value)})}
+                  disabled={!!editingLevel}
                   className="bg-gray-700 border-gray-600 text-white"
                   data-testid="input-level"
                 />
               </div>
               <div>
-                <Label htmlFor="lpRequired">LP Required</Label>
+                <Label htmlFor="xpRequired">XP Required</Label>
                 <Input
-                  id="lpRequired"
+                  id="xpRequired"
                   type="number"
-                  value={formData.lpRequired}
-                  onChange={(e) => setFormData({...formData, lpRequired: parseInt(e.target.value)})}
+                  value={formData.xpRequired}
+                  onChange={(e) => setFormData({...formData, xpRequired: parseInt(e.target.value)})}
                   className="bg-gray-700 border-gray-600 text-white"
                   data-testid="input-lp-required"
                 />
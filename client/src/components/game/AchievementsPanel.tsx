@@ -5,35 +5,90 @@ import { Progress } from "@/components/ui/progress";
 import { Card, CardContent } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Trophy } from "lucide-react";
-import { useQuery } from "@tanstack/react-query";
-import { getAchievementsByCategory } from "@/plugins/gameplay/Achievements";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "react-hot-toast";
+import { useGame } from "@/context/GameProvider";
+import { apiRequest } from "@/lib/queryClient";
 
-interface AchievementsPanelProps {
-  claimingRewards: Set<string>;
-  onClaimReward: (id: string, type: string) => void;
+interface RewardLine {
+  type: string;
+  amount?: number;
+  boosterType?: string;
 }
 
-export default function AchievementsPanel({ claimingRewards, onClaimReward }: AchievementsPanelProps) {
+interface AchievementTier {
+  level: number;
+  target: number;
+  name?: string;
+  rewards: RewardLine[];
+}
+
+// GET /api/achievements - hidden achievements only show up once their first tier is reached
+interface AchievementView {
+  id: string;
+  name: string;
+  description: string;
+  category: string;
+  icon?: string;
+  hidden?: boolean;
+  tiers: AchievementTier[];
+  maxLevel: number;
+  progress: number;
+  currentLevel: number;
+  lastClaimedLevel: number;
+  nextTarget: number | null;
+  progressPercent: number;
+  completed: boolean;
+  claimed: boolean;
+  claimableLevels: number[];
+  canClaim: boolean;
+}
+
+const describeReward = (r: RewardLine): string => {
+  switch (r.type) {
+    case 'lp': return `+${(r.amount || 0).toLocaleString()} LP`;
+    case 'energy': return `+${r.amount} Energy`;
+    case 'charisma': return `+${r.amount} Charisma`;
+    case 'booster': return `${(r.boosterType || 'lp_multiplier').replace(/_/g, ' ')} booster${r.amount ? ` (${r.amount} min)` : ''}`;
+    default: return r.type;
+  }
+};
+
+export default function AchievementsPanel() {
+  const { playerData } = useGame();
+  const queryClient = useQueryClient();
   const [achievementFilter, setAchievementFilter] = useState("all");
 
-  // Fetch user data for dynamic calculation
-  const { data: userData, isLoading: userLoading } = useQuery({
-    queryKey: ['/api/user/telegram_8276164651'],
-  });
-  
-  const { data: userStats, isLoading: statsLoading } = useQuery({
-    queryKey: ['/api/stats/telegram_8276164651'],
+  const { data: achievements, isLoading } = useQuery<AchievementView[]>({
+    queryKey: ['/api/achievements', playerData.id],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/achievements?userId=${playerData.id}`);
+      return (await response.json()).data;
+    },
+    enabled: !!playerData.id
   });
 
-  // Calculate dynamic achievements based on real user data
-  const userStatsForCalculation = userData ? {
-    ...userData,
-    totalTaps: userStats?.totalTaps || 0,
-    completedTasks: 0 // TODO: Track completed tasks
-  } : null;
+  const claimMutation = useMutation({
+    mutationFn: async (achievement: AchievementView) => {
+      const response = await apiRequest('POST', `/api/achievements/${achievement.id}/claim`, { userId: playerData.id });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error || 'Failed to claim achievement');
+      return result.data;
+    },
+    onSuccess: (data) => {
+      const tier = data.achievement?.tiers?.[data.level - 1];
+      toast.success(`${data.achievement?.name}${tier?.name ? ` - ${tier.name}` : ''} claimed!`);
+      queryClient.invalidateQueries({ queryKey: ['/api/achievements'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/player'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/user'] });
+    },
+    onError: (error: any) => {
+      toast.error(error.message || 'Failed to claim achievement');
+    }
+  });
 
-  const dynamicAchievements = userStatsForCalculation ? getAchievementsByCategory(achievementFilter, userStatsForCalculation) : [];
-  const isLoading = userLoading || statsLoading;
+  const categories = ["all", ...Array.from(new Set((achievements || []).map(a => a.category)))];
+  const visible = (achievements || []).filter(a => achievementFilter === "all" || a.category === achievementFilter);
 
   return (
     <div className="w-full max-w-2xl h-full flex flex-col">
@@ -48,14 +103,14 @@ export default function AchievementsPanel({ claimingRewards, onClaimReward }: Ac
             <p className="text-sm text-gray-400">Track your progress and unlock rewards</p>
           </div>
           <div className="text-center">
-            <div className="text-2xl font-bold text-white">{dynamicAchievements.filter((a) => a.status === 'completed').length}</div>
+            <div className="text-2xl font-bold text-white">{(achievements || []).filter(a => a.completed).length}</div>
             <div className="text-xs text-gray-400">Completed</div>
           </div>
         </div>
 
         {/* Filter Buttons */}
         <div className="flex gap-2 flex-wrap">
-          {["all", "tapping", "chatting", "progression", "interaction"].map((filter) => (
+          {categories.map((filter) => (
             <Button
               key={filter}
               size="sm"
@@ -81,25 +136,15 @@ export default function AchievementsPanel({ claimingRewards, onClaimReward }: Ac
               <div className="flex justify-center items-center py-8">
                 <div className="text-gray-400">Loading achievements...</div>
               </div>
-            ) : dynamicAchievements.length === 0 ? (
+            ) : visible.length === 0 ? (
               <div className="flex justify-center items-center py-8">
                 <div className="text-gray-400">No achievements available</div>
               </div>
             ) : (
-              dynamicAchievements.map((achievement) => {
-                const currentLevel = achievement.currentLevel || 1;
-                const maxLevel = achievement.maxLevel || 10;
-                const progress = achievement.progress || 0;
-                const levels = achievement.levels || [];
-                
-                const currentLevelData = levels.find((l: any) => l.level === currentLevel);
-                const nextLevelData = levels.find((l: any) => l.level === currentLevel + 1);
-                const target = currentLevelData?.target || achievement.target || 0;
-                const nextTarget = nextLevelData?.target || target;
-                const reward = currentLevelData?.reward || achievement.reward || { type: 'lp', amount: 0 };
-                
-                const isCompleted = currentLevel >= maxLevel || achievement.completed;
-                const isReadyToClaim = progress >= target && !isCompleted;
+              visible.map((achievement) => {
+                // Claims go tier by tier, so show the reward of the next unclaimed tier
+                const claimTier = achievement.tiers[achievement.lastClaimedLevel];
+                const nextTier = achievement.tiers[achievement.currentLevel];
 
                 return (
                   <Card key={achievement.id} className="bg-gray-800/50 border-gray-600/50 hover:border-yellow-500/50 transition-all">
@@ -110,46 +155,42 @@ export default function AchievementsPanel({ claimingRewards, onClaimReward }: Ac
                           <div>
                             <div className="flex items-center gap-2">
                               <h3 className="font-semibold text-white text-sm">{achievement.name}</h3>
-                              <Badge variant="outline" className="text-yellow-400 border-yellow-400">
-                                Level {currentLevel}
-                              </Badge>
+                              {achievement.maxLevel > 1 && (
+                                <Badge variant="outline" className="text-yellow-400 border-yellow-400">
+                                  Tier {achievement.currentLevel}/{achievement.maxLevel}
+                                </Badge>
+                              )}
+                              {achievement.hidden && (
+                                <Badge variant="outline" className="text-pink-400 border-pink-400">Secret</Badge>
+                              )}
                             </div>
                             <p className="text-xs text-gray-400">{achievement.description}</p>
                           </div>
                         </div>
-                        <div className="text-center">
-                          <div className="text-xs text-gray-300">Progress</div>
-                          <div className="text-sm font-bold text-white">{currentLevel}/{maxLevel}</div>
-                        </div>
                       </div>
 
                       <div className="space-y-2">
                         <div className="flex justify-between text-xs">
-                          <span className="text-gray-300">Current Level: {target.toLocaleString()}</span>
-                          <span className="text-white font-mono">{progress.toLocaleString()}/{target.toLocaleString()}</span>
+                          <span className="text-gray-300">{nextTier?.name || (achievement.completed ? 'All tiers reached' : 'Progress')}</span>
+                          <span className="text-white font-mono">
+                            {achievement.progress.toLocaleString()}/{(achievement.nextTarget ?? achievement.tiers[achievement.maxLevel - 1]?.target ?? 0).toLocaleString()}
+                          </span>
                         </div>
-                        <Progress value={(progress / target) * 100} className="h-2" />
-                        
-                        {nextLevelData && !isCompleted && (
-                          <div className="text-xs text-gray-400">
-                            Next Level: {nextTarget.toLocaleString()} ({nextLevelData.reward?.amount || nextTarget} {nextLevelData.reward?.type?.toUpperCase() || "LP"})
-                          </div>
-                        )}
+                        <Progress value={achievement.progressPercent} className="h-2" />
                       </div>
 
                       <div className="flex items-center justify-between mt-3">
                         <span className="text-xs text-green-400">
-                          Reward: {reward.amount || reward} {(reward.type || 'lp').toUpperCase()}
+                          {claimTier ? `Reward: ${claimTier.rewards.map(describeReward).join(', ')}` : 'All rewards claimed'}
                         </span>
                         <Button
                           size="sm"
-                          disabled={!isReadyToClaim || claimingRewards.has(achievement.id)}
-                          onClick={() => onClaimReward(achievement.id, 'achievement')}
+                          disabled={!achievement.canClaim || claimMutation.isPending}
+                          onClick={() => claimMutation.mutate(achievement)}
                           className="bg-yellow-600 hover:bg-yellow-700 text-xs px-3 py-1 disabled:opacity-50"
                         >
-                          {claimingRewards.has(achievement.id) ? 'Claiming...' : 
-                           isCompleted ? 'Completed' :
-                           isReadyToClaim ? 'Claim' : 
+                          {achievement.claimed ? 'Completed' :
+                           achievement.canClaim ? (achievement.claimableLevels.length > 1 ? `Claim (${achievement.claimableLevels.length})` : 'Claim') :
                            'In Progress'}
                         </Button>
                       </div>
@@ -163,4 +204,4 @@ export default function AchievementsPanel({ claimingRewards, onClaimReward }: Ac
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -2,6 +2,7 @@ import React from "react";
 import { Button } from "@/components/ui/button";
 import { useChatNotifications } from "@/hooks/useChatNotifications";
 import { useAuth } from "@/context/AuthContext";
+import { CalendarDays, Shield, Trophy, Users } from "lucide-react";
 
 interface GameTabsPanelProps {
   activePlugin: string;
@@ -103,6 +104,70 @@ export default function GameTabsPanel({
           </div>
         </Button>
 
+        <Button
+          variant="ghost"
+          size="sm"
+          className={`flex flex-col items-center gap-1 p-3 hover:bg-purple-600/20 transition-all duration-200 rounded-xl ${
+            activePlugin === "daily" ? "bg-purple-600/30 text-pink-300" : "text-white/80"
+          }`}
+          onClick={() => onPluginChange("daily")}
+        >
+          <div className="relative flex flex-col items-center">
+            <CalendarDays className="w-10 h-10 text-pink-300" />
+            <span className="text-xs font-medium mt-1">
+              Daily
+            </span>
+          </div>
+        </Button>
+
+        <Button
+          variant="ghost"
+          size="sm"
+          className={`flex flex-col items-center gap-1 p-3 hover:bg-purple-600/20 transition-all duration-200 rounded-xl ${
+            activePlugin === "leaderboard" ? "bg-purple-600/30 text-pink-300" : "text-white/80"
+          }`}
+          onClick={() => onPluginChange("leaderboard")}
+        >
+          <div className="relative flex flex-col items-center">
+            <Trophy className="w-10 h-10 text-yellow-300" />
+            <span className="text-xs font-medium mt-1">
+              Ranks
+            </span>
+          </div>
+        </Button>
+
+        <Button
+          variant="ghost"
+          size="sm"
+          className={`flex flex-col items-center gap-1 p-3 hover:bg-purple-600/20 transition-all duration-200 rounded-xl ${
+            activePlugin === "friends" ? "bg-purple-600/30 text-pink-300" : "text-white/80"
+          }`}
+          onClick={() => onPluginChange("friends")}
+        >
+          <div className="relative flex flex-col items-center">
+            <Users className="w-10 h-10 text-pink-300" />
+            <span className="text-xs font-medium mt-1">
+              Friends
+            </span>
+          </div>
+        </Button>
+
+        <Button
+          variant="ghost"
+          size="sm"
+          className={`flex flex-col items-center gap-1 p-3 hover:bg-purple-600/20 transition-all duration-200 rounded-xl ${
+            activePlugin === "clubs" ? "bg-purple-600/30 text-pink-300" : "text-white/80"
+          }`}
+          onClick={() => onPluginChange("clubs")}
+        >
+          <div className="relative flex flex-col items-center">
+            <Shield className="w-10 h-10 text-purple-300" />
+            <span className="text-xs font-medium mt-1">
+              Club
+            </span>
+          </div>
+        </Button>
+
         <Button
           variant="ghost"
           size="sm"
@@ -1,6 +1,11 @@
-import React from "react";
+import React, { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Progress } from "@/components/ui/progress";
-import { Zap, Heart, Gem, TrendingUp, Sparkles } from "lucide-react";
+import { Zap, Heart, Gem, TrendingUp, Sparkles, UserPlus } from "lucide-react";
+import BoostersModal from "@/plugins/gameplay/Boosters";
+import PlayerStatsModal from "@/plugins/gameplay/PlayerStatsModal";
+import ReferralsModal from "@/plugins/gameplay/ReferralsModal";
+import { fetchActiveBoosters, ActiveBoostersResponse } from "@/plugins/gameplay/BoostersDB";
 
 interface PlayerStatsPanelProps {
   user?: any;
@@ -17,6 +22,21 @@ export default function PlayerStatsPanel({
   onAvatarClick,
   onOpenGallery
 }: PlayerStatsPanelProps) {
+  const [showBoosters, setShowBoosters] = useState(false);
+  const [showStats, setShowStats] = useState(false);
+  const [showReferrals, setShowReferrals] = useState(false);
+  const userId: string | undefined = user?.id;
+
+  const { data: activeBoosters } = useQuery<ActiveBoostersResponse>({
+    queryKey: ["boosters", "active", userId],
+    queryFn: () => fetchActiveBoosters(userId!),
+    enabled: !!userId,
+    refetchInterval: 60000,
+  });
+
+  const boosterCount = activeBoosters?.boosters.length || 0;
+  const lpBoostPercent = Math.round(((activeBoosters?.multipliers.lp_multiplier ?? 1) - 1) * 100);
+
   return (
     <div className="flex justify-between items-center p-2 bg-gradient-to-r from-purple-900/40 via-pink-900/30 to-red-900/40 border-b-2 border-gradient-to-r from-pink-500/50 via-purple-500/50 to-red-500/50 flex-shrink-0 backdrop-blur-md relative overflow-hidden">
       {/* Animated Background Glow */}
@@ -145,7 +165,11 @@ export default function PlayerStatsPanel({
         </div>
 
         {/* Boosters Frame - ULTRA ENHANCED */}
-        <div className="relative px-3 py-3 bg-gradient-to-br from-green-600/30 via-emerald-500/25 to-teal-500/30 border-2 border-green-400/50 rounded-xl shadow-2xl backdrop-blur-md hover:shadow-green-500/40 hover:shadow-2xl transition-all duration-500 group overflow-hidden">
+        <div
+          className="relative px-3 py-3 bg-gradient-to-br from-green-600/30 via-emerald-500/25 to-teal-500/30 border-2 border-green-400/50 rounded-xl shadow-2xl backdrop-blur-md hover:shadow-green-500/40 hover:shadow-2xl transition-all duration-500 group overflow-hidden cursor-pointer"
+          onClick={() => setShowBoosters(true)}
+          title="Open Boosters"
+        >
           <div className="absolute inset-0 bg-gradient-to-r from-green-500/20 via-emerald-400/15 to-transparent rounded-xl blur-md group-hover:blur-lg transition-all duration-300"></div>
           <div className="absolute inset-0 bg-gradient-to-br from-green-400/10 to-teal-500/10 rounded-xl animate-pulse" style={{animationDelay: '1.2s'}}></div>
           <div className="absolute -inset-1 bg-gradient-to-r from-green-500/20 to-teal-500/20 rounded-xl blur-xl opacity-0 group-hover:opacity-100 transition-all duration-500"></div>
@@ -159,12 +183,32 @@ export default function PlayerStatsPanel({
               <Sparkles className="w-3 h-3 text-green-300 drop-shadow-lg animate-pulse" />
             </div>
             <div className="text-transparent bg-gradient-to-r from-green-50 via-emerald-50 to-teal-50 bg-clip-text text-xs font-black tracking-wider drop-shadow-xl">
-              +0% LP [Inactive]
+              {boosterCount > 0
+                ? `+${lpBoostPercent}% LP [${boosterCount} Active]`
+                : '+0% LP [Inactive]'}
             </div>
           </div>
         </div>
       </div>
       
+      {/* Stats Button - lifetime totals and 30-day charts */}
+      <button
+        onClick={() => setShowStats(true)}
+        className="ml-4 px-3 py-2 bg-gradient-to-br from-blue-700/50 via-purple-700/50 to-pink-700/50 border-2 border-blue-500/70 rounded-lg shadow-xl backdrop-blur-md hover:shadow-blue-500/50 hover:shadow-2xl transition-all duration-500 hover:scale-105"
+        title="Open Player Stats"
+      >
+        <TrendingUp className="w-5 h-5 text-blue-300" />
+      </button>
+
+      {/* Referrals Button - invite link and invited friends */}
+      <button
+        onClick={() => setShowReferrals(true)}
+        className="ml-4 px-3 py-2 bg-gradient-to-br from-pink-700/50 via-purple-700/50 to-blue-700/50 border-2 border-pink-500/70 rounded-lg shadow-xl backdrop-blur-md hover:shadow-pink-500/50 hover:shadow-2xl transition-all duration-500 hover:scale-105"
+        title="Invite Friends"
+      >
+        <UserPlus className="w-5 h-5 text-pink-300" />
+      </button>
+
       {/* Dedicated Gallery Button */}
       <button
         onClick={onOpenGallery}
@@ -173,6 +217,10 @@ export default function PlayerStatsPanel({
       >
         <Sparkles className="w-5 h-5 text-purple-300 animate-pulse" />
       </button>
+
+      <BoostersModal isOpen={showBoosters} onClose={() => setShowBoosters(false)} user={user} />
+      <PlayerStatsModal isOpen={showStats} onClose={() => setShowStats(false)} userId={userId} />
+      <ReferralsModal isOpen={showReferrals} onClose={() => setShowReferrals(false)} userId={userId} />
     </div>
   );
 }
\ No newline at end of file
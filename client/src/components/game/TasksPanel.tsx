@@ -5,10 +5,11 @@ import { Progress } from "@/components/ui/progress";
 import { Card, CardContent } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Target, Trophy } from "lucide-react";
+import { ScrollText, Target, Trophy } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
 import { getTasksByCategory } from "@/plugins/gameplay/Task";
 import { getAchievementsByCategory } from "@/plugins/gameplay/Achievements";
+import QuestChains from "@/plugins/gameplay/QuestChains";
 
 interface TasksPanelProps {
   claimingRewards: Set<string>;
@@ -43,11 +44,15 @@ export default function TasksPanel({ claimingRewards, onClaimReward }: TasksPane
     <div className="w-full max-w-2xl h-full flex flex-col overflow-hidden">
       {/* Tasks & Achievements Tabs - Fixed Layout */}
       <Tabs defaultValue="tasks" className="w-full h-full flex flex-col">
-        <TabsList className="grid w-full grid-cols-2 mb-3 flex-shrink-0 bg-black/40 border border-purple-500/30 p-1">
+        <TabsList className="grid w-full grid-cols-3 mb-3 flex-shrink-0 bg-black/40 border border-purple-500/30 p-1">
           <TabsTrigger value="tasks" className="flex items-center gap-2">
             <Target className="w-4 h-4" />
             Tasks
           </TabsTrigger>
+          <TabsTrigger value="quests" className="flex items-center gap-2">
+            <ScrollText className="w-4 h-4" />
+            Quests
+          </TabsTrigger>
           <TabsTrigger value="achievements" className="flex items-center gap-2">
             <Trophy className="w-4 h-4" />
             Achievements
@@ -150,6 +155,27 @@ export default function TasksPanel({ claimingRewards, onClaimReward }: TasksPane
         </div>
       </TabsContent>
 
+      {/* Quests Tab - character quest chains, kept apart from the daily/weekly tasks */}
+      <TabsContent value="quests" className="flex-1 flex flex-col overflow-hidden">
+        <div className="p-3 bg-black/30 border-b border-pink-500/30 rounded-t-lg flex-shrink-0">
+          <div className="flex items-center gap-3">
+            <div className="w-12 h-12 bg-pink-600 rounded-full flex items-center justify-center">
+              <ScrollText className="w-6 h-6 text-white" />
+            </div>
+            <div>
+              <h3 className="text-lg font-semibold text-white">Quests</h3>
+              <p className="text-sm text-gray-400">Story quests from the girls - each step unlocks the next</p>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-hidden">
+          <ScrollArea className="h-full">
+            <QuestChains />
+          </ScrollArea>
+        </div>
+      </TabsContent>
+
       {/* Achievements Tab */}
       <TabsContent value="achievements" className="flex-1 flex flex-col">
         {/* Achievements Header */}
@@ -160,7 +160,7 @@ function gameReducer(state: GameState, action: GameAction): GameState {
           ...state.playerData,
           lp: state.playerData.lp + tapReward,
           energy: Math.max(0, state.playerData.energy - energyCost),
-          xp: state.playerData.xp + Math.floor(tapReward / 10),
+          xp: state.playerData.xp + 1, // Optimistic - the server awards GameSettings.xp.perTap and wins on sync
         },
       };
 
@@ -310,7 +310,7 @@ interface GameContextType {
   levelUp: () => void;
   selectCharacter: (character: any) => void;
   addCharacter: (character: any) => void;
-  claimOfflineIncome: () => void;
+  claimOfflineIncome: () => Promise<any>;
   loadUpgrades: () => Promise<void>;
   loadTasks: () => Promise<void>;
   loadAchievements: () => Promise<void>;
@@ -486,16 +486,17 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
     addCharacter: (character: any) =>
       dispatch({ type: 'ADD_CHARACTER', payload: character }),
 
+    // Server-side claim (boosters, VIP and event multipliers); the local estimate only opens the dialog
     claimOfflineIncome: async () => {
-      dispatch({ type: 'CLAIM_OFFLINE_LP' });
-      
-      try {
-        await apiRequest('PUT', `/api/player/${state.playerData.id}`, {
-          lastTick: new Date()
-        });
-      } catch (error) {
-        console.warn('Failed to sync offline claim:', error);
+      const response = await apiRequest('POST', '/offline/claim', { userId: state.playerData.id });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to claim offline income');
       }
+
+      dispatch({ type: 'CLAIM_OFFLINE_LP' });
+      dispatch({ type: 'SYNC_WITH_SERVER', payload: { lp: result.data.newLp } });
+      return result.data;
     },
 
     resetGame: () =>
@@ -1,6 +1,6 @@
 /**
  * BoostersDB.tsx
- * Last Edited: 2025-08-17 by Steven
+ * Last Edited: 2026-10-19
  *
  *
  *
@@ -11,128 +11,88 @@
 
 
 // This file acts as a standalone data layer for the Boosters plugin.
-// It contains the mock booster data and functions for data manipulation.
+// It talks to the booster API (/api/boosters) - definitions come from GameSettings.boosterEffects
+// on the server, activations from the boosters table.
 // It does NOT contain any React components or UI elements.
 
-import type { Upgrade } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
 
 // --- BOOSTER DATA TYPES ---
 
 export type BoosterData = {
-  id: string;
+  type: string;
   name: string;
   description: string;
-  baseCost: number;
-  hourlyBonus: number;
-  tapBonus: number;
-  maxLevel: number;
-  requiredLevel: number;
-  icon: string;
-  level: number;
+  multiplier: number;
+  maxDuration: number; // minutes
+  cost: number | null; // null = can't be bought (wheel/reward only)
+  stacking: "extend" | "refresh" | "stack";
+  maxStacks: number;
+};
+
+export type ActiveBoosterData = {
+  id: string;
+  type: string;
+  name: string;
+  multiplier: number;
+  activatedAt: string;
+  expiresAt: string;
+  remainingSeconds: number;
 };
 
-// Static booster definitions - in production these would come from backend
-let mockBoosters: BoosterData[] = [
-  {
-    id: "special-talent",
-    name: "Special Talent",
-    description: "Unlock unique abilities and earn more LP.",
-    baseCost: 100,
-    hourlyBonus: 10,
-    tapBonus: 0,
-    maxLevel: 10,
-    requiredLevel: 1,
-    icon: "star",
-    level: 0,
-  },
-  {
-    id: "gift-selection",
-    name: "Gift Selection",
-    description: "Find better gifts and receive more LP.",
-    baseCost: 250,
-    hourlyBonus: 25,
-    tapBonus: 0,
-    maxLevel: 15,
-    requiredLevel: 5,
-    icon: "gift",
-    level: 0,
-  },
-  {
-    id: "active-listening",
-    name: "Active Listening",
-    description: "Your character pays better attention, increasing hourly LP.",
-    baseCost: 500,
-    hourlyBonus: 50,
-    tapBonus: 0,
-    maxLevel: 20,
-    requiredLevel: 10,
-    icon: "headphones",
-    level: 0,
-  },
-  {
-    id: "date-experience",
-    name: "Date Experience",
-    description: "Boosts your LP gain from successful dates.",
-    baseCost: 750,
-    hourlyBonus: 0,
-    tapBonus: 5,
-    maxLevel: 25,
-    requiredLevel: 15,
-    icon: "heart",
-    level: 0,
-  },
-  {
-    id: "cooking-mastery",
-    name: "Cooking Mastery",
-    description: "Improves your cooking skills for a passive LP bonus.",
-    baseCost: 1000,
-    hourlyBonus: 100,
-    tapBonus: 0,
-    maxLevel: 30,
-    requiredLevel: 20,
-    icon: "chefhat",
-    level: 0,
-  },
-];
+export type ActiveBoostersResponse = {
+  boosters: ActiveBoosterData[];
+  multipliers: Record<string, number>; // combined multiplier per booster type
+  serverTime: string;
+};
 
-// --- CORE FUNCTIONS (API Mock) ---
+// --- CORE FUNCTIONS ---
 
 /**
- * Simulates fetching all boosters from the database.
- * @returns {Promise<BoosterData[]>} A promise that resolves with an array of boosters.
+ * Fetches the booster catalog from the server.
+ * @returns {Promise<BoosterData[]>} A promise that resolves with every configured booster type.
  */
 export const fetchBoosters = async (): Promise<BoosterData[]> => {
-  // Simulate a network delay
-  await new Promise(resolve => setTimeout(resolve, 500));
-  return mockBoosters;
+  const res = await apiRequest("GET", "/api/boosters");
+  const json = await res.json();
+  return json.data || [];
 };
 
 /**
- * Simulates creating a new booster in the database.
- * @param {BoosterData} boosterData The new booster's data.
- * @returns {Promise<BoosterData>} A promise that resolves with the created booster.
+ * Fetches the user's currently active boosters with time remaining.
+ * @param {string} userId The player's id (uuid or telegram_<id>).
+ * @returns {Promise<ActiveBoostersResponse>} Active boosters plus combined multipliers per type.
  */
-export const createBooster = async (boosterData: Omit<BoosterData, "id" | "level">): Promise<BoosterData> => {
-  // Simulate a network delay
-  await new Promise(resolve => setTimeout(resolve, 500));
-  const newBooster: BoosterData = {
-    ...boosterData,
-    id: `booster_${Date.now()}`,
-    level: 0,
-  };
-  mockBoosters.push(newBooster);
-  return newBooster;
+export const fetchActiveBoosters = async (userId: string): Promise<ActiveBoostersResponse> => {
+  const res = await apiRequest("GET", `/api/boosters/active/${userId}`);
+  const json = await res.json();
+  return json.data || { boosters: [], multipliers: {}, serverTime: new Date().toISOString() };
 };
 
 /**
- * Simulates deleting a booster from the database.
- * @param {string} boosterId The ID of the booster to delete.
- * @returns {Promise<void>} A promise that resolves when the booster is deleted.
+ * Buys and activates a booster with LP. Same-type boosters follow the server's stacking rule.
+ * @param {string} userId The player's id.
+ * @param {string} type The booster type (e.g. "lp_multiplier").
+ * @returns {Promise<{ booster: ActiveBoosterData; costPaid: number; newLp: number }>} The activated booster and new LP balance.
  */
-export const deleteBooster = async (boosterId: string): Promise<void> => {
-  // Simulate a network delay
-  await new Promise(resolve => setTimeout(resolve, 500));
-  mockBoosters = mockBoosters.filter(b => b.id !== boosterId);
+export const activateBooster = async (
+  userId: string,
+  type: string
+): Promise<{ booster: ActiveBoosterData; costPaid: number; newLp: number }> => {
+  const res = await apiRequest("POST", `/api/boosters/${type}/activate`, { userId });
+  const json = await res.json();
+  return json.data;
 };
 
-
+/**
+ * Formats a remaining duration for display, e.g. "12:05" or "1:02:30".
+ * @param {number} seconds Remaining seconds.
+ * @returns {string} The formatted countdown.
+ */
+export const formatRemaining = (seconds: number): string => {
+  const s = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(s / 3600);
+  const m = Math.floor((s % 3600) / 60);
+  const sec = String(s % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${sec}` : `${m}:${sec}`;
+};
@@ -0,0 +1,268 @@
+/**
+ * Clubs.tsx - Player clubs and their weekly goals
+ * Shows the player's club from /api/clubs/mine (members, roles, goal tiers), or the club browser
+ * with a create form when they aren't in one. Goal rewards are paid to contributing members at week end
+ */
+
+import React, { useState } from 'react';
+import { useGame } from '@/context/GameProvider';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Crown, LogOut, Shield, ShieldCheck, UserMinus } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+
+type ClubRole = 'owner' | 'officer' | 'member';
+
+interface RewardLine {
+  type: string;
+  amount?: number;
+  boosterType?: string;
+}
+
+// GET /api/clubs
+interface ClubSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  memberCount: number;
+  maxMembers: number;
+}
+
+// GET /api/clubs/mine
+interface ClubView extends ClubSummary {
+  period: string;
+  endsAt: string;
+  myRole: ClubRole | null;
+  members: { userId: string; username: string; level: number; role: ClubRole; contributions: Record<string, number>; isMe: boolean }[];
+  goals: { id: string; name: string; metric: string; progress: number; tiers: { tier: number; target: number; rewards: RewardLine[]; reached: boolean }[] }[];
+}
+
+const describeReward = (r: RewardLine): string => {
+  switch (r.type) {
+    case 'lp': return `${(r.amount || 0).toLocaleString()} LP`;
+    case 'energy': return `${r.amount} Energy`;
+    case 'charisma': return `${r.amount} Charisma`;
+    case 'booster': return `${(r.boosterType || 'lp_multiplier').replace(/_/g, ' ')} booster${r.amount ? ` (${r.amount} min)` : ''}`;
+    default: return r.type;
+  }
+};
+
+const RoleIcon = ({ role }: { role: ClubRole }) => {
+  if (role === 'owner') return <Crown className="w-4 h-4 text-yellow-400" />;
+  if (role === 'officer') return <ShieldCheck className="w-4 h-4 text-blue-300" />;
+  return <Shield className="w-4 h-4 text-gray-500" />;
+};
+
+const formatRemaining = (endsAt: string): string => {
+  const ms = Math.max(0, new Date(endsAt).getTime() - Date.now());
+  const days = Math.floor(ms / 86400000);
+  const hours = Math.floor((ms % 86400000) / 3600000);
+  return days > 0 ? `${days}d ${hours}h` : `${hours}h ${Math.floor((ms % 3600000) / 60000)}m`;
+};
+
+export default function Clubs() {
+  const { playerData } = useGame();
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState('');
+  const [newName, setNewName] = useState('');
+
+  const { data: club, isLoading } = useQuery<ClubView | null>({
+    queryKey: ['/api/clubs/mine', playerData.id],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/clubs/mine?userId=${playerData.id}`);
+      return (await response.json()).data;
+    },
+    enabled: !!playerData.id,
+    refetchInterval: 60000
+  });
+
+  const { data: clubs } = useQuery<ClubSummary[]>({
+    queryKey: ['/api/clubs', search],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/clubs${search ? `?search=${encodeURIComponent(search)}` : ''}`);
+      return (await response.json()).data;
+    },
+    enabled: !isLoading && !club
+  });
+
+  // Every write returns { success, data | error }
+  const post = async (url: string, body: Record<string, unknown> = {}) => {
+    const response = await apiRequest('POST', url, { userId: playerData.id, ...body });
+    const result = await response.json();
+    if (!result.success) throw new Error(result.error || 'Request failed');
+    return result.data;
+  };
+
+  const onError = (error: any) => toast.error(error.message || 'Something went wrong');
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['/api/clubs'] });
+  const refreshMine = () => queryClient.invalidateQueries({ queryKey: ['/api/clubs/mine'] });
+
+  const createMutation = useMutation({
+    mutationFn: (name: string) => post('/api/clubs', { name }),
+    onSuccess: () => { toast.success('Club created!'); setNewName(''); refreshMine(); refresh(); },
+    onError
+  });
+
+  const joinMutation = useMutation({
+    mutationFn: (clubId: string) => post(`/api/clubs/${clubId}/join`),
+    onSuccess: (data) => { toast.success(`Welcome to ${data?.name}!`); refreshMine(); },
+    onError
+  });
+
+  const leaveMutation = useMutation({
+    mutationFn: () => post('/api/clubs/leave'),
+    onSuccess: () => { toast.success('You left the club'); refreshMine(); refresh(); },
+    onError
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: ({ memberId, role }: { memberId: string; role: ClubRole }) => post(`/api/clubs/${club!.id}/members/${memberId}/role`, { role }),
+    onSuccess: refreshMine,
+    onError
+  });
+
+  const kickMutation = useMutation({
+    mutationFn: (memberId: string) => post(`/api/clubs/${club!.id}/members/${memberId}/kick`),
+    onSuccess: refreshMine,
+    onError
+  });
+
+  if (isLoading) {
+    return <div className="text-center text-gray-400 py-8">Loading club...</div>;
+  }
+
+  // Not in a club - browse or create one
+  if (!club) {
+    return (
+      <Card className="w-full max-w-2xl h-full flex flex-col bg-black/40 border-purple-500/30 text-white">
+        <CardHeader className="pb-2 flex-shrink-0">
+          <CardTitle className="flex items-center gap-2">
+            <Shield className="w-5 h-5 text-purple-300" />
+            Clubs
+          </CardTitle>
+          <CardDescription className="text-gray-400">Team up for weekly goals - every member who helps gets the rewards</CardDescription>
+          <form
+            className="flex gap-2 pt-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (newName.trim()) createMutation.mutate(newName.trim());
+            }}
+          >
+            <Input value={newName} onChange={(e) => setNewName(e.target.value)} placeholder="New club name" maxLength={24} className="bg-black/40 border-purple-500/40 text-white" />
+            <Button type="submit" size="sm" disabled={!newName.trim() || createMutation.isPending} className="bg-purple-600 hover:bg-purple-700 text-white">
+              Create
+            </Button>
+          </form>
+          <Input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Search clubs" className="bg-black/40 border-purple-500/40 text-white" />
+        </CardHeader>
+        <CardContent className="flex-1 overflow-hidden">
+          <ScrollArea className="h-full">
+            <div className="space-y-1.5 pr-2">
+              {(clubs || []).length === 0 ? (
+                <div className="text-center text-gray-400 py-8">No clubs found - start one!</div>
+              ) : clubs!.map(c => (
+                <div key={c.id} className="flex items-center gap-3 rounded-lg border border-purple-500/20 bg-black/30 px-3 py-2">
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-semibold truncate">{c.name}</div>
+                    {c.description && <div className="text-xs text-gray-400 truncate">{c.description}</div>}
+                  </div>
+                  <Badge variant="outline" className="border-purple-400 text-purple-200">{c.memberCount}/{c.maxMembers}</Badge>
+                  <Button size="sm" disabled={c.memberCount >= c.maxMembers || joinMutation.isPending} onClick={() => joinMutation.mutate(c.id)} className="bg-pink-600 hover:bg-pink-700 text-xs">
+                    Join
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const isOwner = club.myRole === 'owner';
+  const canKick = (role: ClubRole) => isOwner ? role !== 'owner' : club.myRole === 'officer' && role === 'member';
+
+  return (
+    <Card className="w-full max-w-2xl h-full flex flex-col bg-black/40 border-purple-500/30 text-white">
+      <CardHeader className="pb-2 flex-shrink-0">
+        <CardTitle className="flex items-center gap-2">
+          <Shield className="w-5 h-5 text-purple-300" />
+          {club.name}
+          <Badge variant="outline" className="ml-auto border-purple-400 text-purple-200">{club.memberCount}/{club.maxMembers}</Badge>
+          <Button size="sm" variant="ghost" title="Leave club" disabled={leaveMutation.isPending} onClick={() => leaveMutation.mutate()} className="text-gray-400 hover:text-red-300">
+            <LogOut className="w-4 h-4" />
+          </Button>
+        </CardTitle>
+        <CardDescription className="text-gray-400">
+          {club.description || 'Weekly goals'} · ends in {formatRemaining(club.endsAt)}
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="flex-1 overflow-hidden">
+        <ScrollArea className="h-full">
+          <div className="space-y-4 pr-2">
+            {/* Weekly goals */}
+            {club.goals.map(goal => {
+              const next = goal.tiers.find(t => !t.reached);
+              const target = next?.target ?? goal.tiers[goal.tiers.length - 1]?.target ?? 0;
+              return (
+                <div key={goal.id} className="rounded-md bg-purple-900/30 border border-purple-500/30 p-3 space-y-2">
+                  <div className="flex justify-between text-sm">
+                    <span className="font-semibold">{goal.name}</span>
+                    <span className="font-mono text-xs">{Math.floor(goal.progress).toLocaleString()}/{target.toLocaleString()}</span>
+                  </div>
+                  <Progress value={target ? Math.min(100, (goal.progress / target) * 100) : 0} className="h-2" />
+                  <div className="space-y-0.5">
+                    {goal.tiers.map(tier => (
+                      <div key={tier.tier} className={`text-xs ${tier.reached ? 'text-green-400' : 'text-gray-400'}`}>
+                        Tier {tier.tier} ({tier.target.toLocaleString()}): {tier.rewards.map(describeReward).join(', ')}{tier.reached && ' ✓'}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+
+            {/* Members */}
+            <div className="space-y-1.5">
+              <div className="text-xs font-semibold text-purple-300">Members</div>
+              {club.members.map(member => (
+                <div key={member.userId} className={`flex items-center gap-2 rounded-lg border px-3 py-2 ${member.isMe ? 'border-pink-400 bg-pink-900/30' : 'border-purple-500/20 bg-black/30'}`}>
+                  <RoleIcon role={member.role} />
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-semibold truncate">{member.username}</div>
+                    <div className="text-xs text-gray-400">
+                      Level {member.level} · {club.goals.map(g => `${Math.floor(member.contributions[g.id] || 0).toLocaleString()} ${g.metric}`).join(' · ')}
+                    </div>
+                  </div>
+                  {isOwner && member.role !== 'owner' && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={roleMutation.isPending}
+                      onClick={() => roleMutation.mutate({ memberId: member.userId, role: member.role === 'officer' ? 'member' : 'officer' })}
+                      className="bg-transparent border-blue-500/50 text-blue-300 hover:bg-blue-600/20 text-xs h-7"
+                    >
+                      {member.role === 'officer' ? 'Demote' : 'Promote'}
+                    </Button>
+                  )}
+                  {canKick(member.role) && (
+                    <Button size="sm" variant="ghost" title="Remove from club" disabled={kickMutation.isPending} onClick={() => kickMutation.mutate(member.userId)} className="text-gray-400 hover:text-red-300">
+                      <UserMinus className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,313 @@
+/**
+ * Friends.tsx - Friend list, requests and daily gifts
+ * Data comes from /api/friends and /api/gifts; each friend can be sent one gift (energy or an item)
+ * per daily reset, which they claim from their pending gifts
+ */
+
+import React, { useState } from 'react';
+import { useGame } from '@/context/GameProvider';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Check, Gift, UserMinus, UserPlus, Users, X, Zap } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+
+interface RewardLine {
+  type: string;
+  amount?: number;
+  itemId?: string;
+}
+
+interface FriendRequest {
+  id: string;
+  userId: string;
+  username: string;
+  displayPicture: string | null;
+  level: number;
+  createdAt: string;
+}
+
+// GET /api/friends
+interface FriendsData {
+  friends: {
+    userId: string;
+    username: string;
+    displayPicture: string | null;
+    level: number;
+    selectedCharacter: { id: string; name: string; imageUrl: string | null } | null;
+    since: string;
+    giftSentToday: boolean;
+  }[];
+  incoming: FriendRequest[];
+  outgoing: FriendRequest[];
+  maxFriends: number;
+  gifts: { maxEnergy: number; items: { itemId: string; name: string; amount?: number }[]; nextResetAt: string };
+}
+
+// GET /api/gifts
+interface PendingGift {
+  id: string;
+  from: { userId: string; username: string; displayPicture: string | null };
+  kind: string;
+  rewards: RewardLine[];
+  sentAt: string;
+}
+
+const describeReward = (r: RewardLine): string => {
+  switch (r.type) {
+    case 'energy': return `${r.amount} Energy`;
+    case 'item': return `${r.amount && r.amount > 1 ? `${r.amount}x ` : ''}${(r.itemId || 'item').replace(/_/g, ' ')}`;
+    case 'lp': return `${(r.amount || 0).toLocaleString()} LP`;
+    default: return r.type;
+  }
+};
+
+function PlayerAvatar({ username, displayPicture }: { username: string; displayPicture: string | null }) {
+  return displayPicture ? (
+    <img src={displayPicture} alt={username} className="w-9 h-9 rounded-full object-cover border border-purple-400/50" />
+  ) : (
+    <div className="w-9 h-9 rounded-full bg-purple-700/50 flex items-center justify-center text-xs font-bold">
+      {username.charAt(0).toUpperCase()}
+    </div>
+  );
+}
+
+export default function Friends() {
+  const { playerData } = useGame();
+  const queryClient = useQueryClient();
+  const [target, setTarget] = useState('');
+
+  const { data: friends, isLoading } = useQuery<FriendsData>({
+    queryKey: ['/api/friends', playerData.id],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/friends?userId=${playerData.id}`);
+      return (await response.json()).data;
+    },
+    enabled: !!playerData.id,
+    refetchInterval: 60000
+  });
+
+  const { data: gifts } = useQuery<PendingGift[]>({
+    queryKey: ['/api/gifts', playerData.id],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/gifts?userId=${playerData.id}`);
+      return (await response.json()).data;
+    },
+    enabled: !!playerData.id,
+    refetchInterval: 60000
+  });
+
+  // Every write returns { success, data | error }
+  const post = async (url: string, body: Record<string, unknown>) => {
+    const response = await apiRequest('POST', url, { userId: playerData.id, ...body });
+    const result = await response.json();
+    if (!result.success) throw new Error(result.error || 'Request failed');
+    return result.data;
+  };
+
+  const onError = (error: any) => toast.error(error.message || 'Something went wrong');
+  const refreshFriends = () => queryClient.invalidateQueries({ queryKey: ['/api/friends'] });
+
+  const requestMutation = useMutation({
+    // Referral codes are 8 upper-case characters (optionally ref_...), anything else is a username
+    mutationFn: (value: string) => post('/api/friends/request', /^(ref_)?[A-Z0-9]{8}$/.test(value) ? { code: value } : { username: value }),
+    onSuccess: (data) => {
+      toast.success(data.friendship?.status === 'accepted' ? 'You are now friends!' : 'Friend request sent');
+      setTarget('');
+      refreshFriends();
+    },
+    onError
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: ({ requestId, accept }: { requestId: string; accept: boolean }) => post(`/api/friends/requests/${requestId}/respond`, { accept }),
+    onSuccess: (_data, { accept }) => {
+      toast.success(accept ? 'Friend request accepted' : 'Friend request declined');
+      refreshFriends();
+    },
+    onError
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (friendId: string) => post('/api/friends/remove', { friendId }),
+    onSuccess: refreshFriends,
+    onError
+  });
+
+  const sendGiftMutation = useMutation({
+    mutationFn: (gift: { friendId: string; type: 'energy' | 'item'; amount?: number; itemId?: string }) => post('/api/gifts/send', gift),
+    onSuccess: () => {
+      toast.success('Gift sent!');
+      refreshFriends();
+    },
+    onError
+  });
+
+  const claimGiftMutation = useMutation({
+    mutationFn: (giftId: string) => post(`/api/gifts/${giftId}/claim`, {}),
+    onSuccess: (data) => {
+      toast.success(`Received ${(data.gift?.rewards || []).map(describeReward).join(', ')}`);
+      queryClient.invalidateQueries({ queryKey: ['/api/gifts'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/player'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/user'] });
+    },
+    onError
+  });
+
+  const giftItems = friends?.gifts.items || [];
+
+  return (
+    <Card className="w-full max-w-2xl h-full flex flex-col bg-black/40 border-purple-500/30 text-white">
+      <CardHeader className="pb-2 flex-shrink-0">
+        <CardTitle className="flex items-center gap-2">
+          <Users className="w-5 h-5 text-pink-300" />
+          Friends
+          {friends && (
+            <Badge variant="outline" className="ml-auto border-purple-400 text-purple-200">
+              {friends.friends.length}/{friends.maxFriends}
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription className="text-gray-400">Send each friend one gift per day</CardDescription>
+
+        <form
+          className="flex gap-2 pt-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (target.trim()) requestMutation.mutate(target.trim());
+          }}
+        >
+          <Input
+            value={target}
+            onChange={(e) => setTarget(e.target.value)}
+            placeholder="Username or referral code"
+            className="bg-black/40 border-purple-500/40 text-white"
+          />
+          <Button type="submit" size="sm" disabled={!target.trim() || requestMutation.isPending} className="bg-purple-600 hover:bg-purple-700 text-white">
+            <UserPlus className="w-4 h-4" />
+          </Button>
+        </form>
+      </CardHeader>
+
+      <CardContent className="flex-1 overflow-hidden">
+        <ScrollArea className="h-full">
+          <div className="space-y-4 pr-2">
+            {/* Pending gifts */}
+            {gifts && gifts.length > 0 && (
+              <div className="space-y-1.5">
+                <div className="text-xs font-semibold text-pink-300">Gifts for you</div>
+                {gifts.map(gift => (
+                  <div key={gift.id} className="flex items-center gap-3 rounded-lg border border-pink-400/40 bg-pink-900/20 px-3 py-2">
+                    <Gift className="w-5 h-5 text-pink-300" />
+                    <div className="flex-1 min-w-0 text-sm">
+                      <span className="font-semibold">{gift.from.username}</span> sent you <span className="text-green-400">{gift.rewards.map(describeReward).join(', ')}</span>
+                    </div>
+                    <Button size="sm" disabled={claimGiftMutation.isPending} onClick={() => claimGiftMutation.mutate(gift.id)} className="bg-pink-600 hover:bg-pink-700 text-xs">
+                      Claim
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Incoming requests */}
+            {friends && friends.incoming.length > 0 && (
+              <div className="space-y-1.5">
+                <div className="text-xs font-semibold text-purple-300">Friend requests</div>
+                {friends.incoming.map(request => (
+                  <div key={request.id} className="flex items-center gap-3 rounded-lg border border-purple-500/30 bg-black/30 px-3 py-2">
+                    <PlayerAvatar username={request.username} displayPicture={request.displayPicture} />
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-semibold truncate">{request.username}</div>
+                      <div className="text-xs text-gray-400">Level {request.level}</div>
+                    </div>
+                    <Button size="sm" disabled={respondMutation.isPending} onClick={() => respondMutation.mutate({ requestId: request.id, accept: true })} className="bg-green-600 hover:bg-green-700">
+                      <Check className="w-4 h-4" />
+                    </Button>
+                    <Button size="sm" variant="outline" disabled={respondMutation.isPending} onClick={() => respondMutation.mutate({ requestId: request.id, accept: false })} className="bg-transparent border-red-500/50 text-red-300 hover:bg-red-600/20">
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Friend list */}
+            <div className="space-y-1.5">
+              {isLoading ? (
+                <div className="text-center text-gray-400 py-8">Loading friends...</div>
+              ) : !friends || friends.friends.length === 0 ? (
+                <div className="text-center text-gray-400 py-8">No friends yet - add someone by their username!</div>
+              ) : friends.friends.map(friend => (
+                <div key={friend.userId} className="rounded-lg border border-purple-500/20 bg-black/30 px-3 py-2 space-y-2">
+                  <div className="flex items-center gap-3">
+                    <PlayerAvatar username={friend.username} displayPicture={friend.displayPicture} />
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-semibold truncate">{friend.username}</div>
+                      <div className="text-xs text-gray-400">
+                        Level {friend.level}{friend.selectedCharacter && ` · with ${friend.selectedCharacter.name}`}
+                      </div>
+                    </div>
+                    {friend.selectedCharacter?.imageUrl && (
+                      <img src={friend.selectedCharacter.imageUrl} alt={friend.selectedCharacter.name} className="w-9 h-9 rounded-md object-cover border border-pink-400/40" />
+                    )}
+                    <Button size="sm" variant="ghost" title="Remove friend" disabled={removeMutation.isPending} onClick={() => removeMutation.mutate(friend.userId)} className="text-gray-400 hover:text-red-300">
+                      <UserMinus className="w-4 h-4" />
+                    </Button>
+                  </div>
+
+                  <div className="flex gap-1.5 flex-wrap">
+                    {friend.giftSentToday ? (
+                      <span className="text-xs text-gray-500">Gift sent today</span>
+                    ) : (
+                      <>
+                        <Button
+                          size="sm"
+                          disabled={sendGiftMutation.isPending}
+                          onClick={() => sendGiftMutation.mutate({ friendId: friend.userId, type: 'energy', amount: friends.gifts.maxEnergy })}
+                          className="bg-blue-600 hover:bg-blue-700 text-xs h-7"
+                        >
+                          <Zap className="w-3 h-3 mr-1" /> {friends.gifts.maxEnergy} Energy
+                        </Button>
+                        {giftItems.map(item => (
+                          <Button
+                            key={item.itemId}
+                            size="sm"
+                            disabled={sendGiftMutation.isPending}
+                            onClick={() => sendGiftMutation.mutate({ friendId: friend.userId, type: 'item', itemId: item.itemId })}
+                            className="bg-pink-600 hover:bg-pink-700 text-xs h-7"
+                          >
+                            <Gift className="w-3 h-3 mr-1" /> {item.name}
+                          </Button>
+                        ))}
+                      </>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {/* Outgoing requests */}
+            {friends && friends.outgoing.length > 0 && (
+              <div className="space-y-1.5">
+                <div className="text-xs font-semibold text-gray-400">Sent requests</div>
+                {friends.outgoing.map(request => (
+                  <div key={request.id} className="flex items-center gap-3 rounded-lg border border-gray-600/30 bg-black/20 px-3 py-1.5 text-sm">
+                    <span className="flex-1 truncate text-gray-300">{request.username}</span>
+                    <Button size="sm" variant="ghost" disabled={removeMutation.isPending} onClick={() => removeMutation.mutate(request.userId)} className="text-xs text-gray-400 hover:text-red-300">
+                      Cancel
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,243 @@
+/**
+ * Leaderboard.tsx - Global and weekly leaderboards
+ * Boards come from /api/leaderboards; ranks are snapshots refreshed every few minutes, so the
+ * player's own row is shown even when they are outside the top entries
+ */
+
+import React, { useState } from 'react';
+import { useGame } from '@/context/GameProvider';
+import { useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Crown, Medal, Trophy } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+
+type LeaderboardWindow = 'global' | 'weekly';
+
+interface RewardLine {
+  type: string;
+  amount?: number;
+  boosterType?: string;
+}
+
+// GET /api/leaderboards
+interface LeaderboardDefinition {
+  id: string;
+  name: string;
+  description: string;
+  unit: string;
+  windows: LeaderboardWindow[];
+  perCharacter?: boolean;
+  characters?: { id: string; name: string }[];
+}
+
+interface LeaderboardRow {
+  rank: number;
+  userId: string;
+  score: number;
+  username: string;
+  displayPicture: string | null;
+  level: number;
+  isMe: boolean;
+}
+
+// GET /api/leaderboards/:board
+interface LeaderboardView {
+  board: string;
+  window: LeaderboardWindow;
+  period: string;
+  season: { period: string; startsAt: string; endsAt: string; closed: boolean; rewards: { fromRank: number; toRank: number; rewards: RewardLine[] }[] } | null;
+  updatedAt: string | null;
+  totalPlayers: number;
+  entries: LeaderboardRow[];
+  me: LeaderboardRow | null;
+  around: LeaderboardRow[];
+}
+
+const describeReward = (r: RewardLine): string => {
+  switch (r.type) {
+    case 'lp': return `${(r.amount || 0).toLocaleString()} LP`;
+    case 'energy': return `${r.amount} Energy`;
+    case 'charisma': return `${r.amount} Charisma`;
+    case 'booster': return `${(r.boosterType || 'lp_multiplier').replace(/_/g, ' ')} booster${r.amount ? ` (${r.amount} min)` : ''}`;
+    default: return r.type;
+  }
+};
+
+const formatRemaining = (endsAt: string): string => {
+  const ms = Math.max(0, new Date(endsAt).getTime() - Date.now());
+  const days = Math.floor(ms / 86400000);
+  const hours = Math.floor((ms % 86400000) / 3600000);
+  return days > 0 ? `${days}d ${hours}h` : `${hours}h ${Math.floor((ms % 3600000) / 60000)}m`;
+};
+
+const RankIcon = ({ rank }: { rank: number }) => {
+  if (rank === 1) return <Crown className="w-5 h-5 text-yellow-400" />;
+  if (rank === 2) return <Medal className="w-5 h-5 text-gray-300" />;
+  if (rank === 3) return <Medal className="w-5 h-5 text-amber-600" />;
+  return <span className="w-5 text-center text-sm font-bold text-gray-400">{rank}</span>;
+};
+
+function Row({ row, unit }: { row: LeaderboardRow; unit: string }) {
+  return (
+    <div className={`flex items-center gap-3 rounded-lg border px-3 py-2 ${row.isMe ? 'border-pink-400 bg-pink-900/30' : 'border-purple-500/20 bg-black/30'}`}>
+      <RankIcon rank={row.rank} />
+      {row.displayPicture ? (
+        <img src={row.displayPicture} alt={row.username} className="w-8 h-8 rounded-full object-cover border border-purple-400/50" />
+      ) : (
+        <div className="w-8 h-8 rounded-full bg-purple-700/50 flex items-center justify-center text-xs font-bold">
+          {row.username.charAt(0).toUpperCase()}
+        </div>
+      )}
+      <div className="flex-1 min-w-0">
+        <div className="text-sm font-semibold truncate">{row.username}{row.isMe && ' (you)'}</div>
+        <div className="text-xs text-gray-400">Level {row.level}</div>
+      </div>
+      <div className="text-sm font-bold text-pink-200">{row.score.toLocaleString()} <span className="text-xs text-gray-400">{unit}</span></div>
+    </div>
+  );
+}
+
+export default function Leaderboard() {
+  const { playerData } = useGame();
+  const [boardId, setBoardId] = useState('lp');
+  const [timeWindow, setTimeWindow] = useState<LeaderboardWindow>('weekly');
+  const [characterId, setCharacterId] = useState<string | null>(null);
+
+  const { data: boards } = useQuery<LeaderboardDefinition[]>({
+    queryKey: ['/api/leaderboards'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/leaderboards');
+      return (await response.json()).data;
+    }
+  });
+
+  const board = boards?.find(b => b.id === boardId);
+  const activeWindow = board && !board.windows.includes(timeWindow) ? board.windows[0] : timeWindow;
+  const activeCharacter = board?.perCharacter ? (characterId || board.characters?.[0]?.id || null) : null;
+
+  const { data: leaderboard, isLoading } = useQuery<LeaderboardView>({
+    queryKey: ['/api/leaderboards', boardId, activeWindow, activeCharacter, playerData.id],
+    queryFn: async () => {
+      const params = new URLSearchParams({ window: activeWindow });
+      if (playerData.id) params.set('userId', playerData.id);
+      if (activeCharacter) params.set('characterId', activeCharacter);
+      const response = await apiRequest('GET', `/api/leaderboards/${boardId}?${params}`);
+      return (await response.json()).data;
+    },
+    enabled: !!board && (!board.perCharacter || !!activeCharacter),
+    refetchInterval: 60000
+  });
+
+  const unit = board?.unit || '';
+  const meInTop = !!leaderboard?.entries.some(e => e.isMe);
+
+  return (
+    <Card className="w-full max-w-2xl h-full flex flex-col bg-black/40 border-purple-500/30 text-white">
+      <CardHeader className="pb-2 flex-shrink-0">
+        <CardTitle className="flex items-center gap-2">
+          <Trophy className="w-5 h-5 text-yellow-400" />
+          Leaderboards
+          {leaderboard && (
+            <Badge variant="outline" className="ml-auto border-purple-400 text-purple-200">
+              {leaderboard.totalPlayers.toLocaleString()} players
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription className="text-gray-400">{board?.description}</CardDescription>
+
+        <div className="flex gap-2 flex-wrap pt-2">
+          {(boards || []).map(b => (
+            <Button
+              key={b.id}
+              size="sm"
+              variant={boardId === b.id ? 'default' : 'outline'}
+              onClick={() => setBoardId(b.id)}
+              className={boardId === b.id
+                ? 'bg-purple-600 hover:bg-purple-700 text-white'
+                : 'bg-transparent border-purple-500/50 text-purple-300 hover:bg-purple-600/20'}
+            >
+              {b.name}
+            </Button>
+          ))}
+        </div>
+
+        <div className="flex gap-2 flex-wrap items-center">
+          {board?.windows.map(w => (
+            <Button
+              key={w}
+              size="sm"
+              variant={activeWindow === w ? 'default' : 'outline'}
+              onClick={() => setTimeWindow(w)}
+              className={activeWindow === w
+                ? 'bg-pink-600 hover:bg-pink-700 text-white text-xs'
+                : 'bg-transparent border-pink-500/50 text-pink-300 hover:bg-pink-600/20 text-xs'}
+            >
+              {w === 'weekly' ? 'This week' : 'All time'}
+            </Button>
+          ))}
+          {board?.perCharacter && board.characters?.map(c => (
+            <Button
+              key={c.id}
+              size="sm"
+              variant={activeCharacter === c.id ? 'default' : 'outline'}
+              onClick={() => setCharacterId(c.id)}
+              className={activeCharacter === c.id
+                ? 'bg-pink-600 hover:bg-pink-700 text-white text-xs'
+                : 'bg-transparent border-pink-500/50 text-pink-300 hover:bg-pink-600/20 text-xs'}
+            >
+              {c.name}
+            </Button>
+          ))}
+        </div>
+
+        {leaderboard?.season && (
+          <div className="rounded-md bg-purple-900/30 border border-purple-500/30 p-2 text-xs space-y-1">
+            <div className="flex justify-between">
+              <span>Season {leaderboard.season.period}</span>
+              <span className="text-pink-300">{leaderboard.season.closed ? 'Closed' : `Ends in ${formatRemaining(leaderboard.season.endsAt)}`}</span>
+            </div>
+            {leaderboard.season.rewards.map(tier => (
+              <div key={tier.fromRank} className="text-gray-300">
+                {tier.fromRank === tier.toRank ? `#${tier.fromRank}` : `#${tier.fromRank}-${tier.toRank}`}: <span className="text-green-400">{tier.rewards.map(describeReward).join(', ')}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardHeader>
+
+      <CardContent className="flex-1 overflow-hidden flex flex-col gap-2">
+        <ScrollArea className="flex-1">
+          <div className="space-y-1.5 pr-2">
+            {isLoading ? (
+              <div className="text-center text-gray-400 py-8">Loading ranks...</div>
+            ) : !leaderboard || leaderboard.entries.length === 0 ? (
+              <div className="text-center text-gray-400 py-8">No ranks yet - be the first!</div>
+            ) : (
+              leaderboard.entries.map(row => <Row key={row.userId} row={row} unit={unit} />)
+            )}
+          </div>
+        </ScrollArea>
+
+        {/* Your rank when outside the top entries, with the players around you */}
+        {leaderboard && !meInTop && (
+          <div className="flex-shrink-0 border-t border-purple-500/30 pt-2 space-y-1.5">
+            {leaderboard.me ? (
+              (leaderboard.around.length > 0 ? leaderboard.around : [leaderboard.me]).map(row => <Row key={row.userId} row={row} unit={unit} />)
+            ) : (
+              <div className="text-center text-xs text-gray-400">You're not ranked on this board yet</div>
+            )}
+          </div>
+        )}
+
+        {leaderboard?.updatedAt && (
+          <div className="flex-shrink-0 text-right text-[10px] text-gray-500">
+            Updated {new Date(leaderboard.updatedAt).toLocaleTimeString()}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,9 +1,9 @@
 /**
  * LevelUp.tsx - API-Only Level Up System
- * Last Edited: 2025-10-24 by Assistant - Purged hardcoded arrays, JSON-first architecture
+ * Claims every qualifying level at once (/api/level/claim) and celebrates the result
  */
 
-import React from 'react';
+import React, { useState } from 'react';
 import { useGame } from '@/context/GameProvider';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
@@ -11,7 +11,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Trophy, Gift, CheckCircle, AlertCircle, Lock, Unlock } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Trophy, Gift, CheckCircle, Sparkles, MessageCircle, Unlock } from 'lucide-react';
 import { toast } from 'react-hot-toast';
 import { apiRequest } from '@/lib/queryClient';
 
@@ -19,35 +20,106 @@ interface LevelUpProps {
   onLevelUp?: (newLevel: number) => void;
 }
 
+interface RewardLine {
+  type: string;
+  amount?: number;
+  tag?: string;
+  feature?: string;
+  characterId?: string;
+  boosterType?: string;
+  upgradeId?: string;
+  itemId?: string;
+  applied?: boolean;
+  note?: string;
+}
+
+// GET /api/level/next
+interface NextLevelInfo {
+  currentLevel: number;
+  maxed?: boolean;
+  nextLevel?: number;
+  xpRequired?: number;
+  currentXP?: number;
+  currentLevelXP?: number;
+  remaining?: number;
+  percent?: number;
+  name?: string;
+  icon?: string;
+  color?: string;
+  unlockPreview?: RewardLine[];
+  functions?: (string | { handler: string })[];
+  unlocks?: string[];
+  claimableLevels?: number;
+  claimableToLevel?: number;
+}
+
+// POST /api/level/claim
+interface LevelClaim {
+  newLevel: number;
+  previousLevel: number;
+  levelsGained: number;
+  levels: {
+    level: number;
+    name?: string;
+    icon?: string;
+    color?: string;
+    granted: RewardLine[];
+    functions: { function: string; handler: string; applied: boolean; note?: string }[];
+  }[];
+  rewards: { lp: number; energy: number; charisma: number };
+  features: string[];
+  messages: { characterId: string; text: string }[];
+  error?: string;
+}
+
+const describeReward = (r: RewardLine): string => {
+  switch (r.type) {
+    case 'lp': return `+${(r.amount || 0).toLocaleString()} LP`;
+    case 'energy': return `+${r.amount} Energy`;
+    case 'charisma': return `+${r.amount} Charisma`;
+    case 'booster': return `${r.boosterType} booster${r.amount ? ` (${r.amount} min)` : ''}`;
+    case 'mediaTagUnlock': return `Unlock: ${r.tag}`;
+    case 'featureUnlock': return `Feature: ${(r.feature || '').replace(/_/g, ' ')}`;
+    case 'character': return 'New character';
+    case 'upgradeId': return `${r.upgradeId} +${r.amount}`;
+    case 'item': return `${r.itemId} ×${r.amount}`;
+    default: return r.type;
+  }
+};
+
+const describeFunction = (fn: string | { handler: string }): string => {
+  const name = typeof fn === 'string' ? fn : fn.handler;
+  return name.replace(/[_:]/g, ' ');
+};
+
 export default function LevelUp({ onLevelUp }: LevelUpProps) {
   const { playerData } = useGame();
   const queryClient = useQueryClient();
+  const [celebration, setCelebration] = useState<LevelClaim | null>(null);
 
-  // Fetch level requirements from API
-  const { data: levelData, isLoading } = useQuery({
-    queryKey: ['/api/level', playerData.id],
+  // Next level, LP progress and how many levels a claim would grant
+  const { data: levelData, isLoading } = useQuery<NextLevelInfo>({
+    queryKey: ['/api/level/next', playerData.id],
     queryFn: async () => {
-      const response = await apiRequest('GET', `/api/level?userId=${playerData.id}`);
-      return await response.json();
+      const response = await apiRequest('GET', `/api/level/next?userId=${playerData.id}`);
+      return (await response.json()).data;
     },
     enabled: !!playerData.id
   });
 
-  // Level up mutation
+  // Claims every level the player qualifies for in one go
   const levelUpMutation = useMutation({
-    mutationFn: async () => {
+    mutationFn: async (): Promise<LevelClaim> => {
       const response = await apiRequest('POST', '/api/level/claim', {
         userId: playerData.id
       });
-      if (!response.ok) {
-        throw new Error('Failed to level up');
-      }
-      return await response.json();
+      return (await response.json()).data;
     },
     onSuccess: (data) => {
-      toast.success(`Congratulations! You've reached level ${data.newLevel}!`);
+      setCelebration(data);
+      if (data.error) toast.error(`Stopped at level ${data.newLevel}: ${data.error}`);
       onLevelUp?.(data.newLevel);
-      queryClient.invalidateQueries({ queryKey: ['/api/level'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/level/next'] });
       queryClient.invalidateQueries({ queryKey: ['/api/player'] });
       queryClient.invalidateQueries({ queryKey: ['/api/user'] });
     },
@@ -64,11 +136,15 @@ export default function LevelUp({ onLevelUp }: LevelUpProps) {
     );
   }
 
-  const xpPercentage = levelData?.xpPercentage || 0;
-  const canLevelUp = levelData?.canLevelUp || false;
-  const nextLevel = levelData?.nextLevel || playerData.level + 1;
-  const requirements = levelData?.requirements || [];
-  const previewRewards = levelData?.previewRewards || {};
+  const currentLevel = levelData?.currentLevel ?? playerData.level;
+  const xpRequired = levelData?.xpRequired || 0;
+  const currentXP = levelData?.currentXP ?? playerData.xp;
+  const xpPercentage = levelData?.maxed ? 100 : levelData?.percent ?? 0;
+  const claimable = levelData?.claimableLevels || 0;
+  const canLevelUp = claimable > 0;
+  const nextLevel = levelData?.nextLevel || currentLevel + 1;
+  const previewRewards = levelData?.unlockPreview || [];
+  const previewFunctions = levelData?.functions || [];
 
   return (
     <div className="space-y-6">
@@ -81,9 +157,11 @@ export default function LevelUp({ onLevelUp }: LevelUpProps) {
                 <Trophy className="w-6 h-6 text-white" />
               </div>
               <div>
-                <CardTitle className="text-white text-xl">Level {playerData.level}</CardTitle>
+                <CardTitle className="text-white text-xl">Level {currentLevel}</CardTitle>
                 <CardDescription className="text-purple-300">
-                  {playerData.xp} / {playerData.xpToNext} XP
+                  {levelData?.maxed
+                    ? 'Max level reached'
+                    : `${Math.floor(currentXP).toLocaleString()} / ${xpRequired.toLocaleString()} XP`}
                 </CardDescription>
               </div>
             </div>
@@ -96,7 +174,7 @@ export default function LevelUp({ onLevelUp }: LevelUpProps) {
           <div className="space-y-4">
             <div>
               <div className="flex justify-between text-sm text-gray-300 mb-2">
-                <span>Experience Progress</span>
+                <span>Progress to Level {nextLevel}</span>
                 <span>{xpPercentage.toFixed(1)}%</span>
               </div>
               <Progress value={xpPercentage} className="h-3 bg-gray-700" />
@@ -113,124 +191,154 @@ export default function LevelUp({ onLevelUp }: LevelUpProps) {
             >
               {levelUpMutation.isPending 
                 ? 'Leveling Up...' 
+                : claimable > 1
+                ? `Level Up ×${claimable} (to ${levelData?.claimableToLevel})!`
                 : canLevelUp 
                 ? `Level Up to ${nextLevel}!` 
-                : 'Requirements Not Met'
+                : levelData?.maxed
+                ? 'Max Level'
+                : `${Math.ceil(levelData?.remaining || 0).toLocaleString()} XP to go`
               }
             </Button>
           </div>
         </CardContent>
       </Card>
 
-      {/* Requirements and Rewards */}
+      {/* Next level rewards */}
+      {!levelData?.maxed && (
       <Card className="bg-gray-800/50 border-gray-600">
         <CardHeader>
           <CardTitle className="text-white flex items-center gap-2">
             <Gift className="w-5 h-5 text-yellow-500" />
-            Next Level Requirements
+            {levelData?.icon ? `${levelData.icon} ` : ''}Level {nextLevel}{levelData?.name && levelData.name !== `Level ${nextLevel}` ? ` · ${levelData.name}` : ''}
           </CardTitle>
           <CardDescription className="text-gray-400">
-            Level {nextLevel} requirements and rewards
+            Requires {xpRequired.toLocaleString()} XP - earned from taps, chat, tasks and achievements
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
-          {/* Requirements List */}
-          {requirements.length > 0 ? (
-            <div className="space-y-2">
-              <h4 className="text-white font-semibold mb-3">Requirements:</h4>
-              {requirements.map((req: any, index: number) => (
-                <div
-                  key={index}
-                  className={`flex items-center justify-between p-3 rounded-lg border ${
-                    req.isMet 
-                      ? 'bg-green-900/20 border-green-500/30 text-green-300' 
-                      : 'bg-red-900/20 border-red-500/30 text-red-300'
-                  }`}
-                >
-                  <div className="flex items-center gap-3">
-                    {req.isMet ? (
-                      <CheckCircle className="w-5 h-5 text-green-500" />
-                    ) : (
-                      <AlertCircle className="w-5 h-5 text-red-500" />
-                    )}
-                    <span>{req.description}</span>
-                  </div>
-                  <Badge variant={req.isMet ? "default" : "destructive"}>
-                    {req.isMet ? 'Complete' : 'Incomplete'}
-                  </Badge>
-                </div>
-              ))}
-            </div>
-          ) : (
+          {canLevelUp && (
             <Alert>
-              <Trophy className="h-4 w-4" />
+              <CheckCircle className="h-4 w-4" />
               <AlertDescription>
-                {canLevelUp 
-                  ? 'All requirements met! You can level up now.' 
-                  : 'Loading requirements...'}
+                {claimable > 1
+                  ? `You qualify for ${claimable} levels - one claim grants them all.`
+                  : 'All requirements met! You can level up now.'}
               </AlertDescription>
             </Alert>
           )}
 
-          {/* Rewards Preview */}
-          {Object.keys(previewRewards).length > 0 && (
+          {previewRewards.length > 0 && (
             <div>
               <h4 className="text-white font-semibold mb-3 flex items-center gap-2">
                 <Gift className="w-4 h-4 text-purple-400" />
                 Level Up Rewards
               </h4>
               <div className="grid grid-cols-2 gap-3">
-                {previewRewards.lp && (
-                  <div className="bg-purple-900/30 p-3 rounded-lg text-center">
-                    <div className="text-purple-300 text-lg font-bold">
-                      +{previewRewards.lp.toLocaleString()}
-                    </div>
-                    <div className="text-xs text-gray-400">LP Bonus</div>
+                {previewRewards.map((reward, index) => (
+                  <div key={index} className="bg-purple-900/30 p-3 rounded-lg text-center text-purple-300 text-sm font-bold">
+                    {describeReward(reward)}
                   </div>
-                )}
-                {previewRewards.coins && (
-                  <div className="bg-yellow-900/30 p-3 rounded-lg text-center">
-                    <div className="text-yellow-300 text-lg font-bold">
-                      +{previewRewards.coins}
-                    </div>
-                    <div className="text-xs text-gray-400">Coins</div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {previewFunctions.length > 0 && (
+            <div>
+              <h5 className="text-white font-medium mb-2">New Unlocks:</h5>
+              <div className="space-y-1">
+                {previewFunctions.map((fn, index) => (
+                  <div key={index} className="flex items-center gap-2 text-purple-300">
+                    <Unlock className="w-4 h-4" />
+                    <span className="text-sm capitalize">{describeFunction(fn)}</span>
                   </div>
-                )}
-                {previewRewards.maxEnergy && (
-                  <div className="bg-blue-900/30 p-3 rounded-lg text-center">
-                    <div className="text-blue-300 text-lg font-bold">
-                      +{previewRewards.maxEnergy}
+                ))}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+      )}
+
+      {/* Multi-level celebration */}
+      <Dialog open={!!celebration} onOpenChange={(open) => !open && setCelebration(null)}>
+        <DialogContent className="bg-gray-900 border-purple-500/50 text-white">
+          {celebration && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2 text-2xl">
+                  <Sparkles className="w-6 h-6 text-yellow-400" />
+                  Level {celebration.newLevel}!
+                </DialogTitle>
+                <DialogDescription className="text-purple-300">
+                  {celebration.levelsGained > 1
+                    ? `You climbed ${celebration.levelsGained} levels (${celebration.previousLevel} → ${celebration.newLevel})`
+                    : `You reached level ${celebration.newLevel}`}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-2 max-h-72 overflow-y-auto">
+                {celebration.levels.map((step) => (
+                  <div
+                    key={step.level}
+                    className="p-3 rounded-lg bg-gray-800 border-l-4"
+                    style={{ borderColor: step.color || '#a855f7' }}
+                  >
+                    <div className="font-semibold">
+                      {step.icon ? `${step.icon} ` : ''}Level {step.level}
+                      {step.name && step.name !== `Level ${step.level}` && (
+                        <span className="text-gray-400 font-normal"> · {step.name}</span>
+                      )}
                     </div>
-                    <div className="text-xs text-gray-400">Max Energy</div>
-                  </div>
-                )}
-                {previewRewards.lpPerHour && (
-                  <div className="bg-green-900/30 p-3 rounded-lg text-center">
-                    <div className="text-green-300 text-lg font-bold">
-                      +{previewRewards.lpPerHour}
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {step.granted.filter(g => g.applied !== false).map((g, i) => (
+                        <Badge key={i} variant="outline" className="text-purple-200 border-purple-500/50">
+                          {describeReward(g)}
+                        </Badge>
+                      ))}
                     </div>
-                    <div className="text-xs text-gray-400">LP/Hour</div>
                   </div>
-                )}
+                ))}
               </div>
 
-              {previewRewards.unlocks && previewRewards.unlocks.length > 0 && (
-                <div className="mt-4">
-                  <h5 className="text-white font-medium mb-2">New Unlocks:</h5>
-                  <div className="space-y-1">
-                    {previewRewards.unlocks.map((unlock: string, index: number) => (
-                      <div key={index} className="flex items-center gap-2 text-purple-300">
-                        <Unlock className="w-4 h-4" />
-                        <span className="text-sm">{unlock}</span>
-                      </div>
-                    ))}
+              {(celebration.rewards.lp > 0 || celebration.rewards.energy > 0 || celebration.rewards.charisma > 0) && (
+                <div className="grid grid-cols-3 gap-2 text-center">
+                  <div className="bg-purple-900/30 p-2 rounded">
+                    <div className="text-purple-300 font-bold">+{celebration.rewards.lp.toLocaleString()}</div>
+                    <div className="text-xs text-gray-400">LP</div>
+                  </div>
+                  <div className="bg-blue-900/30 p-2 rounded">
+                    <div className="text-blue-300 font-bold">+{celebration.rewards.energy}</div>
+                    <div className="text-xs text-gray-400">Energy</div>
+                  </div>
+                  <div className="bg-pink-900/30 p-2 rounded">
+                    <div className="text-pink-300 font-bold">+{celebration.rewards.charisma}</div>
+                    <div className="text-xs text-gray-400">Charisma</div>
                   </div>
                 </div>
               )}
-            </div>
+
+              {celebration.messages.length > 0 && (
+                <div className="space-y-1">
+                  {celebration.messages.map((m, i) => (
+                    <div key={i} className="flex items-start gap-2 text-sm text-pink-200">
+                      <MessageCircle className="w-4 h-4 mt-0.5 shrink-0" />
+                      <span>{m.text}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <DialogFooter>
+                <Button className="bg-purple-600 hover:bg-purple-700" onClick={() => setCelebration(null)}>
+                  Awesome!
+                </Button>
+              </DialogFooter>
+            </>
           )}
-        </CardContent>
-      </Card>
+        </DialogContent>
+      </Dialog>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,195 @@
+/**
+ * LoginCalendar.tsx - Login streak and daily reward calendars
+ * Shows the streak, today's claimable reward and tomorrow's reward for each calendar (/api/streak)
+ */
+
+import React from 'react';
+import { useGame } from '@/context/GameProvider';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { CalendarDays, CheckCircle, Flame, Gift, Snowflake, Star } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { apiRequest } from '@/lib/queryClient';
+
+interface RewardLine {
+  type: string;
+  amount?: number;
+  boosterType?: string;
+  itemId?: string;
+  tag?: string;
+  feature?: string;
+}
+
+interface CalendarDay {
+  day: number;
+  rewards: RewardLine[];
+  label?: string;
+  highlight?: boolean;
+  state: 'past' | 'today' | 'claimed' | 'upcoming';
+}
+
+interface CalendarView {
+  id: string;
+  name: string;
+  length: number;
+  currentDay: number | null;
+  claimedToday: boolean;
+  canClaim: boolean;
+  tomorrow: { day: number; rewards: RewardLine[] } | null;
+  days: CalendarDay[];
+}
+
+// GET /api/streak
+interface StreakStatus {
+  streak: number;
+  longestStreak: number;
+  checkedInToday: boolean;
+  nextResetAt: string;
+  graceDays: number;
+  freezes: number;
+  calendars: CalendarView[];
+}
+
+const describeReward = (r: RewardLine): string => {
+  switch (r.type) {
+    case 'lp': return `+${(r.amount || 0).toLocaleString()} LP`;
+    case 'energy': return `+${r.amount} Energy`;
+    case 'charisma': return `+${r.amount} Charisma`;
+    case 'booster': return `${(r.boosterType || 'lp_multiplier').replace(/_/g, ' ')} booster${r.amount ? ` (${r.amount} min)` : ''}`;
+    case 'item': return r.itemId === 'streak_freeze' ? `${r.amount || 1}× Streak Freeze` : `${r.itemId} ×${r.amount}`;
+    case 'mediaTagUnlock': return `Unlock: ${r.tag}`;
+    case 'featureUnlock': return `Feature: ${(r.feature || '').replace(/_/g, ' ')}`;
+    case 'character': return 'New character';
+    default: return r.type;
+  }
+};
+
+const DAY_STYLES: Record<CalendarDay['state'], string> = {
+  past: 'bg-black/30 border-gray-700 text-gray-500',
+  claimed: 'bg-green-900/40 border-green-500/60 text-green-200',
+  today: 'bg-pink-600/40 border-pink-400 text-white ring-2 ring-pink-400',
+  upcoming: 'bg-black/40 border-purple-500/30 text-gray-300'
+};
+
+export default function LoginCalendar() {
+  const { playerData } = useGame();
+  const queryClient = useQueryClient();
+
+  const { data: status, isLoading } = useQuery<StreakStatus>({
+    queryKey: ['/api/streak', playerData.id],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/streak?userId=${playerData.id}`);
+      return (await response.json()).data;
+    },
+    enabled: !!playerData.id
+  });
+
+  const claimMutation = useMutation({
+    mutationFn: async (calendarId: string) => {
+      const response = await apiRequest('POST', '/api/streak/claim', { userId: playerData.id, calendarId });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error || 'Failed to claim reward');
+      return result.data;
+    },
+    onSuccess: (data) => {
+      toast.success(`Day ${data.day} reward claimed!`);
+      queryClient.invalidateQueries({ queryKey: ['/api/streak'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/player'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/user'] });
+    },
+    onError: (error: any) => {
+      toast.error(error.message || 'Failed to claim reward');
+    }
+  });
+
+  if (isLoading || !status) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-500"></div>
+      </div>
+    );
+  }
+
+  const resetIn = Math.max(0, new Date(status.nextResetAt).getTime() - Date.now());
+  const resetHours = Math.floor(resetIn / (60 * 60 * 1000));
+  const resetMinutes = Math.floor((resetIn % (60 * 60 * 1000)) / (60 * 1000));
+
+  return (
+    <div className="w-full max-w-2xl space-y-4 overflow-y-auto pb-24">
+      {/* Streak summary */}
+      <Card className="bg-black/40 border-purple-500/30 text-white">
+        <CardContent className="flex items-center justify-between p-4">
+          <div className="flex items-center gap-3">
+            <Flame className="w-10 h-10 text-orange-400" />
+            <div>
+              <div className="text-3xl font-bold">{status.streak} day{status.streak === 1 ? '' : 's'}</div>
+              <div className="text-sm text-gray-400">Longest streak: {status.longestStreak}</div>
+            </div>
+          </div>
+          <div className="text-right text-sm text-gray-300 space-y-1">
+            <div className="flex items-center justify-end gap-1">
+              <Snowflake className="w-4 h-4 text-cyan-300" />
+              {status.freezes} streak freeze{status.freezes === 1 ? '' : 's'}
+            </div>
+            {status.graceDays > 0 && <div>{status.graceDays} grace day{status.graceDays === 1 ? '' : 's'}</div>}
+            <div>Next day in {resetHours}h {resetMinutes}m</div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {status.calendars.map(calendar => (
+        <Card key={calendar.id} className="bg-black/40 border-purple-500/30 text-white">
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <CalendarDays className="w-5 h-5 text-pink-400" />
+              {calendar.name}
+              {calendar.currentDay && (
+                <Badge variant="outline" className="ml-auto border-pink-400 text-pink-300">
+                  Day {calendar.currentDay}/{calendar.length}
+                </Badge>
+              )}
+            </CardTitle>
+            {calendar.tomorrow && calendar.tomorrow.rewards.length > 0 && (
+              <CardDescription className="text-gray-400">
+                Tomorrow: {calendar.tomorrow.rewards.map(describeReward).join(', ')}
+              </CardDescription>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className={`grid gap-2 ${calendar.length <= 7 ? 'grid-cols-7' : 'grid-cols-6'}`}>
+              {calendar.days.map(day => (
+                <div
+                  key={day.day}
+                  title={[day.label, ...day.rewards.map(describeReward)].filter(Boolean).join('\n')}
+                  className={`relative flex flex-col items-center justify-center rounded-lg border p-1 text-xs ${DAY_STYLES[day.state]} ${day.highlight ? 'font-bold' : ''}`}
+                >
+                  {day.highlight && <Star className="absolute -top-1.5 -right-1.5 w-3.5 h-3.5 text-yellow-400 fill-yellow-400" />}
+                  <span>{day.day}</span>
+                  {day.state === 'claimed' ? <CheckCircle className="w-3.5 h-3.5" /> : <Gift className="w-3.5 h-3.5 opacity-70" />}
+                </div>
+              ))}
+            </div>
+
+            {calendar.currentDay && (
+              <div className="flex items-center justify-between gap-3">
+                <div className="text-sm text-gray-300">
+                  Today: {calendar.days[calendar.currentDay - 1].rewards.map(describeReward).join(', ') || 'Nothing'}
+                </div>
+                <Button
+                  size="sm"
+                  disabled={!calendar.canClaim || claimMutation.isPending}
+                  onClick={() => claimMutation.mutate(calendar.id)}
+                  className="bg-gradient-to-r from-pink-600 to-purple-600 hover:from-pink-700 hover:to-purple-700"
+                >
+                  {calendar.claimedToday ? 'Claimed' : 'Claim'}
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
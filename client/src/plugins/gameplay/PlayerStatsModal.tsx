@@ -0,0 +1,130 @@
+/**
+ * PlayerStatsModal.tsx - Lifetime totals and daily history charts
+ * Totals come from /api/stats/:playerId, the charts from /api/stats/:playerId/history (last 30 days)
+ */
+
+import React, { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { apiRequest } from "@/lib/queryClient";
+
+type StatCounter =
+  | 'totalTaps' | 'totalLpEarned' | 'totalEnergyUsed' | 'sessionsPlayed'
+  | 'wheelSpins' | 'chatMessages' | 'mediaReceived' | 'upgradesPurchased';
+
+// GET /api/stats/:playerId
+type LifetimeStats = Record<StatCounter, number> & { playerId: string; lastUpdated: string | null };
+
+// GET /api/stats/:playerId/history
+type DailyStats = Record<StatCounter, number> & { day: string };
+
+interface PlayerStatsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  userId?: string;
+}
+
+const STATS: { key: StatCounter; label: string; color: string }[] = [
+  { key: 'totalTaps', label: 'Taps', color: '#ec4899' },
+  { key: 'totalLpEarned', label: 'LP Earned', color: '#f59e0b' },
+  { key: 'totalEnergyUsed', label: 'Energy Used', color: '#3b82f6' },
+  { key: 'sessionsPlayed', label: 'Sessions', color: '#a855f7' },
+  { key: 'wheelSpins', label: 'Wheel Spins', color: '#22c55e' },
+  { key: 'chatMessages', label: 'Chat Messages', color: '#f472b6' },
+  { key: 'mediaReceived', label: 'Pictures Received', color: '#e879f9' },
+  { key: 'upgradesPurchased', label: 'Upgrades Bought', color: '#eab308' }
+];
+
+const HISTORY_DAYS = 30;
+
+export default function PlayerStatsModal({ isOpen, onClose, userId }: PlayerStatsModalProps) {
+  const [chartStat, setChartStat] = useState<StatCounter>('totalTaps');
+
+  const { data: lifetime, isLoading: lifetimeLoading } = useQuery<LifetimeStats>({
+    queryKey: ['/api/stats', userId],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/stats/${userId}`);
+      return response.json();
+    },
+    enabled: isOpen && !!userId
+  });
+
+  const { data: history, isLoading: historyLoading } = useQuery<DailyStats[]>({
+    queryKey: ['/api/stats', userId, 'history', HISTORY_DAYS],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/stats/${userId}/history?days=${HISTORY_DAYS}`);
+      return (await response.json()).data.days;
+    },
+    enabled: isOpen && !!userId
+  });
+
+  const selected = STATS.find(s => s.key === chartStat)!;
+  const chartConfig: ChartConfig = { [selected.key]: { label: selected.label, color: selected.color } };
+  const periodTotal = (history || []).reduce((sum, d) => sum + (d[chartStat] || 0), 0);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl bg-gray-900/95 border-purple-500/40 text-white">
+        <DialogHeader>
+          <DialogTitle>Player Stats</DialogTitle>
+          <DialogDescription className="text-gray-400">Lifetime totals and the last {HISTORY_DAYS} days</DialogDescription>
+        </DialogHeader>
+
+        {/* Lifetime totals */}
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+          {STATS.map(stat => (
+            <Card key={stat.key} className="bg-black/40 border-purple-500/30">
+              <CardContent className="p-3 text-center">
+                <div className="text-lg font-bold" style={{ color: stat.color }}>
+                  {lifetimeLoading ? '…' : (lifetime?.[stat.key] || 0).toLocaleString()}
+                </div>
+                <div className="text-xs text-gray-400">{stat.label}</div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {/* Daily chart */}
+        <div className="space-y-2">
+          <div className="flex gap-1 flex-wrap">
+            {STATS.map(stat => (
+              <Button
+                key={stat.key}
+                size="sm"
+                variant={chartStat === stat.key ? "default" : "outline"}
+                onClick={() => setChartStat(stat.key)}
+                className={chartStat === stat.key
+                  ? "bg-purple-600 hover:bg-purple-700 text-white text-xs"
+                  : "bg-transparent border-purple-500/50 text-purple-300 hover:bg-purple-600/20 text-xs"}
+              >
+                {stat.label}
+              </Button>
+            ))}
+          </div>
+
+          <div className="text-xs text-gray-400">
+            {selected.label}, last {HISTORY_DAYS} days: <span className="text-white font-semibold">{periodTotal.toLocaleString()}</span>
+          </div>
+
+          {historyLoading ? (
+            <div className="flex justify-center items-center h-48 text-gray-400">Loading history...</div>
+          ) : (
+            <ChartContainer config={chartConfig} className="h-48 w-full">
+              <BarChart data={history || []}>
+                <CartesianGrid vertical={false} strokeOpacity={0.15} />
+                <XAxis dataKey="day" tickLine={false} axisLine={false} tickFormatter={(day: string) => day.slice(5)} minTickGap={16} />
+                <YAxis tickLine={false} axisLine={false} width={40} allowDecimals={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey={chartStat} fill={`var(--color-${chartStat})`} radius={[3, 3, 0, 0]} />
+              </BarChart>
+            </ChartContainer>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,212 @@
+/**
+ * QuestChains.tsx - Multi-step quest lines given by characters
+ * Lists every chain from /api/quests with its steps; the current step shows the giver's intro lines
+ * and a claimed step their outro
+ */
+
+import React from 'react';
+import { useGame } from '@/context/GameProvider';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { CheckCircle, Lock, MessageCircle, ScrollText } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { apiRequest } from '@/lib/queryClient';
+
+interface RewardLine {
+  type: string;
+  amount?: number;
+  boosterType?: string;
+}
+
+interface QuestStepView {
+  id: string;
+  chainId: string;
+  title: string;
+  description: string;
+  rewards: RewardLine[];
+  giverId: string | null;
+  dialogue?: { intro?: string[]; outro?: string[] };
+  progress: number;
+  maxProgress: number;
+  status: 'locked' | 'active' | 'completed' | 'claimed';
+  lockedReason?: string;
+  canClaim: boolean;
+}
+
+// GET /api/quests
+interface QuestChainView {
+  id: string;
+  name: string;
+  description: string;
+  characterId?: string;
+  steps: QuestStepView[];
+  status: 'locked' | 'active' | 'completed';
+  currentStepId: string | null;
+  claimedSteps: number;
+  totalSteps: number;
+}
+
+interface CharacterSummary {
+  id: string;
+  name: string;
+  avatarPath?: string;
+  imageUrl?: string;
+}
+
+const describeReward = (r: RewardLine): string => {
+  switch (r.type) {
+    case 'lp': return `+${(r.amount || 0).toLocaleString()} LP`;
+    case 'energy': return `+${r.amount} Energy`;
+    case 'charisma': return `+${r.amount} Charisma`;
+    case 'booster': return `${(r.boosterType || 'lp_multiplier').replace(/_/g, ' ')} booster${r.amount ? ` (${r.amount} min)` : ''}`;
+    default: return r.type;
+  }
+};
+
+const STEP_STYLES: Record<QuestStepView['status'], string> = {
+  locked: 'border-gray-700 bg-black/30 text-gray-500',
+  active: 'border-purple-500/40 bg-gray-800/50 text-white',
+  completed: 'border-pink-400 bg-pink-900/30 text-white',
+  claimed: 'border-green-500/50 bg-green-900/20 text-green-200'
+};
+
+export default function QuestChains() {
+  const { playerData } = useGame();
+  const queryClient = useQueryClient();
+
+  const { data: chains, isLoading } = useQuery<QuestChainView[]>({
+    queryKey: ['/api/quests', playerData.id],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/quests?userId=${playerData.id}`);
+      return (await response.json()).data;
+    },
+    enabled: !!playerData.id
+  });
+
+  const { data: characters } = useQuery<CharacterSummary[]>({
+    queryKey: ['/api/characters']
+  });
+
+  const claimMutation = useMutation({
+    mutationFn: async (step: QuestStepView) => {
+      const response = await apiRequest('POST', `/api/quests/${step.chainId}/steps/${step.id}/claim`, { userId: playerData.id });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error || 'Failed to claim quest step');
+      return result.data;
+    },
+    onSuccess: (data) => {
+      const next = data.unlocked?.[0];
+      toast.success(next ? `${data.step.title} complete! Next: ${next.title}` : `${data.step.title} complete!`);
+      queryClient.invalidateQueries({ queryKey: ['/api/quests'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/player'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/user'] });
+    },
+    onError: (error: any) => {
+      toast.error(error.message || 'Failed to claim quest step');
+    }
+  });
+
+  const giver = (id: string | null) => (characters || []).find(c => c.id === id);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center py-8">
+        <div className="text-gray-400">Loading quests...</div>
+      </div>
+    );
+  }
+
+  if (!chains || chains.length === 0) {
+    return (
+      <div className="flex justify-center items-center py-8">
+        <div className="text-gray-400">No quests available</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 p-4">
+      {chains.map(chain => {
+        const chainGiver = giver(chain.characterId || null);
+        return (
+          <Card key={chain.id} className="bg-black/40 border-purple-500/30 text-white">
+            <CardHeader className="pb-2">
+              <CardTitle className="flex items-center gap-2 text-base">
+                {chainGiver?.avatarPath || chainGiver?.imageUrl ? (
+                  <img src={chainGiver.avatarPath || chainGiver.imageUrl} alt={chainGiver.name} className="w-8 h-8 rounded-full object-cover border border-pink-400" />
+                ) : (
+                  <ScrollText className="w-5 h-5 text-pink-400" />
+                )}
+                {chain.name}
+                <Badge variant="outline" className="ml-auto border-pink-400 text-pink-300">
+                  {chain.claimedSteps}/{chain.totalSteps}
+                </Badge>
+              </CardTitle>
+              <CardDescription className="text-gray-400">{chain.description}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {chain.steps.map(step => {
+                const stepGiver = giver(step.giverId);
+                const lines = step.status === 'claimed' ? step.dialogue?.outro
+                  : step.id === chain.currentStepId ? step.dialogue?.intro
+                  : undefined;
+                return (
+                  <div key={step.id} className={`rounded-lg border p-3 space-y-2 ${STEP_STYLES[step.status]}`}>
+                    <div className="flex items-center justify-between gap-2">
+                      <div>
+                        <div className="font-semibold text-sm flex items-center gap-1">
+                          {step.status === 'locked' && <Lock className="w-3.5 h-3.5" />}
+                          {step.status === 'claimed' && <CheckCircle className="w-3.5 h-3.5" />}
+                          {step.title}
+                        </div>
+                        <div className="text-xs text-gray-400">{step.status === 'locked' ? step.lockedReason : step.description}</div>
+                      </div>
+                      {(step.status === 'active' || step.status === 'completed') && (
+                        <Button
+                          size="sm"
+                          disabled={!step.canClaim || claimMutation.isPending}
+                          onClick={() => claimMutation.mutate(step)}
+                          className="bg-purple-600 hover:bg-purple-700 text-xs px-3 py-1 disabled:opacity-50"
+                        >
+                          {step.canClaim ? 'Turn in' : 'In Progress'}
+                        </Button>
+                      )}
+                    </div>
+
+                    {lines && lines.length > 0 && (
+                      <div className="rounded-md bg-black/40 p-2 text-xs italic text-pink-100 space-y-1">
+                        {lines.map((line, i) => (
+                          <div key={i} className="flex gap-1">
+                            {i === 0 && <MessageCircle className="w-3.5 h-3.5 shrink-0 text-pink-400" />}
+                            <span>{i === 0 && stepGiver ? <strong className="not-italic">{stepGiver.name}: </strong> : null}{line}</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    {step.status !== 'locked' && step.status !== 'claimed' && (
+                      <div className="space-y-1">
+                        <div className="flex justify-between text-xs">
+                          <span>Progress</span>
+                          <span>{step.progress.toLocaleString()}/{step.maxProgress.toLocaleString()}</span>
+                        </div>
+                        <Progress value={(step.progress / (step.maxProgress || 1)) * 100} className="h-2" />
+                      </div>
+                    )}
+
+                    <div className="text-xs text-green-400">
+                      Reward: {step.rewards.map(describeReward).join(', ')}
+                    </div>
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
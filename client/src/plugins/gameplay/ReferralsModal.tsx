@@ -0,0 +1,184 @@
+/**
+ * ReferralsModal.tsx - Invite link and invited players
+ * Everything comes from /api/referrals; friends open the bot through the link (/start ref_<code>) and both
+ * sides are rewarded as the friend reaches the configured milestones
+ */
+
+import React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { toast } from "react-hot-toast";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Check, Copy } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+
+interface RewardLine {
+  type: string;
+  amount?: number;
+  boosterType?: string;
+}
+
+interface ReferralMilestone {
+  id: string;
+  name: string;
+  referrerRewards: RewardLine[];
+  inviteeRewards: RewardLine[];
+}
+
+interface MilestoneStatus {
+  id: string;
+  reached: boolean;
+  rewardedAt: string | null;
+}
+
+// GET /api/referrals
+interface ReferralsView {
+  code: string;
+  link: string;
+  referredBy: { username: string; joinedAt: string; milestones: MilestoneStatus[] } | null;
+  milestones: ReferralMilestone[];
+  maxReferrals: number | null;
+  totals: { invited: number; completed: number };
+  referrals: {
+    username: string;
+    displayPicture: string | null;
+    level: number;
+    joinedAt: string;
+    milestones: MilestoneStatus[];
+  }[];
+}
+
+interface ReferralsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  userId?: string;
+}
+
+const describeReward = (r: RewardLine): string => {
+  switch (r.type) {
+    case 'lp': return `${(r.amount || 0).toLocaleString()} LP`;
+    case 'energy': return `${r.amount} Energy`;
+    case 'charisma': return `${r.amount} Charisma`;
+    case 'booster': return `${(r.boosterType || 'lp_multiplier').replace(/_/g, ' ')} booster${r.amount ? ` (${r.amount} min)` : ''}`;
+    default: return r.type;
+  }
+};
+
+function MilestoneBadges({ milestones, statuses }: { milestones: ReferralMilestone[]; statuses: MilestoneStatus[] }) {
+  return (
+    <div className="flex gap-1 flex-wrap">
+      {milestones.map(m => {
+        const status = statuses.find(s => s.id === m.id);
+        return (
+          <Badge
+            key={m.id}
+            variant="outline"
+            className={status?.rewardedAt ? 'border-green-400 text-green-300' : status?.reached ? 'border-yellow-400 text-yellow-300' : 'border-gray-600 text-gray-500'}
+          >
+            {status?.rewardedAt && <Check className="w-3 h-3 mr-1" />}
+            {m.name}
+          </Badge>
+        );
+      })}
+    </div>
+  );
+}
+
+export default function ReferralsModal({ isOpen, onClose, userId }: ReferralsModalProps) {
+  const { data, isLoading } = useQuery<ReferralsView>({
+    queryKey: ['/api/referrals', userId],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/referrals?userId=${userId}`);
+      return (await response.json()).data;
+    },
+    enabled: isOpen && !!userId
+  });
+
+  const copyLink = async () => {
+    if (!data) return;
+    try {
+      await navigator.clipboard.writeText(data.link);
+      toast.success('Invite link copied!');
+    } catch {
+      toast.error('Could not copy the link');
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg bg-gray-900/95 border-purple-500/40 text-white">
+        <DialogHeader>
+          <DialogTitle>Invite Friends</DialogTitle>
+          <DialogDescription className="text-gray-400">Share your link - you and your friend both earn rewards as they progress</DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !data ? (
+          <div className="text-center text-gray-400 py-8">Loading referrals...</div>
+        ) : (
+          <div className="space-y-4">
+            {/* Code and link */}
+            <div className="rounded-md bg-purple-900/30 border border-purple-500/30 p-3 space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-gray-400">Your code</span>
+                <span className="font-mono font-bold tracking-widest text-pink-200">{data.code}</span>
+              </div>
+              <div className="flex gap-2">
+                <input readOnly value={data.link} className="flex-1 min-w-0 rounded bg-black/40 border border-purple-500/30 px-2 text-xs text-gray-300" />
+                <Button size="sm" onClick={copyLink} className="bg-purple-600 hover:bg-purple-700 text-white">
+                  <Copy className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+
+            {/* Milestone rewards */}
+            <div className="space-y-1 text-xs">
+              {data.milestones.map(m => (
+                <div key={m.id} className="text-gray-300">
+                  <span className="font-semibold text-white">{m.name}:</span> you get <span className="text-green-400">{m.referrerRewards.map(describeReward).join(', ')}</span>, your friend gets <span className="text-green-400">{m.inviteeRewards.map(describeReward).join(', ')}</span>
+                </div>
+              ))}
+            </div>
+
+            {data.referredBy && (
+              <div className="rounded-md bg-black/30 border border-pink-500/30 p-2 space-y-1">
+                <div className="text-xs text-gray-400">Invited by <span className="text-pink-200 font-semibold">{data.referredBy.username}</span></div>
+                <MilestoneBadges milestones={data.milestones} statuses={data.referredBy.milestones} />
+              </div>
+            )}
+
+            {/* Invited players */}
+            <div className="space-y-2">
+              <div className="flex justify-between text-xs text-gray-400">
+                <span>Friends invited: <span className="text-white font-semibold">{data.totals.invited}{data.maxReferrals != null && ` / ${data.maxReferrals}`}</span></span>
+                <span>All milestones: <span className="text-white font-semibold">{data.totals.completed}</span></span>
+              </div>
+              <ScrollArea className="max-h-64">
+                <div className="space-y-1.5 pr-2">
+                  {data.referrals.length === 0 ? (
+                    <div className="text-center text-xs text-gray-400 py-4">No friends invited yet</div>
+                  ) : data.referrals.map(r => (
+                    <div key={`${r.username}-${r.joinedAt}`} className="flex items-center gap-3 rounded-lg border border-purple-500/20 bg-black/30 px-3 py-2">
+                      {r.displayPicture ? (
+                        <img src={r.displayPicture} alt={r.username} className="w-8 h-8 rounded-full object-cover border border-purple-400/50" />
+                      ) : (
+                        <div className="w-8 h-8 rounded-full bg-purple-700/50 flex items-center justify-center text-xs font-bold">
+                          {r.username.charAt(0).toUpperCase()}
+                        </div>
+                      )}
+                      <div className="flex-1 min-w-0 space-y-1">
+                        <div className="text-sm font-semibold truncate">{r.username} <span className="text-xs text-gray-400">Lv {r.level}</span></div>
+                        <MilestoneBadges milestones={data.milestones} statuses={r.milestones} />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
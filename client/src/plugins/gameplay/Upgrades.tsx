@@ -13,7 +13,8 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Star, Zap, Heart, Coins, TrendingUp, ShoppingCart, Timer, Target, Sparkles, Battery } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Star, Zap, Heart, Coins, TrendingUp, ShoppingCart, Timer, Target, Sparkles, Battery, RotateCcw, Lock } from "lucide-react";
 import { toast } from "react-hot-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { debugPlugin } from "@/lib/PluginDebugger";
@@ -33,6 +34,48 @@ interface Upgrade {
   category: "lp" | "energy" | "special" | "lpPerTap" | "lpPerHour";
   icon: string;
   sortOrder?: number;
+  effect?: UpgradeEffectInfo | null;
+  currentEffect?: number;
+  nextEffect?: number | null;
+  nextCost?: number | null;
+  isUnlocked?: boolean;
+  unmetRequirements?: { label: string }[];
+}
+
+type BuyMode = "1" | "10" | "max";
+
+// Server quote for a (bulk) purchase - see UpgradeStorage.quotePurchase
+interface PurchasePreview {
+  valid: boolean;
+  reason?: string;
+  upgradeId: string;
+  currentLevel: number;
+  targetLevel: number;
+  levels: number;
+  totalCost: number;
+  balance: number;
+  balanceAfter: number;
+}
+
+// Declarative effect block sent by the server (see UpgradeStorage.getEffect)
+interface UpgradeEffectInfo {
+  stat: string;
+  type: "additive" | "multiplicative" | "percent" | "table";
+  tableAs?: "additive" | "multiplicative" | "percent";
+}
+
+// Server quote for resetting upgrades - see RespecService
+interface RespecPreview {
+  valid: boolean;
+  reason?: string;
+  upgrades: { upgradeId: string; level: number; spent: number; refund: number }[];
+  spent: number;
+  refundPercent: number;
+  refund: number;
+  fee: number;
+  delta: number;
+  balanceAfter: number;
+  cooldownEndsAt: string | null;
 }
 
 interface UpgradesProps {
@@ -53,6 +96,12 @@ const normalizeUpgrade = (raw: any): Upgrade => ({
   category: raw.category,
   icon: raw.icon ?? '🔧',
   sortOrder: raw.sortOrder ?? raw.sortOrder ?? 0,
+  effect: raw.effect ?? null,
+  currentEffect: raw.currentEffect ?? 0,
+  nextEffect: raw.nextEffect ?? null,
+  nextCost: Number.isFinite(raw.nextCost) ? raw.nextCost : null,
+  isUnlocked: raw.isUnlocked ?? true,
+  unmetRequirements: raw.unmetRequirements ?? [],
 });
 
 // ✅ FIXED: Cost calculation without discounts
@@ -61,10 +110,35 @@ const calculateUpgradeCost = (baseCost: number, currentLevel: number): number =>
   return Math.floor(baseCost * Math.pow(1.5, currentLevel));
 };
 
+// Prefer the server's price (uses each upgrade's costMultiplier); local formula is a fallback
+const getNextCost = (u: Upgrade): number => u.nextCost ?? calculateUpgradeCost(u.baseCost, u.currentLevel);
+
 const calculateCurrentBonus = (baseBonus: number, currentLevel: number): number => {
   return baseBonus * currentLevel;
 };
 
+const STAT_LABELS: Record<string, string> = {
+  lpPerTap: "LP/tap",
+  lpPerHour: "LP/hour",
+  maxEnergy: "max energy",
+  energyRegen: "energy/sec",
+  offlineCapMinutes: "min offline cap",
+  critChance: "crit chance",
+  wheelCooldownReduction: "wheel cooldown",
+  chatCharismaBonus: "charisma/message",
+};
+
+const formatEffectValue = (effect: UpgradeEffectInfo, value: number): string => {
+  const mode = effect.type === "table" ? effect.tableAs || "additive" : effect.type;
+  const label = STAT_LABELS[effect.stat] || effect.stat;
+  if (mode === "multiplicative") return `x${Number(value.toFixed(2))} ${label}`;
+  if (mode === "percent") return `+${Number(value.toFixed(1))}% ${label}`;
+  // Fractional stats read better as percentages
+  if (effect.stat === "critChance") return `+${Number((value * 100).toFixed(1))}% ${label}`;
+  if (effect.stat === "wheelCooldownReduction") return `-${Number((value * 100).toFixed(1))}% ${label}`;
+  return `+${Number(value.toFixed(2))} ${label}`;
+};
+
 const getUpgradeEffect = (upgrade: Upgrade): string => {
   const currentBonus = upgrade.hourlyBonus 
     ? calculateCurrentBonus(upgrade.hourlyBonus, upgrade.currentLevel)
@@ -72,6 +146,12 @@ const getUpgradeEffect = (upgrade: Upgrade): string => {
     ? calculateCurrentBonus(upgrade.tapBonus, upgrade.currentLevel)
     : 0;
 
+  if (upgrade.effect) {
+    const current = formatEffectValue(upgrade.effect, upgrade.currentEffect || 0);
+    if (upgrade.nextEffect === null || upgrade.nextEffect === undefined) return `Currently: ${current}`;
+    return `Next: ${formatEffectValue(upgrade.effect, upgrade.nextEffect)} (Currently: ${upgrade.currentLevel > 0 ? current : 'none'})`;
+  }
+
   if (upgrade.category === 'lpPerHour') {
     return `+${upgrade.hourlyBonus || 10} LP/hour (Currently: +${currentBonus} LP/hour)`;
   }
@@ -100,6 +180,10 @@ const getUpgradeIcon = (category: string, upgradeName: string = "") => {
 export default function Upgrades({ playerData, onUpgradeAction }: UpgradesProps) {
   const [activeTab, setActiveTab] = useState("all");
   const [fetchError, setFetchError] = useState<string | null>(null);
+  const [buyMode, setBuyMode] = useState<BuyMode>("1");
+  const [previewUpgrade, setPreviewUpgrade] = useState<Upgrade | null>(null);
+  // undefined = closed, null = reset all, string = one upgrade
+  const [respecTarget, setRespecTarget] = useState<string | null | undefined>(undefined);
   const queryClient = useQueryClient();
   const { userId: authUserId } = useAuth();
   
@@ -142,9 +226,61 @@ export default function Upgrades({ playerData, onUpgradeAction }: UpgradesProps)
     retryDelay: 1000
   });
 
+  // Bulk purchase quote shown in the confirm dialog
+  const { data: preview, isFetching: previewLoading } = useQuery<PurchasePreview>({
+    queryKey: ["/api/upgrades", previewUpgrade?.id, "preview", userId, buyMode],
+    queryFn: async () => {
+      const response = await apiRequest(
+        "GET",
+        `/api/upgrades/${previewUpgrade!.id}/preview?userId=${userId}&quantity=${buyMode}`
+      );
+      const raw = await response.json();
+      if (!response.ok) throw new Error(raw.error || `HTTP ${response.status}`);
+      debug.trace('preview:complete', raw.data);
+      return raw.data;
+    },
+    enabled: !!previewUpgrade && !!userId,
+    staleTime: 0
+  });
+
+  const { data: respecPreview, isFetching: respecLoading } = useQuery<RespecPreview>({
+    queryKey: ["/api/upgrades", "respec", "preview", userId, respecTarget],
+    queryFn: async () => {
+      const query = respecTarget ? `&upgradeId=${respecTarget}` : "";
+      const response = await apiRequest("GET", `/api/upgrades/respec/preview?userId=${userId}${query}`);
+      const raw = await response.json();
+      if (!response.ok) throw new Error(raw.error || `HTTP ${response.status}`);
+      return raw.data;
+    },
+    enabled: respecTarget !== undefined && !!userId,
+    staleTime: 0
+  });
+
+  const respecMutation = useMutation({
+    mutationFn: async (upgradeId: string | null) => {
+      const response = await apiRequest("POST", "/api/upgrades/respec", { userId, upgradeId });
+      const raw = await response.json();
+      if (!response.ok) throw new Error(raw.error || "Respec failed");
+      return raw.data;
+    },
+    onSuccess: (data) => {
+      toast.success(`Upgrades reset! ${data?.lpChange >= 0 ? "+" : ""}${(data?.lpChange || 0).toLocaleString()} LP`);
+      setRespecTarget(undefined);
+      queryClient.invalidateQueries({ queryKey: ["/api/upgrades"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user", userId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/player"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stats", userId] });
+      onUpgradeAction?.('respec', data);
+    },
+    onError: (error: Error) => {
+      debug.error('respec:error', { message: error.message });
+      toast.error(error.message || "Failed to reset upgrades");
+    },
+  });
+
   // ✅ FIXED: Purchase upgrade mutation with proper cache invalidation
   const purchaseUpgradeMutation = useMutation({
-    mutationFn: async (upgradeId: string) => {
+    mutationFn: async ({ upgradeId, quantity }: { upgradeId: string; quantity: number | "max" }) => {
       if (!userId) {
         throw new Error('No user ID available');
       }
@@ -153,11 +289,13 @@ export default function Upgrades({ playerData, onUpgradeAction }: UpgradesProps)
       debug.trace('purchase:start', { 
         upgradeId, 
         userId,
+        quantity,
         currentLP: playerData?.lp || 0
       });
 
       const response = await apiRequest("POST", `/api/upgrades/${upgradeId}/purchase`, {
-        userId: userId
+        userId: userId,
+        quantity
       });
       
       if (!response.ok) {
@@ -183,7 +321,12 @@ export default function Upgrades({ playerData, onUpgradeAction }: UpgradesProps)
       const upgradeData = result.data;
       console.log('✅ [UPGRADES] Purchase successful:', upgradeData);
       
-      toast.success(`Upgrade purchased! New level: ${upgradeData?.newLevel || '?'}`);
+      toast.success(
+        upgradeData?.levelsBought > 1
+          ? `Bought ${upgradeData.levelsBought} levels! New level: ${upgradeData.newLevel}`
+          : `Upgrade purchased! New level: ${upgradeData?.newLevel || '?'}`
+      );
+      setPreviewUpgrade(null);
       
       // ✅ CRITICAL: Invalidate ALL related queries to refresh UI
       queryClient.invalidateQueries({ queryKey: ["/api/upgrades"] });
@@ -225,13 +368,13 @@ export default function Upgrades({ playerData, onUpgradeAction }: UpgradesProps)
       ));
 
   const canAffordUpgrade = (u: Upgrade) => {
-    const cost = calculateUpgradeCost(u.baseCost, u.currentLevel);
-    return (playerData?.lp || 0) >= cost && u.currentLevel < u.maxLevel;
+    const cost = getNextCost(u);
+    return u.isUnlocked !== false && (playerData?.lp || 0) >= cost && u.currentLevel < u.maxLevel;
   };
 
   const handlePurchase = (upgradeId: string) => {
     const u = upgrades.find((x) => x.id === upgradeId);
-    const cost = u ? calculateUpgradeCost(u.baseCost, u.currentLevel) : 0;
+    const cost = u ? getNextCost(u) : 0;
     
     debug.trace('purchase:trigger', {
       upgradeId,
@@ -240,10 +383,24 @@ export default function Upgrades({ playerData, onUpgradeAction }: UpgradesProps)
       actualCost: cost, // ✅ Show actual cost (no discount)
       currentLevel: u?.currentLevel,
       currentLP: playerData?.lp || 0,
-      canAfford: u ? canAffordUpgrade(u) : false
+      canAfford: u ? canAffordUpgrade(u) : false,
+      buyMode
+    });
+
+    // Single levels buy straight away; bulk modes show the server quote first
+    if (buyMode === "1") {
+      purchaseUpgradeMutation.mutate({ upgradeId, quantity: 1 });
+    } else if (u) {
+      setPreviewUpgrade(u);
+    }
+  };
+
+  const handleConfirmPurchase = () => {
+    if (!previewUpgrade || !preview?.valid) return;
+    purchaseUpgradeMutation.mutate({
+      upgradeId: previewUpgrade.id,
+      quantity: buyMode === "max" ? "max" : Number(buyMode)
     });
-    
-    purchaseUpgradeMutation.mutate(upgradeId);
   };
 
   const handleTabChange = (tab: string) => {
@@ -294,6 +451,15 @@ export default function Upgrades({ playerData, onUpgradeAction }: UpgradesProps)
               <Heart className="w-4 h-4 text-pink-400" />
               <span className="text-pink-400 font-bold">{(playerData?.lp || 0).toLocaleString()} LP</span>
             </div>
+            {upgrades.some(u => u.currentLevel > 0) && (
+              <button
+                onClick={() => setRespecTarget(null)}
+                className="mt-1 text-xs text-gray-400 hover:text-white inline-flex items-center gap-1"
+              >
+                <RotateCcw className="w-3 h-3" />
+                Reset all
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -319,6 +485,22 @@ export default function Upgrades({ playerData, onUpgradeAction }: UpgradesProps)
               </Button>
             ))}
           </div>
+          <div className="flex gap-1 ml-auto min-w-max">
+            {([
+              { key: '1', label: 'x1' },
+              { key: '10', label: 'x10' },
+              { key: 'max', label: 'MAX' },
+            ] as { key: BuyMode; label: string }[]).map(mode => (
+              <Button key={mode.key}
+                onClick={() => setBuyMode(mode.key)}
+                className={`px-3 py-1.5 rounded-full text-xs whitespace-nowrap min-w-0 ${
+                  buyMode === mode.key ? "bg-pink-600 hover:bg-pink-700 text-white" : "bg-transparent border border-pink-500 text-pink-400 hover:bg-pink-600/20"
+                }`}
+              >
+                {mode.label}
+              </Button>
+            ))}
+          </div>
         </div>
       </div>
 
@@ -332,9 +514,10 @@ export default function Upgrades({ playerData, onUpgradeAction }: UpgradesProps)
           <ScrollArea className="h-full">
             <div className="space-y-4 p-4">
               {getFilteredUpgrades().map(u => {
-                const fullCost = calculateUpgradeCost(u.baseCost, u.currentLevel); // ✅ No discount applied
+                const fullCost = getNextCost(u); // ✅ No discount applied
                 const currentBonus = u.hourlyBonus ? calculateCurrentBonus(u.hourlyBonus, u.currentLevel) : u.tapBonus ? calculateCurrentBonus(u.tapBonus, u.currentLevel) : 0;
                 const isMaxLevel = u.currentLevel >= u.maxLevel;
+                const isLocked = u.isUnlocked === false;
                 const canAfford = canAffordUpgrade(u);
                 const playerLP = playerData?.lp || 0;
                 
@@ -364,6 +547,15 @@ export default function Upgrades({ playerData, onUpgradeAction }: UpgradesProps)
                         </div>
                         
                         <p className="text-gray-400 text-sm mb-2">{u.description}</p>
+
+                        {isLocked && (
+                          <div className="flex items-center gap-2 mb-2">
+                            <Lock className="w-4 h-4 text-red-400" />
+                            <span className="text-red-400 text-sm">
+                              Requires {(u.unmetRequirements || []).map(r => r.label).join(" and ") || "more progress"}
+                            </span>
+                          </div>
+                        )}
                         
                         <div className="flex items-center gap-2 mb-3">
                           <TrendingUp className="w-4 h-4 text-green-400" />
@@ -391,20 +583,33 @@ export default function Upgrades({ playerData, onUpgradeAction }: UpgradesProps)
                             )}
                           </div>
                           
-                          <Button 
-                            onClick={() => handlePurchase(u.id)} 
-                            disabled={!canAfford || purchaseUpgradeMutation.isPending || isMaxLevel} 
-                            className={`px-6 py-2 rounded-full transition-all duration-200 ${
-                              isMaxLevel 
-                                ? "bg-gray-600 text-gray-400 cursor-not-allowed" 
-                                : canAfford 
-                                  ? "bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white shadow-lg hover:shadow-purple-500/25" 
-                                  : "bg-gray-600 text-gray-400 cursor-not-allowed"
-                            }`}
-                          >
-                            <ShoppingCart className="w-4 h-4 mr-2" />
-                            {purchaseUpgradeMutation.isPending ? "Purchasing..." : isMaxLevel ? "Maxed" : "Purchase"}
-                          </Button>
+                          <div className="flex items-center gap-2">
+                            {u.currentLevel > 0 && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title="Reset this upgrade"
+                                onClick={() => setRespecTarget(u.id)}
+                                className="text-gray-400 hover:text-white"
+                              >
+                                <RotateCcw className="w-4 h-4" />
+                              </Button>
+                            )}
+                            <Button 
+                              onClick={() => handlePurchase(u.id)} 
+                              disabled={!canAfford || purchaseUpgradeMutation.isPending || isMaxLevel} 
+                              className={`px-6 py-2 rounded-full transition-all duration-200 ${
+                                isMaxLevel 
+                                  ? "bg-gray-600 text-gray-400 cursor-not-allowed" 
+                                  : canAfford 
+                                    ? "bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white shadow-lg hover:shadow-purple-500/25" 
+                                    : "bg-gray-600 text-gray-400 cursor-not-allowed"
+                              }`}
+                            >
+                              <ShoppingCart className="w-4 h-4 mr-2" />
+                              {purchaseUpgradeMutation.isPending ? "Purchasing..." : isMaxLevel ? "Maxed" : isLocked ? "Locked" : buyMode === "1" ? "Purchase" : buyMode === "max" ? "Buy Max" : "Buy x10"}
+                            </Button>
+                          </div>
                         </div>
                       </div>
                     </div>
@@ -422,6 +627,120 @@ export default function Upgrades({ playerData, onUpgradeAction }: UpgradesProps)
           </ScrollArea>
         )}
       </div>
+
+      {/* Bulk purchase confirmation */}
+      <Dialog open={!!previewUpgrade} onOpenChange={(open) => !open && setPreviewUpgrade(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <ShoppingCart className="w-5 h-5" />
+              {previewUpgrade?.name}
+            </DialogTitle>
+            <DialogDescription>
+              {buyMode === "max" ? "Buy as many levels as you can afford" : `Buy ${buyMode} levels`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {previewLoading || !preview ? (
+            <div className="text-center py-6 text-gray-400">Calculating cost...</div>
+          ) : (
+            <div className="space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-400">Levels</span>
+                <span className="text-white font-bold">
+                  {preview.currentLevel} → {preview.targetLevel} (+{preview.levels})
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-400">Total cost</span>
+                <span className={`font-bold ${preview.valid ? "text-pink-400" : "text-red-400"}`}>
+                  {preview.totalCost.toLocaleString()} LP
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-400">LP after</span>
+                <span className="text-white">{Math.max(0, preview.balanceAfter).toLocaleString()} LP</span>
+              </div>
+              {buyMode !== "max" && preview.levels < Number(buyMode) && preview.levels > 0 && (
+                <p className="text-xs text-yellow-400">Capped at max level {previewUpgrade?.maxLevel}</p>
+              )}
+              {!preview.valid && <p className="text-xs text-red-400">{preview.reason}</p>}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPreviewUpgrade(null)}>Cancel</Button>
+            <Button
+              onClick={handleConfirmPurchase}
+              disabled={!preview?.valid || previewLoading || purchaseUpgradeMutation.isPending}
+              className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white"
+            >
+              {purchaseUpgradeMutation.isPending ? "Purchasing..." : "Confirm"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Respec confirmation */}
+      <Dialog open={respecTarget !== undefined} onOpenChange={(open) => !open && setRespecTarget(undefined)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <RotateCcw className="w-5 h-5" />
+              {respecTarget ? `Reset ${upgrades.find(u => u.id === respecTarget)?.name || respecTarget}` : "Reset all upgrades"}
+            </DialogTitle>
+            <DialogDescription>
+              Levels go back to 0 and part of the LP you spent is refunded.
+            </DialogDescription>
+          </DialogHeader>
+
+          {respecLoading || !respecPreview ? (
+            <div className="text-center py-6 text-gray-400">Calculating refund...</div>
+          ) : (
+            <div className="space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-400">Levels reset</span>
+                <span className="text-white font-bold">
+                  {respecPreview.upgrades.reduce((sum, line) => sum + line.level, 0)}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-400">Refund ({respecPreview.refundPercent}%)</span>
+                <span className="text-green-400 font-bold">+{respecPreview.refund.toLocaleString()} LP</span>
+              </div>
+              {respecPreview.fee > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-gray-400">Fee</span>
+                  <span className="text-red-400">-{respecPreview.fee.toLocaleString()} LP</span>
+                </div>
+              )}
+              <div className="flex justify-between">
+                <span className="text-gray-400">LP after</span>
+                <span className="text-white">{Math.max(0, respecPreview.balanceAfter).toLocaleString()} LP</span>
+              </div>
+              {respecPreview.cooldownEndsAt && (
+                <p className="text-xs text-yellow-400">
+                  Available again {new Date(respecPreview.cooldownEndsAt).toLocaleString()}
+                </p>
+              )}
+              {!respecPreview.valid && !respecPreview.cooldownEndsAt && (
+                <p className="text-xs text-red-400">{respecPreview.reason}</p>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRespecTarget(undefined)}>Cancel</Button>
+            <Button
+              onClick={() => respecMutation.mutate(respecTarget ?? null)}
+              disabled={!respecPreview?.valid || respecLoading || respecMutation.isPending}
+              className="bg-red-600 hover:bg-red-700 text-white"
+            >
+              {respecMutation.isPending ? "Resetting..." : "Reset"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
@@ -25,6 +25,7 @@ export const API_ROUTES = {
   level: '/api/level',
   stats: '/api/stats',
   tap: '/api/tap',
+  tapBatch: '/api/tap/batch',
   characters: '/api/characters',
   rewards: '/api/rewards',
 } as const;
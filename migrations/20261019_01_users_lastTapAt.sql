@@ -0,0 +1,7 @@
+-- migrate:up
+-- Server-side timestamp of the last accepted tap batch, used to validate
+-- batched taps against GameSettings.tapCooldown and elapsed time.
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "lastTapAt" timestamp;
+
+-- migrate:down
+ALTER TABLE "users" DROP COLUMN IF EXISTS "lastTapAt";
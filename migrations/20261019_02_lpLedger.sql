@@ -0,0 +1,17 @@
+-- migrate:up
+-- Append-only record of every LP change so balances can be audited and reconciled.
+CREATE TABLE IF NOT EXISTS "lpLedger" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "userId" text NOT NULL,
+  "delta" real NOT NULL,
+  "balanceAfter" real NOT NULL,
+  "source" text NOT NULL,
+  "refId" text,
+  "createdAt" timestamp NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "lpLedger_userId_createdAt_idx" ON "lpLedger" ("userId", "createdAt");
+CREATE INDEX IF NOT EXISTS "lpLedger_createdAt_idx" ON "lpLedger" ("createdAt");
+
+-- migrate:down
+DROP TABLE IF EXISTS "lpLedger";
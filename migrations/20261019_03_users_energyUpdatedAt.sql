@@ -0,0 +1,6 @@
+-- migrate:up
+-- Energy is regenerated lazily from this timestamp instead of per-user server timers.
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "energyUpdatedAt" timestamp NOT NULL DEFAULT now();
+
+-- migrate:down
+ALTER TABLE "users" DROP COLUMN IF EXISTS "energyUpdatedAt";
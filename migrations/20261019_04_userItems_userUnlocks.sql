@@ -0,0 +1,26 @@
+-- migrate:up
+-- Inventory and permanent unlocks granted by RewardService (item and mediaTagUnlock rewards).
+CREATE TABLE IF NOT EXISTS "userItems" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "userId" text NOT NULL,
+  "itemId" text NOT NULL,
+  "quantity" integer NOT NULL DEFAULT 0,
+  "updatedAt" timestamp NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "userItems_userId_itemId_idx" ON "userItems" ("userId", "itemId");
+
+CREATE TABLE IF NOT EXISTS "userUnlocks" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "userId" text NOT NULL,
+  "kind" text NOT NULL,
+  "key" text NOT NULL,
+  "source" text,
+  "unlockedAt" timestamp NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "userUnlocks_userId_kind_key_idx" ON "userUnlocks" ("userId", "kind", "key");
+
+-- migrate:down
+DROP TABLE IF EXISTS "userUnlocks";
+DROP TABLE IF EXISTS "userItems";
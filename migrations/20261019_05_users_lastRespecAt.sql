@@ -0,0 +1,6 @@
+-- migrate:up
+-- Anchor for the upgrade respec cooldown (GameSettings.respec.cooldownHours).
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "lastRespecAt" timestamp;
+
+-- migrate:down
+ALTER TABLE "users" DROP COLUMN IF EXISTS "lastRespecAt";
@@ -0,0 +1,13 @@
+-- migrate:up
+-- XP progression track: levels are claimed against xp instead of the spendable LP balance.
+-- Existing accounts keep xpMigratedAt NULL; XpService seeds their xp from lifetime LP earned
+-- (GameSettings.xp.lifetimeLpRate) on first access, or in bulk with `npx tsx server/migrate-xp.ts`.
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "xp" real NOT NULL DEFAULT 0;
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "xpMigratedAt" timestamp;
+
+-- Accounts created from now on start on the XP track
+ALTER TABLE "users" ALTER COLUMN "xpMigratedAt" SET DEFAULT now();
+
+-- migrate:down
+ALTER TABLE "users" DROP COLUMN IF EXISTS "xpMigratedAt";
+ALTER TABLE "users" DROP COLUMN IF EXISTS "xp";
@@ -0,0 +1,18 @@
+-- migrate:up
+-- History of offline income claims with the per-source breakdown shown to players and admins.
+CREATE TABLE IF NOT EXISTS "offlineClaims" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "userId" text NOT NULL,
+  "offlineMinutes" integer NOT NULL,
+  "minutesApplied" integer NOT NULL,
+  "capMinutes" integer NOT NULL,
+  "lpClaimed" real NOT NULL,
+  "lostToCap" real NOT NULL DEFAULT 0,
+  "breakdown" jsonb NOT NULL DEFAULT '[]',
+  "claimedAt" timestamp NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "offlineClaims_userId_claimedAt_idx" ON "offlineClaims" ("userId", "claimedAt");
+
+-- migrate:down
+DROP TABLE IF EXISTS "offlineClaims";
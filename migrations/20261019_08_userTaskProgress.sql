@@ -0,0 +1,17 @@
+-- migrate:up
+-- Task progress per reset period (daily/weekly resetSchedule); a new period starts a new row.
+CREATE TABLE IF NOT EXISTS "userTaskProgress" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "userId" text NOT NULL,
+  "taskId" text NOT NULL,
+  "periodKey" text NOT NULL,
+  "progress" real NOT NULL DEFAULT 0,
+  "completedAt" timestamp,
+  "claimedAt" timestamp,
+  "updatedAt" timestamp NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "userTaskProgress_userId_taskId_periodKey_idx" ON "userTaskProgress" ("userId", "taskId", "periodKey");
+
+-- migrate:down
+DROP TABLE IF EXISTS "userTaskProgress";
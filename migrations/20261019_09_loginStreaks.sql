@@ -0,0 +1,23 @@
+-- migrate:up
+-- Login streaks counted in GameSettings.dailyBonusHour reset windows, plus login calendar claims.
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "loginStreak" integer NOT NULL DEFAULT 0;
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "longestLoginStreak" integer NOT NULL DEFAULT 0;
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "lastLoginAt" timestamp;
+
+CREATE TABLE IF NOT EXISTS "loginRewardClaims" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "userId" text NOT NULL,
+  "calendarId" text NOT NULL,
+  "day" integer NOT NULL,
+  "streak" integer NOT NULL,
+  "periodKey" text NOT NULL,
+  "claimedAt" timestamp NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "loginRewardClaims_userId_calendarId_periodKey_idx" ON "loginRewardClaims" ("userId", "calendarId", "periodKey");
+
+-- migrate:down
+DROP TABLE IF EXISTS "loginRewardClaims";
+ALTER TABLE "users" DROP COLUMN IF EXISTS "lastLoginAt";
+ALTER TABLE "users" DROP COLUMN IF EXISTS "longestLoginStreak";
+ALTER TABLE "users" DROP COLUMN IF EXISTS "loginStreak";
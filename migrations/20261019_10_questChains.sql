@@ -0,0 +1,18 @@
+-- migrate:up
+-- Quest chain step progress. A row is created when a step unlocks and claimed once.
+CREATE TABLE IF NOT EXISTS "userQuestProgress" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "userId" text NOT NULL,
+  "chainId" text NOT NULL,
+  "stepId" text NOT NULL,
+  "progress" real NOT NULL DEFAULT 0,
+  "unlockedAt" timestamp NOT NULL DEFAULT now(),
+  "completedAt" timestamp,
+  "claimedAt" timestamp,
+  "updatedAt" timestamp NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "userQuestProgress_userId_chainId_stepId_idx" ON "userQuestProgress" ("userId", "chainId", "stepId");
+
+-- migrate:down
+DROP TABLE IF EXISTS "userQuestProgress";
@@ -0,0 +1,19 @@
+-- migrate:up
+-- Achievements are JSON (game-data/achievements) and players are keyed by text ids, so both columns
+-- become text without FKs. currentLevel now counts tiers reached, starting from 0.
+DO $$ BEGIN
+  ALTER TABLE "userAchievements" DROP CONSTRAINT IF EXISTS "userAchievements_achievementId_achievements_id_fk";
+  ALTER TABLE "userAchievements" DROP CONSTRAINT IF EXISTS "userAchievements_userId_users_id_fk";
+EXCEPTION WHEN undefined_object THEN NULL; END $$;
+
+ALTER TABLE "userAchievements" ALTER COLUMN "achievementId" TYPE text USING "achievementId"::text;
+ALTER TABLE "userAchievements" ALTER COLUMN "userId" TYPE text USING "userId"::text;
+ALTER TABLE "userAchievements" ALTER COLUMN "currentLevel" SET DEFAULT 0;
+ALTER TABLE "userAchievements" ADD COLUMN IF NOT EXISTS "unlockedAt" timestamp;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "userAchievements_userId_achievementId_idx" ON "userAchievements" ("userId", "achievementId");
+
+-- migrate:down
+DROP INDEX IF EXISTS "userAchievements_userId_achievementId_idx";
+ALTER TABLE "userAchievements" DROP COLUMN IF EXISTS "unlockedAt";
+ALTER TABLE "userAchievements" ALTER COLUMN "currentLevel" SET DEFAULT 1;
@@ -0,0 +1,38 @@
+-- migrate:up
+-- gameStats becomes one row of lifetime counters per user, with the newer counters next to taps/LP/energy.
+ALTER TABLE "gameStats" ADD COLUMN IF NOT EXISTS "wheelSpins" integer NOT NULL DEFAULT 0;
+ALTER TABLE "gameStats" ADD COLUMN IF NOT EXISTS "chatMessages" integer NOT NULL DEFAULT 0;
+ALTER TABLE "gameStats" ADD COLUMN IF NOT EXISTS "mediaReceived" integer NOT NULL DEFAULT 0;
+ALTER TABLE "gameStats" ADD COLUMN IF NOT EXISTS "upgradesPurchased" integer NOT NULL DEFAULT 0;
+
+-- Keep the most recent row per user before enforcing one
+DELETE FROM "gameStats" a USING "gameStats" b
+WHERE a."userId" = b."userId" AND (a."lastUpdated", a."id") < (b."lastUpdated", b."id");
+
+CREATE UNIQUE INDEX IF NOT EXISTS "gameStats_userId_idx" ON "gameStats" ("userId");
+
+-- Per-day rollups of the same counters (UTC days)
+CREATE TABLE IF NOT EXISTS "gameStatsDaily" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "userId" text NOT NULL,
+  "day" text NOT NULL,
+  "totalTaps" integer NOT NULL DEFAULT 0,
+  "totalLpEarned" integer NOT NULL DEFAULT 0,
+  "totalEnergyUsed" integer NOT NULL DEFAULT 0,
+  "sessionsPlayed" integer NOT NULL DEFAULT 0,
+  "wheelSpins" integer NOT NULL DEFAULT 0,
+  "chatMessages" integer NOT NULL DEFAULT 0,
+  "mediaReceived" integer NOT NULL DEFAULT 0,
+  "upgradesPurchased" integer NOT NULL DEFAULT 0,
+  "updatedAt" timestamp NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "gameStatsDaily_userId_day_idx" ON "gameStatsDaily" ("userId", "day");
+
+-- migrate:down
+DROP TABLE IF EXISTS "gameStatsDaily";
+DROP INDEX IF EXISTS "gameStats_userId_idx";
+ALTER TABLE "gameStats" DROP COLUMN IF EXISTS "upgradesPurchased";
+ALTER TABLE "gameStats" DROP COLUMN IF EXISTS "mediaReceived";
+ALTER TABLE "gameStats" DROP COLUMN IF EXISTS "chatMessages";
+ALTER TABLE "gameStats" DROP COLUMN IF EXISTS "wheelSpins";
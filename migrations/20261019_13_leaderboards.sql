@@ -0,0 +1,29 @@
+-- migrate:up
+-- Leaderboard rank snapshots (global and weekly) and closed weekly seasons.
+CREATE TABLE IF NOT EXISTS "leaderboardEntries" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "board" text NOT NULL,
+  "period" text NOT NULL,
+  "userId" text NOT NULL,
+  "score" real NOT NULL DEFAULT 0,
+  "rank" integer NOT NULL,
+  "rewardedAt" timestamp,
+  "updatedAt" timestamp NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "leaderboardEntries_board_period_userId_idx" ON "leaderboardEntries" ("board", "period", "userId");
+CREATE INDEX IF NOT EXISTS "leaderboardEntries_board_period_rank_idx" ON "leaderboardEntries" ("board", "period", "rank");
+
+CREATE TABLE IF NOT EXISTS "leaderboardSeasons" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "board" text NOT NULL,
+  "period" text NOT NULL,
+  "entries" integer NOT NULL DEFAULT 0,
+  "closedAt" timestamp NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "leaderboardSeasons_board_period_idx" ON "leaderboardSeasons" ("board", "period");
+
+-- migrate:down
+DROP TABLE IF EXISTS "leaderboardSeasons";
+DROP TABLE IF EXISTS "leaderboardEntries";
@@ -0,0 +1,32 @@
+-- migrate:up
+-- Referral codes, invitee attribution and per-side milestone reward markers.
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "referralCode" text;
+CREATE UNIQUE INDEX IF NOT EXISTS "users_referralCode_idx" ON "users" ("referralCode");
+
+CREATE TABLE IF NOT EXISTS "referrals" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "referrerId" text NOT NULL,
+  "inviteeId" text NOT NULL,
+  "code" text NOT NULL,
+  "createdAt" timestamp NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "referrals_inviteeId_idx" ON "referrals" ("inviteeId");
+CREATE INDEX IF NOT EXISTS "referrals_referrerId_idx" ON "referrals" ("referrerId");
+
+CREATE TABLE IF NOT EXISTS "referralRewards" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "referralId" text NOT NULL,
+  "milestoneId" text NOT NULL,
+  "side" text NOT NULL,
+  "userId" text NOT NULL,
+  "rewardedAt" timestamp NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "referralRewards_referral_milestone_side_idx" ON "referralRewards" ("referralId", "milestoneId", "side");
+
+-- migrate:down
+DROP TABLE IF EXISTS "referralRewards";
+DROP TABLE IF EXISTS "referrals";
+DROP INDEX IF EXISTS "users_referralCode_idx";
+ALTER TABLE "users" DROP COLUMN IF EXISTS "referralCode";
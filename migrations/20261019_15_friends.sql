@@ -0,0 +1,37 @@
+-- migrate:up
+-- Friendships, daily friend gifts and the persisted character selection shown on friend lists.
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "selectedCharacterId" text;
+
+CREATE TABLE IF NOT EXISTS "friendships" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "requesterId" text NOT NULL,
+  "addresseeId" text NOT NULL,
+  "pairKey" text NOT NULL,
+  "status" text NOT NULL DEFAULT 'pending',
+  "source" text NOT NULL DEFAULT 'username',
+  "createdAt" timestamp NOT NULL DEFAULT now(),
+  "respondedAt" timestamp
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "friendships_pairKey_idx" ON "friendships" ("pairKey");
+CREATE INDEX IF NOT EXISTS "friendships_requesterId_idx" ON "friendships" ("requesterId");
+CREATE INDEX IF NOT EXISTS "friendships_addresseeId_idx" ON "friendships" ("addresseeId");
+
+CREATE TABLE IF NOT EXISTS "friendGifts" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "senderId" text NOT NULL,
+  "recipientId" text NOT NULL,
+  "day" text NOT NULL,
+  "kind" text NOT NULL,
+  "rewards" jsonb NOT NULL,
+  "createdAt" timestamp NOT NULL DEFAULT now(),
+  "claimedAt" timestamp
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "friendGifts_sender_recipient_day_idx" ON "friendGifts" ("senderId", "recipientId", "day");
+CREATE INDEX IF NOT EXISTS "friendGifts_recipient_pending_idx" ON "friendGifts" ("recipientId") WHERE "claimedAt" IS NULL;
+
+-- migrate:down
+DROP TABLE IF EXISTS "friendGifts";
+DROP TABLE IF EXISTS "friendships";
+ALTER TABLE "users" DROP COLUMN IF EXISTS "selectedCharacterId";
@@ -0,0 +1,67 @@
+-- migrate:up
+-- Player clubs, members with roles, weekly goal contributions, closed weeks and queued goal rewards.
+CREATE TABLE IF NOT EXISTS "clubs" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "name" text NOT NULL,
+  "description" text,
+  "ownerId" text NOT NULL,
+  "createdAt" timestamp NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "clubs_name_lower_idx" ON "clubs" (lower("name"));
+
+CREATE TABLE IF NOT EXISTS "clubMembers" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "clubId" text NOT NULL,
+  "userId" text NOT NULL,
+  "role" text NOT NULL DEFAULT 'member',
+  "joinedAt" timestamp NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "clubMembers_userId_idx" ON "clubMembers" ("userId");
+CREATE INDEX IF NOT EXISTS "clubMembers_clubId_idx" ON "clubMembers" ("clubId");
+
+CREATE TABLE IF NOT EXISTS "clubContributions" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "clubId" text NOT NULL,
+  "period" text NOT NULL,
+  "userId" text NOT NULL,
+  "goalId" text NOT NULL,
+  "amount" real NOT NULL DEFAULT 0,
+  "updatedAt" timestamp NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "clubContributions_club_period_user_goal_idx" ON "clubContributions" ("clubId", "period", "userId", "goalId");
+CREATE INDEX IF NOT EXISTS "clubContributions_period_idx" ON "clubContributions" ("period");
+
+CREATE TABLE IF NOT EXISTS "clubWeeks" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "clubId" text NOT NULL,
+  "period" text NOT NULL,
+  "progress" jsonb NOT NULL,
+  "members" integer NOT NULL DEFAULT 0,
+  "closedAt" timestamp NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "clubWeeks_club_period_idx" ON "clubWeeks" ("clubId", "period");
+
+CREATE TABLE IF NOT EXISTS "clubRewards" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "clubId" text NOT NULL,
+  "period" text NOT NULL,
+  "goalId" text NOT NULL,
+  "tier" integer NOT NULL,
+  "userId" text NOT NULL,
+  "rewardedAt" timestamp,
+  "createdAt" timestamp NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "clubRewards_club_period_goal_tier_user_idx" ON "clubRewards" ("clubId", "period", "goalId", "tier", "userId");
+CREATE INDEX IF NOT EXISTS "clubRewards_period_pending_idx" ON "clubRewards" ("period") WHERE "rewardedAt" IS NULL;
+
+-- migrate:down
+DROP TABLE IF EXISTS "clubRewards";
+DROP TABLE IF EXISTS "clubWeeks";
+DROP TABLE IF EXISTS "clubContributions";
+DROP TABLE IF EXISTS "clubMembers";
+DROP TABLE IF EXISTS "clubs";
@@ -0,0 +1,27 @@
+-- migrate:up
+-- Daily affection per player, character and source (bond caps), and one userCharacters row per pair.
+CREATE TABLE IF NOT EXISTS "characterAffectionDaily" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "userId" text NOT NULL,
+  "characterId" text NOT NULL,
+  "day" text NOT NULL,
+  "chat" integer NOT NULL DEFAULT 0,
+  "tap" integer NOT NULL DEFAULT 0,
+  "gift" integer NOT NULL DEFAULT 0,
+  "taps" integer NOT NULL DEFAULT 0,
+  "updatedAt" timestamp NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "characterAffectionDaily_user_character_day_idx" ON "characterAffectionDaily" ("userId", "characterId", "day");
+
+-- Affection is now written per pair, so duplicates (kept: the oldest) would split it
+DELETE FROM "userCharacters" a
+  USING "userCharacters" b
+  WHERE a."userId" = b."userId" AND a."characterId" = b."characterId"
+    AND (a."unlockedAt" > b."unlockedAt" OR (a."unlockedAt" = b."unlockedAt" AND a."id" > b."id"));
+
+CREATE UNIQUE INDEX IF NOT EXISTS "userCharacters_user_character_idx" ON "userCharacters" ("userId", "characterId");
+
+-- migrate:down
+DROP INDEX IF EXISTS "userCharacters_user_character_idx";
+DROP TABLE IF EXISTS "characterAffectionDaily";
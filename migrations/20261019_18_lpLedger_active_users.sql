@@ -0,0 +1,11 @@
+-- migrate:up
+-- Distinct players with ledger activity since a point in time (LedgerService.reconcileRecent),
+-- so the reconcile job doesn't page through every entry to find them.
+CREATE OR REPLACE FUNCTION "lp_ledger_users_since"(p_since timestamp)
+RETURNS TABLE ("userId" text)
+LANGUAGE sql STABLE AS $$
+  SELECT DISTINCT l."userId" FROM "lpLedger" l WHERE l."createdAt" >= p_since;
+$$;
+
+-- migrate:down
+DROP FUNCTION IF EXISTS "lp_ledger_users_since"(timestamp);
@@ -0,0 +1,16 @@
+-- migrate:up
+-- Club weeks with contributions but no clubWeeks row, before the given (current) ISO week. ClubService
+-- closes all of them, so a week that ended while the server was down is still closed and paid.
+CREATE OR REPLACE FUNCTION "club_weeks_to_close"(p_before text)
+RETURNS TABLE ("clubId" text, "period" text)
+LANGUAGE sql STABLE AS $$
+  SELECT DISTINCT c."clubId", c."period"
+  FROM "clubContributions" c
+  WHERE c."period" < p_before
+    AND NOT EXISTS (
+      SELECT 1 FROM "clubWeeks" w WHERE w."clubId" = c."clubId" AND w."period" = c."period"
+    );
+$$;
+
+-- migrate:down
+DROP FUNCTION IF EXISTS "club_weeks_to_close"(text);
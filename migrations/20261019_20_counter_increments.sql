@@ -0,0 +1,86 @@
+-- migrate:up
+-- Counter writes as single statements (col = col + n), so concurrent events for the same player add up
+-- instead of the last read-add-upsert winning.
+
+-- Adds p_deltas ({ counter: n }, keys as in gameStatsDaily) to the lifetime gameStats row and the day's row
+CREATE OR REPLACE FUNCTION "increment_game_stats"(p_user_id text, p_day text, p_deltas jsonb, p_at timestamp)
+RETURNS void
+LANGUAGE sql AS $$
+  INSERT INTO "gameStats" AS s ("userId", "totalTaps", "totalLpEarned", "totalEnergyUsed", "sessionPlayed",
+    "wheelSpins", "chatMessages", "mediaReceived", "upgradesPurchased", "lastUpdated")
+  VALUES (p_user_id::uuid,
+    COALESCE((p_deltas->>'totalTaps')::integer, 0),
+    COALESCE((p_deltas->>'totalLpEarned')::integer, 0),
+    COALESCE((p_deltas->>'totalEnergyUsed')::integer, 0),
+    COALESCE((p_deltas->>'sessionsPlayed')::integer, 0),
+    COALESCE((p_deltas->>'wheelSpins')::integer, 0),
+    COALESCE((p_deltas->>'chatMessages')::integer, 0),
+    COALESCE((p_deltas->>'mediaReceived')::integer, 0),
+    COALESCE((p_deltas->>'upgradesPurchased')::integer, 0),
+    p_at)
+  ON CONFLICT ("userId") DO UPDATE SET
+    "totalTaps" = s."totalTaps" + EXCLUDED."totalTaps",
+    "totalLpEarned" = s."totalLpEarned" + EXCLUDED."totalLpEarned",
+    "totalEnergyUsed" = s."totalEnergyUsed" + EXCLUDED."totalEnergyUsed",
+    "sessionPlayed" = s."sessionPlayed" + EXCLUDED."sessionPlayed",
+    "wheelSpins" = s."wheelSpins" + EXCLUDED."wheelSpins",
+    "chatMessages" = s."chatMessages" + EXCLUDED."chatMessages",
+    "mediaReceived" = s."mediaReceived" + EXCLUDED."mediaReceived",
+    "upgradesPurchased" = s."upgradesPurchased" + EXCLUDED."upgradesPurchased",
+    "lastUpdated" = GREATEST(s."lastUpdated", EXCLUDED."lastUpdated");
+
+  INSERT INTO "gameStatsDaily" AS d ("userId", "day", "totalTaps", "totalLpEarned", "totalEnergyUsed", "sessionsPlayed",
+    "wheelSpins", "chatMessages", "mediaReceived", "upgradesPurchased", "updatedAt")
+  VALUES (p_user_id, p_day,
+    COALESCE((p_deltas->>'totalTaps')::integer, 0),
+    COALESCE((p_deltas->>'totalLpEarned')::integer, 0),
+    COALESCE((p_deltas->>'totalEnergyUsed')::integer, 0),
+    COALESCE((p_deltas->>'sessionsPlayed')::integer, 0),
+    COALESCE((p_deltas->>'wheelSpins')::integer, 0),
+    COALESCE((p_deltas->>'chatMessages')::integer, 0),
+    COALESCE((p_deltas->>'mediaReceived')::integer, 0),
+    COALESCE((p_deltas->>'upgradesPurchased')::integer, 0),
+    p_at)
+  ON CONFLICT ("userId", "day") DO UPDATE SET
+    "totalTaps" = d."totalTaps" + EXCLUDED."totalTaps",
+    "totalLpEarned" = d."totalLpEarned" + EXCLUDED."totalLpEarned",
+    "totalEnergyUsed" = d."totalEnergyUsed" + EXCLUDED."totalEnergyUsed",
+    "sessionsPlayed" = d."sessionsPlayed" + EXCLUDED."sessionsPlayed",
+    "wheelSpins" = d."wheelSpins" + EXCLUDED."wheelSpins",
+    "chatMessages" = d."chatMessages" + EXCLUDED."chatMessages",
+    "mediaReceived" = d."mediaReceived" + EXCLUDED."mediaReceived",
+    "upgradesPurchased" = d."upgradesPurchased" + EXCLUDED."upgradesPurchased",
+    "updatedAt" = GREATEST(d."updatedAt", EXCLUDED."updatedAt");
+$$;
+
+-- Adds p_amount to one member's contribution toward a club goal for the week
+CREATE OR REPLACE FUNCTION "increment_club_contribution"(p_club_id text, p_period text, p_user_id text, p_goal_id text, p_amount real, p_at timestamp)
+RETURNS void
+LANGUAGE sql AS $$
+  INSERT INTO "clubContributions" AS c ("clubId", "period", "userId", "goalId", "amount", "updatedAt")
+  VALUES (p_club_id, p_period, p_user_id, p_goal_id, p_amount, p_at)
+  ON CONFLICT ("clubId", "period", "userId", "goalId") DO UPDATE SET
+    "amount" = c."amount" + EXCLUDED."amount",
+    "updatedAt" = EXCLUDED."updatedAt";
+$$;
+
+-- Moves a task's progress for the period toward p_target: adds p_amount, or keeps the highest value for
+-- absolute requirements (p_absolute). Claimed rows are left alone; completedAt is set once.
+CREATE OR REPLACE FUNCTION "record_task_progress"(p_user_id text, p_task_id text, p_period_key text, p_amount real, p_target real, p_absolute boolean, p_at timestamp)
+RETURNS void
+LANGUAGE sql AS $$
+  INSERT INTO "userTaskProgress" AS t ("userId", "taskId", "periodKey", "progress", "completedAt", "updatedAt")
+  VALUES (p_user_id, p_task_id, p_period_key, LEAST(p_target, p_amount),
+    CASE WHEN p_amount >= p_target THEN p_at END, p_at)
+  ON CONFLICT ("userId", "taskId", "periodKey") DO UPDATE SET
+    "progress" = LEAST(p_target, CASE WHEN p_absolute THEN GREATEST(t."progress", p_amount) ELSE t."progress" + p_amount END),
+    "completedAt" = COALESCE(t."completedAt",
+      CASE WHEN LEAST(p_target, CASE WHEN p_absolute THEN GREATEST(t."progress", p_amount) ELSE t."progress" + p_amount END) >= p_target THEN p_at END),
+    "updatedAt" = p_at
+  WHERE t."claimedAt" IS NULL;
+$$;
+
+-- migrate:down
+DROP FUNCTION IF EXISTS "record_task_progress"(text, text, text, real, real, boolean, timestamp);
+DROP FUNCTION IF EXISTS "increment_club_contribution"(text, text, text, text, real, timestamp);
+DROP FUNCTION IF EXISTS "increment_game_stats"(text, text, jsonb, timestamp);
@@ -0,0 +1,44 @@
+-- migrate:up
+-- Achievement progress moves in one locked statement so concurrent events add up. p_targets are the tier
+-- targets in order; currentLevel counts the ones reached. lastClaimedLevel is only written by claims.
+CREATE OR REPLACE FUNCTION "record_achievement_progress"(p_user_id text, p_achievement_id text, p_amount integer, p_absolute boolean, p_targets real[], p_at timestamp)
+RETURNS TABLE ("fromLevel" integer, "toLevel" integer)
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_progress integer;
+  v_level integer;
+  v_next integer;
+  v_next_level integer;
+BEGIN
+  INSERT INTO "userAchievements" ("userId", "achievementId", "progress", "currentLevel", "updatedAt")
+  VALUES (p_user_id, p_achievement_id, 0, 0, p_at)
+  ON CONFLICT ("userId", "achievementId") DO NOTHING;
+
+  SELECT a."progress", a."currentLevel" INTO v_progress, v_level
+  FROM "userAchievements" a
+  WHERE a."userId" = p_user_id AND a."achievementId" = p_achievement_id
+  FOR UPDATE;
+
+  v_next := CASE WHEN p_absolute THEN GREATEST(v_progress, p_amount) ELSE v_progress + p_amount END;
+  IF v_next = v_progress THEN
+    RETURN QUERY SELECT v_level, v_level;
+    RETURN;
+  END IF;
+
+  SELECT count(*)::integer INTO v_next_level FROM unnest(p_targets) AS t(target) WHERE v_next >= t.target;
+
+  UPDATE "userAchievements" a SET
+    "progress" = v_next,
+    "currentLevel" = v_next_level,
+    "completed" = v_next_level >= COALESCE(array_length(p_targets, 1), 0),
+    "unlockedAt" = COALESCE(a."unlockedAt", CASE WHEN v_next_level > 0 THEN p_at END),
+    "completedAt" = COALESCE(a."completedAt", CASE WHEN v_next_level >= COALESCE(array_length(p_targets, 1), 0) THEN p_at END),
+    "updatedAt" = p_at
+  WHERE a."userId" = p_user_id AND a."achievementId" = p_achievement_id;
+
+  RETURN QUERY SELECT v_level, v_next_level;
+END;
+$$;
+
+-- migrate:down
+DROP FUNCTION IF EXISTS "record_achievement_progress"(text, text, integer, boolean, real[], timestamp);
@@ -0,0 +1,34 @@
+-- migrate:up
+-- totalLpEarned used to count tap LP only. It now counts every earning ledger source (LedgerService
+-- EARNING_SOURCES), so the LP earned so far from the other sources is added to the lifetime and daily rows
+-- that feed the LP leaderboards.
+WITH earned AS (
+  SELECT l."userId", to_char(l."createdAt", 'YYYY-MM-DD') AS "day", floor(sum(l."delta"))::integer AS "lp"
+  FROM "lpLedger" l
+  WHERE l."delta" > 0
+    AND l."source" IN ('reward_claim', 'wheel', 'offline_claim', 'level_claim', 'achievement_claim', 'task_claim', 'quest_claim',
+      'vip_daily_bonus', 'login_reward', 'leaderboard_reward', 'referral_reward', 'club_reward', 'bond_level')
+  GROUP BY l."userId", to_char(l."createdAt", 'YYYY-MM-DD')
+)
+INSERT INTO "gameStatsDaily" AS d ("userId", "day", "totalLpEarned")
+SELECT e."userId", e."day", e."lp" FROM earned e WHERE e."lp" > 0
+ON CONFLICT ("userId", "day") DO UPDATE SET "totalLpEarned" = d."totalLpEarned" + EXCLUDED."totalLpEarned";
+
+WITH earned AS (
+  SELECT l."userId", to_char(l."createdAt", 'YYYY-MM-DD') AS "day", floor(sum(l."delta"))::integer AS "lp"
+  FROM "lpLedger" l
+  WHERE l."delta" > 0
+    AND l."source" IN ('reward_claim', 'wheel', 'offline_claim', 'level_claim', 'achievement_claim', 'task_claim', 'quest_claim',
+      'vip_daily_bonus', 'login_reward', 'leaderboard_reward', 'referral_reward', 'club_reward', 'bond_level')
+  GROUP BY l."userId", to_char(l."createdAt", 'YYYY-MM-DD')
+)
+INSERT INTO "gameStats" AS s ("userId", "totalLpEarned")
+SELECT u."id", sum(e."lp")::integer
+FROM earned e
+JOIN "users" u ON u."id"::text = e."userId"
+GROUP BY u."id"
+HAVING sum(e."lp") > 0
+ON CONFLICT ("userId") DO UPDATE SET "totalLpEarned" = s."totalLpEarned" + EXCLUDED."totalLpEarned";
+
+-- migrate:down
+-- Data backfill only: the added LP can't be told apart from LP counted since, so nothing is undone.
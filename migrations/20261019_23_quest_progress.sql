@@ -0,0 +1,20 @@
+-- migrate:up
+-- Moves a quest step's progress toward p_target in one statement, like record_task_progress: adds p_amount,
+-- or keeps the highest value for absolute requirements (p_absolute). Claimed steps are left alone;
+-- completedAt is set once.
+CREATE OR REPLACE FUNCTION "record_quest_progress"(p_user_id text, p_chain_id text, p_step_id text, p_amount real, p_target real, p_absolute boolean, p_at timestamp)
+RETURNS void
+LANGUAGE sql AS $$
+  INSERT INTO "userQuestProgress" AS q ("userId", "chainId", "stepId", "progress", "completedAt", "updatedAt")
+  VALUES (p_user_id, p_chain_id, p_step_id, LEAST(p_target, p_amount),
+    CASE WHEN p_amount >= p_target THEN p_at END, p_at)
+  ON CONFLICT ("userId", "chainId", "stepId") DO UPDATE SET
+    "progress" = LEAST(p_target, CASE WHEN p_absolute THEN GREATEST(q."progress", p_amount) ELSE q."progress" + p_amount END),
+    "completedAt" = COALESCE(q."completedAt",
+      CASE WHEN LEAST(p_target, CASE WHEN p_absolute THEN GREATEST(q."progress", p_amount) ELSE q."progress" + p_amount END) >= p_target THEN p_at END),
+    "updatedAt" = p_at
+  WHERE q."claimedAt" IS NULL;
+$$;
+
+-- migrate:down
+DROP FUNCTION IF EXISTS "record_quest_progress"(text, text, text, real, real, boolean, timestamp);
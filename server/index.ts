@@ -12,6 +12,7 @@ import express, { type Request, Response, NextFunction } from "express";
 import path from "path";
 import { LunaErrorMonitor, setupLunaErrorHandlers } from './services/LunaErrorMonitor.js';
 import { registerRoutes } from "./routes";
+import { REFERRAL_PAYLOAD_PREFIX } from './services/ReferralService.js';
 import { WebSocketServer } from 'ws';
 import { SupabaseStorage } from 'shared/SupabaseStorage';
 import { drizzle } from 'drizzle-orm/postgres-js';
@@ -169,10 +170,12 @@ if (token && !telegramBotInitialized) {
       const username = msg.from.username;
       const timestamp = new Date().toISOString();
 
-      // Only respond to /start or /login commands
-      if (messageText !== '/start' && messageText !== '/login') {
+      // Only respond to /start or /login commands; /start may carry a deep-link payload (ref_<code>)
+      const command = typeof messageText === 'string' ? messageText.trim().match(/^\/(start|login)(?:@\w+)?(?:\s+(\S+))?$/) : null;
+      if (!command) {
         return;
       }
+      const referralCode = command[1] === 'start' && command[2]?.startsWith(REFERRAL_PAYLOAD_PREFIX) ? command[2] : undefined;
 
       try {
         console.log(`[${timestamp}] Telegram auth initiated for user: ${telegramId} (${username}) with command: ${messageText}`);
@@ -190,7 +193,8 @@ if (token && !telegramBotInitialized) {
           body: JSON.stringify({
             telegramId,
             username,
-            token
+            token,
+            referralCode
           })
         });
 
@@ -201,7 +205,8 @@ if (token && !telegramBotInitialized) {
         if (authResponse.ok) {
           // 4. Send success confirmation message with game link
           const gameUrl = `https://${process.env.REPLIT_DOMAINS?.split(',')[0] || 'localhost:5000'}?telegramId=${telegramId}`;
-          bot.sendMessage(chatId, `You're logged in! 🎮\n\nClick here to play: ${gameUrl}`);
+          const referralNote = responseData.data?.referral?.applied ? `\n\nYou joined through a friend's invite - you'll both earn rewards as you progress! 🤝` : '';
+          bot.sendMessage(chatId, `You're logged in! 🎮\n\nClick here to play: ${gameUrl}${referralNote}`);
           console.log(`[${timestamp}] Success message sent to ${telegramId} with game link: ${gameUrl}`);
         } else {
           // 5. Send failure message
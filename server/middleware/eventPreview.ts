@@ -0,0 +1,35 @@
+import { Request, Response, NextFunction } from 'express';
+import { EventStorage, type EventContext, type EventPreview } from '../../shared/EventStorage';
+
+export interface EventPreviewRequest extends Request {
+  eventPreview?: EventPreview;
+}
+
+/**
+ * Admin preview of upcoming events. Requests carrying `X-Event-Preview: all` (or a comma-separated
+ * list of event ids) together with the admin bearer token see that event content as if it were live.
+ * Without a valid token the header is ignored.
+ */
+export function eventPreview() {
+  return (req: EventPreviewRequest, res: Response, next: NextFunction) => {
+    const header = req.headers['x-event-preview'];
+    const value = (Array.isArray(header) ? header.join(',') : header || '').trim();
+    if (!value) return next();
+
+    const token = req.headers.authorization?.replace('Bearer ', '');
+    if (!process.env.ADMIN_TOKEN || token !== process.env.ADMIN_TOKEN) {
+      console.warn(`🎉 [EVENTS] Ignoring preview header without admin token: ${req.method} ${req.path}`);
+      return next();
+    }
+
+    req.eventPreview = {
+      eventIds: value === 'all' ? 'all' : value.split(',').map(id => id.trim()).filter(Boolean)
+    };
+    next();
+  };
+}
+
+// Event context for this request, honouring an admin preview
+export function getEventContext(req: Request): Promise<EventContext> {
+  return EventStorage.getInstance().resolve({ preview: (req as EventPreviewRequest).eventPreview });
+}
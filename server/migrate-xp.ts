@@ -0,0 +1,42 @@
+/**
+ * XP Migration CLI - seed the XP track for accounts created before it existed
+ * xp = lifetime LP earned × GameSettings.xp.lifetimeLpRate, never below the player's current level threshold.
+ * Run after migrations/20261019_06_users_xp.sql. Accounts not migrated here are seeded lazily on first access.
+ *
+ * Usage:
+ *   npx tsx server/migrate-xp.ts --dry-run
+ *   npx tsx server/migrate-xp.ts --batch=500
+ */
+
+import { XpService } from './services/XpService';
+
+function arg(name: string): string | undefined {
+  return process.argv.slice(2).find(a => a.startsWith(`--${name}=`))?.split('=')[1];
+}
+
+async function migrateXp() {
+  const dryRun = process.argv.includes('--dry-run');
+  const seeds = await XpService.getInstance().migrateAll({
+    dryRun,
+    batchSize: arg('batch') ? Number(arg('batch')) : undefined
+  });
+
+  for (const seed of seeds) {
+    console.log(`✨ ${seed.userId}: ${seed.lifetimeLp} lifetime LP → ${seed.xp} XP (was ${seed.previousXp})`);
+  }
+  console.log(dryRun
+    ? `🧪 Dry run: ${seeds.length} account(s) would be seeded`
+    : `✅ ${seeds.length} account(s) seeded`);
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  migrateXp()
+    .then(() => process.exit(0))
+    .catch(error => {
+      console.error('❌ XP migration failed:', error);
+      process.exit(1);
+    });
+}
+
+export { migrateXp };
@@ -27,6 +27,22 @@ import debugRoutes from './routes/debug';
 import gameExtrasRoutes from './routes/gameExtrasRoutes.js';
 import { registerMediaRoutes } from './routes/mediaRoutes.js';
 import { registerEnergyRoutes } from './routes/energyRoutes.js';
+import { registerBoosterRoutes } from './routes/boosterRoutes.js';
+import { registerStreakRoutes } from './routes/streakRoutes.js';
+import { registerQuestRoutes } from './routes/questRoutes.js';
+import { registerLeaderboardRoutes } from './routes/leaderboardRoutes.js';
+import { registerReferralRoutes } from './routes/referralRoutes.js';
+import { registerFriendRoutes } from './routes/friendRoutes.js';
+import { registerClubRoutes } from './routes/clubRoutes.js';
+import { registerBondRoutes } from './routes/bondRoutes.js';
+import { LedgerService } from './services/LedgerService.js';
+import { AchievementService } from './services/AchievementService.js';
+import { GameStatsService } from './services/GameStatsService.js';
+import { LeaderboardService } from './services/LeaderboardService.js';
+import { ReferralService } from './services/ReferralService.js';
+import { ClubService } from './services/ClubService.js';
+import { BondService } from './services/BondService.js';
+import { eventPreview } from './middleware/eventPreview.js';
 
 /**
  * 🚀 SYSTEM PREFLIGHT CHECK
@@ -134,6 +150,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Install request logging middleware BEFORE all routes
   app.use(requestLoggerMiddleware);
 
+  // 🎉 Admin preview of upcoming events (X-Event-Preview + admin token)
+  app.use(eventPreview());
+
   // Serve static files from client build output (Vite emits into dist/public)
   const distPath = path.join(process.cwd(), 'dist', 'public');
   app.use(express.static(distPath));
@@ -159,6 +178,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // ⚡ NEW: Energy regeneration system
   registerEnergyRoutes(app);
   console.log('⚡ [ENERGY] Energy regeneration system registered');
+
+  // 🚀 Timed boosters (lp_multiplier, energy_regen, tap_power)
+  registerBoosterRoutes(app);
+  console.log('🚀 [BOOSTER] Booster routes registered');
   
   // Media management routes
   registerMediaRoutes(app);
@@ -167,12 +190,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Game systems with guards
   app.use('/api/tasks*', createFeatureGuard('tasks', 'Task System'));
   registerTaskRoutes(app); // Task system with progress tracking
+  registerQuestRoutes(app); // Quest chains given by characters
   
   app.use('/api/achievements*', createFeatureGuard('achievements', 'Achievement System'));
   registerAchievementRoutes(app); // Achievement system with rewards
   
   app.use('/api/levels*', createFeatureGuard('levels', 'Level System'));
   registerLevelRoutes(app); // Level requirements and user level calculation
+
+  registerStreakRoutes(app); // Login streaks and login reward calendars
+  registerLeaderboardRoutes(app); // Global and weekly leaderboards from rank snapshots
+  registerReferralRoutes(app); // Referral codes and invited players
+  registerFriendRoutes(app); // Friends and daily gifts
+  registerClubRoutes(app); // Clubs and weekly club goals
+  registerBondRoutes(app); // Character affection and bond levels
   
   // Admin and utility routes
   registerAdminRoutesCore(app);
@@ -185,6 +216,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.use(gameExtrasRoutes);
   console.log('⏱️ [EXTRAS] Offline claim and admin upgrade routes registered');
 
+  // ⚖️ LP ledger reconciliation (report-only, see /api/admin/ledger/*)
+  LedgerService.getInstance().startReconciliationJob();
+  console.log('⚖️ [LEDGER] Reconciliation job scheduled');
+
+  // 🏆 Achievement progress from player events (taps, purchases, spins, chat, level ups, media)
+  AchievementService.getInstance().subscribe();
+  console.log('🏆 [ACHIEVEMENTS] Tracking player events');
+
+  // 📈 Lifetime and daily player stats from the same events
+  GameStatsService.getInstance().subscribe();
+  console.log('📈 [STATS] Tracking player events');
+
+  // 🏅 Leaderboard snapshots and weekly season close
+  LeaderboardService.getInstance().startJob();
+  console.log('🏅 [LEADERBOARD] Snapshot job scheduled');
+
+  // 🤝 Referral milestone rewards from invitee level ups and purchases
+  ReferralService.getInstance().subscribe();
+  console.log('🤝 [REFERRALS] Tracking invitee milestones');
+
+  // 🛡️ Club goal progress from player events, and the weekly close that pays goal rewards
+  ClubService.getInstance().subscribe();
+  ClubService.getInstance().startJob();
+  console.log('🛡️ [CLUBS] Tracking player events, week-close job scheduled');
+
+  // 💞 Character affection from chat messages and taps on the selected character
+  BondService.getInstance().subscribe();
+  console.log('💞 [BONDS] Tracking player events');
+
   // SPA fallback route - MUST come after all API routes
   app.get('*', (req, res) => {
     if (!req.path.startsWith('/api')) {
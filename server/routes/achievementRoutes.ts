@@ -2,111 +2,50 @@ import type { Express, Request, Response } from "express";
 import { SupabaseStorage } from "../../shared/SupabaseStorage";
 import { createSuccessResponse, createErrorResponse } from "../utils/helpers";
 import AITriageService from "../services/AITriageService";
-import { FileStorage } from "../../shared/FileStorage";
-import type { Achievement } from "../../shared/schema";
+import { AchievementService } from "../services/AchievementService";
+import { validateUserId, requireAuthenticatedUser } from "../middleware/authGuards";
 
 const storage = SupabaseStorage.getInstance();
 const aiTriage = AITriageService.getInstance();
-const fileStorage = FileStorage.getInstance();
+const achievements = AchievementService.getInstance();
+
+const NOT_FOUND = ['User not found', 'Achievement not found'];
 
 export function registerAchievementRoutes(app: Express) {
-  // Get all achievements with user progress (JSON-first)
+  // Achievements with the player's tier progress; hidden ones are left out until unlocked
   app.get("/api/achievements", async (req: Request, res: Response) => {
     try {
       const userId = (req.query.userId as string) || (req.headers['x-user-id'] as string);
-      const achievements = await fileStorage.getAllAchievements();
-
       if (!userId || userId === 'anonymous') {
-        return res.json(achievements.map(a => ({ ...a, progress: 0, completed: false, claimed: false })));
+        return res.json(createSuccessResponse(await achievements.getAchievements(null)));
       }
 
       const user = await storage.getUser(userId);
       if (!user) return res.status(404).json(createErrorResponse('User not found'));
 
-      const { data: rows } = await storage.supabase
-        .from('userAchievements')
-        .select('achievementId, progress, completed, claimedAt, currentLevel, lastClaimedLevel')
-        .eq('userId', userId);
-
-      const map = new Map<string, any>();
-      (rows || []).forEach(r => map.set(r.achievementId, r));
-
-      const enriched = achievements.map((a: any) => {
-        const saved = map.get(a.id);
-        const requirement = a.baseRequirement?.baseTarget ?? a.baseRequirement?.value ?? 0;
-        const progress = saved?.progress || 0;
-        const completed = !!saved?.completed || progress >= requirement;
-        const claimed = !!saved?.claimedAt;
-        return {
-          ...a,
-          progress,
-          progressPercent: requirement ? Math.round((progress / requirement) * 100) : 0,
-          completed,
-          claimed,
-          canClaim: completed && !claimed
-        };
-      });
-
-      res.json(enriched);
+      res.json(createSuccessResponse(await achievements.getAchievements(user)));
     } catch (error: any) {
       console.error('🏆 [ACHIEVEMENTS] Error:', error);
       aiTriage.addEvent({ id: `achievement_fetch_${Date.now()}`, severity: 'moderate', source: 'server', route: '/api/achievements', method: 'GET', message: error.message, stack: error.stack });
-      res.json([]);
+      res.status(500).json(createErrorResponse(error.message || 'Failed to load achievements'));
     }
   });
 
-  // Claim achievement reward (JSON-first)
-  app.post("/api/achievements/:achievementId/claim", async (req: Request, res: Response) => {
+  // Claim the next reached tier. Body: { userId }
+  app.post("/api/achievements/:achievementId/claim", validateUserId(), requireAuthenticatedUser(), async (req: Request, res: Response) => {
     try {
       const { achievementId } = req.params;
       const { userId } = req.body || {};
       if (!userId) return res.status(400).json(createErrorResponse('userId is required'));
 
-      const user = await storage.getUser(userId);
-      if (!user) return res.status(404).json(createErrorResponse('User not found'));
-
-      const achievement = (await fileStorage.getAllAchievements()).find(a => a.id === achievementId);
-      if (!achievement) return res.status(404).json(createErrorResponse('Achievement not found'));
-
-      const { data: saved } = await storage.supabase
-        .from('userAchievements')
-        .select('progress, completed, claimedAt')
-        .eq('userId', userId)
-        .eq('achievementId', achievementId)
-        .maybeSingle();
-
-      if (saved?.claimedAt) return res.status(400).json(createErrorResponse('Achievement already claimed'));
-
-      const requirement = achievement.baseRequirement?.baseTarget ?? achievement.baseRequirement?.value ?? 0;
-      const progress = saved?.progress || 0;
-      const completed = progress >= requirement;
-      if (!completed) return res.status(400).json(createErrorResponse('Achievement not completed yet'));
-
-      // Apply rewards from JSON levels or top-level reward
-      let lpDelta = 0; let energyDelta = 0;
-      const levels: any[] = achievement.levels || [];
-      if (levels.length > 0) {
-        const bestLevel = levels.reduce((acc, lvl) => progress >= (lvl.target ?? lvl.targetValue ?? 0) ? lvl : acc, null as any);
-        if (bestLevel?.reward?.amount && bestLevel?.reward?.type === 'lp') lpDelta += bestLevel.reward.amount;
+      const result = await achievements.claim(userId, achievementId);
+      if (!result.success) {
+        const notFound = NOT_FOUND.includes(result.reason || '');
+        return res.status(notFound ? 404 : 400).json(createErrorResponse(result.reason || 'Failed to claim achievement'));
       }
-      // Fallback: if top-level reward exists
-      if (achievement.reward?.type === 'lp') lpDelta += achievement.reward.amount || 0;
-
-      const newLP = (user.lp || 0) + lpDelta;
-      const newEnergy = Math.min(user.maxEnergy || 1000, (user.energy || 0) + energyDelta);
-
-      const { error: uerr } = await storage.supabase
-        .from('users')
-        .update({ lp: newLP, energy: newEnergy })
-        .eq('id', userId);
-      if (uerr) throw uerr;
-
-      const { error: aerr } = await storage.supabase
-        .from('userAchievements')
-        .upsert({ userId, achievementId, completed: true, claimedAt: new Date().toISOString(), progress }, { onConflict: 'userId,achievementId' });
-      if (aerr) throw aerr;
 
-      res.json(createSuccessResponse({ message: 'Achievement claimed successfully', rewards: { lp: lpDelta, energy: energyDelta }, newStats: { lp: newLP, energy: newEnergy } }));
+      console.log(`🏆 [ACHIEVEMENTS] ${userId} claimed ${achievementId} tier ${result.level} (+${result.totals!.lp} LP)`);
+      res.json(createSuccessResponse({ message: 'Achievement claimed successfully', rewards: result.totals, ...result }));
     } catch (error: any) {
       console.error('🏆 [ACHIEVEMENT_CLAIM] Error:', error);
       aiTriage.addEvent({ id: `achievement_claim_${Date.now()}`, severity: 'critical', source: 'server', route: '/api/achievements/:achievementId/claim', method: 'POST', message: error.message, stack: error.stack });
@@ -114,5 +53,5 @@ export function registerAchievementRoutes(app: Express) {
     }
   });
 
-  console.log('🏆 [ROUTES] Achievement routes wired to FileStorage JSON');
+  console.log('🏆 [ROUTES] Achievement routes wired to AchievementService');
 }
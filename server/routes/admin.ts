@@ -5,8 +5,24 @@
 
 import { Router, Request, Response } from 'express';
 import { Debugger, FeatureKey } from '../../shared/services/DebuggerService';
+import { SupabaseStorage } from '../../shared/SupabaseStorage';
+import { LedgerService } from '../services/LedgerService';
+import { RespecService } from '../services/RespecService';
+import { EconomySimulator } from '../services/EconomySimulator';
+import { OfflineIncomeService } from '../services/OfflineIncomeService';
+import { EventStorage } from '../../shared/EventStorage';
+import { LeaderboardService } from '../services/LeaderboardService';
+import { ClubService } from '../services/ClubService';
 
 const router = Router();
+const storage = SupabaseStorage.getInstance();
+const ledger = LedgerService.getInstance();
+const respecService = RespecService.getInstance();
+const simulator = EconomySimulator.getInstance();
+const offlineIncome = OfflineIncomeService.getInstance();
+const events = EventStorage.getInstance();
+const leaderboards = LeaderboardService.getInstance();
+const clubs = ClubService.getInstance();
 
 /**
  * 🔐 ADMIN TOKEN MIDDLEWARE
@@ -306,4 +322,291 @@ router.get('/logs', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * 📒 GET /api/admin/ledger/:userId
+ * LP history for a user (newest first) plus a reconciliation summary
+ * Query: ?limit=100&offset=0&source=tap
+ */
+router.get('/ledger/:userId', async (req: Request, res: Response) => {
+  try {
+    const user = await storage.getUser(req.params.userId);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+    }
+
+    const entries = await ledger.getEntries(user.id, {
+      limit: req.query.limit ? Number(req.query.limit) : undefined,
+      offset: req.query.offset ? Number(req.query.offset) : undefined,
+      source: typeof req.query.source === 'string' ? req.query.source : undefined
+    });
+    const summary = await ledger.reconcileUser(user.id);
+
+    res.json({
+      success: true,
+      userId: user.id,
+      currentLp: user.lp,
+      summary,
+      entries,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error?.message || 'Ledger lookup failed'
+    });
+  }
+});
+
+/**
+ * ⏰ GET /api/admin/offline-claims/:userId
+ * Offline income claims for a user (newest first) with their breakdown, plus what a claim now would pay
+ * Query: ?limit=50&offset=0
+ */
+router.get('/offline-claims/:userId', async (req: Request, res: Response) => {
+  try {
+    const user = await storage.getUser(req.params.userId);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+    }
+
+    const [claims, pending] = await Promise.all([
+      offlineIncome.getHistory(user.id, {
+        limit: req.query.limit ? Number(req.query.limit) : undefined,
+        offset: req.query.offset ? Number(req.query.offset) : undefined
+      }),
+      offlineIncome.quote(user)
+    ]);
+
+    res.json({
+      success: true,
+      userId: user.id,
+      totals: {
+        claimed: claims.reduce((sum, c) => sum + c.lpClaimed, 0),
+        lostToCap: claims.reduce((sum, c) => sum + c.lostToCap, 0)
+      },
+      pending,
+      claims,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error?.message || 'Offline claim lookup failed'
+    });
+  }
+});
+
+/**
+ * 🎉 GET /api/admin/events
+ * Every event from game-data/events with its schedule status (live/upcoming/ended/disabled)
+ * Query: ?at=<ISO timestamp> to resolve at another time, ?preview=all|<id,id> to preview events
+ * Player routes accept the same preview through the X-Event-Preview header plus the admin token.
+ */
+router.get('/events', async (req: Request, res: Response) => {
+  try {
+    const at = req.query.at ? new Date(String(req.query.at)).getTime() : Date.now();
+    if (!Number.isFinite(at)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid at timestamp'
+      });
+    }
+
+    const preview = req.query.preview ? String(req.query.preview) : '';
+    const ctx = await events.resolve({
+      now: at,
+      preview: preview ? { eventIds: preview === 'all' ? 'all' : preview.split(',').filter(Boolean) } : null
+    });
+
+    res.json({
+      success: true,
+      at: ctx.at,
+      preview: ctx.preview,
+      live: ctx.liveIds,
+      events: ctx.events,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error?.message || 'Event lookup failed'
+    });
+  }
+});
+
+/**
+ * ⚖️ POST /api/admin/ledger/reconcile
+ * Recompute balances from the ledger. Body: { userId?, apply? }
+ * Without userId every user with ledger activity in the last 24h is checked.
+ * apply=true resets drifted balances to the ledger value (recorded as 'reconciliation').
+ */
+router.post('/ledger/reconcile', async (req: Request, res: Response) => {
+  try {
+    const { userId, apply } = req.body || {};
+    const results = userId
+      ? [await ledger.reconcileUser(userId, apply === true)]
+      : await ledger.reconcileRecent({ apply: apply === true });
+
+    console.log(`⚖️ [ADMIN] Ledger reconcile: ${results.length} users${apply === true ? ' (apply)' : ''}`);
+
+    res.json({
+      success: true,
+      checked: results.length,
+      drifted: results.filter(r => r.drift !== 0).length,
+      results,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error?.message || 'Ledger reconciliation failed'
+    });
+  }
+});
+
+/**
+ * 🏅 POST /api/admin/leaderboards/refresh
+ * Rebuild the leaderboard snapshots now instead of waiting for the job.
+ * Body: { closeSeasons? } - true also closes last week's seasons and grants their rewards (idempotent).
+ */
+router.post('/leaderboards/refresh', async (req: Request, res: Response) => {
+  try {
+    const { closeSeasons } = req.body || {};
+    const seasons = closeSeasons === true ? await leaderboards.closeSeasons() : [];
+    const snapshots = await leaderboards.refresh();
+
+    console.log(`🏅 [ADMIN] Leaderboards refreshed: ${snapshots.length} boards${closeSeasons === true ? ', seasons checked' : ''}`);
+
+    res.json({
+      success: true,
+      snapshots,
+      seasons,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error?.message || 'Leaderboard refresh failed'
+    });
+  }
+});
+
+/**
+ * 🛡️ POST /api/admin/clubs/close-week
+ * Close every ended club week and grant the queued goal rewards now instead of waiting for the job (idempotent).
+ */
+router.post('/clubs/close-week', async (_req: Request, res: Response) => {
+  try {
+    const result = await clubs.closeWeek();
+
+    console.log(`🛡️ [ADMIN] Club weeks checked (${result.periods.join(', ') || 'none pending'}): ${result.closed} closed, ${result.rewarded} rewards granted`);
+
+    res.json({
+      success: true,
+      ...result,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error?.message || 'Club week close failed'
+    });
+  }
+});
+
+/**
+ * ♻️ POST /api/admin/upgrades/respec
+ * Support override: reset a user's upgrades without cooldown or fee.
+ * Body: { userId, upgradeId?, refundPercent?, dryRun? } - refundPercent defaults to GameSettings.respec.refundPercent
+ */
+router.post('/upgrades/respec', async (req: Request, res: Response) => {
+  try {
+    const { userId, upgradeId, refundPercent, dryRun } = req.body || {};
+    if (!userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'userId is required'
+      });
+    }
+
+    const options = {
+      upgradeId: upgradeId || undefined,
+      admin: true,
+      refundPercent: refundPercent !== undefined ? Number(refundPercent) : undefined
+    };
+
+    if (dryRun === true) {
+      const quote = await respecService.quote(userId, options);
+      return res.json({ success: true, dryRun: true, quote, timestamp: new Date().toISOString() });
+    }
+
+    const result = await respecService.respec(userId, options);
+    if (!result.success) {
+      return res.status(400).json({
+        success: false,
+        error: result.reason,
+        quote: result.quote
+      });
+    }
+
+    console.log(`♻️ [ADMIN] Respec for ${userId}: ${upgradeId || 'all upgrades'}, refund ${result.quote.refund} LP`);
+
+    res.json({
+      success: true,
+      quote: result.quote,
+      newStats: result.newStats,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error?.message || 'Respec failed'
+    });
+  }
+});
+
+/**
+ * 📈 POST /api/admin/economy/simulate
+ * Simulate player archetypes over N days against the live game-data JSON.
+ * Body: { days?, archetypes?, paybackLimitHours?, sampleEveryHours?, format?: 'json' | 'csv', table?: 'samples' | 'levels' | 'purchases' }
+ */
+router.post('/economy/simulate', async (req: Request, res: Response) => {
+  try {
+    const { days, archetypes, paybackLimitHours, sampleEveryHours, format, table } = req.body || {};
+
+    const report = await simulator.run({ days, archetypes, paybackLimitHours, sampleEveryHours });
+    console.log(`📈 [ADMIN] Economy simulation: ${report.days} days, ${report.archetypes.length} archetypes`);
+
+    if (format === 'csv') {
+      res.type('text/csv').send(simulator.toCsv(report, table));
+      return;
+    }
+
+    res.json({
+      success: true,
+      report,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error?.message || 'Simulation failed'
+    });
+  }
+});
+
 export default router;
\ No newline at end of file
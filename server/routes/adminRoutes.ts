@@ -11,9 +11,14 @@ import {
   getFileExtension
 } from '../utils/helpers';
 import { loadUpgradeDefinitions, requireAdmin } from '../utils/adminUtils';
+import { FileStorage } from '../../shared/FileStorage';
+import { LevelStorage } from '../../shared/LevelStorage';
+import { LevelUpService } from '../services/LevelUpService';
 
 // Initialize storage instance
 const storage = SupabaseStorage.getInstance();
+const fileStorage = FileStorage.getInstance();
+const levelStorage = LevelStorage.getInstance();
 
 // Configure multer for file uploads
 const upload = multer({
@@ -56,6 +61,7 @@ function normalizeUpgradeWrite(u: any) {
     baseEffect: Number(u.baseEffect ?? u.baseeffect ?? u['base-effect'] ?? 1),
     effectMultiplier: Number(u.effectMultiplier ?? u.effectmultiplier ?? u['effect-multiplier'] ?? 1.1),
     requiredLevel: Number(u.requiredLevel ?? u.requiredlevel ?? u['required-level'] ?? 1),
+    effect: u.effect && typeof u.effect === 'object' ? u.effect : undefined, // Declarative effect block, passed through as-is
   };
   // Remove undefined/NaN values
   Object.keys(n).forEach(k => {
@@ -100,12 +106,21 @@ function normalizeMediaWrite(m: any) {
   return n;
 }
 
+// Level overrides only store the fields the admin set; everything else comes from the generated curve
 function normalizeLevelReqWrite(l: any) {
+  // lpRequired is the pre-XP name of the threshold, still sent by older clients
+  const xpRequired = l.xpRequired ?? l.requiredXp ?? l.lpRequired ?? l.lprequired;
   const n = {
     level: Number(l.level ?? 1),
-    lpRequired: Number(l.lpRequired ?? l.lprequired ?? l['lp-required'] ?? 100),
-    name: l.name || `Level ${l.level ?? 1}`,
-    description: l.description || 'Level up requirement',
+    xpRequired: xpRequired === undefined || xpRequired === null || xpRequired === '' ? undefined : Number(xpRequired),
+    name: l.name || undefined,
+    description: l.description || undefined,
+    unlockRewards: Array.isArray(l.unlockRewards) ? l.unlockRewards : Array.isArray(l.rewards) ? l.rewards : undefined,
+    functions: Array.isArray(l.functions) ? l.functions : undefined,
+    unlocks: Array.isArray(l.unlocks) ? l.unlocks : undefined,
+    upgradeRequirements: Array.isArray(l.upgradeRequirements) ? l.upgradeRequirements : undefined,
+    icon: l.icon || undefined,
+    color: l.color || undefined,
   };
   Object.keys(n).forEach(k => {
     const val = (n as any)[k];
@@ -448,29 +463,44 @@ export function registerAdminRoutes(app: Express) {
     }
   });
 
-  // Admin Level Requirements - WITH FULL NORMALIZATION
+  // Admin Level Requirements - unified level model (generated curve + JSON overrides)
+  // GET lists every level 1..maxLevel with its source; writes create/update/remove overrides
+  // in game-data/progression/level-requirements.json. :id is the level number.
   app.get('/api/admin/level-requirements', async (req: Request, res: Response) => {
     try {
-      const levelRequirements = await storage.getLevelRequirements();
-      console.log(`📊 [ADMIN] Returning ${(levelRequirements || []).length} level requirements`);
-      res.json(levelRequirements || []);
+      const [levels, settings] = await Promise.all([levelStorage.getLevels(), fileStorage.getGameSettings()]);
+      const curve = levelStorage.getCurve(settings);
+      const result = levels.map(l => ({
+        ...l,
+        id: String(l.level),
+        unlockRewards: l.rewards, // Field name the editor uses
+        generatedXpRequired: levelStorage.generatedXpRequired(l.level, curve)
+      }));
+      console.log(`📊 [ADMIN] Returning ${result.length} levels (${levels.filter(l => l.source === 'override').length} overridden)`);
+      res.json(result);
     } catch (error) {
       console.error('❌ [ADMIN] Error fetching level requirements:', error);
       res.json([]);
     }
   });
 
+  const saveLevelOverride = async (level: number, body: any) => {
+    const { level: _level, ...fields } = normalizeLevelReqWrite({ ...body, level });
+    // Drop a legacy lpRequired key once the threshold is written under its XP name
+    const updated = await fileStorage.updateLevelRequirement(level, (fields.xpRequired !== undefined ? { ...fields, lpRequired: undefined } : fields) as any);
+    if (updated) return updated;
+    return fileStorage.createLevelRequirement({ level, ...fields } as any);
+  };
+
   app.post('/api/admin/level-requirements', async (req: Request, res: Response) => {
     try {
-      const levelReqData = {
-        id: crypto.randomUUID(),
-        ...normalizeLevelReqWrite(req.body || {}),
-        createdAt: new Date().toISOString()
-      };
-      console.log('🆕 [ADMIN] Creating level requirement:', levelReqData);
-      const newLevelReq = await storage.createLevelRequirement(levelReqData);
-      console.log('✅ [ADMIN] Created level requirement:', newLevelReq?.id);
-      res.json(createSuccessResponse(newLevelReq));
+      const level = Number(req.body?.level);
+      if (!Number.isInteger(level) || level < 1) {
+        return res.status(400).json(createErrorResponse('level must be a positive integer'));
+      }
+      console.log('🆕 [ADMIN] Saving level override:', level);
+      const saved = await saveLevelOverride(level, req.body || {});
+      res.json(createSuccessResponse(saved));
     } catch (error) {
       console.error('❌ [ADMIN] Error creating level requirement:', error);
       res.status(500).json(createErrorResponse(`Failed to create level requirement: ${error.message}`));
@@ -479,28 +509,35 @@ export function registerAdminRoutes(app: Express) {
 
   app.put('/api/admin/level-requirements/:id', async (req: Request, res: Response) => {
     try {
-      const { id } = req.params;
-      const updates = normalizeLevelReqWrite(req.body || {});
-      console.log('🔄 [ADMIN] Updating level requirement:', id, 'with:', updates);
-      const updatedLevelReq = await storage.updateLevelRequirement(id, updates);
-      console.log('✅ [ADMIN] Updated level requirement:', updatedLevelReq?.id);
-      res.json(createSuccessResponse(updatedLevelReq));
+      const level = Number(req.params.id);
+      if (!Number.isInteger(level) || level < 1) {
+        return res.status(400).json(createErrorResponse('Level id must be the level number'));
+      }
+      console.log('🔄 [ADMIN] Updating level override:', level);
+      const saved = await saveLevelOverride(level, req.body || {});
+      res.json(createSuccessResponse(saved));
     } catch (error) {
       console.error('❌ [ADMIN] Error updating level requirement:', error);
       res.status(500).json(createErrorResponse(`Failed to update level requirement: ${error.message}`));
     }
   });
 
+  // Removing an override reverts the level to the generated curve
   app.delete('/api/admin/level-requirements/:id', async (req: Request, res: Response) => {
     try {
-      const { id } = req.params;
-      await storage.deleteLevelRequirement(id);
-      res.json(createSuccessResponse({ message: 'Level requirement deleted successfully' }));
+      const removed = await fileStorage.deleteLevelRequirement(Number(req.params.id));
+      if (!removed) return res.status(404).json(createErrorResponse('No override for this level'));
+      res.json(createSuccessResponse({ message: 'Level override removed, using the generated curve' }));
     } catch (error) {
       console.error('Error deleting level requirement:', error);
       res.status(500).json(createErrorResponse('Failed to delete level requirement'));
     }
   });
 
+  // Registered level-up handlers, for the functions field of the level editor
+  app.get('/api/admin/level-functions', (req: Request, res: Response) => {
+    res.json(createSuccessResponse(LevelUpService.getInstance().getHandlers()));
+  });
+
   console.log('✅ Admin routes registered with FULL field normalization, pose preservation, and isAdmin auth guard');
 }
\ No newline at end of file
@@ -0,0 +1,55 @@
+import type { Express, Request, Response } from "express";
+import { SupabaseStorage } from "../../shared/SupabaseStorage";
+import { createSuccessResponse, createErrorResponse } from "../utils/helpers";
+import { requireAuthenticatedUser, validateUserId } from "../middleware/authGuards";
+import { BondService } from "../services/BondService";
+
+const storage = SupabaseStorage.getInstance();
+const bonds = BondService.getInstance();
+
+const NOT_FOUND_REASONS = ['Character not found', 'Item not found in inventory'];
+
+/**
+ * 💞 CHARACTER BONDS
+ * Affection and bond level per unlocked character (game-data/bonds). Chat and tap affection come
+ * from player events; gifts are given here and use up an inventory item.
+ */
+export function registerBondRoutes(app: Express) {
+
+  // Bond state for every unlocked character: level, affection, today's gains and caps, unlocks
+  app.get('/api/bonds', async (req: Request, res: Response) => {
+    try {
+      const userId = (req.query.userId as string) || (req.headers['x-user-id'] as string);
+      if (!userId) return res.status(400).json(createErrorResponse('userId is required'));
+
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(404).json(createErrorResponse('User not found'));
+
+      res.json(createSuccessResponse(await bonds.getBonds(user)));
+    } catch (e: any) {
+      console.error('💞 [BONDS] List error:', e);
+      res.status(500).json(createErrorResponse(e.message || 'Failed to load bonds'));
+    }
+  });
+
+  // Give a character an item from the inventory. Body: userId, itemId
+  app.post('/api/bonds/:characterId/gift', validateUserId(), requireAuthenticatedUser(), async (req: Request, res: Response) => {
+    try {
+      const { userId, itemId } = req.body;
+      if (!itemId) return res.status(400).json(createErrorResponse('itemId is required'));
+
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(404).json(createErrorResponse('User not found'));
+
+      const result = await bonds.giveGift(userId, user, req.params.characterId, String(itemId));
+      if (!result.success) {
+        return res.status(NOT_FOUND_REASONS.includes(result.reason || '') ? 404 : 400).json(createErrorResponse(result.reason || 'Failed to give gift'));
+      }
+
+      res.json(createSuccessResponse({ gained: result.gained, affection: result.affection, levelUp: result.levelUp || null }));
+    } catch (e: any) {
+      console.error('💞 [BONDS] Gift error:', e);
+      res.status(500).json(createErrorResponse(e.message || 'Failed to give gift'));
+    }
+  });
+}
@@ -0,0 +1,102 @@
+import type { Express, Request, Response } from 'express';
+import { SupabaseStorage } from '../../shared/SupabaseStorage';
+import { BoosterService } from '../services/BoosterService';
+import { LedgerService } from '../services/LedgerService';
+import { createErrorResponse, createSuccessResponse } from '../utils/helpers';
+import { requireAuthenticatedUser, validateUserId } from '../middleware/authGuards';
+
+const storage = SupabaseStorage.getInstance();
+const boosterService = BoosterService.getInstance();
+const ledger = LedgerService.getInstance();
+
+/**
+ * 🚀 BOOSTER SYSTEM
+ * Definitions come from GameSettings.boosterEffects; activations live in the boosters table.
+ * Effects are applied where the stat is computed (tap LP, offline income, EnergyService).
+ */
+export function registerBoosterRoutes(app: Express) {
+
+  // Booster catalog (JSON-first)
+  app.get('/api/boosters', async (_req: Request, res: Response) => {
+    try {
+      res.json(createSuccessResponse(await boosterService.getCatalog()));
+    } catch (error) {
+      console.error('🚀 [BOOSTER] Catalog error:', error);
+      res.status(500).json(createErrorResponse('Failed to load boosters'));
+    }
+  });
+
+  // Active boosters with time remaining and the combined multiplier per type
+  app.get('/api/boosters/active/:userId', async (req: Request, res: Response) => {
+    try {
+      const user = await storage.getUser(req.params.userId);
+      if (!user) {
+        return res.status(404).json(createErrorResponse('User not found'));
+      }
+
+      const now = Date.now();
+      const boosters = await boosterService.getActive(user.id, now);
+      const multipliers = await boosterService.getMultipliers(user.id, now);
+
+      res.json(createSuccessResponse({ boosters, multipliers, serverTime: new Date(now).toISOString() }));
+    } catch (error) {
+      console.error('🚀 [BOOSTER] Active list error:', error);
+      res.status(500).json(createErrorResponse('Failed to load active boosters'));
+    }
+  });
+
+  // Buy and activate a booster with LP
+  app.post('/api/boosters/:type/activate', validateUserId(), requireAuthenticatedUser(), async (req: Request, res: Response) => {
+    try {
+      const { type } = req.params;
+      const { userId } = req.body || {};
+
+      const def = await boosterService.getDefinition(type);
+      if (!def) {
+        return res.status(404).json(createErrorResponse('Booster not found'));
+      }
+      if (def.cost === null) {
+        return res.status(400).json(createErrorResponse('This booster cannot be purchased'));
+      }
+
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json(createErrorResponse('User not found'));
+      }
+      if ((user.lp || 0) < def.cost) {
+        return res.status(400).json(createErrorResponse(`Insufficient LP. Need ${def.cost}, have ${Math.floor(user.lp || 0)}`));
+      }
+
+      const { balanceAfter } = await ledger.applyLpChange({
+        userId,
+        delta: -def.cost,
+        source: 'booster_purchase',
+        refId: type,
+        currentLp: user.lp || 0
+      });
+
+      let result: Awaited<ReturnType<BoosterService['activate']>>;
+      try {
+        result = await boosterService.activate(user.id, type);
+      } catch (error) {
+        result = { success: false, reason: 'Failed to activate booster' };
+        console.error('🚀 [BOOSTER] Activation error:', error);
+      }
+
+      if (!result.success) {
+        // Refund - nothing was activated
+        await ledger.applyLpChange({ userId, delta: def.cost, source: 'booster_refund', refId: type });
+        return res.status(400).json(createErrorResponse(result.reason || 'Failed to activate booster'));
+      }
+
+      res.json(createSuccessResponse({
+        booster: result.booster,
+        costPaid: def.cost,
+        newLp: balanceAfter
+      }, `${def.name} activated!`));
+    } catch (error) {
+      console.error('🚀 [BOOSTER] Purchase error:', error);
+      res.status(500).json(createErrorResponse('Failed to activate booster'));
+    }
+  });
+}
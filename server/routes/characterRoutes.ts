@@ -8,15 +8,17 @@
 import type { Express, Request, Response } from "express";
 import { SupabaseStorage } from '../../shared/SupabaseStorage';
 import { createSuccessResponse, createErrorResponse, getDefaultCharacter } from '../utils/helpers';
+import { getEventContext } from '../middleware/eventPreview';
 
 const storage = SupabaseStorage.getInstance();
 
 export function registerCharacterRoutes(app: Express) {
 
-  // Get all available characters
+  // Get all available characters (event characters only while their event is live)
   app.get("/api/characters", async (req: Request, res: Response) => {
     try {
-      const characters = await storage.getAllCharacters();
+      const events = await getEventContext(req);
+      const characters = (await storage.getAllCharacters()).filter(c => events.allows('characters', c.id, c.isEvent));
       
       // If no characters found, return default character
       if (!characters || characters.length === 0) {
@@ -61,8 +63,8 @@ export function registerCharacterRoutes(app: Express) {
 
       // If no character is selected, automatically select the first enabled character
       if (!selectedCharacter) {
-        const allCharacters = await storage.getAllCharacters();
-        const enabledCharacters = allCharacters.filter(char => char.isEnabled);
+        const [allCharacters, events] = await Promise.all([storage.getAllCharacters(), getEventContext(req)]);
+        const enabledCharacters = allCharacters.filter(char => char.isEnabled && events.allows('characters', char.id, char.isEvent));
         
         if (enabledCharacters.length > 0) {
           const firstCharacter = enabledCharacters[0];
@@ -93,6 +95,11 @@ export function registerCharacterRoutes(app: Express) {
       if (!characterId) {
         return res.status(400).json(createErrorResponse('Character ID is required'));
       }
+
+      const [character, events] = await Promise.all([storage.getCharacter(characterId), getEventContext(req)]);
+      if (character && !events.allows('characters', character.id, character.isEvent)) {
+        return res.status(403).json(createErrorResponse('Character is only available during its event'));
+      }
       
       // Set selected character for player
       await storage.setSelectedCharacter(playerId, characterId);
@@ -108,9 +115,9 @@ export function registerCharacterRoutes(app: Express) {
   app.get("/api/media/character/:characterId", async (req: Request, res: Response) => {
     try {
       const { characterId } = req.params;
-      const characterMedia = await storage.getMediaByCharacter(characterId);
+      const [characterMedia, events] = await Promise.all([storage.getMediaByCharacter(characterId), getEventContext(req)]);
       
-      res.json(characterMedia || []);
+      res.json((characterMedia || []).filter(m => events.allowsTags((m as any).tags, m.isEvent)));
     } catch (error) {
       console.error('Error fetching character media:', error);
       res.json([]); // Return empty array on error
@@ -11,8 +11,16 @@ import path from 'path';
 import fs from 'fs';
 import { SupabaseStorage } from '../../shared/SupabaseStorage';
 import { isValidUserId, createSuccessResponse, createErrorResponse } from '../utils/helpers';
+import { StatService } from '../services/StatService';
+import { XpService } from '../services/XpService';
+import { TaskService } from '../services/TaskService';
+import { GameEventBus } from '../services/GameEventBus';
 
 const storage = SupabaseStorage.getInstance();
+const statService = StatService.getInstance();
+const xpService = XpService.getInstance();
+const taskService = TaskService.getInstance();
+const gameEvents = GameEventBus.getInstance();
 
 // AI response generation
 async function generateAIResponse(userMessage: string): Promise<string> {
@@ -318,10 +326,40 @@ export function registerChatRoutes(app: Express) {
       
       console.log(`💾 [CHAT-POST] Message saved: ${userId} -> ${characterId} (${conversations.length} total)`);
       
+      // Player messages earn the chatCharismaBonus stat (charisma-boost upgrades) and chat XP, and count as a character interaction
+      let charismaGained = 0;
+      let xpGained = 0;
+      if (isFromUser && !userId.startsWith('guest_')) {
+        try {
+          const user = await storage.getUser(userId);
+          if (user) {
+            const { final } = await statService.getStats(user);
+            const xp = await xpService.award(user, 'chat');
+            const gained = Math.floor(final.chatCharismaBonus);
+            const updates = gained > 0
+              ? { ...xp.updates(user), charisma: (user.charisma || 0) + gained }
+              : xp.updates(user);
+            if (Object.keys(updates).length > 0) {
+              await storage.updateUser(userId, updates);
+            }
+            charismaGained = gained;
+            xpGained = xp.gain;
+            await taskService.record(user, { character_interaction: 1 }, { characterId });
+            await gameEvents.emit({ type: 'chat_message', userId, user, characterId });
+          }
+        } catch (charismaError) {
+          console.error('❌ [CHAT-POST] Failed to apply chat charisma/XP:', charismaError);
+          charismaGained = 0;
+          xpGained = 0;
+        }
+      }
+      
       res.json(createSuccessResponse({
         message: 'Message saved successfully',
         messageId: newMessage.id,
-        totalMessages: conversations.length
+        totalMessages: conversations.length,
+        charismaGained,
+        xpGained
       }));
       
     } catch (error) {
@@ -491,6 +529,10 @@ export function registerChatRoutes(app: Express) {
         console.warn(`⚠️ [MISTRAL-CHAT] Cannot save conversation: userId=${userId}, characterId=${characterId}, isValidUserId=${userId ? isValidUserId(userId) : false}`);
       }
       
+      if (imageToSend && userId && isValidUserId(userId)) {
+        await gameEvents.emit({ type: 'media_received', userId, characterId, mediaId: imageToSend.id });
+      }
+      
       res.json(createSuccessResponse({
         response: enhancedResponse,
         characterPersonality,
@@ -0,0 +1,149 @@
+import type { Express, Request, Response } from "express";
+import { SupabaseStorage } from "../../shared/SupabaseStorage";
+import { createSuccessResponse, createErrorResponse } from "../utils/helpers";
+import { requireAuthenticatedUser, validateUserId } from "../middleware/authGuards";
+import { ClubService, type ClubResult, type ClubRole } from "../services/ClubService";
+
+const storage = SupabaseStorage.getInstance();
+const clubs = ClubService.getInstance();
+
+const NOT_FOUND_REASONS = ['Club not found', 'Member not found'];
+
+const sendFailure = (res: Response, result: ClubResult, fallback: string) =>
+  res.status(NOT_FOUND_REASONS.includes(result.reason || '') ? 404 : 400).json(createErrorResponse(result.reason || fallback));
+
+/**
+ * 🛡️ CLUBS
+ * Create/join/leave, owner and officer roles, and the club's weekly goals (GameSettings.clubs).
+ * Writes go through requireAuthenticatedUser - guests can browse clubs but not join them.
+ */
+export function registerClubRoutes(app: Express) {
+
+  // Browse clubs, biggest first. Query: search
+  app.get('/api/clubs', async (req: Request, res: Response) => {
+    try {
+      res.json(createSuccessResponse(await clubs.listClubs(req.query.search as string | undefined)));
+    } catch (e: any) {
+      console.error('🛡️ [CLUBS] List error:', e);
+      res.status(500).json(createErrorResponse(e.message || 'Failed to load clubs'));
+    }
+  });
+
+  // The player's club with members and this week's goals, or null
+  app.get('/api/clubs/mine', async (req: Request, res: Response) => {
+    try {
+      const userId = (req.query.userId as string) || (req.headers['x-user-id'] as string);
+      if (!userId) return res.status(400).json(createErrorResponse('userId is required'));
+
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(404).json(createErrorResponse('User not found'));
+
+      res.json(createSuccessResponse(await clubs.getClubFor(user)));
+    } catch (e: any) {
+      console.error('🛡️ [CLUBS] Own club error:', e);
+      res.status(500).json(createErrorResponse(e.message || 'Failed to load club'));
+    }
+  });
+
+  // Any club's members and weekly goals. Query: userId (fills myRole)
+  app.get('/api/clubs/:clubId', async (req: Request, res: Response) => {
+    try {
+      const userId = (req.query.userId as string) || (req.headers['x-user-id'] as string);
+      const user = userId ? await storage.getUser(userId) : null;
+
+      const club = await clubs.getClub(req.params.clubId, user || null);
+      if (!club) return res.status(404).json(createErrorResponse('Club not found'));
+
+      res.json(createSuccessResponse(club));
+    } catch (e: any) {
+      console.error('🛡️ [CLUBS] Club error:', e);
+      res.status(500).json(createErrorResponse(e.message || 'Failed to load club'));
+    }
+  });
+
+  // Create a club and become its owner. Body: userId, name, description?
+  app.post('/api/clubs', validateUserId(), requireAuthenticatedUser(), async (req: Request, res: Response) => {
+    try {
+      const { userId, name, description } = req.body;
+      if (!name) return res.status(400).json(createErrorResponse('name is required'));
+
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(404).json(createErrorResponse('User not found'));
+
+      const result = await clubs.create(user, String(name), description ? String(description) : undefined);
+      if (!result.success) return sendFailure(res, result, 'Failed to create club');
+
+      res.json(createSuccessResponse(await clubs.getClub(result.club!.id, user)));
+    } catch (e: any) {
+      console.error('🛡️ [CLUBS] Create error:', e);
+      res.status(500).json(createErrorResponse(e.message || 'Failed to create club'));
+    }
+  });
+
+  // Body: userId
+  app.post('/api/clubs/:clubId/join', validateUserId(), requireAuthenticatedUser(), async (req: Request, res: Response) => {
+    try {
+      const user = await storage.getUser(req.body.userId);
+      if (!user) return res.status(404).json(createErrorResponse('User not found'));
+
+      const result = await clubs.join(user, req.params.clubId);
+      if (!result.success) return sendFailure(res, result, 'Failed to join club');
+
+      res.json(createSuccessResponse(await clubs.getClub(req.params.clubId, user)));
+    } catch (e: any) {
+      console.error('🛡️ [CLUBS] Join error:', e);
+      res.status(500).json(createErrorResponse(e.message || 'Failed to join club'));
+    }
+  });
+
+  // Body: userId
+  app.post('/api/clubs/leave', validateUserId(), requireAuthenticatedUser(), async (req: Request, res: Response) => {
+    try {
+      const user = await storage.getUser(req.body.userId);
+      if (!user) return res.status(404).json(createErrorResponse('User not found'));
+
+      const result = await clubs.leave(user);
+      if (!result.success) return sendFailure(res, result, 'Failed to leave club');
+
+      res.json(createSuccessResponse({ left: true }));
+    } catch (e: any) {
+      console.error('🛡️ [CLUBS] Leave error:', e);
+      res.status(500).json(createErrorResponse(e.message || 'Failed to leave club'));
+    }
+  });
+
+  // Owner only. Body: userId, role (owner hands the club over, officer or member)
+  app.post('/api/clubs/:clubId/members/:memberId/role', validateUserId(), requireAuthenticatedUser(), async (req: Request, res: Response) => {
+    try {
+      const { userId, role } = req.body;
+      if (!['owner', 'officer', 'member'].includes(role)) return res.status(400).json(createErrorResponse('role must be owner, officer or member'));
+
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(404).json(createErrorResponse('User not found'));
+
+      const result = await clubs.setRole(user, req.params.clubId, req.params.memberId, role as ClubRole);
+      if (!result.success) return sendFailure(res, result, 'Failed to change role');
+
+      res.json(createSuccessResponse(await clubs.getClub(req.params.clubId, user)));
+    } catch (e: any) {
+      console.error('🛡️ [CLUBS] Role error:', e);
+      res.status(500).json(createErrorResponse(e.message || 'Failed to change role'));
+    }
+  });
+
+  // Owner or officer. Body: userId
+  app.post('/api/clubs/:clubId/members/:memberId/kick', validateUserId(), requireAuthenticatedUser(), async (req: Request, res: Response) => {
+    try {
+      const user = await storage.getUser(req.body.userId);
+      if (!user) return res.status(404).json(createErrorResponse('User not found'));
+
+      const result = await clubs.kick(user, req.params.clubId, req.params.memberId);
+      if (!result.success) return sendFailure(res, result, 'Failed to remove member');
+
+      res.json(createSuccessResponse(await clubs.getClub(req.params.clubId, user)));
+    } catch (e: any) {
+      console.error('🛡️ [CLUBS] Kick error:', e);
+      res.status(500).json(createErrorResponse(e.message || 'Failed to remove member'));
+    }
+  });
+}
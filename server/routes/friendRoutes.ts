@@ -0,0 +1,148 @@
+import type { Express, Request, Response } from "express";
+import { SupabaseStorage } from "../../shared/SupabaseStorage";
+import { createSuccessResponse, createErrorResponse } from "../utils/helpers";
+import { requireAuthenticatedUser, validateUserId } from "../middleware/authGuards";
+import { FriendService, type GiftRequest } from "../services/FriendService";
+
+const storage = SupabaseStorage.getInstance();
+const friends = FriendService.getInstance();
+
+// Service reasons that mean "no such thing" rather than "not allowed"
+const NOT_FOUND_REASONS = ['Player not found', 'Friend not found', 'Friend request not found', 'Gift not found'];
+
+const failureStatus = (reason?: string) => NOT_FOUND_REASONS.includes(reason || '') ? 404 : 400;
+
+/**
+ * 👥 FRIENDS AND GIFTS
+ * Friend requests by username or referral code, the friend list and one daily gift per friend.
+ * Every write goes through requireAuthenticatedUser, so guests can look but not take part.
+ */
+export function registerFriendRoutes(app: Express) {
+
+  // Friends (with level and selected character), incoming/outgoing requests and gift options
+  app.get('/api/friends', async (req: Request, res: Response) => {
+    try {
+      const userId = (req.query.userId as string) || (req.headers['x-user-id'] as string);
+      if (!userId) return res.status(400).json(createErrorResponse('userId is required'));
+
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(404).json(createErrorResponse('User not found'));
+
+      res.json(createSuccessResponse(await friends.getFriends(user)));
+    } catch (e: any) {
+      console.error('👥 [FRIENDS] List error:', e);
+      res.status(500).json(createErrorResponse(e.message || 'Failed to load friends'));
+    }
+  });
+
+  // Send a friend request. Body: userId and username or code (a referral code)
+  app.post('/api/friends/request', validateUserId(), requireAuthenticatedUser(), async (req: Request, res: Response) => {
+    try {
+      const { userId, username, code } = req.body;
+      if (!username && !code) return res.status(400).json(createErrorResponse('username or code is required'));
+
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(404).json(createErrorResponse('User not found'));
+
+      const result = await friends.sendRequest(user, username ? { username: String(username) } : { code: String(code) });
+      if (!result.success) return res.status(failureStatus(result.reason)).json(createErrorResponse(result.reason || 'Failed to send friend request'));
+
+      res.json(createSuccessResponse({ friendship: result.friendship }));
+    } catch (e: any) {
+      console.error('👥 [FRIENDS] Request error:', e);
+      res.status(500).json(createErrorResponse(e.message || 'Failed to send friend request'));
+    }
+  });
+
+  // Accept or decline an incoming request. Body: userId, accept
+  app.post('/api/friends/requests/:requestId/respond', validateUserId(), requireAuthenticatedUser(), async (req: Request, res: Response) => {
+    try {
+      const { userId, accept } = req.body;
+      if (typeof accept !== 'boolean') return res.status(400).json(createErrorResponse('accept must be true or false'));
+
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(404).json(createErrorResponse('User not found'));
+
+      const result = await friends.respond(user, req.params.requestId, accept);
+      if (!result.success) return res.status(failureStatus(result.reason)).json(createErrorResponse(result.reason || 'Failed to answer friend request'));
+
+      res.json(createSuccessResponse({ friendship: result.friendship }));
+    } catch (e: any) {
+      console.error('👥 [FRIENDS] Respond error:', e);
+      res.status(500).json(createErrorResponse(e.message || 'Failed to answer friend request'));
+    }
+  });
+
+  // Unfriend or cancel a pending request. Body: userId, friendId
+  app.post('/api/friends/remove', validateUserId(), requireAuthenticatedUser(), async (req: Request, res: Response) => {
+    try {
+      const { userId, friendId } = req.body;
+      if (!friendId) return res.status(400).json(createErrorResponse('friendId is required'));
+
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(404).json(createErrorResponse('User not found'));
+
+      const result = await friends.remove(user, String(friendId));
+      if (!result.success) return res.status(failureStatus(result.reason)).json(createErrorResponse(result.reason || 'Failed to remove friend'));
+
+      res.json(createSuccessResponse({ removed: true }));
+    } catch (e: any) {
+      console.error('👥 [FRIENDS] Remove error:', e);
+      res.status(500).json(createErrorResponse(e.message || 'Failed to remove friend'));
+    }
+  });
+
+  // Gifts waiting to be claimed
+  app.get('/api/gifts', async (req: Request, res: Response) => {
+    try {
+      const userId = (req.query.userId as string) || (req.headers['x-user-id'] as string);
+      if (!userId) return res.status(400).json(createErrorResponse('userId is required'));
+
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(404).json(createErrorResponse('User not found'));
+
+      res.json(createSuccessResponse(await friends.getPendingGifts(user)));
+    } catch (e: any) {
+      console.error('🎁 [GIFTS] List error:', e);
+      res.status(500).json(createErrorResponse(e.message || 'Failed to load gifts'));
+    }
+  });
+
+  // Send today's gift to a friend. Body: userId, friendId, type energy (amount) or item (itemId)
+  app.post('/api/gifts/send', validateUserId(), requireAuthenticatedUser(), async (req: Request, res: Response) => {
+    try {
+      const { userId, friendId, type, amount, itemId } = req.body;
+      if (!friendId) return res.status(400).json(createErrorResponse('friendId is required'));
+      if (type !== 'energy' && type !== 'item') return res.status(400).json(createErrorResponse('type must be energy or item'));
+
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(404).json(createErrorResponse('User not found'));
+
+      const gift: GiftRequest = type === 'energy' ? { type, amount: Number(amount) } : { type, itemId: String(itemId || '') };
+      const result = await friends.sendGift(user, String(friendId), gift);
+      if (!result.success) return res.status(failureStatus(result.reason)).json(createErrorResponse(result.reason || 'Failed to send gift'));
+
+      res.json(createSuccessResponse({ gift: result.gift }));
+    } catch (e: any) {
+      console.error('🎁 [GIFTS] Send error:', e);
+      res.status(500).json(createErrorResponse(e.message || 'Failed to send gift'));
+    }
+  });
+
+  // Claim a pending gift. Body: userId
+  app.post('/api/gifts/:giftId/claim', validateUserId(), requireAuthenticatedUser(), async (req: Request, res: Response) => {
+    try {
+      const { userId } = req.body;
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(404).json(createErrorResponse('User not found'));
+
+      const result = await friends.claimGift(userId, user, req.params.giftId);
+      if (!result.success) return res.status(failureStatus(result.reason)).json(createErrorResponse(result.reason || 'Failed to claim gift'));
+
+      res.json(createSuccessResponse({ gift: result.gift, granted: result.granted, newStats: result.newStats }));
+    } catch (e: any) {
+      console.error('🎁 [GIFTS] Claim error:', e);
+      res.status(500).json(createErrorResponse(e.message || 'Failed to claim gift'));
+    }
+  });
+}
@@ -1,81 +1,80 @@
 import { Router } from 'express';
 import { UpgradeStorage } from '../../shared/UpgradeStorage';
 import { SupabaseStorage } from '../../shared/SupabaseStorage';
+import { OfflineIncomeService } from '../services/OfflineIncomeService';
 import { createErrorResponse, createSuccessResponse } from '../utils/helpers';
 
 const router = Router();
 const upgrades = UpgradeStorage.getInstance();
 const storage = SupabaseStorage.getInstance();
+const offlineIncome = OfflineIncomeService.getInstance();
 
-// Claim offline LP with 3h base cap + upgrade bonus
-router.post('/offline/claim', async (req, res) => {
+// Preview of the offline claim: per-source breakdown, LP lost to the cap and time until the cap
+router.get('/offline/preview', async (req, res) => {
   try {
-    const { userId } = req.body || {};
+    const userId = req.query.userId as string;
     if (!userId) return res.status(400).json(createErrorResponse('userId required'));
 
-    console.log(`⏰ [OFFLINE] Claim request for user: ${userId}`);
-
     const user = await storage.getUser(userId);
-    if (!user) {
-      console.log(`❌ [OFFLINE] User not found: ${userId}`);
-      return res.status(404).json(createErrorResponse('User not found'));
-    }
-
-    const now = new Date();
-    const last = user.lastTick ? new Date(user.lastTick) : new Date(now.getTime() - 5 * 60 * 1000);
-    const offlineMinutes = Math.max(0, Math.floor((now.getTime() - last.getTime()) / 60000));
-
-    console.log(`⏰ [OFFLINE] User offline for ${offlineMinutes} minutes`);
+    if (!user) return res.status(404).json(createErrorResponse('User not found'));
 
-    const baseCap = 180; // 3 hours
-    const bonusCap = await (async () => {
-      try {
-        const level = await upgrades.getUserUpgradeLevel(userId, 'offline-cap');
-        if (level === 0) return 0;
-        const up = await upgrades.getUpgrade('offline-cap');
-        if (!up) return 0;
-        return upgrades.calculateTotalEffect(up, level); // minutes
-      } catch (error) {
-        console.log(`⚠️ [OFFLINE] Could not get offline-cap bonus:`, error);
-        return 0;
-      }
-    })();
+    res.json(createSuccessResponse(await offlineIncome.quote(user)));
+  } catch (e) {
+    console.error('❌ [OFFLINE] Preview error:', e);
+    res.status(500).json(createErrorResponse('Failed to load offline income'));
+  }
+});
 
-    const capMinutes = baseCap + bonusCap;
-    const minutesApplied = Math.min(offlineMinutes, capMinutes);
+// Claim offline LP up to the offlineCapMinutes stat (3h base + upgrades) with boosters, VIP and events
+router.post('/offline/claim', async (req, res) => {
+  try {
+    const { userId } = req.body || {};
+    if (!userId) return res.status(400).json(createErrorResponse('userId required'));
 
-    const lpPerHour = Math.max(0, Math.floor(user.lpPerHour || 250));
-    const claimedLp = Math.max(0, Math.floor((minutesApplied / 60) * lpPerHour));
+    console.log(`⏰ [OFFLINE] Claim request for user: ${userId}`);
 
-    console.log(`⏰ [OFFLINE] Cap: ${capMinutes}min, Applied: ${minutesApplied}min, Rate: ${lpPerHour}/h, Claimed: ${claimedLp} LP`);
+    const result = await offlineIncome.claim(userId);
+    if (result.alreadyClaimed) {
+      console.log(`⏰ [OFFLINE] Claim for ${userId} lost to a concurrent claim`);
+      return res.status(409).json(createErrorResponse('Offline LP already claimed'));
+    }
+    const sources = result.breakdown.map(line => `${line.source} ${line.lp}`).join(', ');
+    console.log(`⏰ [OFFLINE] Away ${result.offlineMinutes}min, cap ${result.capMinutes}min, applied ${result.minutesApplied}min (+${result.boostedMinutes.toFixed(1)} boosted), rate ${result.lpPerHour}/h: ${sources}, lost ${result.lostToCap} LP to the cap`);
 
-    if (claimedLp <= 0) {
-      await storage.updateUser(userId, { lastTick: now });
+    if (result.claimedLp <= 0) {
       console.log(`⏰ [OFFLINE] Nothing to claim for ${userId}`);
-      return res.json(createSuccessResponse({
-        claimedLp: 0,
-        minutesApplied,
-        capMinutes,
-        lpPerHour,
-        newLp: user.lp || 0
-      }, 'Nothing to claim'));
+      return res.json(createSuccessResponse(result, 'Nothing to claim'));
     }
 
-    const newLp = Math.floor((user.lp || 0)) + claimedLp;
-    await storage.updateUser(userId, { lp: newLp, lastTick: now });
+    console.log(`✅ [OFFLINE] Claimed ${result.claimedLp} LP for ${userId}. New balance: ${result.newLp}`);
+    return res.json(createSuccessResponse(result, 'Offline LP claimed'));
+  } catch (e: any) {
+    if (e?.message === 'User not found') {
+      console.log(`❌ [OFFLINE] User not found: ${req.body?.userId}`);
+      return res.status(404).json(createErrorResponse('User not found'));
+    }
+    console.error('❌ [OFFLINE] Claim error:', e);
+    res.status(500).json(createErrorResponse('Failed to claim offline LP'));
+  }
+});
+
+// Player's offline claim history (newest first)
+router.get('/offline/history', async (req, res) => {
+  try {
+    const userId = req.query.userId as string;
+    if (!userId) return res.status(400).json(createErrorResponse('userId required'));
 
-    console.log(`✅ [OFFLINE] Claimed ${claimedLp} LP for ${userId}. New balance: ${newLp}`);
+    const user = await storage.getUser(userId);
+    if (!user) return res.status(404).json(createErrorResponse('User not found'));
 
-    return res.json(createSuccessResponse({
-      claimedLp,
-      minutesApplied,
-      capMinutes,
-      lpPerHour,
-      newLp
-    }, 'Offline LP claimed'));
+    const claims = await offlineIncome.getHistory(user.id, {
+      limit: req.query.limit ? Number(req.query.limit) : undefined,
+      offset: req.query.offset ? Number(req.query.offset) : undefined
+    });
+    res.json(createSuccessResponse(claims));
   } catch (e) {
-    console.error('❌ [OFFLINE] Claim error:', e);
-    res.status(500).json(createErrorResponse('Failed to claim offline LP'));
+    console.error('❌ [OFFLINE] History error:', e);
+    res.status(500).json(createErrorResponse('Failed to load offline claim history'));
   }
 });
 
@@ -0,0 +1,48 @@
+import type { Express, Request, Response } from "express";
+import { SupabaseStorage } from "../../shared/SupabaseStorage";
+import { createSuccessResponse, createErrorResponse } from "../utils/helpers";
+import { LeaderboardService, type LeaderboardWindow } from "../services/LeaderboardService";
+
+const storage = SupabaseStorage.getInstance();
+const leaderboards = LeaderboardService.getInstance();
+
+export function registerLeaderboardRoutes(app: Express) {
+  // Available boards and their windows (bond boards list the characters)
+  app.get('/api/leaderboards', async (_req: Request, res: Response) => {
+    try {
+      res.json(createSuccessResponse(await leaderboards.getBoards()));
+    } catch (e: any) {
+      console.error('🏅 [LEADERBOARD] List error:', e);
+      res.status(500).json(createErrorResponse(e.message || 'Failed to load leaderboards'));
+    }
+  });
+
+  // Top ranks from the latest snapshot plus the player's own rank. Query: window=global|weekly, userId, characterId (bond), period (past weekly season)
+  app.get('/api/leaderboards/:board', async (req: Request, res: Response) => {
+    try {
+      const window = ((req.query.window as string) || 'global') as LeaderboardWindow;
+      if (window !== 'global' && window !== 'weekly') {
+        return res.status(400).json(createErrorResponse('window must be global or weekly'));
+      }
+
+      const userId = (req.query.userId as string) || (req.headers['x-user-id'] as string);
+      const user = userId ? await storage.getUser(userId) : null;
+      if (userId && !user) return res.status(404).json(createErrorResponse('User not found'));
+
+      const result = await leaderboards.getLeaderboard(req.params.board, window, {
+        user,
+        characterId: req.query.characterId as string | undefined,
+        period: req.query.period as string | undefined
+      });
+      if (!result.success) {
+        const notFound = result.reason === 'Leaderboard not found';
+        return res.status(notFound ? 404 : 400).json(createErrorResponse(result.reason || 'Failed to load leaderboard'));
+      }
+
+      res.json(createSuccessResponse(result.leaderboard));
+    } catch (e: any) {
+      console.error('🏅 [LEADERBOARD] Board error:', e);
+      res.status(500).json(createErrorResponse(e.message || 'Failed to load leaderboard'));
+    }
+  });
+}
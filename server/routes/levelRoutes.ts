@@ -1,91 +1,115 @@
 import type { Express, Request, Response } from "express";
 import { SupabaseStorage } from "../../shared/SupabaseStorage";
 import { createSuccessResponse, createErrorResponse } from "../utils/helpers";
-import { FileStorage } from "../../shared/FileStorage";
+import { LevelStorage } from "../../shared/LevelStorage";
+import { LevelUpService } from "../services/LevelUpService";
+import { XpService } from "../services/XpService";
+import { validateUserId, requireAuthenticatedUser } from "../middleware/authGuards";
 
 const storage = SupabaseStorage.getInstance();
-const fileStorage = FileStorage.getInstance();
+const levelStorage = LevelStorage.getInstance();
+const levelUp = LevelUpService.getInstance();
+const xpService = XpService.getInstance();
 
 export function registerLevelRoutes(app: Express) {
-  // Compute next level requirement and status from JSON
+  // Compute next level requirement and XP progress from the level model (curve + JSON overrides)
   app.get('/api/level/next', async (req: Request, res: Response) => {
     try {
       const userId = (req.query.userId as string) || (req.headers['x-user-id'] as string);
       if (!userId) return res.status(400).json(createErrorResponse('userId is required'));
 
-      const user = await storage.getUser(userId);
-      if (!user) return res.status(404).json(createErrorResponse('User not found'));
+      const found = await storage.getUser(userId);
+      if (!found) return res.status(404).json(createErrorResponse('User not found'));
+      const user = await xpService.ensureMigrated(found);
 
       const currentLevel = user.level || 1;
       const nextLevel = currentLevel + 1;
-      const reqDef = await fileStorage.getLevelRequirement(nextLevel);
+      const reqDef = await levelStorage.getLevel(nextLevel);
+      const progress = await xpService.getProgress(user);
 
       if (!reqDef) return res.json(createSuccessResponse({
         currentLevel,
+        currentXP: progress.xp,
         maxed: true,
         message: 'Max level reached'
       }));
 
-      const lpRequired = reqDef.lpRequired ?? 0;
-      const currentLP = user.lp || 0;
-      const remaining = Math.max(0, lpRequired - currentLP);
+      const { levels: claimable } = await levelUp.plan(user);
 
       res.json(createSuccessResponse({
         currentLevel,
         nextLevel,
-        lpRequired,
-        currentLP,
-        remaining,
-        unlockPreview: reqDef.unlockRewards || [],
+        xpRequired: reqDef.xpRequired,
+        currentXP: progress.xp,
+        currentLevelXP: progress.currentLevelXp,
+        remaining: progress.xpToNext,
+        percent: progress.percent,
+        name: reqDef.name,
+        icon: reqDef.icon,
+        color: reqDef.color,
+        unlockPreview: reqDef.rewards,
+        functions: reqDef.functions,
+        unlocks: reqDef.unlocks,
+        source: reqDef.source,
+        claimableLevels: claimable.length,
+        claimableToLevel: claimable.length ? claimable[claimable.length - 1].level : currentLevel,
       }));
     } catch (e: any) {
       res.status(500).json(createErrorResponse(e.message || 'Failed to compute next level'));
     }
   });
 
-  // Attempt level up using JSON requirements and apply unlock rewards
-  app.post('/api/level/claim', async (req: Request, res: Response) => {
+  // Claim every level the player qualifies for: rewards and level functions run per level, totals are aggregated
+  app.post('/api/level/claim', validateUserId(), requireAuthenticatedUser(), async (req: Request, res: Response) => {
     try {
       const { userId } = req.body || {};
       if (!userId) return res.status(400).json(createErrorResponse('userId is required'));
 
-      const user = await storage.getUser(userId);
-      if (!user) return res.status(404).json(createErrorResponse('User not found'));
+      const found = await storage.getUser(userId);
+      if (!found) return res.status(404).json(createErrorResponse('User not found'));
+      const user = await xpService.ensureMigrated(found);
 
-      const currentLevel = user.level || 1;
-      const nextLevel = currentLevel + 1;
-      const reqDef = await fileStorage.getLevelRequirement(nextLevel);
-      if (!reqDef) return res.status(400).json(createErrorResponse('Already at max level'));
-
-      const lpRequired = reqDef.lpRequired ?? 0;
-      const currentLP = user.lp || 0;
-      if (currentLP < lpRequired) {
-        return res.status(400).json(createErrorResponse('Not enough LP to level up'));
-      }
-
-      const rewards = reqDef.unlockRewards || [];
-      let lpDelta = 0; let energyDelta = 0; let charismaDelta = 0;
-      for (const r of rewards) {
-        if (r.type === 'lp') lpDelta += r.amount || 0;
-        if (r.type === 'energy') energyDelta += r.amount || 0;
-        if (r.type === 'charisma') charismaDelta += r.amount || 0;
+      const { levels } = await levelUp.plan(user);
+      if (levels.length === 0) {
+        const maxLevel = await levelStorage.getMaxLevel();
+        return res.status(400).json(createErrorResponse(
+          (user.level || 1) >= maxLevel ? 'Already at max level' : 'Not enough XP to level up'
+        ));
       }
 
-      const updates: any = { level: nextLevel };
-      if (lpDelta) updates.lp = currentLP + lpDelta;
-      if (energyDelta) updates.energy = Math.min(user.maxEnergy || 1000, (user.energy || 0) + energyDelta);
-      if (charismaDelta) updates.charisma = (user.charisma || 0) + charismaDelta;
-
-      const { error } = await storage.supabase.from('users').update(updates).eq('id', userId);
-      if (error) throw error;
+      const result = await levelUp.claim(userId);
 
       res.json(createSuccessResponse({
-        message: 'Level up successful',
-        newLevel: nextLevel,
-        rewards: { lp: lpDelta, energy: energyDelta, charisma: charismaDelta },
+        message: result.levelsGained > 1
+          ? `Leveled up ${result.levelsGained} times`
+          : 'Level up successful',
+        newLevel: result.newLevel,
+        previousLevel: result.previousLevel,
+        levelsGained: result.levelsGained,
+        levels: result.levels,
+        rewards: result.totals,
+        features: result.features,
+        messages: result.messages,
+        newStats: result.newStats,
+        error: result.error,
       }));
     } catch (e: any) {
       res.status(500).json(createErrorResponse(e.message || 'Failed to level up'));
     }
   });
+
+  // Feature flags unlocked by level functions
+  app.get('/api/level/features', async (req: Request, res: Response) => {
+    try {
+      const userId = (req.query.userId as string) || (req.headers['x-user-id'] as string);
+      if (!userId) return res.status(400).json(createErrorResponse('userId is required'));
+
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(404).json(createErrorResponse('User not found'));
+
+      res.json(createSuccessResponse({ features: await levelUp.getFeatures(user.id) }));
+    } catch (e: any) {
+      res.status(500).json(createErrorResponse(e.message || 'Failed to load features'));
+    }
+  });
 }
@@ -2,6 +2,7 @@ import type { Express, Request, Response } from 'express';
 import { createErrorResponse, createSuccessResponse } from '../utils/helpers';
 import { SupabaseStorage } from '../../shared/SupabaseStorage';
 import { MediaStorage } from '../../shared/MediaStorage';
+import { getEventContext } from '../middleware/eventPreview';
 
 const media = MediaStorage.getInstance();
 const storage = SupabaseStorage.getInstance();
@@ -12,15 +13,17 @@ export function registerMediaRoutes(app: Express) {
     try {
       const { characterId } = req.params;
       const { tags, nsfw, vip, enabledForChat, enabledForRandomSend, limit } = req.query as any;
+      const events = await getEventContext(req);
       const list = await media.getMediaByCharacter(characterId, {
         tags: tags ? String(tags).split(',').filter(Boolean) : undefined,
         nsfw: nsfw !== undefined ? nsfw === 'true' : undefined,
         vip: vip !== undefined ? vip === 'true' : undefined,
         enabledForChat: enabledForChat !== undefined ? enabledForChat === 'true' : undefined,
-        enabledForRandomSend: enabledForRandomSend !== undefined ? enabledForRandomSend === 'true' : undefined,
-        limit: limit ? Number(limit) : undefined
+        enabledForRandomSend: enabledForRandomSend !== undefined ? enabledForRandomSend === 'true' : undefined
       });
-      res.json(list);
+      // Event media is dropped before the limit so previews and live events fill the page
+      const visible = list.filter(m => events.allowsTags((m as any).tags, m.isEvent));
+      res.json(limit ? visible.slice(0, Number(limit)) : visible);
     } catch (e: any) {
       res.status(500).json(createErrorResponse(e.message || 'Failed to list media'));
     }
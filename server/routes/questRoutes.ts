@@ -0,0 +1,51 @@
+import type { Express, Request, Response } from "express";
+import { SupabaseStorage } from "../../shared/SupabaseStorage";
+import { createSuccessResponse, createErrorResponse } from "../utils/helpers";
+import { QuestService } from "../services/QuestService";
+import { getEventContext } from "../middleware/eventPreview";
+import { validateUserId, requireAuthenticatedUser } from "../middleware/authGuards";
+
+const storage = SupabaseStorage.getInstance();
+const quests = QuestService.getInstance();
+
+const NOT_FOUND = ['User not found', 'Quest not found', 'Quest step not found'];
+
+export function registerQuestRoutes(app: Express) {
+  // Quest chains (game-data/quests) with the player's step progress; without userId only definitions
+  app.get('/api/quests', async (req: Request, res: Response) => {
+    try {
+      const userId = (req.query.userId as string) || (req.headers['x-user-id'] as string);
+      const events = await getEventContext(req);
+      if (!userId) return res.json(createSuccessResponse(await quests.getChains(null, events)));
+
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(404).json(createErrorResponse('User not found'));
+
+      res.json(createSuccessResponse(await quests.getChains(user, events)));
+    } catch (e: any) {
+      console.error('📜 [QUESTS] List error:', e);
+      res.status(500).json(createErrorResponse(e.message || 'Failed to load quests'));
+    }
+  });
+
+  // Turn in a completed step; the response lists the steps it unlocked. Body: { userId }
+  app.post('/api/quests/:chainId/steps/:stepId/claim', validateUserId(), requireAuthenticatedUser(), async (req: Request, res: Response) => {
+    try {
+      const { chainId, stepId } = req.params;
+      const { userId } = req.body || {};
+      if (!userId) return res.status(400).json(createErrorResponse('userId is required'));
+
+      const result = await quests.claim(userId, chainId, stepId);
+      if (!result.success) {
+        const notFound = NOT_FOUND.includes(result.reason || '');
+        return res.status(notFound ? 404 : 400).json(createErrorResponse(result.reason || 'Failed to claim quest step'));
+      }
+
+      console.log(`📜 [QUESTS] ${userId} claimed ${chainId}:${stepId} (+${result.totals!.lp} LP, ${result.unlocked!.length} unlocked)`);
+      res.json(createSuccessResponse(result));
+    } catch (e: any) {
+      console.error('📜 [QUESTS] Claim error:', e);
+      res.status(500).json(createErrorResponse(e.message || 'Failed to claim quest step'));
+    }
+  });
+}
@@ -0,0 +1,48 @@
+import type { Express, Request, Response } from "express";
+import { SupabaseStorage } from "../../shared/SupabaseStorage";
+import { createSuccessResponse, createErrorResponse } from "../utils/helpers";
+import { ReferralService } from "../services/ReferralService";
+import { validateUserId, requireAuthenticatedUser } from "../middleware/authGuards";
+
+const storage = SupabaseStorage.getInstance();
+const referrals = ReferralService.getInstance();
+
+export function registerReferralRoutes(app: Express) {
+  // The player's code and share link, who referred them and the players they brought in with milestone status
+  app.get('/api/referrals', async (req: Request, res: Response) => {
+    try {
+      const userId = (req.query.userId as string) || (req.headers['x-user-id'] as string);
+      if (!userId) return res.status(400).json(createErrorResponse('userId is required'));
+
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(404).json(createErrorResponse('User not found'));
+
+      res.json(createSuccessResponse(await referrals.getReferrals(user)));
+    } catch (e: any) {
+      console.error('🤝 [REFERRALS] List error:', e);
+      res.status(500).json(createErrorResponse(e.message || 'Failed to load referrals'));
+    }
+  });
+
+  // Applies a code for a new player who didn't arrive through the bot link (e.g. Mini App start_param)
+  app.post('/api/referrals/apply', validateUserId(), requireAuthenticatedUser(), async (req: Request, res: Response) => {
+    try {
+      const { userId, code } = req.body || {};
+      if (!userId || !code) return res.status(400).json(createErrorResponse('userId and code are required'));
+
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(404).json(createErrorResponse('User not found'));
+
+      const result = await referrals.attribute(user, String(code));
+      if (!result.success) {
+        const notFound = result.reason === 'Referral code not found';
+        return res.status(notFound ? 404 : 400).json(createErrorResponse(result.reason || 'Failed to apply referral code'));
+      }
+
+      res.json(createSuccessResponse({ referral: result.referral }));
+    } catch (e: any) {
+      console.error('🤝 [REFERRALS] Apply error:', e);
+      res.status(500).json(createErrorResponse(e.message || 'Failed to apply referral code'));
+    }
+  });
+}
@@ -2,18 +2,22 @@
  * statsRoutes.ts - Player Statistics and Game Stats Routes
  * Last Edited: 2025-08-28 by Assistant
  * 
- * Handles player statistics, game stats, and mock fallback data
+ * Handles player statistics (lifetime and daily history), game stats, and mock fallback data
  */
 
 import type { Express, Request, Response } from "express";
 import { SupabaseStorage } from '../../shared/SupabaseStorage';
 import { isValidUUID, isValidTelegramId, createSuccessResponse, createErrorResponse } from '../utils/helpers';
+import { StatService } from '../services/StatService';
+import { GameStatsService } from '../services/GameStatsService';
 
 const storage = SupabaseStorage.getInstance();
+const statService = StatService.getInstance();
+const gameStats = GameStatsService.getInstance();
 
 export function registerStatsRoutes(app: Express) {
 
-  // Player stats endpoint with mock fallback
+  // Lifetime counters from gameStats (taps, LP earned, energy used, sessions, spins, chat, media, upgrades)
   app.get("/api/stats/:playerId", async (req: Request, res: Response) => {
     try {
       const { playerId } = req.params;
@@ -23,47 +27,53 @@ export function registerStatsRoutes(app: Express) {
         return res.status(400).json(createErrorResponse('Invalid player ID format'));
       }
 
-      try {
-        // Try to get real stats from database 
-        const stats = null; // TODO: Implement getGameStats method
-        
-        if (stats) {
-          return res.json(stats);
-        } else {
-          // Create default stats for valid user
-          const defaultStats = {
-            playerId,
-            totalTaps: 0,
-            totalLpEarned: 0,
-            totalEnergyUsed: 0,
-            sessionsPlayed: 1,
-            timeSpent: 0,
-            charactersUnlocked: 1,
-            achievementsUnlocked: 0,
-            upgradesPurchased: 0,
-            wheelSpins: 0,
-            chatMessages: 0,
-            mediaShared: 0,
-            createdAt: new Date().toISOString(),
-            updatedAt: new Date().toISOString()
-          };
-          
-          // TODO: Implement createGameStats method
-          // Only log when actually creating stats (not every request)
-          
-          return res.json(defaultStats);
-        }
-      } catch (dbError) {
-        console.error('Database error fetching stats:', dbError);
-        return res.status(500).json(createErrorResponse('Database error'));
+      const user = await storage.getUser(playerId);
+      if (!user) {
+        return res.status(404).json(createErrorResponse('User not found'));
       }
 
+      res.json(await gameStats.getLifetime(user));
     } catch (error) {
       console.error('Error in stats endpoint:', error);
       res.status(500).json(createErrorResponse('Failed to get stats'));
     }
   });
 
+  // Daily rollups for charts: ?days=30 (max 365), oldest first with empty days filled in
+  app.get("/api/stats/:playerId/history", async (req: Request, res: Response) => {
+    try {
+      const { playerId } = req.params;
+      const user = await storage.getUser(playerId);
+      if (!user) {
+        return res.status(404).json(createErrorResponse('User not found'));
+      }
+
+      const days = parseInt(req.query.days as string) || 30;
+      const history = await gameStats.getHistory(user, days);
+      res.json(createSuccessResponse({ days: history }));
+    } catch (error) {
+      console.error('Error fetching stats history:', error);
+      res.status(500).json(createErrorResponse('Failed to get stats history'));
+    }
+  });
+
+  // Stat pipeline breakdown: base → upgrades → boosters → VIP (final is what gameplay uses)
+  app.get("/api/stats/:playerId/breakdown", async (req: Request, res: Response) => {
+    try {
+      const { playerId } = req.params;
+      const user = await storage.getUser(playerId);
+      if (!user) {
+        return res.status(404).json(createErrorResponse('User not found'));
+      }
+
+      const breakdown = await statService.getStats(user);
+      res.json(createSuccessResponse(breakdown));
+    } catch (error) {
+      console.error('Error computing stat breakdown:', error);
+      res.status(500).json(createErrorResponse('Failed to compute stats'));
+    }
+  });
+
   // Game statistics summary endpoint
   app.get("/api/gamestats", (req: Request, res: Response) => {
     // Mock game-wide statistics
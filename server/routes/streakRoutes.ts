@@ -0,0 +1,64 @@
+import type { Express, Request, Response } from "express";
+import { SupabaseStorage } from "../../shared/SupabaseStorage";
+import { createSuccessResponse, createErrorResponse } from "../utils/helpers";
+import { LoginStreakService } from "../services/LoginStreakService";
+import { validateUserId, requireAuthenticatedUser } from "../middleware/authGuards";
+
+const storage = SupabaseStorage.getInstance();
+const streaks = LoginStreakService.getInstance();
+
+export function registerStreakRoutes(app: Express) {
+  // Login streak and calendars (today's claim state, tomorrow's reward) - viewing records today's login
+  app.get('/api/streak', async (req: Request, res: Response) => {
+    try {
+      const userId = (req.query.userId as string) || (req.headers['x-user-id'] as string);
+      if (!userId) return res.status(400).json(createErrorResponse('userId is required'));
+
+      const found = await storage.getUser(userId);
+      if (!found) return res.status(404).json(createErrorResponse('User not found'));
+
+      const { user } = await streaks.checkIn(found);
+      res.json(createSuccessResponse(await streaks.getStatus(user)));
+    } catch (e: any) {
+      console.error('📅 [STREAK] Status error:', e);
+      res.status(500).json(createErrorResponse(e.message || 'Failed to load login streak'));
+    }
+  });
+
+  // Record today's login explicitly (also done by GET /api/player and GET /api/streak)
+  app.post('/api/streak/checkin', validateUserId(), requireAuthenticatedUser(), async (req: Request, res: Response) => {
+    try {
+      const { userId } = req.body || {};
+      if (!userId) return res.status(400).json(createErrorResponse('userId is required'));
+
+      const found = await storage.getUser(userId);
+      if (!found) return res.status(404).json(createErrorResponse('User not found'));
+
+      const { user, ...checkIn } = await streaks.checkIn(found);
+      res.json(createSuccessResponse({ ...checkIn, status: await streaks.getStatus(user) }));
+    } catch (e: any) {
+      console.error('📅 [STREAK] Check-in error:', e);
+      res.status(500).json(createErrorResponse(e.message || 'Failed to record login'));
+    }
+  });
+
+  // Claim today's reward of one calendar. Body: { userId, calendarId }
+  app.post('/api/streak/claim', validateUserId(), requireAuthenticatedUser(), async (req: Request, res: Response) => {
+    try {
+      const { userId, calendarId } = req.body || {};
+      if (!userId || !calendarId) return res.status(400).json(createErrorResponse('userId and calendarId are required'));
+
+      const result = await streaks.claim(userId, calendarId);
+      if (!result.success) {
+        const notFound = result.reason === 'User not found' || result.reason === 'Calendar not found';
+        return res.status(notFound ? 404 : 400).json(createErrorResponse(result.reason || 'Failed to claim login reward'));
+      }
+
+      const user = await storage.getUser(userId);
+      res.json(createSuccessResponse({ ...result, status: user ? await streaks.getStatus(user) : undefined }));
+    } catch (e: any) {
+      console.error('📅 [STREAK] Claim error:', e);
+      res.status(500).json(createErrorResponse(e.message || 'Failed to claim login reward'));
+    }
+  });
+}
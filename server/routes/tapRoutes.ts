@@ -3,18 +3,219 @@
  * Last Edited: 2025-08-28 by Assistant
  * 
  * Handles all tap-related functionality including LP calculations and energy management
+ * Taps can be sent one at a time or batched; both go through the same server-side rate validation
  */
 
 import type { Express, Request, Response } from "express";
 import { SupabaseStorage } from '../../shared/SupabaseStorage';
+import { FileStorage } from '../../shared/FileStorage';
+import type { User } from '../../shared/schema';
 import { parseLP, calculateLPPerTap, createSuccessResponse, createErrorResponse } from '../utils/helpers';
 import { requireAuthenticatedUser, validateUserId } from '../middleware/authGuards';
+import { LedgerService } from '../services/LedgerService';
+import { EnergyService } from '../services/EnergyService';
+import { StatService } from '../services/StatService';
+import { RewardService } from '../services/RewardService';
+import { XpService } from '../services/XpService';
+import { TaskService } from '../services/TaskService';
+import { GameEventBus } from '../services/GameEventBus';
 
 const storage = SupabaseStorage.getInstance();
+const fileStorage = FileStorage.getInstance();
+const ledger = LedgerService.getInstance();
+const energyService = EnergyService.getInstance();
+const statService = StatService.getInstance();
+const rewardService = RewardService.getInstance();
+const xpService = XpService.getInstance();
+const taskService = TaskService.getInstance();
+const gameEvents = GameEventBus.getInstance();
+
+// Tap batch validation limits
+const MAX_BATCH_TAPS = 200; // Hard cap per request regardless of cooldown
+const MAX_BATCH_WINDOW_MS = 10_000; // Oldest tap a batch may contain / max credited idle time
+const MAX_CLOCK_SKEW_MS = 30_000; // Tolerated drift between client and server clocks
+const COOLDOWN_TOLERANCE = 0.8; // Accept taps slightly faster than tapCooldown (event loop jitter)
+
+interface TapBatchValidation {
+  requestedTaps: number;
+  acceptedTaps: number;
+  lastAcceptedAt: number | null; // Timestamp of the last credited tap (stored as users.lastTapAt)
+  clamped: boolean; // Fewer taps credited than requested
+  flagged: boolean; // Batch looked implausible (auto-clicker, replay, forged timestamps)
+  reasons: string[];
+}
+
+interface TapBatchResult extends TapBatchValidation {
+  lpGain: number;
+  xpGain: number; // GameSettings.xp.perTap per accepted tap
+  critTaps: number; // Accepted taps that rolled a critical (critChance stat)
+  energyUsed: number;
+  newLp: number;
+  newEnergy: number;
+  user?: User;
+}
+
+/**
+ * 🛡️ VALIDATE A TAP BATCH
+ * Credits at most one tap per cooldown window counted from the last credited tap (users.lastTapAt),
+ * never more taps than the elapsed time since then allows, and never more than current energy.
+ */
+function validateTapBatch(
+  requestedTaps: number,
+  timestamps: number[],
+  opts: { cooldownMs: number; lastTapAt: number | null; energy: number; now: number }
+): TapBatchValidation {
+  const reasons: string[] = [];
+  const suspicious = new Set<string>();
+  const minGapMs = opts.cooldownMs * COOLDOWN_TOLERANCE;
+
+  if (timestamps.length !== requestedTaps) {
+    reasons.push('timestamp_count_mismatch');
+    suspicious.add('timestamp_count_mismatch');
+  }
+
+  // Drop timestamps outside the accepted window (forged or stale)
+  const inWindow = timestamps
+    .filter(ts => Number.isFinite(ts))
+    .filter(ts => ts >= opts.now - MAX_BATCH_WINDOW_MS - MAX_CLOCK_SKEW_MS && ts <= opts.now + MAX_CLOCK_SKEW_MS)
+    .sort((a, b) => a - b);
+  if (inWindow.length < timestamps.length) {
+    reasons.push('timestamps_out_of_window');
+    suspicious.add('timestamps_out_of_window');
+  }
+
+  // Enforce tapCooldown between consecutive taps, starting from the previous batch's last tap
+  const acceptedAt: number[] = [];
+  let previous = opts.lastTapAt ?? -Infinity;
+  for (const ts of inWindow) {
+    if (ts - previous >= minGapMs) {
+      acceptedAt.push(ts);
+      previous = ts;
+    }
+  }
+  let accepted = Math.min(acceptedAt.length, requestedTaps);
+  if (acceptedAt.length < inWindow.length) {
+    reasons.push('cooldown_violation');
+    suspicious.add('cooldown_violation');
+  }
+
+  // Never credit more taps than could physically fit since the last accepted batch
+  const elapsedMs = opts.lastTapAt === null
+    ? MAX_BATCH_WINDOW_MS
+    : Math.min(MAX_BATCH_WINDOW_MS, Math.max(0, opts.now - opts.lastTapAt));
+  const maxByElapsed = minGapMs > 0 ? Math.floor(elapsedMs / minGapMs) : MAX_BATCH_TAPS;
+  if (accepted > maxByElapsed) {
+    accepted = maxByElapsed;
+    reasons.push('exceeds_elapsed_time');
+    suspicious.add('exceeds_elapsed_time');
+  }
+
+  if (accepted > MAX_BATCH_TAPS) {
+    accepted = MAX_BATCH_TAPS;
+    reasons.push('batch_too_large');
+    suspicious.add('batch_too_large');
+  }
+
+  // Running out of energy mid-batch is normal client drift, not abuse
+  if (accepted > opts.energy) {
+    accepted = Math.max(0, opts.energy);
+    reasons.push('insufficient_energy');
+  }
+
+  return {
+    requestedTaps,
+    acceptedTaps: accepted,
+    // Never ahead of the server clock, so a fast client clock can't push the next cooldown out
+    lastAcceptedAt: accepted > 0 ? Math.min(opts.now, acceptedAt[accepted - 1]) : null,
+    clamped: accepted < requestedTaps,
+    flagged: suspicious.size > 0,
+    reasons
+  };
+}
+
+/**
+ * 💥 APPLY A TAP BATCH
+ * Validates the batch and writes the LP/energy delta in a single update.
+ */
+async function processTapBatch(user: User, userId: string, requestedTaps: number, timestamps: number[]): Promise<TapBatchResult> {
+  const settings = await fileStorage.getGameSettings();
+  const now = Date.now();
+  const energyState = await energyService.getState(user, now);
+
+  const validation = validateTapBatch(requestedTaps, timestamps, {
+    cooldownMs: Math.max(0, (settings.tapCooldown ?? 0) * 1000),
+    lastTapAt: user.lastTapAt ? new Date(user.lastTapAt).getTime() : null,
+    energy: energyState.energy,
+    now
+  });
+
+  if (validation.flagged) {
+    console.warn(`🚩 [TAP] Suspicious batch from ${userId}: requested=${requestedTaps}, accepted=${validation.acceptedTaps}, reasons=${validation.reasons.join(',')}`);
+  }
+
+  // LP per tap from the stat pipeline (upgrades → tap_power/lp_multiplier boosters → VIP) - whole numbers only
+  const { final } = await statService.getStats(user, now);
+  const lpPerTap = Math.floor(final.lpPerTap);
+  let critTaps = 0;
+  for (let i = 0; i < validation.acceptedTaps; i++) {
+    if (Math.random() < final.critChance) critTaps++;
+  }
+  const critBonus = Math.floor(lpPerTap * ((settings.critMultiplier ?? 2) - 1));
+  const currentLp = Math.floor(parseLP(user.lp));
+  const lpGain = lpPerTap * validation.acceptedTaps + critBonus * critTaps;
+  const energyUsed = validation.acceptedTaps;
+  const newEnergy = Math.max(0, energyState.energy - energyUsed);
+
+  if (validation.acceptedTaps === 0) {
+    return { ...validation, lpGain: 0, xpGain: 0, critTaps: 0, energyUsed: 0, newLp: currentLp, newEnergy: energyState.energy, user };
+  }
+
+  const xp = await xpService.award(user, 'tap', validation.acceptedTaps);
+
+  // Fast single database update for the whole batch - only if no other batch was credited since
+  // lastTapAt was read, otherwise two batches sent together would both pass the cooldown
+  const { user: updatedUser, balanceAfter, conflict } = await ledger.applyLpChange({
+    userId,
+    delta: lpGain,
+    source: 'tap',
+    user,
+    // Energy and xp follow the row each attempt writes against (a concurrent reward may have moved them)
+    updates: async current => {
+      const state = current === user ? energyState : await energyService.getState(current, now);
+      return {
+        ...energyService.toUpdate(state, Math.max(0, state.energy - energyUsed), now),
+        lastTapAt: new Date(validation.lastAcceptedAt!),
+        ...xp.updates(current)
+      };
+    },
+    expected: { lastTapAt: (user.lastTapAt as unknown as string | null) ?? null }
+  });
+  if (conflict) {
+    const reasons = [...validation.reasons, 'concurrent_batch'];
+    return { ...validation, acceptedTaps: 0, lastAcceptedAt: null, clamped: true, reasons, lpGain: 0, xpGain: 0, critTaps: 0, energyUsed: 0, newLp: currentLp, newEnergy: energyState.energy, user };
+  }
+
+  await taskService.record(updatedUser || user, {
+    tap_count: validation.acceptedTaps,
+    lp_earned: lpGain,
+    energy_spent: energyUsed
+  });
+  await gameEvents.emit({
+    type: 'tap',
+    userId,
+    user: updatedUser || user,
+    taps: validation.acceptedTaps,
+    lp: lpGain,
+    critTaps,
+    energySpent: energyUsed
+  });
+
+  return { ...validation, lpGain, xpGain: xp.gain, critTaps, energyUsed, newLp: Math.floor(balanceAfter), newEnergy, user: updatedUser };
+}
 
 export function registerTapRoutes(app: Express) {
   
-  // Main tap endpoint - optimized for performance
+  // Main tap endpoint - a single tap validated like a one-tap batch
   app.post('/api/tap', validateUserId(), requireAuthenticatedUser(), async (req: Request, res: Response) => {
     try {
       const { userId } = req.body;
@@ -27,38 +228,26 @@ export function registerTapRoutes(app: Express) {
         return res.status(404).json(createErrorResponse('User not found'));
       }
 
-      // Check if user has energy
-      if (user.energy <= 0) {
-        return res.status(400).json(createErrorResponse('No energy left'));
+      const result = await processTapBatch(user, userId, 1, [Date.now()]);
+      if (result.acceptedTaps === 0) {
+        // Check if user has energy (regenerated energy included)
+        if (result.reasons.includes('insufficient_energy')) {
+          return res.status(400).json(createErrorResponse('No energy left'));
+        }
+        return res.status(429).json(createErrorResponse('Tap cooldown active'));
       }
 
-      // Calculate LP per tap (use user's lpPerTap stat)
-      const lpPerTap = Math.floor(user.lpPerTap || 2);
-      
-      // Update user stats - Use whole numbers for LP calculations
-      const currentLp = Math.floor(parseLP(user.lp));
-      const newLp = currentLp + lpPerTap;
-      const newEnergy = Math.max(0, user.energy - 1);
-      
-      console.log(`💥 TAP: ${currentLp} + ${lpPerTap} = ${newLp}`);
-
-      // Fast single database update
-      const updatedUser = await storage.updateUser(userId, {
-        lp: newLp,
-        energy: newEnergy
-      });
-
-      // Game stats tracking skipped - method not implemented
-
-      console.log(`💥 TAP! ${userId} gained ${lpPerTap} LP, energy: ${newEnergy}`);
+      console.log(`💥 TAP! ${userId} gained ${result.lpGain} LP, energy: ${result.newEnergy}`);
       
       res.json({
         success: true,
-        lpGain: lpPerTap,
-        energyUsed: 1,
-        newLp,
-        newEnergy,
-        user: updatedUser
+        lpGain: result.lpGain,
+        xpGain: result.xpGain,
+        critTaps: result.critTaps,
+        energyUsed: result.energyUsed,
+        newLp: result.newLp,
+        newEnergy: result.newEnergy,
+        user: result.user
       });
     } catch (error) {
       console.error('Tap error:', error);
@@ -66,6 +255,51 @@ export function registerTapRoutes(app: Express) {
     }
   });
 
+  // Batched taps - client buffers taps (with Date.now() timestamps) and flushes periodically
+  app.post('/api/tap/batch', validateUserId(), requireAuthenticatedUser(), async (req: Request, res: Response) => {
+    try {
+      const { userId, taps, timestamps } = req.body || {};
+      if (!userId) {
+        return res.status(400).json(createErrorResponse('User ID required'));
+      }
+
+      const requestedTaps = Math.floor(Number(taps));
+      if (!Number.isFinite(requestedTaps) || requestedTaps <= 0) {
+        return res.status(400).json(createErrorResponse('taps must be a positive number'));
+      }
+      if (!Array.isArray(timestamps)) {
+        return res.status(400).json(createErrorResponse('timestamps array required'));
+      }
+
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json(createErrorResponse('User not found'));
+      }
+
+      const result = await processTapBatch(user, userId, requestedTaps, timestamps.map(Number));
+
+      console.log(`💥 TAP BATCH! ${userId} ${result.acceptedTaps}/${requestedTaps} taps, +${result.lpGain} LP, energy: ${result.newEnergy}`);
+
+      res.json(createSuccessResponse({
+        requestedTaps: result.requestedTaps,
+        acceptedTaps: result.acceptedTaps,
+        lpGain: result.lpGain,
+        xpGain: result.xpGain,
+        critTaps: result.critTaps,
+        energyUsed: result.energyUsed,
+        newLp: result.newLp,
+        newEnergy: result.newEnergy,
+        clamped: result.clamped,
+        flagged: result.flagged,
+        reasons: result.reasons,
+        user: result.user
+      }));
+    } catch (error) {
+      console.error('Tap batch error:', error);
+      res.status(500).json(createErrorResponse('Failed to process tap batch'));
+    }
+  });
+
   // Alternative tap endpoint (legacy support)
   app.post("/api/game/tap", async (req: Request, res: Response) => {
     try {
@@ -81,36 +315,31 @@ export function registerTapRoutes(app: Express) {
         return res.status(404).json(createErrorResponse('User not found'));
       }
 
-      // Check energy
-      if (user.energy <= 0) {
-        return res.status(400).json({
-          success: false,
-          error: 'No energy remaining',
-          currentEnergy: 0
-        });
+      // Same cooldown and energy validation as /api/tap
+      const result = await processTapBatch(user, userId, 1, [Date.now()]);
+      if (result.acceptedTaps === 0) {
+        // Check energy
+        if (result.reasons.includes('insufficient_energy')) {
+          return res.status(400).json({
+            success: false,
+            error: 'No energy remaining',
+            currentEnergy: 0
+          });
+        }
+        return res.status(429).json(createErrorResponse('Tap cooldown active'));
       }
 
-      // Calculate LP gain (using whole numbers only)
-      const lpGain = user.lpPerTap || 2;
-      const currentLp = parseLP(user.lp);
-      const newLp = currentLp + lpGain;
-      const newEnergy = Math.max(0, user.energy - 1);
-
-      // Update user in database
-      const updatedUser = await storage.updateUser(userId, {
-        lp: newLp,
-        energy: newEnergy
-      });
-
       // Game stats tracking skipped - method not implemented
 
       res.json({
         success: true,
-        lpGain,
-        energyUsed: 1,
-        newLp,
-        newEnergy,
-        user: updatedUser
+        lpGain: result.lpGain,
+        xpGain: result.xpGain,
+        critTaps: result.critTaps,
+        energyUsed: result.energyUsed,
+        newLp: result.newLp,
+        newEnergy: result.newEnergy,
+        user: result.user
       });
     } catch (error) {
       console.error('Error processing tap:', error);
@@ -180,8 +409,10 @@ export function registerTapRoutes(app: Express) {
       const newLp = currentLp + lpAmount;
 
       // Update user in database
-      const updatedUser = await storage.updateUser(userId, {
-        lp: newLp
+      const { user: updatedUser } = await rewardService.grant(userId, [{ type: 'lp', amount: lpAmount }], {
+        source: 'reward_claim',
+        refId: rewardKey,
+        user
       });
 
       console.log(`🎁 ${userId} claimed ${rewardType} reward: ${lpAmount} LP - Balance: ${currentLp} → ${newLp}`);
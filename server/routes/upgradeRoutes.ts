@@ -9,12 +9,19 @@
  */
 
 import { Router } from 'express';
-import { UpgradeStorage } from '../../shared/UpgradeStorage';
+import { UpgradeStorage, type PurchaseQuantity } from '../../shared/UpgradeStorage';
 import { SupabaseStorage } from '../../shared/SupabaseStorage';
+import { LedgerService } from '../services/LedgerService';
+import { RespecService } from '../services/RespecService';
+import { GameEventBus } from '../services/GameEventBus';
+import { validateUserId, requireAuthenticatedUser } from '../middleware/authGuards';
 
 const router = Router();
 const upgradeStorage = UpgradeStorage.getInstance();
 const supabaseStorage = SupabaseStorage.getInstance();
+const ledger = LedgerService.getInstance();
+const respecService = RespecService.getInstance();
+const gameEvents = GameEventBus.getInstance();
 
 router.get('/', async (req, res) => {
   try {
@@ -82,10 +89,136 @@ router.get('/all', async (req, res) => {
   }
 });
 
+// quantity: a positive integer or 'max' (as many levels as the player can afford); defaults to 1
+function parseQuantity(raw: unknown): PurchaseQuantity | null {
+  if (raw === undefined || raw === null || raw === '') return 1;
+  if (raw === 'max') return 'max';
+  const n = Number(raw);
+  return Number.isInteger(n) && n > 0 ? n : null;
+}
+
+// Ledger refId for a purchase: "<upgradeId>:<level>" or "<upgradeId>:<from>-<to>" for bulk buys
+function purchaseRefId(upgradeId: string, currentLevel: number, targetLevel: number): string {
+  return targetLevel - currentLevel > 1
+    ? `${upgradeId}:${currentLevel + 1}-${targetLevel}`
+    : `${upgradeId}:${targetLevel}`;
+}
+
+/**
+ * GET /api/upgrades/respec/preview?userId=&upgradeId= - refund, fee and cooldown for a respec
+ * Omit upgradeId to preview resetting every upgrade.
+ */
+router.get('/respec/preview', async (req, res) => {
+  try {
+    const actualUserId = (req.query.telegramId as string) || (req.query.userId as string) || (req.headers['x-user-id'] as string);
+    if (!actualUserId) {
+      return res.status(400).json({ success: false, error: 'userId or telegramId required' });
+    }
+
+    const upgradeId = typeof req.query.upgradeId === 'string' && req.query.upgradeId ? req.query.upgradeId : undefined;
+    const quote = await respecService.quote(actualUserId, { upgradeId });
+
+    res.json({
+      success: true,
+      data: quote,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error: any) {
+    console.error('❌ [RESPEC] Preview error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to preview respec',
+      details: error?.message || 'Unknown error'
+    });
+  }
+});
+
+/**
+ * POST /api/upgrades/respec - reset one upgrade ({ upgradeId }) or all of them to level 0
+ * Refunds GameSettings.respec.refundPercent of the LP the ledger shows spent, minus lpFee; limited by cooldownHours.
+ */
+router.post('/respec', validateUserId(), requireAuthenticatedUser(), async (req, res) => {
+  try {
+    const { userId, telegramId, upgradeId } = req.body;
+    const actualUserId = telegramId || userId || (req.headers['x-user-id'] as string);
+
+    if (!actualUserId) {
+      return res.status(400).json({ success: false, error: 'userId or telegramId required' });
+    }
+
+    console.log(`♻️ [RESPEC] ${actualUserId} resetting ${upgradeId || 'all upgrades'}`);
+
+    const result = await respecService.respec(actualUserId, { upgradeId: upgradeId || undefined });
+    if (!result.success) {
+      console.log(`❌ [RESPEC] Rejected: ${result.reason}`);
+      return res.status(400).json({
+        success: false,
+        error: result.reason,
+        quote: result.quote
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        reset: result.quote.upgrades,
+        refund: result.quote.refund,
+        fee: result.quote.fee,
+        lpChange: result.quote.delta,
+        newStats: result.newStats
+      },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error: any) {
+    console.error('❌ [RESPEC] Error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Respec failed',
+      details: error?.message || 'Unknown error'
+    });
+  }
+});
+
+/**
+ * GET /api/upgrades/:upgradeId/preview?userId=&quantity= - price a purchase without buying
+ * quantity: number of levels or 'max'. Returns the same quote the purchase endpoint validates against.
+ */
+router.get('/:upgradeId/preview', async (req, res) => {
+  try {
+    const { upgradeId } = req.params;
+    const actualUserId = (req.query.telegramId as string) || (req.query.userId as string) || (req.headers['x-user-id'] as string);
+
+    if (!actualUserId) {
+      return res.status(400).json({ success: false, error: 'userId or telegramId required' });
+    }
+
+    const quantity = parseQuantity(req.query.quantity);
+    if (quantity === null) {
+      return res.status(400).json({ success: false, error: "quantity must be a positive integer or 'max'" });
+    }
+
+    const quote = await upgradeStorage.quotePurchase(actualUserId, upgradeId, quantity);
+
+    res.json({
+      success: true,
+      data: quote,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error: any) {
+    console.error('❌ [PREVIEW] Error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to preview purchase',
+      details: error?.message || 'Unknown error'
+    });
+  }
+});
+
 /**
  * POST /api/upgrades/:upgradeId/purchase - THE CRITICAL FIX
  * 🔥 ISSUE: This endpoint was NOT calling applyUserUpgradeEffects!
  * ✅ FIXED: Added the missing effect application call
+ * Body: { userId, quantity? } - quantity is a level count or 'max'; all levels are paid and applied at once
  */
 router.post('/:upgradeId/purchase', async (req, res) => {
   try {
@@ -100,89 +233,53 @@ router.post('/:upgradeId/purchase', async (req, res) => {
       });
     }
 
-    console.log(`💰 [PURCHASE] Processing upgrade: ${upgradeId} for user ${actualUserId}`);
+    const quantity = parseQuantity(req.body.quantity);
+    if (quantity === null) {
+      return res.status(400).json({ success: false, error: "quantity must be a positive integer or 'max'" });
+    }
+
+    console.log(`💰 [PURCHASE] Processing upgrade: ${upgradeId} x${quantity} for user ${actualUserId}`);
 
     // Validate purchase
-    const validation = await upgradeStorage.validatePurchase(actualUserId, upgradeId);
-    if (!validation.valid) {
-      console.log(`❌ [PURCHASE] Validation failed: ${validation.reason}`);
+    const quote = await upgradeStorage.quotePurchase(actualUserId, upgradeId, quantity);
+    if (!quote.valid) {
+      console.log(`❌ [PURCHASE] Validation failed: ${quote.reason}`);
       return res.status(400).json({ 
         success: false, 
-        error: validation.reason,
-        cost: validation.cost 
+        error: quote.reason,
+        cost: quote.totalCost || undefined,
+        quote
       });
     }
 
-    const cost = validation.cost!;
-    console.log(`💰 [PURCHASE] Validated: Cost=${cost} LP`);
-
-    // Get current user data
-    const user = await supabaseStorage.getUser(actualUserId);
-    if (!user) {
-      return res.status(404).json({ success: false, error: 'User not found' });
-    }
-
-    const currentLevel = await upgradeStorage.getUserUpgradeLevel(actualUserId, upgradeId);
-    const targetLevel = currentLevel + 1;
-    const oldLP = user.lp || 0;
-    const newLP = oldLP - cost;
+    const cost = quote.totalCost;
+    const { currentLevel, targetLevel } = quote;
+    const oldLP = quote.balance;
+    const newLP = quote.balanceAfter;
+    const refId = purchaseRefId(upgradeId, currentLevel, targetLevel);
 
     console.log(`💰 [PURCHASE] Transaction: Level ${currentLevel} -> ${targetLevel}, LP ${oldLP} -> ${newLP}`);
 
     // Start transaction-like operations with rollback capability
-    let transactionFailed = false;
+    let lpDeducted = false;
+    let levelSaved = false;
     
     try {
-      // Step 1: Deduct LP
-      await supabaseStorage.updateUser(actualUserId, { lp: newLP });
+      // Step 1: Deduct LP for every level in one ledger entry
+      await ledger.applyLpChange({
+        userId: actualUserId,
+        delta: -cost,
+        source: 'upgrade_purchase',
+        refId,
+        currentLp: oldLP
+      });
+      lpDeducted = true;
       console.log(`✅ [PURCHASE] LP deducted successfully`);
 
-      // Step 2: Update upgrade level (NO UPSERT - INSERT or UPDATE pattern)
-      const { data: existingUpgrade } = await supabaseStorage.supabase
-        .from('userUpgrades')
-        .select('*')
-        .eq('userId', actualUserId)
-        .eq('upgradeId', upgradeId)
-        .maybeSingle();
-
-      if (existingUpgrade) {
-        // Update existing record
-        const { error: updateError } = await supabaseStorage.supabase
-          .from('userUpgrades')
-          .update({
-            level: targetLevel,
-            updatedAt: new Date().toISOString()
-          })
-          .eq('userId', actualUserId)
-          .eq('upgradeId', upgradeId);
-
-        if (updateError) {
-          console.error('❌ [PURCHASE] Failed to update upgrade:', updateError);
-          transactionFailed = true;
-          throw new Error('Failed to save upgrade progress');
-        }
-        
-        console.log(`✅ [PURCHASE] Updated upgrade level: ${upgradeId} -> level ${targetLevel}`);
-      } else {
-        // Insert new record
-        const { error: insertError } = await supabaseStorage.supabase
-          .from('userUpgrades')
-          .insert({
-            userId: actualUserId,
-            upgradeId,
-            level: targetLevel,
-            createdAt: new Date().toISOString(),
-            updatedAt: new Date().toISOString()
-          });
-
-        if (insertError) {
-          console.error('❌ [PURCHASE] Failed to insert upgrade:', insertError);
-          transactionFailed = true;
-          throw new Error('Failed to save upgrade progress');
-        }
-        
-        console.log(`✅ [PURCHASE] Created upgrade record: ${upgradeId} -> level ${targetLevel}`);
-      }
+      // Step 2: Update upgrade level (single write, straight to the target level)
+      await upgradeStorage.setUserUpgradeLevel(actualUserId, upgradeId, targetLevel);
+      levelSaved = true;
+      console.log(`✅ [PURCHASE] Saved upgrade level: ${upgradeId} -> level ${targetLevel}`);
 
       // 🔥 CRITICAL FIX: Apply upgrade effects to user stats (THIS WAS MISSING!)
       console.log(`⚡ [PURCHASE] === APPLYING UPGRADE EFFECTS ===`);
@@ -195,16 +292,19 @@ router.post('/:upgradeId/purchase', async (req, res) => {
 
       // Get final user data with updated stats
       const updatedUser = await supabaseStorage.getUser(actualUserId);
+      await gameEvents.emit({ type: 'purchase', userId: actualUserId, user: updatedUser || undefined, upgradeId, levels: quote.levels, cost });
 
       res.json({
         success: true,
         data: {
           upgradeId,
+          previousLevel: currentLevel,
           newLevel: targetLevel,
+          levelsBought: quote.levels,
           costPaid: cost,
           newStats: {
-            lp: updatedUser?.lp || newLP,
-            level: updatedUser?.level || user.level,
+            lp: updatedUser?.lp ?? newLP,
+            level: updatedUser?.level,
             lpPerTap: updatedStats.lpPerTap, // ✅ These should now be updated!
             lpPerHour: updatedStats.lpPerHour,
             maxEnergy: updatedStats.maxEnergy,
@@ -213,17 +313,31 @@ router.post('/:upgradeId/purchase', async (req, res) => {
         }
       });
 
-      console.log(`✅ [PURCHASE] SUCCESS: ${upgradeId} level ${targetLevel}, ${cost} LP spent, stats updated`);
+      console.log(`✅ [PURCHASE] SUCCESS: ${upgradeId} level ${targetLevel} (+${quote.levels}), ${cost} LP spent, stats updated`);
 
     } catch (transactionError: any) {
-      // Rollback LP if anything failed
-      console.error('❌ [PURCHASE] Transaction failed, rolling back LP:', transactionError);
+      // Rollback LP and level if anything failed
+      console.error('❌ [PURCHASE] Transaction failed, rolling back:', transactionError);
+
+      if (levelSaved) {
+        try {
+          await upgradeStorage.setUserUpgradeLevel(actualUserId, upgradeId, currentLevel);
+          console.log(`✅ [PURCHASE] Rollback: ${upgradeId} reset to level ${currentLevel}`);
+        } catch (rollbackError) {
+          console.error('❌ [PURCHASE] Level rollback failed:', rollbackError);
+        }
+      }
       
-      if (!transactionFailed) {
+      if (lpDeducted) {
         // Only rollback if LP was successfully deducted
         try {
-          await supabaseStorage.updateUser(actualUserId, { lp: oldLP });
-          console.log(`✅ [PURCHASE] Rollback successful: LP restored to ${oldLP}`);
+          const refund = await ledger.applyLpChange({
+            userId: actualUserId,
+            delta: cost,
+            source: 'upgrade_refund',
+            refId
+          });
+          console.log(`✅ [PURCHASE] Rollback successful: LP restored to ${refund.balanceAfter}`);
         } catch (rollbackError) {
           console.error('❌ [PURCHASE] Rollback ALSO failed:', rollbackError);
         }
@@ -18,8 +18,17 @@ import {
   createErrorResponse 
 } from '../utils/helpers';
 import { reportToLuna } from '../services/LunaErrorMonitor';
+import { EnergyService } from '../services/EnergyService';
+import { XpService } from '../services/XpService';
+import { LoginStreakService } from '../services/LoginStreakService';
+import { GameEventBus } from '../services/GameEventBus';
+import { ReferralService } from '../services/ReferralService';
 
 const storage = SupabaseStorage.getInstance();
+const energyService = EnergyService.getInstance();
+const xpService = XpService.getInstance();
+const loginStreaks = LoginStreakService.getInstance();
+const gameEvents = GameEventBus.getInstance();
 
 // Global auth cache to avoid repeated database calls
 declare global {
@@ -195,7 +204,8 @@ export function registerUserRoutes(app: Express) {
       // Try to get user from storage
       const user = await storage.getUser(userId);
       if (user) {
-        return res.json(user);
+        // Energy regenerates lazily - report the current value, not the last stored one
+        return res.json(await energyService.withCurrentEnergy(user));
       }
 
       // User not found
@@ -286,6 +296,17 @@ export function registerUserRoutes(app: Express) {
       }
 
       let user = await storage.getUser(realUserId);
+      let xpToNext: number | undefined;
+      if (user) {
+        user = await xpService.ensureMigrated(user);
+        // Loading the player counts as today's login for the streak
+        user = (await loginStreaks.checkIn(user)).user;
+        await gameEvents.emit({ type: 'session_start', userId: user.id, user });
+        user = await energyService.withCurrentEnergy(user);
+        // Cumulative threshold of the next level, so xp / xpToNext is the progress bar
+        const progress = await xpService.getProgress(user);
+        xpToNext = progress.nextLevelXp ?? progress.xp;
+      }
       
       // Ensure response uses telegram format for consistency
       if (user && realUserId.startsWith('telegram_')) {
@@ -309,7 +330,7 @@ export function registerUserRoutes(app: Express) {
         });
       }
 
-      res.json(user);
+      res.json(xpToNext === undefined ? user : { ...user, xpToNext });
     } catch (error) {
       console.error('Error fetching player:', error as Error);
       res.status(500).json(createErrorResponse('Failed to fetch player data'));
@@ -329,9 +350,11 @@ export function registerUserRoutes(app: Express) {
 
       // Filter out invalid fields that don't exist in users table
       // Only allow valid user table columns to prevent PGRST204 errors
+      // Economy fields are server-owned: LP only moves through LedgerService, energy/stats/VIP through
+      // their services, level/xp through the XP track + /api/level/claim, lastTick/lastWheelSpin
+      // through the offline claim and the wheel
       const validUserFields = [
-        'username', 'level', 'lp', 'energy', 'maxEnergy', 'charisma', 
-        'lpPerHour', 'lpPerTap', 'vipStatus', 'nsfwConsent', 'lastTick', 'lastWheelSpin',
+        'username', 'nsfwConsent',
         'displayPicture' // ✅ Allow displayPicture updates
       ];
       
@@ -432,6 +455,7 @@ export function registerUserRoutes(app: Express) {
       
       // Check if user already exists
       let user = await storage.getUser(`telegram_${telegramId}`);
+      let referral: { applied: boolean; reason?: string } | undefined;
       
       if (!user) {
         // Create new user for Telegram auth
@@ -449,6 +473,19 @@ export function registerUserRoutes(app: Express) {
           vipStatus: false,
           nsfwConsent: false
         });
+
+        // Bot deep link /start ref_<code> - only a freshly created account can be attributed
+        // (a failed attribution never blocks the login)
+        if (telegramData.referralCode) {
+          try {
+            const result = await ReferralService.getInstance().attribute(user, String(telegramData.referralCode));
+            referral = { applied: result.success, reason: result.reason };
+            if (!result.success) console.log(`🤝 [REFERRALS] Code ${telegramData.referralCode} not applied for ${telegramId}: ${result.reason}`);
+          } catch (referralError) {
+            console.error(`🤝 [REFERRALS] Attribution error for ${telegramId}:`, referralError);
+            referral = { applied: false, reason: 'Referral could not be applied' };
+          }
+        }
       }
       
       const token = generateJWT(`telegram_${telegramId}`);
@@ -473,7 +510,8 @@ export function registerUserRoutes(app: Express) {
           name: user.username
         },
         token,
-        authenticated: true
+        authenticated: true,
+        referral
       }));
       
     } catch (error) {
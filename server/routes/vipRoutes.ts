@@ -8,67 +8,11 @@
 import type { Express, Request, Response } from "express";
 import { SupabaseStorage } from '../../shared/SupabaseStorage';
 import { createSuccessResponse, createErrorResponse } from '../utils/helpers';
+import { RewardService } from '../services/RewardService';
+import { vipTiers } from '../../shared/vipTiers';
 
 const storage = SupabaseStorage.getInstance();
-
-// VIP tier configuration
-const vipTiers = {
-  basic: {
-    id: 'basic',
-    name: 'VIP Basic',
-    price: 9.99,
-    duration: 30, // days
-    benefits: [
-      '2x LP per tap',
-      'Access to 10 exclusive characters',
-      'Priority chat responses',
-      'Daily bonus: 1000 LP',
-      'Exclusive VIP media content'
-    ],
-    lpMultiplier: 2,
-    exclusiveCharacters: 10,
-    dailyBonus: 1000
-  },
-  premium: {
-    id: 'premium',
-    name: 'VIP Premium',
-    price: 19.99,
-    duration: 30,
-    benefits: [
-      '3x LP per tap',
-      'Access to ALL exclusive characters',
-      'Instant AI responses',
-      'Daily bonus: 2500 LP',
-      'All NSFW content unlocked',
-      'Custom character creation',
-      'Priority support'
-    ],
-    lpMultiplier: 3,
-    exclusiveCharacters: -1, // -1 means all
-    dailyBonus: 2500,
-    nsfwUnlocked: true
-  },
-  lifetime: {
-    id: 'lifetime',
-    name: 'VIP Lifetime',
-    price: 99.99,
-    duration: -1, // -1 means permanent
-    benefits: [
-      '5x LP per tap',
-      'Unlimited access to all content',
-      'Custom AI personality training',
-      'Daily bonus: 5000 LP',
-      'Beta features access',
-      'Direct developer contact',
-      'Lifetime updates'
-    ],
-    lpMultiplier: 5,
-    exclusiveCharacters: -1,
-    dailyBonus: 5000,
-    nsfwUnlocked: true,
-    betaAccess: true
-  }
-};
+const rewardService = RewardService.getInstance();
 
 export function registerVipRoutes(app: Express) {
 
@@ -329,9 +273,11 @@ export function registerVipRoutes(app: Express) {
       }
 
       // Award bonus LP
-      const updatedUser = await storage.updateUser(userId, {
-        lp: (user.lp || 0) + tier.dailyBonus,
-        lastVipBonusClaim: now.toISOString()
+      const { user: updatedUser } = await rewardService.grant(userId, [{ type: 'lp', amount: tier.dailyBonus }], {
+        source: 'vip_daily_bonus',
+        refId: tier.id,
+        user,
+        updates: { lastVipBonusClaim: now.toISOString() }
       });
 
       res.json(createSuccessResponse({
@@ -3,17 +3,30 @@ import { createSuccessResponse, createErrorResponse } from '../utils/helpers';
 import { SupabaseStorage } from '../../shared/SupabaseStorage';
 import { WheelStorage, WheelPrize } from '../../shared/WheelStorage';
 import { FileStorage } from '../../shared/FileStorage';
+import { RewardService } from '../services/RewardService';
+import { StatService } from '../services/StatService';
+import { GameEventBus } from '../services/GameEventBus';
+import { getEventContext } from '../middleware/eventPreview';
+import type { EventContext } from '../../shared/EventStorage';
 
 const wheel = WheelStorage.getInstance();
 const storage = SupabaseStorage.getInstance();
 const files = FileStorage.getInstance();
+const rewards = RewardService.getInstance();
+const stats = StatService.getInstance();
+const gameEvents = GameEventBus.getInstance();
 
-function isEligible(prize: WheelPrize, user: any): boolean {
+// Prizes listed by an event, or unlocking an event's media tag, only spin while that event is live
+function isEventEnabled(prize: WheelPrize, events: EventContext): boolean {
+  if (!events.allows('wheelPrizes', prize.id)) return false;
+  return !prize.eventTag || events.allowsTags([prize.eventTag]);
+}
+
+function isEligible(prize: WheelPrize, user: any, events: EventContext): boolean {
   if (prize.vipOnly && !user.vipStatus) return false;
   if (prize.nsfw && !user.nsfwConsent) return false;
   if (prize.minLevel && (user.level || 1) < prize.minLevel) return false;
-  // event gating could check files.getSettings() or active tags; for now pass-through
-  return true;
+  return isEventEnabled(prize, events);
 }
 
 function weightedPick(items: { prize: WheelPrize; weight: number }[]): WheelPrize | null {
@@ -24,39 +37,12 @@ function weightedPick(items: { prize: WheelPrize; weight: number }[]): WheelPriz
   return items[items.length - 1].prize;
 }
 
-async function applyReward(user: any, prize: WheelPrize) {
-  const updates: any = {};
-  switch (prize.type) {
-    case 'lp':
-      updates.lp = (user.lp || 0) + (prize.amount || 0);
-      break;
-    case 'energy':
-      updates.energy = Math.min(user.maxEnergy || 1000, (user.energy || 0) + (prize.amount || 0));
-      break;
-    case 'charisma':
-      updates.charisma = (user.charisma || 0) + (prize.amount || 0);
-      break;
-    case 'mediaTagUnlock':
-      // no DB write required for JSON unlock; boost via triggers elsewhere
-      break;
-    case 'booster':
-      // placeholder: could insert into boosters with duration = amount minutes
-      break;
-    case 'upgradeId':
-      // optional: grant a free level or discount marker in userUpgrades
-      break;
-  }
-  if (Object.keys(updates).length) {
-    await storage.supabase.from('users').update(updates).eq('id', user.id);
-  }
-}
-
 export function registerWheelRoutes(app: Express) {
   // List prizes (JSON-first)
-  app.get('/api/wheel/prizes', async (_req: Request, res: Response) => {
+  app.get('/api/wheel/prizes', async (req: Request, res: Response) => {
     try {
-      const prizes = await wheel.getPrizes();
-      res.json(prizes);
+      const [prizes, events] = await Promise.all([wheel.getPrizes(), getEventContext(req)]);
+      res.json(prizes.filter(p => isEventEnabled(p, events)));
     } catch (e: any) {
       res.status(500).json(createErrorResponse(e.message || 'Failed to load prizes'));
     }
@@ -71,9 +57,10 @@ export function registerWheelRoutes(app: Express) {
       const user = await storage.getUser(userId);
       if (!user) return res.status(404).json(createErrorResponse('User not found'));
 
-      // Enforce cooldown from settings
+      // Enforce cooldown from settings, shortened by the wheelCooldownReduction stat
       const settings = await files.getGameSettings();
-      const hours = settings.wheelSpinCooldown ?? 24;
+      const { final } = await stats.getStats(user);
+      const hours = (settings.wheelSpinCooldown ?? 24) * (1 - final.wheelCooldownReduction);
       const last = user.lastWheelSpin ? new Date(user.lastWheelSpin).getTime() : 0;
       const now = Date.now();
       if (last && now - last < hours * 3600 * 1000) {
@@ -81,12 +68,13 @@ export function registerWheelRoutes(app: Express) {
         return res.status(429).json(createErrorResponse(`Cooldown: ${Math.ceil(remainMs/60000)} min left`));
       }
 
-      const prizes = (await wheel.getPrizes()).filter(p => isEligible(p, user));
+      const events = await getEventContext(req);
+      const prizes = (await wheel.getPrizes()).filter(p => isEligible(p, user, events));
       if (prizes.length === 0) return res.status(404).json(createErrorResponse('No eligible prizes'));
       const picked = weightedPick(prizes.map(p => ({ prize: p, weight: p.weight })));
       if (!picked) return res.status(500).json(createErrorResponse('Spin failed'));
 
-      await applyReward(user, picked);
+      const { granted } = await rewards.grant(userId, [picked], { source: 'wheel', refId: picked.id, user });
 
       // Log reward and update cooldown
       await storage.supabase.from('wheelRewards').insert({
@@ -95,8 +83,9 @@ export function registerWheelRoutes(app: Express) {
         amount: picked.amount || 0,
       });
       await storage.supabase.from('users').update({ lastWheelSpin: new Date().toISOString() }).eq('id', userId);
+      await gameEvents.emit({ type: 'spin', userId, user, prizeId: picked.id });
 
-      res.json(createSuccessResponse({ result: picked }));
+      res.json(createSuccessResponse({ result: picked, granted: granted[0] }));
     } catch (e: any) {
       res.status(500).json(createErrorResponse(e.message || 'Spin failed'));
     }
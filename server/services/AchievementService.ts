@@ -0,0 +1,293 @@
+import { SupabaseStorage } from "../../shared/SupabaseStorage";
+import { FileStorage } from "../../shared/FileStorage";
+import type { AchievementDefinition, RewardDefinition, User, UserAchievement } from "../../shared/schema";
+import { RewardService, type GrantedReward, type RewardGrantResult } from "./RewardService";
+import { XpService } from "./XpService";
+import { GameEventBus, type PlayerEvent } from "./GameEventBus";
+
+export type AchievementRequirementType =
+  | 'tapCount' | 'lpEarned' | 'critTaps'
+  | 'upgradesPurchased' | 'lpSpent'
+  | 'wheelSpins'
+  | 'chatMessages'
+  | 'playerLevel'
+  | 'mediaReceived';
+
+export interface AchievementTier {
+  level: number;
+  target: number;
+  name?: string;
+  rewards: RewardDefinition[];
+}
+
+export interface AchievementView extends AchievementDefinition {
+  requirementType: AchievementRequirementType;
+  tiers: AchievementTier[];
+  maxLevel: number;
+  progress: number;
+  currentLevel: number; // Tiers reached
+  lastClaimedLevel: number;
+  nextTarget: number | null; // Target of the next tier to reach (null when all are reached)
+  progressPercent: number; // Towards nextTarget
+  completed: boolean; // Every tier reached
+  claimed: boolean; // Every tier claimed
+  claimableLevels: number[];
+  canClaim: boolean;
+  unlockedAt: string | null;
+}
+
+export interface AchievementClaimResult {
+  success: boolean;
+  reason?: string;
+  achievement?: AchievementView;
+  level?: number; // Tier claimed
+  granted?: GrantedReward[];
+  totals?: { lp: number; energy: number; charisma: number };
+  newStats?: { lp: number; energy: number; charisma: number };
+  xpGained?: number;
+}
+
+// Older JSON used other names for the same counters
+const REQUIREMENT_ALIASES: Record<string, AchievementRequirementType> = {
+  totalTaps: 'tapCount',
+  total_taps: 'tapCount',
+  tap_count: 'tapCount',
+  lp_earned: 'lpEarned',
+  level: 'playerLevel',
+  chat_messages: 'chatMessages'
+};
+
+// Requirement types whose progress is the latest value rather than a running total
+const ABSOLUTE_TYPES: AchievementRequirementType[] = ['playerLevel'];
+
+// Requirement types that can be limited to one character (definition.characterId)
+const CHARACTER_TYPES: AchievementRequirementType[] = ['chatMessages', 'mediaReceived'];
+
+/**
+ * Achievement tracker. Subscribes to player events (GameEventBus) and turns them into progress on
+ * every enabled achievement in game-data/achievements whose requirementType the event feeds:
+ *
+ *   tap            → tapCount, lpEarned, critTaps
+ *   purchase       → upgradesPurchased (levels bought), lpSpent
+ *   spin           → wheelSpins
+ *   chat_message   → chatMessages
+ *   level_up       → playerLevel (the new level, not a sum)
+ *   media_received → mediaReceived
+ *
+ * Achievements are tiered: `levels` in the JSON, or a single tier from target/rewardType/amount.
+ * currentLevel counts the tiers reached and each one is claimed separately, in order, through
+ * lastClaimedLevel. Hidden achievements stay out of the list until their first tier is reached.
+ */
+export class AchievementService {
+  private static instance: AchievementService;
+  private storage = SupabaseStorage.getInstance();
+  private files = FileStorage.getInstance();
+  private rewards = RewardService.getInstance();
+  private xp = XpService.getInstance();
+  private unsubscribe: (() => void) | null = null;
+
+  static getInstance() {
+    if (!AchievementService.instance) AchievementService.instance = new AchievementService();
+    return AchievementService.instance;
+  }
+
+  // Starts listening to player events (once)
+  subscribe() {
+    if (this.unsubscribe) return;
+    this.unsubscribe = GameEventBus.getInstance().subscribe('achievements', event => this.track(event));
+  }
+
+  async getDefinitions(): Promise<(AchievementDefinition & { requirementType: AchievementRequirementType; tiers: AchievementTier[] })[]> {
+    const raw = (await this.files.getAllAchievements()) as unknown as AchievementDefinition[];
+    return raw
+      .filter(a => a && a.id && a.enabled !== false && (a as any).isEnabled !== false)
+      .map(a => ({
+        ...a,
+        requirementType: REQUIREMENT_ALIASES[a.requirementType] || a.requirementType as AchievementRequirementType,
+        hidden: a.hidden ?? (a as any).isHidden ?? false,
+        tiers: this.getTiers(a)
+      }))
+      .filter(a => a.tiers.length > 0)
+      .sort((a, b) => a.category.localeCompare(b.category) || (a.sortOrder ?? 0) - (b.sortOrder ?? 0));
+  }
+
+  // Visible achievements with the player's progress; hidden ones appear once unlocked
+  async getAchievements(user: User | null): Promise<AchievementView[]> {
+    const definitions = await this.getDefinitions();
+    const rows = user ? await this.getRows(user.id) : new Map<string, UserAchievement>();
+    return definitions
+      .map(def => this.toView(def, rows.get(def.id), !!user))
+      .filter(view => !view.hidden || view.currentLevel > 0);
+  }
+
+  async track(event: PlayerEvent): Promise<void> {
+    const amounts = this.amountsFor(event);
+    const characterId = 'characterId' in event ? event.characterId : undefined;
+
+    const definitions = (await this.getDefinitions()).filter(def => {
+      const amount = amounts[def.requirementType];
+      if (!amount || amount <= 0) return false;
+      return !def.characterId || !CHARACTER_TYPES.includes(def.requirementType) || def.characterId === characterId;
+    });
+    if (definitions.length === 0) return;
+
+    const user = event.user || await this.storage.getUser(event.userId);
+    if (!user) return;
+
+    // Progress moves in SQL (record_achievement_progress) so concurrent events add up; claims own lastClaimedLevel
+    const now = new Date().toISOString();
+    const results = await Promise.all(definitions.map(def => this.storage.supabase.rpc('record_achievement_progress', {
+      p_user_id: user.id,
+      p_achievement_id: def.id,
+      p_amount: Math.floor(amounts[def.requirementType]!),
+      p_absolute: ABSOLUTE_TYPES.includes(def.requirementType),
+      p_targets: def.tiers.map(t => t.target),
+      p_at: now
+    })));
+
+    definitions.forEach((def, i) => {
+      const { data, error } = results[i];
+      if (error) throw error;
+      const levels = ((data || []) as { fromLevel: number; toLevel: number }[])[0];
+      if (levels && levels.toLevel > levels.fromLevel) console.log(`🏆 [ACHIEVEMENTS] ${user.id} reached ${def.id} tier ${levels.toLevel}`);
+    });
+  }
+
+  /**
+   * Claims the next unclaimed tier. lastClaimedLevel only moves forward from the value read, so two
+   * concurrent claims can't both grant the same tier; a failed grant puts it back.
+   */
+  async claim(userId: string, achievementId: string): Promise<AchievementClaimResult> {
+    const user = await this.storage.getUser(userId);
+    if (!user) return { success: false, reason: 'User not found' };
+
+    const def = (await this.getDefinitions()).find(a => a.id === achievementId);
+    if (!def) return { success: false, reason: 'Achievement not found' };
+
+    const row = (await this.getRows(user.id)).get(def.id);
+    const view = this.toView(def, row, true);
+    if (def.hidden && view.currentLevel === 0) return { success: false, reason: 'Achievement not found' };
+    if (view.claimed) return { success: false, reason: 'Achievement already claimed', achievement: view };
+    if (!view.canClaim) return { success: false, reason: 'Achievement not completed yet', achievement: view };
+
+    const level = view.lastClaimedLevel + 1;
+    const tier = def.tiers[level - 1];
+    const { data: marked, error: markError } = await this.storage.supabase
+      .from('userAchievements')
+      .update({ lastClaimedLevel: level, updatedAt: new Date().toISOString() })
+      .eq('id', row!.id)
+      .eq('lastClaimedLevel', view.lastClaimedLevel)
+      .select('id');
+    if (markError) throw markError;
+    if (!marked || marked.length === 0) return { success: false, reason: 'Achievement tier already claimed', achievement: view };
+
+    let grant: RewardGrantResult;
+    let xpGained: number;
+    try {
+      const xp = await this.xp.award(user, 'achievement_claim');
+      grant = await this.rewards.grant(user.id, tier.rewards, {
+        source: 'achievement_claim',
+        refId: `${def.id}:${level}`,
+        user,
+        characterId: def.characterId,
+        updates: xp.updates
+      });
+      xpGained = xp.gain;
+    } catch (error) {
+      await this.storage.supabase
+        .from('userAchievements')
+        .update({ lastClaimedLevel: view.lastClaimedLevel })
+        .eq('id', row!.id)
+        .eq('lastClaimedLevel', level);
+      throw error;
+    }
+
+    return {
+      success: true,
+      achievement: this.toView(def, { ...row!, lastClaimedLevel: level }, true),
+      level,
+      granted: grant.granted,
+      totals: grant.totals,
+      newStats: grant.newStats,
+      xpGained
+    };
+  }
+
+  private amountsFor(event: PlayerEvent): Partial<Record<AchievementRequirementType, number>> {
+    switch (event.type) {
+      case 'tap': return { tapCount: event.taps, lpEarned: event.lp, critTaps: event.critTaps };
+      case 'purchase': return { upgradesPurchased: event.levels, lpSpent: event.cost };
+      case 'spin': return { wheelSpins: 1 };
+      case 'chat_message': return { chatMessages: 1 };
+      case 'level_up': return { playerLevel: event.level };
+      case 'media_received': return { mediaReceived: 1 };
+      default: return {};
+    }
+  }
+
+  // Tiers in ascending target order; a JSON entry without `levels` is a single tier
+  private getTiers(def: AchievementDefinition): AchievementTier[] {
+    if (def.levels && def.levels.length > 0) {
+      return def.levels
+        .map((lvl, i) => ({
+          level: lvl.level ?? i + 1,
+          target: Number(lvl.target ?? (lvl as any).targetValue) || 0,
+          name: lvl.name,
+          rewards: lvl.rewards ?? (lvl.reward ? [lvl.reward] : [])
+        }))
+        .filter(t => t.target > 0)
+        .sort((a, b) => a.target - b.target)
+        .map((t, i) => ({ ...t, level: i + 1 }));
+    }
+
+    const target = Number(def.target ?? (def as any).baseRequirement?.baseTarget) || 0;
+    if (target <= 0) return [];
+    const rewards = def.reward ? [def.reward]
+      : def.rewardType ? [{ type: def.rewardType, amount: def.amount || 0 } as RewardDefinition]
+      : [];
+    return [{ level: 1, target, rewards }];
+  }
+
+  private levelFor(tiers: AchievementTier[], progress: number): number {
+    return tiers.filter(t => progress >= t.target).length;
+  }
+
+  private async getRows(userId: string): Promise<Map<string, UserAchievement>> {
+    const { data, error } = await this.storage.supabase
+      .from('userAchievements')
+      .select('*')
+      .eq('userId', userId);
+    if (error) throw error;
+    return new Map(((data || []) as UserAchievement[]).map(row => [row.achievementId, row]));
+  }
+
+  private toView(
+    def: AchievementDefinition & { requirementType: AchievementRequirementType; tiers: AchievementTier[] },
+    row: UserAchievement | undefined,
+    forUser: boolean
+  ): AchievementView {
+    const progress = row?.progress || 0;
+    const currentLevel = this.levelFor(def.tiers, progress);
+    const lastClaimedLevel = Math.min(row?.lastClaimedLevel || 0, def.tiers.length);
+    const next = def.tiers[currentLevel];
+    const previousTarget = currentLevel > 0 ? def.tiers[currentLevel - 1].target : 0;
+    const claimableLevels = def.tiers.filter(t => t.level > lastClaimedLevel && t.level <= currentLevel).map(t => t.level);
+
+    return {
+      ...def,
+      maxLevel: def.tiers.length,
+      progress,
+      currentLevel,
+      lastClaimedLevel,
+      nextTarget: next ? next.target : null,
+      progressPercent: next
+        ? Math.min(100, Math.round(((progress - previousTarget) / Math.max(1, next.target - previousTarget)) * 100))
+        : 100,
+      completed: currentLevel >= def.tiers.length,
+      claimed: lastClaimedLevel >= def.tiers.length,
+      claimableLevels,
+      canClaim: forUser && claimableLevels.length > 0,
+      unlockedAt: row?.unlockedAt ? new Date(row.unlockedAt).toISOString() : null
+    };
+  }
+}
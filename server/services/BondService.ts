@@ -0,0 +1,493 @@
+import { SupabaseStorage } from "../../shared/SupabaseStorage";
+import { FileStorage } from "../../shared/FileStorage";
+import type { BondLevel, BondPerk, BondTrack, Character, CharacterAffectionDaily, GameSettings, RewardDefinition, User, UserCharacter } from "../../shared/schema";
+import { getActiveVipTier } from "../../shared/vipTiers";
+import { RewardService, type GrantedReward } from "./RewardService";
+import { LoginStreakService } from "./LoginStreakService";
+import { GameEventBus, type PlayerEvent } from "./GameEventBus";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const UPDATE_ATTEMPTS = 3;
+
+export type AffectionSource = 'chat' | 'tap' | 'gift';
+
+export interface BondLevelView {
+  level: number;
+  name: string;
+  affection: number;
+  rewards: RewardDefinition[];
+  unlocks: { mediaTags: string[]; outfits: string[]; dialogue: string[]; perks: BondPerk[] };
+}
+
+export interface BondView {
+  character: { id: string; name: string; imageUrl: string | null };
+  affection: number;
+  level: number;
+  levelName: string;
+  currentLevelAffection: number; // Threshold of the current level
+  nextLevel: BondLevelView | null; // null at the last level
+  unlocked: BondLevelView['unlocks']; // Everything from levels reached so far
+  today: Record<AffectionSource, { gained: number; cap: number }>;
+  giftItems: { itemId: string; affection: number; owned: number }[];
+  selected: boolean;
+}
+
+export interface BondsView {
+  bonds: BondView[];
+  levels: BondLevelView[]; // Default track
+  nextResetAt: string;
+}
+
+export interface BondLevelUp {
+  characterId: string;
+  previousLevel: number;
+  level: number;
+  granted: GrantedReward[];
+}
+
+export interface AffectionResult {
+  success: boolean;
+  reason?: string;
+  gained?: number;
+  affection?: number;
+  levelUp?: BondLevelUp | null;
+}
+
+/**
+ * Character affection and bond levels (userCharacters.affection / bondLevel).
+ *
+ * Affection comes from chatting with a character, tapping while it is the selected character and
+ * giving it inventory items. Each source has a daily cap per character (reset with
+ * GameSettings.dailyBonusHour like login streaks), tracked in characterAffectionDaily; tap affection
+ * is derived from the day's tap count so partial points carry over between batches.
+ *
+ * Levels, thresholds and unlocks come from game-data/bonds/*.json - a track with a characterId
+ * replaces the default one for that character. Reaching a level grants its rewards and media tags
+ * through RewardService once: bondLevel is raised first and put back if the grant fails. Outfits and
+ * dialogue are read from the track at the current level; perks change affection gains only.
+ *
+ * A character counts as unlocked when the player has a userCharacters row for it, or it is enabled
+ * and their level (and VIP status, for VIP characters) allows it. The row is created on first affection.
+ */
+export class BondService {
+  private static instance: BondService;
+  private storage = SupabaseStorage.getInstance();
+  private files = FileStorage.getInstance();
+  private rewards = RewardService.getInstance();
+  private streaks = LoginStreakService.getInstance();
+  private unsubscribe: (() => void) | null = null;
+
+  static getInstance() {
+    if (!BondService.instance) BondService.instance = new BondService();
+    return BondService.instance;
+  }
+
+  // Starts turning chat messages and taps into affection (once)
+  subscribe() {
+    if (this.unsubscribe) return;
+    this.unsubscribe = GameEventBus.getInstance().subscribe('bonds', event => this.track(event), ['chat_message', 'tap']);
+  }
+
+  async track(event: PlayerEvent, now = Date.now()): Promise<void> {
+    const user = event.user || await this.storage.getUser(event.userId);
+    if (!user) return;
+
+    if (event.type === 'chat_message' && event.characterId) {
+      await this.addAffection(event.userId, user, event.characterId, 'chat', {}, now);
+    } else if (event.type === 'tap' && event.taps > 0 && user.selectedCharacterId) {
+      await this.addAffection(event.userId, user, user.selectedCharacterId, 'tap', { taps: event.taps }, now);
+    }
+  }
+
+  /**
+   * Gives the character one inventory item. The item is taken first and handed back if the character
+   * can't take more gift affection today or the affection can't be saved.
+   */
+  async giveGift(userId: string, user: User, characterId: string, itemId: string, now = Date.now()): Promise<AffectionResult> {
+    const tracks = await this.files.getAllBondTracks();
+    const track = this.trackFor(tracks, characterId);
+    if (!track) return { success: false, reason: 'Bonds are not configured' };
+    const item = (track.giftItems || []).find(i => i.itemId === itemId);
+    if (!item) return { success: false, reason: 'This item cannot be given as a gift' };
+
+    const { data: owned, error } = await this.storage.supabase
+      .from('userItems')
+      .select('id, quantity')
+      .eq('userId', user.id)
+      .eq('itemId', itemId)
+      .maybeSingle();
+    if (error) throw error;
+    if (!owned || owned.quantity < 1) return { success: false, reason: 'Item not found in inventory' };
+
+    const { data: taken, error: takeError } = await this.storage.supabase
+      .from('userItems')
+      .update({ quantity: owned.quantity - 1, updatedAt: new Date(now).toISOString() })
+      .eq('id', owned.id)
+      .eq('quantity', owned.quantity)
+      .select('id')
+      .maybeSingle();
+    if (takeError) throw takeError;
+    if (!taken) return { success: false, reason: 'Item not found in inventory' };
+
+    const restore = () => this.returnItem(owned.id, owned.quantity - 1);
+    try {
+      const result = await this.addAffection(userId, user, characterId, 'gift', { points: item.affection }, now);
+      if (!result.success || !result.gained) await restore();
+      return result.success && !result.gained
+        ? { ...result, success: false, reason: 'Daily gift affection limit reached' }
+        : result;
+    } catch (err) {
+      await restore();
+      throw err;
+    }
+  }
+
+  /**
+   * Adds capped affection from one source and raises the bond level when a threshold is crossed.
+   * Chat uses the track's chatMessage points (`points` is ignored), taps count toward tapsPerPoint.
+   */
+  async addAffection(
+    userId: string,
+    user: User,
+    characterId: string,
+    source: AffectionSource,
+    input: { points?: number; taps?: number } = {},
+    now = Date.now()
+  ): Promise<AffectionResult> {
+    const [tracks, settings, rows] = await Promise.all([
+      this.files.getAllBondTracks(),
+      this.files.getGameSettings(),
+      this.getBondRows(user.id)
+    ]);
+    const track = this.trackFor(tracks, characterId);
+    if (!track) return { success: false, reason: 'Bonds are not configured' };
+
+    // Character files are only read for the first affection with a character
+    let row = rows.find(r => r.characterId === characterId);
+    if (!row) {
+      const character = await this.storage.getCharacter(characterId);
+      if (!character) return { success: false, reason: 'Character not found' };
+      if (!this.isUnlocked(user, character)) return { success: false, reason: 'Character is locked' };
+      row = await this.createBondRow(user.id, characterId);
+    }
+
+    const { multiplier, capBonus } = this.perkEffects(track, row.bondLevel);
+    const cap = Math.max(0, Math.floor(track.affection.dailyCaps[source] || 0) + capBonus);
+    const day = this.dayKey(now, settings);
+    const daily = await this.getDaily(user.id, characterId, day);
+
+    const before = daily[source] || 0;
+    let taps = daily.taps || 0;
+    let target: number;
+    if (source === 'tap') {
+      taps += Math.max(0, Math.floor(input.taps || 0));
+      const perPoint = Math.max(1, track.affection.tapsPerPoint || 1);
+      target = Math.floor((taps / perPoint) * multiplier);
+    } else {
+      const points = source === 'chat' ? track.affection.chatMessage : input.points || 0;
+      target = before + Math.round(Math.max(0, points) * multiplier);
+    }
+    const gained = Math.max(0, Math.min(cap, target) - before);
+    if (gained === 0 && taps === daily.taps) return { success: true, gained: 0, affection: row.affection, levelUp: null };
+
+    // Only count the gain if nobody else moved this source's counter since it was read
+    const { data: counted, error } = await this.storage.supabase
+      .from('characterAffectionDaily')
+      .update({ [source]: before + gained, taps, updatedAt: new Date(now).toISOString() })
+      .eq('id', daily.id)
+      .eq(source, before)
+      .select('id')
+      .maybeSingle();
+    if (error) throw error;
+    if (!counted || gained === 0) return { success: true, gained: 0, affection: row.affection, levelUp: null };
+
+    let saved: UserCharacter;
+    try {
+      saved = await this.incrementAffection(row, gained);
+    } catch (err) {
+      await this.storage.supabase.from('characterAffectionDaily').update({ [source]: before, taps: daily.taps }).eq('id', daily.id);
+      throw err;
+    }
+
+    const levelUp = await this.applyLevel(userId, user, saved, track);
+    return { success: true, gained, affection: saved.affection, levelUp };
+  }
+
+  async getBonds(user: User, now = Date.now()): Promise<BondsView> {
+    const [tracks, settings, characters, rows] = await Promise.all([
+      this.files.getAllBondTracks(),
+      this.files.getGameSettings(),
+      this.storage.getAllCharacters(),
+      this.getBondRows(user.id)
+    ]);
+    const byCharacter = new Map(rows.map(r => [r.characterId, r]));
+    const day = this.dayKey(now, settings);
+
+    const { data: dailyData, error } = await this.storage.supabase
+      .from('characterAffectionDaily')
+      .select('*')
+      .eq('userId', user.id)
+      .eq('day', day);
+    if (error) throw error;
+    const daily = new Map(((dailyData || []) as CharacterAffectionDaily[]).map(d => [d.characterId, d]));
+
+    const giftItemIds = Array.from(new Set(tracks.flatMap(t => (t.giftItems || []).map(i => i.itemId))));
+    const inventory = await this.getItemCounts(user.id, giftItemIds);
+
+    const bonds = characters
+      .filter(c => byCharacter.has(c.id) || this.isUnlocked(user, c))
+      .map(character => {
+        const track = this.trackFor(tracks, character.id);
+        if (!track) return null;
+        const row = byCharacter.get(character.id);
+        const affection = row?.affection || 0;
+        const level = Math.max(1, row?.bondLevel || 1);
+        const levels = this.sortedLevels(track);
+        const current = levels.filter(l => l.level <= level).pop();
+        const next = levels.find(l => l.level > level);
+        const { capBonus } = this.perkEffects(track, level);
+        const today = daily.get(character.id);
+        const cap = (source: AffectionSource) => Math.max(0, Math.floor(track.affection.dailyCaps[source] || 0) + capBonus);
+
+        return {
+          character: { id: character.id, name: character.name, imageUrl: character.avatarUrl || character.imageUrl || null },
+          affection,
+          level,
+          levelName: current?.name || `Level ${level}`,
+          currentLevelAffection: current?.affection || 0,
+          nextLevel: next ? this.levelView(next) : null,
+          unlocked: this.unlocksUpTo(track, level),
+          today: {
+            chat: { gained: today?.chat || 0, cap: cap('chat') },
+            tap: { gained: today?.tap || 0, cap: cap('tap') },
+            gift: { gained: today?.gift || 0, cap: cap('gift') }
+          },
+          giftItems: (track.giftItems || []).map(i => ({ ...i, owned: inventory.get(i.itemId) || 0 })),
+          selected: user.selectedCharacterId === character.id
+        };
+      })
+      .filter((b): b is BondView => !!b)
+      .sort((a, b) => Number(b.selected) - Number(a.selected) || b.level - a.level || b.affection - a.affection);
+
+    const defaultTrack = this.trackFor(tracks, null);
+    return {
+      bonds,
+      levels: defaultTrack ? this.sortedLevels(defaultTrack).map(l => this.levelView(l)) : [],
+      nextResetAt: new Date(this.nextReset(now, settings)).toISOString()
+    };
+  }
+
+  // The character's own track, or the default one
+  trackFor(tracks: BondTrack[], characterId: string | null): BondTrack | undefined {
+    return (characterId ? tracks.find(t => t.characterId === characterId) : undefined)
+      || tracks.find(t => !t.characterId);
+  }
+
+  levelFor(track: BondTrack, affection: number): BondLevel | undefined {
+    return this.sortedLevels(track).filter(l => affection >= (l.affection || 0)).pop();
+  }
+
+  private isUnlocked(user: User, character: Character): boolean {
+    if (character.isEnabled === false) return false;
+    if ((character.levelRequirement || 1) > (user.level || 1)) return false;
+    return !character.isVip || !!getActiveVipTier(user);
+  }
+
+  /**
+   * Raises bondLevel to the level the affection reaches and grants every level passed on the way.
+   * The conditional update makes sure only one caller pays out a level.
+   */
+  private async applyLevel(userId: string, user: User, row: UserCharacter, track: BondTrack): Promise<BondLevelUp | null> {
+    const reached = this.levelFor(track, row.affection);
+    const previousLevel = row.bondLevel || 1;
+    if (!reached || reached.level <= previousLevel) return null;
+
+    const { data: raised, error } = await this.storage.supabase
+      .from('userCharacters')
+      .update({ bondLevel: reached.level })
+      .eq('id', row.id)
+      .eq('bondLevel', previousLevel)
+      .select('id')
+      .maybeSingle();
+    if (error) throw error;
+    if (!raised) return null;
+
+    const passed = this.sortedLevels(track).filter(l => l.level > previousLevel && l.level <= reached.level);
+    const rewards: RewardDefinition[] = passed.flatMap(l => [
+      ...(l.rewards || []),
+      ...(l.unlocks?.mediaTags || []).map(tag => ({ type: 'mediaTagUnlock' as const, tag }))
+    ]);
+
+    try {
+      const { granted } = rewards.length > 0
+        ? await this.rewards.grant(userId, rewards, { source: 'bond_level', refId: `${row.characterId}:${reached.level}`, user })
+        : { granted: [] as GrantedReward[] };
+      console.log(`💞 [BONDS] ${user.id} reached bond level ${reached.level} with ${row.characterId}`);
+      return { characterId: row.characterId, previousLevel, level: reached.level, granted };
+    } catch (err) {
+      await this.storage.supabase.from('userCharacters').update({ bondLevel: previousLevel }).eq('id', row.id);
+      throw err;
+    }
+  }
+
+  // Adds to the current value, re-reading if another gain landed in between
+  private async incrementAffection(row: UserCharacter, amount: number): Promise<UserCharacter> {
+    let current = row;
+    for (let attempt = 0; attempt < UPDATE_ATTEMPTS; attempt++) {
+      const { data, error } = await this.storage.supabase
+        .from('userCharacters')
+        .update({ affection: (current.affection || 0) + amount })
+        .eq('id', current.id)
+        .eq('affection', current.affection || 0)
+        .select()
+        .maybeSingle();
+      if (error) throw error;
+      if (data) return data as UserCharacter;
+
+      const { data: fresh, error: readError } = await this.storage.supabase
+        .from('userCharacters')
+        .select('*')
+        .eq('id', current.id)
+        .single();
+      if (readError) throw readError;
+      current = fresh as UserCharacter;
+    }
+    throw new Error(`Could not save affection for ${row.userId}/${row.characterId}`);
+  }
+
+  // Hands one item back on top of whatever the inventory holds now, re-reading if it moved in between
+  private async returnItem(id: string, quantity: number): Promise<void> {
+    let current = quantity;
+    for (let attempt = 0; attempt < UPDATE_ATTEMPTS; attempt++) {
+      const { data, error } = await this.storage.supabase
+        .from('userItems')
+        .update({ quantity: current + 1, updatedAt: new Date().toISOString() })
+        .eq('id', id)
+        .eq('quantity', current)
+        .select('id')
+        .maybeSingle();
+      if (error) throw error;
+      if (data) return;
+
+      const { data: fresh, error: readError } = await this.storage.supabase
+        .from('userItems')
+        .select('quantity')
+        .eq('id', id)
+        .single();
+      if (readError) throw readError;
+      current = fresh.quantity;
+    }
+    throw new Error(`Could not return item ${id} to the inventory`);
+  }
+
+  private perkEffects(track: BondTrack, level: number): { multiplier: number; capBonus: number } {
+    return this.unlocksUpTo(track, level).perks.reduce(
+      (acc, perk) => perk.type === 'affectionMultiplier'
+        ? { ...acc, multiplier: acc.multiplier * (perk.value || 1) }
+        : perk.type === 'dailyCapBonus'
+          ? { ...acc, capBonus: acc.capBonus + Math.floor(perk.value || 0) }
+          : acc,
+      { multiplier: 1, capBonus: 0 }
+    );
+  }
+
+  private unlocksUpTo(track: BondTrack, level: number): BondLevelView['unlocks'] {
+    const reached = this.sortedLevels(track).filter(l => l.level <= level);
+    return {
+      mediaTags: reached.flatMap(l => l.unlocks?.mediaTags || []),
+      outfits: reached.flatMap(l => l.unlocks?.outfits || []),
+      dialogue: reached.flatMap(l => l.unlocks?.dialogue || []),
+      perks: reached.flatMap(l => l.unlocks?.perks || [])
+    };
+  }
+
+  private levelView(level: BondLevel): BondLevelView {
+    return {
+      level: level.level,
+      name: level.name,
+      affection: level.affection || 0,
+      rewards: level.rewards || [],
+      unlocks: {
+        mediaTags: level.unlocks?.mediaTags || [],
+        outfits: level.unlocks?.outfits || [],
+        dialogue: level.unlocks?.dialogue || [],
+        perks: level.unlocks?.perks || []
+      }
+    };
+  }
+
+  private sortedLevels(track: BondTrack): BondLevel[] {
+    return (track.levels || []).slice().sort((a, b) => a.level - b.level);
+  }
+
+  // Affection caps share the daily reset window of login streaks
+  private dayKey(now: number, settings: GameSettings): string {
+    return new Date(this.streaks.windowIndex(now, settings) * DAY_MS).toISOString().slice(0, 10);
+  }
+
+  private nextReset(now: number, settings: GameSettings): number {
+    const hour = Math.min(23, Math.max(0, Math.floor(settings.dailyBonusHour ?? 0)));
+    return (this.streaks.windowIndex(now, settings) + 1) * DAY_MS + hour * 60 * 60 * 1000;
+  }
+
+  private async getBondRows(userId: string): Promise<UserCharacter[]> {
+    const { data, error } = await this.storage.supabase
+      .from('userCharacters')
+      .select('*')
+      .eq('userId', userId);
+    if (error) throw error;
+    return (data || []) as UserCharacter[];
+  }
+
+  // A concurrent insert for the same pair (unique index) is picked up instead
+  private async createBondRow(userId: string, characterId: string): Promise<UserCharacter> {
+    const { data, error } = await this.storage.supabase
+      .from('userCharacters')
+      .insert({ userId, characterId })
+      .select()
+      .single();
+    if (!error) return data as UserCharacter;
+    if (error.code !== '23505') throw error;
+
+    const existing = (await this.getBondRows(userId)).find(r => r.characterId === characterId);
+    if (!existing) throw error;
+    return existing;
+  }
+
+  private async getDaily(userId: string, characterId: string, day: string): Promise<CharacterAffectionDaily> {
+    const read = () => this.storage.supabase
+      .from('characterAffectionDaily')
+      .select('*')
+      .eq('userId', userId)
+      .eq('characterId', characterId)
+      .eq('day', day)
+      .maybeSingle();
+
+    const { data: existing, error } = await read();
+    if (error) throw error;
+    if (existing) return existing as CharacterAffectionDaily;
+
+    const { data, error: insertError } = await this.storage.supabase
+      .from('characterAffectionDaily')
+      .insert({ userId, characterId, day })
+      .select()
+      .single();
+    if (!insertError) return data as CharacterAffectionDaily;
+    if (insertError.code !== '23505') throw insertError;
+
+    const { data: raced, error: rereadError } = await read();
+    if (rereadError || !raced) throw rereadError || insertError;
+    return raced as CharacterAffectionDaily;
+  }
+
+  private async getItemCounts(userId: string, itemIds: string[]): Promise<Map<string, number>> {
+    if (itemIds.length === 0) return new Map();
+    const { data, error } = await this.storage.supabase
+      .from('userItems')
+      .select('itemId, quantity')
+      .eq('userId', userId)
+      .in('itemId', itemIds);
+    if (error) throw error;
+    return new Map((data || []).map((row: any) => [row.itemId as string, row.quantity || 0]));
+  }
+}
@@ -0,0 +1,265 @@
+import { SupabaseStorage } from "../../shared/SupabaseStorage";
+import { FileStorage } from "../../shared/FileStorage";
+import type { GameSettings } from "../../shared/schema";
+
+export const BOOSTER_TYPES = {
+  lpMultiplier: 'lp_multiplier', // All LP income: taps and offline/passive
+  energyRegen: 'energy_regen', // Energy regeneration rate
+  tapPower: 'tap_power' // LP per tap only
+} as const;
+
+type BoosterEffect = NonNullable<GameSettings['boosterEffects']>[string];
+
+export interface BoosterDefinition {
+  type: string;
+  name: string;
+  description: string;
+  multiplier: number;
+  maxDuration: number; // Minutes
+  cost: number | null; // null = not purchasable (wheel/rewards only)
+  stacking: 'extend' | 'refresh' | 'stack';
+  maxStacks: number;
+}
+
+export interface ActiveBooster {
+  id: string;
+  type: string;
+  name: string;
+  multiplier: number;
+  activatedAt: string;
+  expiresAt: string;
+  remainingSeconds: number;
+}
+
+export interface BoosterActivation {
+  success: boolean;
+  booster?: ActiveBooster;
+  reason?: string;
+  previous?: { expiresAt: string; multiplier: number }; // Set when an existing booster was extended/refreshed
+}
+
+export interface BoosterWindow {
+  multiplier: number;
+  from: number;
+  to: number;
+}
+
+export interface ActivateOptions {
+  durationMinutes?: number; // Defaults to and is capped at the definition's maxDuration
+  multiplier?: number; // Override, e.g. a weaker wheel prize
+}
+
+/**
+ * Timed boosters backed by the `boosters` table with effects from GameSettings.boosterEffects.
+ *
+ * Stacking (same type only - different types always coexist):
+ *  - extend:  push the active booster's expiry by the new duration, remaining time capped at maxDuration × maxStacks
+ *  - refresh: restart the active booster's timer (keeps the stronger multiplier)
+ *  - stack:   add another row, up to maxStacks at once
+ * Concurrent multipliers combine additively: 1 + Σ(multiplier - 1).
+ * Expired rows are kept so lazy calculations (energy, offline income) can integrate over past windows.
+ */
+export class BoosterService {
+  private static instance: BoosterService;
+  private storage = SupabaseStorage.getInstance();
+  private files = FileStorage.getInstance();
+
+  static getInstance() {
+    if (!BoosterService.instance) BoosterService.instance = new BoosterService();
+    return BoosterService.instance;
+  }
+
+  async getCatalog(): Promise<BoosterDefinition[]> {
+    const settings = await this.files.getGameSettings();
+    return Object.entries(settings.boosterEffects || {}).map(([type, effect]) => this.toDefinition(type, effect));
+  }
+
+  async getDefinition(type: string): Promise<BoosterDefinition | undefined> {
+    const settings = await this.files.getGameSettings();
+    const effect = settings.boosterEffects?.[type];
+    return effect ? this.toDefinition(type, effect) : undefined;
+  }
+
+  async getActive(userId: string, now = Date.now()): Promise<ActiveBooster[]> {
+    const { data, error } = await this.storage.supabase
+      .from('boosters')
+      .select('*')
+      .eq('userId', userId)
+      .gt('expiresAt', new Date(now).toISOString())
+      .order('expiresAt', { ascending: true });
+    if (error) throw error;
+
+    const catalog = await this.getCatalog();
+    return (data || []).map((row: any) => ({
+      id: row.id,
+      type: row.type,
+      name: catalog.find(d => d.type === row.type)?.name || row.type,
+      multiplier: Number(row.multiplier) || 1,
+      activatedAt: new Date(row.activateAt).toISOString(),
+      expiresAt: new Date(row.expiresAt).toISOString(),
+      remainingSeconds: Math.max(0, Math.ceil((new Date(row.expiresAt).getTime() - now) / 1000))
+    }));
+  }
+
+  // Combined multiplier per booster type at `now` (types without an active booster are absent)
+  async getMultipliers(userId: string, now = Date.now()): Promise<Record<string, number>> {
+    try {
+      const active = await this.getActive(userId, now);
+      const result: Record<string, number> = {};
+      for (const b of active) {
+        result[b.type] = (result[b.type] ?? 1) + (b.multiplier - 1);
+      }
+      return result;
+    } catch (error) {
+      console.log(`⚠️ [BOOSTER] Could not load multipliers for ${userId}:`, error);
+      return {};
+    }
+  }
+
+  // Booster windows of one type that overlap [from, to], for integrating effects over elapsed time
+  async getWindows(userId: string, type: string, from: number, to: number): Promise<BoosterWindow[]> {
+    try {
+      const { data, error } = await this.storage.supabase
+        .from('boosters')
+        .select('multiplier, activateAt, expiresAt')
+        .eq('userId', userId)
+        .eq('type', type)
+        .gt('expiresAt', new Date(from).toISOString())
+        .lte('activateAt', new Date(to).toISOString());
+      if (error) throw error;
+
+      return (data || []).map((b: any) => ({
+        multiplier: Number(b.multiplier) || 1,
+        from: new Date(b.activateAt).getTime(),
+        to: new Date(b.expiresAt).getTime()
+      }));
+    } catch (error) {
+      console.log(`⚠️ [BOOSTER] Could not load ${type} windows for ${userId}:`, error);
+      return [];
+    }
+  }
+
+  // Extra milliseconds of "base rate" earned over [from, to]: Σ (multiplier - 1) × overlap
+  static bonusMs(windows: BoosterWindow[], from: number, to: number): number {
+    return windows.reduce((sum, w) => {
+      const overlap = Math.max(0, Math.min(w.to, to) - Math.max(w.from, from));
+      return sum + (w.multiplier - 1) * overlap;
+    }, 0);
+  }
+
+  static multiplierAt(windows: BoosterWindow[], at: number): number {
+    return windows
+      .filter(w => w.from <= at && w.to > at)
+      .reduce((m, w) => m + (w.multiplier - 1), 1);
+  }
+
+  /**
+   * Activates a booster for a user (users.id). Applies the type's stacking rule.
+   * Returns { success: false, reason } when the type is unknown or the stack limit is hit.
+   */
+  async activate(userId: string, type: string, opts: ActivateOptions = {}): Promise<BoosterActivation> {
+    const def = await this.getDefinition(type);
+    if (!def) return { success: false, reason: `Unknown booster type: ${type}` };
+
+    const now = Date.now();
+    const durationMinutes = Math.min(Math.max(1, opts.durationMinutes ?? def.maxDuration), def.maxDuration);
+    const durationMs = durationMinutes * 60 * 1000;
+    const multiplier = opts.multiplier ?? def.multiplier;
+
+    const sameType = (await this.getActive(userId, now)).filter(b => b.type === type);
+    const current = sameType[sameType.length - 1]; // Latest expiry
+
+    if (current && def.stacking !== 'stack') {
+      const currentExpiry = new Date(current.expiresAt).getTime();
+      let expiresAt: number;
+      if (def.stacking === 'refresh') {
+        expiresAt = Math.max(currentExpiry, now + durationMs);
+      } else {
+        const cap = now + def.maxDuration * def.maxStacks * 60 * 1000;
+        expiresAt = Math.min(currentExpiry + durationMs, cap);
+        if (expiresAt <= currentExpiry) {
+          return { success: false, reason: 'Booster is already at its maximum duration' };
+        }
+      }
+
+      const { error } = await this.storage.supabase
+        .from('boosters')
+        .update({
+          expiresAt: new Date(expiresAt).toISOString(),
+          multiplier: Math.max(current.multiplier, multiplier),
+          duration: Math.ceil((expiresAt - new Date(current.activatedAt).getTime()) / 60000)
+        })
+        .eq('id', current.id);
+      if (error) throw error;
+
+      console.log(`🚀 [BOOSTER] ${def.stacking === 'refresh' ? 'Refreshed' : 'Extended'} ${type} for ${userId} until ${new Date(expiresAt).toISOString()}`);
+      const booster = (await this.getActive(userId)).find(b => b.id === current.id);
+      return { success: true, booster, previous: { expiresAt: current.expiresAt, multiplier: current.multiplier } };
+    }
+
+    if (def.stacking === 'stack' && sameType.length >= def.maxStacks) {
+      return { success: false, reason: `Maximum of ${def.maxStacks} active ${def.name} boosters reached` };
+    }
+
+    const { data, error } = await this.storage.supabase
+      .from('boosters')
+      .insert({
+        userId,
+        type,
+        multiplier,
+        duration: durationMinutes,
+        activateAt: new Date(now).toISOString(),
+        expiresAt: new Date(now + durationMs).toISOString()
+      })
+      .select()
+      .single();
+    if (error) throw error;
+
+    console.log(`🚀 [BOOSTER] Activated ${type} x${multiplier} for ${userId} (${durationMinutes}m)`);
+    return {
+      success: true,
+      booster: {
+        id: data.id,
+        type,
+        name: def.name,
+        multiplier,
+        activatedAt: new Date(now).toISOString(),
+        expiresAt: new Date(now + durationMs).toISOString(),
+        remainingSeconds: durationMinutes * 60
+      }
+    };
+  }
+
+  // Undoes a successful activation: removes a new row or restores the extended one
+  async revert(activation: BoosterActivation): Promise<void> {
+    const booster = activation.booster;
+    if (!activation.success || !booster) return;
+
+    const { error } = activation.previous
+      ? await this.storage.supabase
+          .from('boosters')
+          .update({
+            expiresAt: activation.previous.expiresAt,
+            multiplier: activation.previous.multiplier,
+            duration: Math.ceil((new Date(activation.previous.expiresAt).getTime() - new Date(booster.activatedAt).getTime()) / 60000)
+          })
+          .eq('id', booster.id)
+      : await this.storage.supabase.from('boosters').delete().eq('id', booster.id);
+    if (error) throw error;
+
+    console.log(`🚀 [BOOSTER] Reverted ${booster.type} activation ${booster.id}`);
+  }
+
+  private toDefinition(type: string, effect: BoosterEffect): BoosterDefinition {
+    return {
+      type,
+      name: effect.name || type,
+      description: effect.description || '',
+      multiplier: effect.multiplier,
+      maxDuration: effect.maxDuration,
+      cost: typeof effect.cost === 'number' ? effect.cost : null,
+      stacking: effect.stacking || 'extend',
+      maxStacks: Math.max(1, effect.maxStacks ?? (effect.stacking === 'stack' ? 3 : 1))
+    };
+  }
+}
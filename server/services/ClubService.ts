@@ -0,0 +1,549 @@
+import { SupabaseStorage } from "../../shared/SupabaseStorage";
+import { FileStorage } from "../../shared/FileStorage";
+import type { Club, ClubContribution, ClubGoal, ClubGoalMetric, ClubMember, ClubReward, GameSettings, RewardDefinition, User } from "../../shared/schema";
+import { RewardService } from "./RewardService";
+import { LeaderboardService } from "./LeaderboardService";
+import { GameEventBus, type PlayerEvent } from "./GameEventBus";
+import { fetchAllPages } from "../utils/helpers";
+
+const DEFAULT_MAX_MEMBERS = 30;
+const DEFAULT_MAX_OFFICERS = 3;
+const DEFAULT_JOB_MINUTES = 10;
+const LIST_LIMIT = 50;
+const NAME_PATTERN = /^[A-Za-z0-9 _'-]{3,24}$/;
+const MAX_DESCRIPTION = 200;
+
+export type ClubRole = 'owner' | 'officer' | 'member';
+
+const ROLE_ORDER: Record<ClubRole, number> = { owner: 0, officer: 1, member: 2 };
+
+export interface ClubSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  memberCount: number;
+  maxMembers: number;
+  createdAt: string;
+}
+
+export interface ClubMemberView {
+  userId: string;
+  username: string;
+  displayPicture: string | null;
+  level: number;
+  role: ClubRole;
+  joinedAt: string;
+  contributions: Record<string, number>; // Goal id → this week's amount
+  isMe: boolean;
+}
+
+export interface ClubGoalView {
+  id: string;
+  name: string;
+  metric: ClubGoalMetric;
+  progress: number;
+  tiers: { tier: number; target: number; rewards: RewardDefinition[]; reached: boolean }[];
+}
+
+export interface ClubView extends ClubSummary {
+  period: string;
+  endsAt: string;
+  myRole: ClubRole | null;
+  maxOfficers: number;
+  members: ClubMemberView[];
+  goals: ClubGoalView[];
+}
+
+export interface ClubResult {
+  success: boolean;
+  reason?: string;
+  club?: Club;
+}
+
+export interface ClubWeekCloseResult {
+  periods: string[]; // Ended weeks that still had clubs to close
+  closed: number; // Club weeks closed by this run
+  rewarded: number;
+  failed: number;
+}
+
+/**
+ * Player clubs with weekly cooperative goals (GameSettings.clubs.weeklyGoals).
+ *
+ * A player is in at most one club (unique clubMembers.userId). Each club has one owner; the owner
+ * names officers (up to maxOfficers), and owner and officers can remove members of a lower role.
+ * When the owner leaves, the longest-serving officer - or member - takes over; the last member out
+ * deletes the club.
+ *
+ * Goal progress comes from player events (GameEventBus), credited per member to the club they are in
+ * when the event happens. After an ISO week ends the job closes it for every club that made progress:
+ * each member still in the club who contributed gets a clubRewards row per reached tier, and those
+ * rows are marked before they are granted (and un-marked if the grant fails, to retry next run).
+ */
+export class ClubService {
+  private static instance: ClubService;
+  private storage = SupabaseStorage.getInstance();
+  private files = FileStorage.getInstance();
+  private rewards = RewardService.getInstance();
+  private weeks = LeaderboardService.getInstance();
+  private unsubscribe: (() => void) | null = null;
+  private jobTimer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  static getInstance() {
+    if (!ClubService.instance) ClubService.instance = new ClubService();
+    return ClubService.instance;
+  }
+
+  // Starts crediting player events to club goals (once)
+  subscribe() {
+    if (this.unsubscribe) return;
+    this.unsubscribe = GameEventBus.getInstance().subscribe('clubs', event => this.track(event), ['tap', 'lp_earned', 'purchase', 'spin', 'chat_message']);
+  }
+
+  async track(event: PlayerEvent, now = Date.now()): Promise<void> {
+    const user = event.user || await this.storage.getUser(event.userId);
+    if (!user) return;
+    const membership = await this.getMembership(user.id);
+    if (!membership) return;
+
+    const settings = await this.files.getGameSettings();
+    const deltas = (settings.clubs?.weeklyGoals || [])
+      .map(goal => ({ goal, amount: this.amountFor(goal.metric, event) }))
+      .filter(d => d.amount > 0);
+    if (deltas.length === 0) return;
+
+    const period = this.weeks.weekKey(now);
+    const at = new Date(now).toISOString();
+    // Incremented in SQL so concurrent events for one member add up
+    const results = await Promise.all(deltas.map(({ goal, amount }) => this.storage.supabase.rpc('increment_club_contribution', {
+      p_club_id: membership.clubId,
+      p_period: period,
+      p_user_id: user.id,
+      p_goal_id: goal.id,
+      p_amount: amount,
+      p_at: at
+    })));
+    const failed = results.find(r => r.error);
+    if (failed) throw failed.error;
+  }
+
+  async listClubs(search?: string): Promise<ClubSummary[]> {
+    let query = this.storage.supabase.from('clubs').select('*').order('createdAt', { ascending: false }).limit(LIST_LIMIT);
+    const term = search?.trim().replace(/[%_,()]/g, '');
+    if (term) query = query.ilike('name', `%${term}%`);
+    const { data, error } = await query;
+    if (error) throw error;
+    const clubs = (data || []) as Club[];
+
+    const settings = await this.files.getGameSettings();
+    const counts = await this.getMemberCounts(clubs.map(c => c.id));
+    return clubs
+      .map(club => this.summarize(club, counts.get(club.id) || 0, settings))
+      .sort((a, b) => b.memberCount - a.memberCount);
+  }
+
+  async getClub(clubId: string, viewer: User | null, now = Date.now()): Promise<ClubView | null> {
+    const club = await this.findClub(clubId);
+    if (!club) return null;
+
+    const settings = await this.files.getGameSettings();
+    const period = this.weeks.weekKey(now);
+    const [members, contributions] = await Promise.all([
+      this.getMembers(club.id),
+      this.getContributions(club.id, period)
+    ]);
+    const profiles = await this.getProfiles(members.map(m => m.userId));
+
+    const memberViews = members
+      .map(member => {
+        const profile = profiles.get(member.userId);
+        const mine = contributions.filter(c => c.userId === member.userId);
+        return {
+          userId: member.userId,
+          username: profile?.username || 'Unknown player',
+          displayPicture: profile?.displayPicture || null,
+          level: profile?.level || 1,
+          role: member.role as ClubRole,
+          joinedAt: new Date(member.joinedAt).toISOString(),
+          contributions: Object.fromEntries(mine.map(c => [c.goalId, c.amount || 0])),
+          isMe: member.userId === viewer?.id
+        };
+      })
+      .sort((a, b) => ROLE_ORDER[a.role] - ROLE_ORDER[b.role] || a.joinedAt.localeCompare(b.joinedAt));
+
+    const progress = this.sumProgress(contributions);
+    return {
+      ...this.summarize(club, members.length, settings),
+      period,
+      endsAt: new Date(this.weeks.weekRange(period).endsAt).toISOString(),
+      myRole: (members.find(m => m.userId === viewer?.id)?.role as ClubRole) || null,
+      maxOfficers: this.maxOfficers(settings),
+      members: memberViews,
+      goals: (settings.clubs?.weeklyGoals || []).map(goal => ({
+        id: goal.id,
+        name: goal.name,
+        metric: goal.metric,
+        progress: progress.get(goal.id) || 0,
+        tiers: goal.tiers.map((t, i) => ({ tier: i + 1, target: t.target, rewards: t.rewards, reached: (progress.get(goal.id) || 0) >= t.target }))
+      }))
+    };
+  }
+
+  async getClubFor(user: User): Promise<ClubView | null> {
+    const membership = await this.getMembership(user.id);
+    return membership ? this.getClub(membership.clubId, user) : null;
+  }
+
+  async create(user: User, name: string, description?: string): Promise<ClubResult> {
+    const trimmed = (name || '').trim().replace(/\s+/g, ' ');
+    if (!NAME_PATTERN.test(trimmed)) return { success: false, reason: 'Club names are 3-24 letters, numbers, spaces, _ \' or -' };
+    if (await this.getMembership(user.id)) return { success: false, reason: 'Leave your current club first' };
+
+    const { data: club, error } = await this.storage.supabase
+      .from('clubs')
+      .insert({ name: trimmed, description: (description || '').trim().slice(0, MAX_DESCRIPTION) || null, ownerId: user.id })
+      .select()
+      .single();
+    if (error) {
+      if (error.code === '23505') return { success: false, reason: 'Club name is taken' };
+      throw error;
+    }
+
+    const { error: memberError } = await this.storage.supabase
+      .from('clubMembers')
+      .insert({ clubId: club.id, userId: user.id, role: 'owner' });
+    if (memberError) {
+      await this.storage.supabase.from('clubs').delete().eq('id', club.id);
+      if (memberError.code === '23505') return { success: false, reason: 'Leave your current club first' };
+      throw memberError;
+    }
+
+    console.log(`🛡️ [CLUBS] ${user.id} created ${club.name} (${club.id})`);
+    return { success: true, club: club as Club };
+  }
+
+  // The cap is checked after the insert so two players can't both take the last seat
+  async join(user: User, clubId: string): Promise<ClubResult> {
+    const club = await this.findClub(clubId);
+    if (!club) return { success: false, reason: 'Club not found' };
+
+    const settings = await this.files.getGameSettings();
+    const max = this.maxMembers(settings);
+    if ((await this.getMemberCounts([club.id])).get(club.id)! >= max) return { success: false, reason: 'Club is full' };
+
+    const { data: member, error } = await this.storage.supabase
+      .from('clubMembers')
+      .insert({ clubId: club.id, userId: user.id, role: 'member' })
+      .select()
+      .single();
+    if (error) {
+      if (error.code === '23505') return { success: false, reason: 'Leave your current club first' };
+      throw error;
+    }
+
+    if ((await this.getMemberCounts([club.id])).get(club.id)! > max) {
+      await this.storage.supabase.from('clubMembers').delete().eq('id', member.id);
+      return { success: false, reason: 'Club is full' };
+    }
+    return { success: true, club };
+  }
+
+  async leave(user: User): Promise<ClubResult> {
+    const membership = await this.getMembership(user.id);
+    if (!membership) return { success: false, reason: 'You are not in a club' };
+    const club = await this.findClub(membership.clubId);
+
+    const { error } = await this.storage.supabase.from('clubMembers').delete().eq('id', membership.id);
+    if (error) throw error;
+
+    const rest = await this.getMembers(membership.clubId);
+    if (rest.length === 0) {
+      await this.storage.supabase.from('clubs').delete().eq('id', membership.clubId);
+      console.log(`🛡️ [CLUBS] ${club?.name || membership.clubId} disbanded`);
+    } else if (membership.role === 'owner') {
+      const heir = rest.find(m => m.role === 'officer') || rest[0];
+      await this.setOwner(membership.clubId, heir);
+    }
+    return { success: true, club: club || undefined };
+  }
+
+  /**
+   * Owner-only role changes: officer or member, or owner to hand the club over (the old owner
+   * becomes an officer).
+   */
+  async setRole(user: User, clubId: string, memberId: string, role: ClubRole): Promise<ClubResult> {
+    const [actor, target] = await Promise.all([this.getMembership(user.id), this.getMembership(memberId)]);
+    if (!actor || actor.clubId !== clubId) return { success: false, reason: 'Club not found' };
+    if (!target || target.clubId !== clubId) return { success: false, reason: 'Member not found' };
+    if (actor.role !== 'owner') return { success: false, reason: 'Only the owner can change roles' };
+    if (target.id === actor.id) return { success: false, reason: 'Hand the club to someone else instead' };
+
+    if (role === 'owner') {
+      await this.setOwner(clubId, target);
+      await this.updateRole(actor.id, 'officer');
+    } else if (role === 'officer' && target.role !== 'officer') {
+      const settings = await this.files.getGameSettings();
+      const officers = (await this.getMembers(clubId)).filter(m => m.role === 'officer').length;
+      if (officers >= this.maxOfficers(settings)) return { success: false, reason: 'The club has its maximum number of officers' };
+      await this.updateRole(target.id, 'officer');
+    } else if (role === 'member') {
+      await this.updateRole(target.id, 'member');
+    } else if (role !== 'officer') {
+      return { success: false, reason: 'Unknown role' };
+    }
+    return { success: true, club: (await this.findClub(clubId)) || undefined };
+  }
+
+  // Owners can remove anyone, officers only plain members
+  async kick(user: User, clubId: string, memberId: string): Promise<ClubResult> {
+    const [actor, target] = await Promise.all([this.getMembership(user.id), this.getMembership(memberId)]);
+    if (!actor || actor.clubId !== clubId) return { success: false, reason: 'Club not found' };
+    if (!target || target.clubId !== clubId) return { success: false, reason: 'Member not found' };
+    if (target.id === actor.id) return { success: false, reason: 'Leave the club instead' };
+    if (ROLE_ORDER[actor.role as ClubRole] >= ROLE_ORDER[target.role as ClubRole]) {
+      return { success: false, reason: 'You can only remove members below your role' };
+    }
+
+    const { error } = await this.storage.supabase.from('clubMembers').delete().eq('id', target.id).eq('clubId', clubId);
+    if (error) throw error;
+    return { success: true, club: (await this.findClub(clubId)) || undefined };
+  }
+
+  /**
+   * Closes every ended week (ISO weeks before the current one) that has contributions but no clubWeeks
+   * row yet, then grants the queued goal rewards - including ones that failed on an earlier run. Safe
+   * to run repeatedly: reward rows are unique per club, week, goal, tier and member.
+   */
+  async closeWeek(now = Date.now()): Promise<ClubWeekCloseResult> {
+    const current = this.weeks.weekKey(now);
+    const settings = await this.files.getGameSettings();
+    const goals = settings.clubs?.weeklyGoals || [];
+
+    const pending = await fetchAllPages<{ clubId: string; period: string }>((from, to) => this.storage.supabase
+      .rpc('club_weeks_to_close', { p_before: current })
+      .order('period')
+      .order('clubId')
+      .range(from, to));
+
+    let closed = 0;
+    for (const { clubId, period } of pending) {
+      if (await this.closeClubWeek(clubId, period, goals)) closed++;
+    }
+
+    const { rewarded, failed } = await this.rewardWeeks(current, goals);
+    const periods = Array.from(new Set(pending.map(p => p.period)));
+    return { periods, closed, rewarded, failed };
+  }
+
+  startJob(intervalMs?: number) {
+    if (this.jobTimer) return;
+    const run = async () => {
+      if (this.running) return;
+      this.running = true;
+      try {
+        const result = await this.closeWeek();
+        if (result.closed || result.rewarded || result.failed) {
+          console.log(`🛡️ [CLUBS] Weeks ${result.periods.join(', ') || '-'}: ${result.closed} club weeks closed, ${result.rewarded} rewards granted${result.failed ? `, ${result.failed} failed` : ''}`);
+        }
+      } catch (err) {
+        console.error('🛡️ [CLUBS] Week close job failed:', err);
+      } finally {
+        this.running = false;
+      }
+    };
+
+    void this.files.getGameSettings().then(settings => {
+      if (this.jobTimer) return;
+      const minutes = Math.max(1, settings.clubs?.jobMinutes ?? DEFAULT_JOB_MINUTES);
+      this.jobTimer = setInterval(run, intervalMs ?? minutes * 60 * 1000);
+      void run();
+    });
+  }
+
+  stopJob() {
+    if (this.jobTimer) {
+      clearInterval(this.jobTimer);
+      this.jobTimer = null;
+    }
+  }
+
+  // Queues the rewards of one club's week, then records the week as closed (false if another run did)
+  private async closeClubWeek(clubId: string, period: string, goals: ClubGoal[]): Promise<boolean> {
+    const [members, contributions] = await Promise.all([this.getMembers(clubId), this.getContributions(clubId, period)]);
+    const progress = this.sumProgress(contributions);
+    const contributors = new Set(contributions.filter(c => (c.amount || 0) > 0).map(c => c.userId));
+    const eligible = members.filter(m => contributors.has(m.userId));
+
+    const rows = goals.flatMap(goal => goal.tiers
+      .map((tier, i) => ({ tier: i + 1, reached: (progress.get(goal.id) || 0) >= tier.target }))
+      .filter(t => t.reached)
+      .flatMap(t => eligible.map(m => ({ clubId, period, goalId: goal.id, tier: t.tier, userId: m.userId }))));
+
+    if (rows.length > 0) {
+      const { error } = await this.storage.supabase
+        .from('clubRewards')
+        .upsert(rows, { onConflict: 'clubId,period,goalId,tier,userId', ignoreDuplicates: true });
+      if (error) throw error;
+    }
+
+    const { error } = await this.storage.supabase
+      .from('clubWeeks')
+      .insert({ clubId, period, progress: Object.fromEntries(Array.from(progress)), members: eligible.length });
+    if (error && error.code !== '23505') throw error;
+    if (!error) console.log(`🛡️ [CLUBS] Closed ${clubId} week ${period} (${rows.length} rewards queued)`);
+    return !error;
+  }
+
+  // Unpaid reward rows of every ended week
+  private async rewardWeeks(before: string, goals: ClubGoal[]): Promise<{ rewarded: number; failed: number }> {
+    const rows = await fetchAllPages<ClubReward>((from, to) => this.storage.supabase
+      .from('clubRewards')
+      .select('*')
+      .lt('period', before)
+      .is('rewardedAt', null)
+      .order('id')
+      .range(from, to));
+
+    let rewarded = 0;
+    let failed = 0;
+    for (const row of rows) {
+      const tier = goals.find(g => g.id === row.goalId)?.tiers[row.tier - 1];
+      if (!tier || tier.rewards.length === 0) continue;
+
+      const { data: marked, error: markError } = await this.storage.supabase
+        .from('clubRewards')
+        .update({ rewardedAt: new Date().toISOString() })
+        .eq('id', row.id)
+        .is('rewardedAt', null)
+        .select('id');
+      if (markError) throw markError;
+      if (!marked || marked.length === 0) continue;
+
+      try {
+        await this.rewards.grant(row.userId, tier.rewards, { source: 'club_reward', refId: `${row.clubId}:${row.period}:${row.goalId}:${row.tier}` });
+        rewarded++;
+      } catch (err) {
+        failed++;
+        console.error(`🛡️ [CLUBS] Reward for ${row.userId} (${row.goalId} tier ${row.tier}, ${row.period}) failed:`, err);
+        await this.storage.supabase
+          .from('clubRewards')
+          .update({ rewardedAt: null })
+          .eq('id', row.id);
+      }
+    }
+    return { rewarded, failed };
+  }
+
+  private amountFor(metric: ClubGoalMetric, event: PlayerEvent): number {
+    switch (metric) {
+      case 'taps': return event.type === 'tap' ? event.taps : 0;
+      // Every earning ledger source (taps, claims, offline income, wheel) arrives as lp_earned - except the club's own payouts
+      case 'lp': return event.type === 'lp_earned' && event.source !== 'club_reward' ? event.lp : 0;
+      case 'spins': return event.type === 'spin' ? 1 : 0;
+      case 'chat_messages': return event.type === 'chat_message' ? 1 : 0;
+      case 'upgrades': return event.type === 'purchase' ? event.levels : 0;
+      default: return 0;
+    }
+  }
+
+  private sumProgress(contributions: ClubContribution[]): Map<string, number> {
+    const totals = new Map<string, number>();
+    for (const c of contributions) totals.set(c.goalId, (totals.get(c.goalId) || 0) + (c.amount || 0));
+    return totals;
+  }
+
+  private summarize(club: Club, memberCount: number, settings: GameSettings): ClubSummary {
+    return {
+      id: club.id,
+      name: club.name,
+      description: club.description,
+      memberCount,
+      maxMembers: this.maxMembers(settings),
+      createdAt: new Date(club.createdAt).toISOString()
+    };
+  }
+
+  private maxMembers(settings: GameSettings): number {
+    return Math.max(1, Math.floor(settings.clubs?.maxMembers ?? DEFAULT_MAX_MEMBERS));
+  }
+
+  private maxOfficers(settings: GameSettings): number {
+    return Math.max(0, Math.floor(settings.clubs?.maxOfficers ?? DEFAULT_MAX_OFFICERS));
+  }
+
+  private async setOwner(clubId: string, heir: ClubMember) {
+    await this.updateRole(heir.id, 'owner');
+    const { error } = await this.storage.supabase.from('clubs').update({ ownerId: heir.userId }).eq('id', clubId);
+    if (error) throw error;
+  }
+
+  private async updateRole(memberRowId: string, role: ClubRole) {
+    const { error } = await this.storage.supabase.from('clubMembers').update({ role }).eq('id', memberRowId);
+    if (error) throw error;
+  }
+
+  private async findClub(clubId: string): Promise<Club | null> {
+    const { data, error } = await this.storage.supabase
+      .from('clubs')
+      .select('*')
+      .eq('id', clubId)
+      .maybeSingle();
+    // Ids that aren't uuids can't match a club
+    if (error && error.code !== '22P02') throw error;
+    return (data as Club | null) || null;
+  }
+
+  private async getMembership(userId: string): Promise<ClubMember | null> {
+    const { data, error } = await this.storage.supabase
+      .from('clubMembers')
+      .select('*')
+      .eq('userId', userId)
+      .maybeSingle();
+    if (error) throw error;
+    return data as ClubMember | null;
+  }
+
+  // Oldest members first
+  private async getMembers(clubId: string): Promise<ClubMember[]> {
+    const { data, error } = await this.storage.supabase
+      .from('clubMembers')
+      .select('*')
+      .eq('clubId', clubId)
+      .order('joinedAt', { ascending: true });
+    if (error) throw error;
+    return (data || []) as ClubMember[];
+  }
+
+  private async getMemberCounts(clubIds: string[]): Promise<Map<string, number>> {
+    const counts = new Map<string, number>(clubIds.map(id => [id, 0]));
+    if (clubIds.length === 0) return counts;
+    const { data, error } = await this.storage.supabase
+      .from('clubMembers')
+      .select('clubId')
+      .in('clubId', clubIds);
+    if (error) throw error;
+    for (const row of (data || []) as { clubId: string }[]) counts.set(row.clubId, (counts.get(row.clubId) || 0) + 1);
+    return counts;
+  }
+
+  private async getContributions(clubId: string, period: string): Promise<ClubContribution[]> {
+    const { data, error } = await this.storage.supabase
+      .from('clubContributions')
+      .select('*')
+      .eq('clubId', clubId)
+      .eq('period', period);
+    if (error) throw error;
+    return (data || []) as ClubContribution[];
+  }
+
+  private async getProfiles(ids: string[]): Promise<Map<string, Pick<User, 'id' | 'username' | 'displayPicture' | 'level'>>> {
+    if (ids.length === 0) return new Map();
+    const { data, error } = await this.storage.supabase
+      .from('users')
+      .select('id, username, displayPicture, level')
+      .in('id', Array.from(new Set(ids)));
+    if (error) throw error;
+    return new Map(((data || []) as Pick<User, 'id' | 'username' | 'displayPicture' | 'level'>[]).map(p => [p.id, p]));
+  }
+}
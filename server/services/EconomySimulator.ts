@@ -0,0 +1,471 @@
+import { FileStorage } from "../../shared/FileStorage";
+import { UpgradeStorage, type StatValues, type Upgrade, type UserUpgrade, type UnlockContext } from "../../shared/UpgradeStorage";
+import { LevelStorage } from "../../shared/LevelStorage";
+import { vipTiers } from "../../shared/vipTiers";
+import { XpService, type XpWeights } from "./XpService";
+import type { GameSettings, LevelDefinition, RewardDefinition, Task, User } from "../../shared/schema";
+
+export type PurchaseStrategy = 'none' | 'cheapest' | 'bestValue';
+
+export interface Archetype {
+  id: string;
+  name: string;
+  sessionHours: number[]; // Hours of the day (0-23) the player opens the game
+  tapsPerSession: number; // Taps attempted per session, limited by energy
+  doesTasks: boolean; // Claims daily/weekly task LP rewards
+  vipTier?: string; // Key of vipTiers for the whole run
+  strategy: PurchaseStrategy;
+}
+
+export const DEFAULT_ARCHETYPES: Archetype[] = [
+  { id: 'casual', name: 'Casual tapper', sessionHours: [8, 12, 18, 22], tapsPerSession: 300, doesTasks: true, strategy: 'cheapest' },
+  { id: 'idle', name: 'Idle only', sessionHours: [8, 20], tapsPerSession: 0, doesTasks: false, strategy: 'bestValue' },
+  { id: 'whale', name: 'Whale VIP', sessionHours: [7, 10, 13, 16, 19, 22], tapsPerSession: 1000, doesTasks: true, vipTier: 'premium', strategy: 'bestValue' }
+];
+
+export interface SimulationOptions {
+  days?: number;
+  archetypes?: (Partial<Archetype> & { id: string })[]; // Defaults are merged by id; unknown ids need every field
+  paybackLimitHours?: number; // A level "is worth buying" while it pays for itself within this many hours
+  sampleEveryHours?: number;
+}
+
+export interface SimulationSample {
+  hour: number;
+  day: number;
+  level: number;
+  xp: number;
+  lp: number;
+  totalEarned: number;
+  incomePerHour: number; // LP earned during the sampled window, per hour
+  lpPerTap: number;
+  lpPerHour: number;
+  upgradeLevels: number;
+}
+
+export interface SimulatedPurchase {
+  hour: number;
+  upgradeId: string;
+  level: number;
+  cost: number;
+  paybackHours: number | null; // null when the level adds no income for this archetype
+}
+
+export interface UpgradeBreakEven {
+  upgradeId: string;
+  level: number; // Level at the end of the run
+  maxLevel: number;
+  worthUntilLevel: number; // Highest level whose payback stays within paybackLimitHours
+}
+
+export interface ArchetypeResult {
+  archetype: Archetype;
+  levelCurve: { level: number; hour: number; day: number }[];
+  samples: SimulationSample[];
+  purchases: SimulatedPurchase[];
+  saturation: { hour: number; day: number } | null; // From here on nothing left pays back within the limit
+  breakEven: UpgradeBreakEven[];
+  final: { level: number; xp: number; lp: number; totalEarned: number; spent: number; stats: StatValues };
+}
+
+export interface SimulationReport {
+  generatedAt: string;
+  days: number;
+  paybackLimitHours: number;
+  assumptions: string[];
+  archetypes: ArchetypeResult[];
+}
+
+// Game data shared by every archetype in one run
+interface SimulationData {
+  settings: GameSettings;
+  xp: XpWeights;
+  base: StatValues;
+  upgrades: Upgrade[];
+  levels: LevelDefinition[];
+  dailyTaskLp: { levelRequirement: number; lp: number }[]; // One entry per task
+  weeklyTaskLp: { levelRequirement: number; lp: number }[];
+}
+
+interface PlayerState {
+  hour: number;
+  level: number;
+  xp: number;
+  lp: number;
+  energy: number;
+  totalEarned: number;
+  spent: number;
+  userUpgrades: UserUpgrade[];
+  lastSessionHour: number;
+}
+
+const DEFAULT_DAYS = 14;
+const DEFAULT_PAYBACK_LIMIT_HOURS = 72;
+const MAX_DAYS = 365;
+
+/**
+ * Offline economy simulator for balancing game-data.
+ * Loads the live JSON (upgrades, levels, tasks, GameSettings) through FileStorage/UpgradeStorage/LevelStorage
+ * and plays player archetypes hour by hour over N days with the same stat pipeline and cost curves the server uses.
+ * Output is plain data (JSON) or CSV via toCsv, for the admin panel or a spreadsheet.
+ */
+export class EconomySimulator {
+  private static instance: EconomySimulator;
+  private files = FileStorage.getInstance();
+  private upgradeStorage = UpgradeStorage.getInstance();
+  private levelStorage = LevelStorage.getInstance();
+  private xpService = XpService.getInstance();
+
+  static getInstance() {
+    if (!EconomySimulator.instance) EconomySimulator.instance = new EconomySimulator();
+    return EconomySimulator.instance;
+  }
+
+  async run(options: SimulationOptions = {}): Promise<SimulationReport> {
+    const days = Math.min(MAX_DAYS, Math.max(1, Math.floor(options.days ?? DEFAULT_DAYS)));
+    const paybackLimitHours = Math.max(1, options.paybackLimitHours ?? DEFAULT_PAYBACK_LIMIT_HOURS);
+    const sampleEveryHours = Math.max(1, Math.floor(options.sampleEveryHours ?? 1));
+    const data = await this.loadData();
+
+    const archetypes = this.resolveArchetypes(options.archetypes);
+    const results: ArchetypeResult[] = [];
+    for (const archetype of archetypes) {
+      results.push(await this.simulate(archetype, data, days, paybackLimitHours, sampleEveryHours));
+    }
+
+    return {
+      generatedAt: new Date().toISOString(),
+      days,
+      paybackLimitHours,
+      assumptions: [
+        '1 energy per tap; taps use final lpPerTap (VIP included) with expected crit value',
+        'Passive LP is claimed at each session, capped by offlineCapMinutes',
+        'Boosters, wheel prizes and achievement rewards are not simulated',
+        'Only LP rewards from levels and tasks are counted; tasks are assumed completed when claimable',
+        'XP comes from taps and task claims (GameSettings.xp); chat and achievement XP are not simulated'
+      ],
+      archetypes: results
+    };
+  }
+
+  /**
+   * CSV for one table of the report: samples (income over time), levels (time-to-level) or purchases.
+   */
+  toCsv(report: SimulationReport, table: 'samples' | 'levels' | 'purchases' = 'samples'): string {
+    const rows: (string | number | null)[][] = [];
+    if (table === 'levels') {
+      rows.push(['archetype', 'level', 'hour', 'day']);
+      for (const r of report.archetypes) {
+        for (const point of r.levelCurve) rows.push([r.archetype.id, point.level, point.hour, point.day]);
+      }
+    } else if (table === 'purchases') {
+      rows.push(['archetype', 'hour', 'upgradeId', 'level', 'cost', 'paybackHours']);
+      for (const r of report.archetypes) {
+        for (const p of r.purchases) rows.push([r.archetype.id, p.hour, p.upgradeId, p.level, p.cost, p.paybackHours]);
+      }
+    } else {
+      rows.push(['archetype', 'hour', 'day', 'level', 'xp', 'lp', 'totalEarned', 'incomePerHour', 'lpPerTap', 'lpPerHour', 'upgradeLevels']);
+      for (const r of report.archetypes) {
+        for (const s of r.samples) {
+          rows.push([r.archetype.id, s.hour, s.day, s.level, s.xp, s.lp, s.totalEarned, s.incomePerHour, s.lpPerTap, s.lpPerHour, s.upgradeLevels]);
+        }
+      }
+    }
+    return rows.map(row => row.map(value => value === null ? '' : String(value)).join(',')).join('\n');
+  }
+
+  private resolveArchetypes(overrides?: SimulationOptions['archetypes']): Archetype[] {
+    if (!overrides?.length) return DEFAULT_ARCHETYPES;
+    return overrides.map(override => {
+      const base = DEFAULT_ARCHETYPES.find(a => a.id === override.id);
+      const merged = { ...base, ...override } as Archetype;
+      if (!merged.name || !Array.isArray(merged.sessionHours) || merged.strategy === undefined) {
+        throw new Error(`Archetype "${override.id}" needs name, sessionHours and strategy`);
+      }
+      return {
+        ...merged,
+        tapsPerSession: merged.tapsPerSession ?? 0,
+        doesTasks: merged.doesTasks ?? false,
+        sessionHours: Array.from(new Set(merged.sessionHours.map(h => Math.floor(h) % 24))).sort((a, b) => a - b)
+      };
+    });
+  }
+
+  private async loadData(): Promise<SimulationData> {
+    const [settings, xp, base, upgrades, levels, tasks] = await Promise.all([
+      this.files.getGameSettings(),
+      this.xpService.getWeights(),
+      this.upgradeStorage.getBaseStats(),
+      this.upgradeStorage.getAllUpgrades(),
+      this.levelStorage.getLevels(),
+      this.files.getAllTasks()
+    ]);
+
+    const taskLp = (category: Task['category']) => tasks
+      .filter(t => t.isActive && t.category === category)
+      .map(t => ({
+        levelRequirement: t.levelRequirement || 1,
+        lp: this.rewardLp(t.rewards || [])
+      }));
+
+    return {
+      settings,
+      xp,
+      base,
+      upgrades,
+      levels,
+      dailyTaskLp: taskLp('daily'),
+      weeklyTaskLp: taskLp('weekly')
+    };
+  }
+
+  private async simulate(archetype: Archetype, data: SimulationData, days: number, paybackLimitHours: number, sampleEveryHours: number): Promise<ArchetypeResult> {
+    const state: PlayerState = {
+      hour: 0,
+      level: 1,
+      xp: 0,
+      lp: 0,
+      energy: data.base.maxEnergy,
+      totalEarned: 0,
+      spent: 0,
+      userUpgrades: [],
+      lastSessionHour: 0
+    };
+    const result: ArchetypeResult = {
+      archetype,
+      levelCurve: [{ level: 1, hour: 0, day: 0 }],
+      samples: [],
+      purchases: [],
+      saturation: null,
+      breakEven: [],
+      final: { level: 1, xp: 0, lp: 0, totalEarned: 0, spent: 0, stats: data.base }
+    };
+
+    let earnedAtLastSample = 0;
+    for (let hour = 0; hour < days * 24; hour++) {
+      state.hour = hour;
+      const hourOfDay = hour % 24;
+      const day = Math.floor(hour / 24);
+
+      if (archetype.sessionHours.includes(hourOfDay)) {
+        const firstSessionToday = hourOfDay === archetype.sessionHours[0];
+        this.playSession(state, archetype, data, firstSessionToday, day);
+        this.claimLevels(state, data, result);
+
+        const saturated = await this.buyUpgrades(state, archetype, data, paybackLimitHours, result);
+        if (saturated && !result.saturation) result.saturation = { hour, day };
+        if (!saturated) result.saturation = null;
+      }
+
+      if ((hour + 1) % sampleEveryHours === 0) {
+        const stats = this.getStats(state, archetype, data);
+        result.samples.push({
+          hour: hour + 1,
+          day,
+          level: state.level,
+          xp: Math.floor(state.xp),
+          lp: Math.floor(state.lp),
+          totalEarned: Math.floor(state.totalEarned),
+          incomePerHour: Math.round((state.totalEarned - earnedAtLastSample) / sampleEveryHours),
+          lpPerTap: round(stats.lpPerTap),
+          lpPerHour: round(stats.lpPerHour),
+          upgradeLevels: state.userUpgrades.reduce((sum, u) => sum + u.level, 0)
+        });
+        earnedAtLastSample = state.totalEarned;
+      }
+    }
+
+    result.breakEven = this.getBreakEven(state, archetype, data, paybackLimitHours);
+    result.final = {
+      level: state.level,
+      xp: Math.floor(state.xp),
+      lp: Math.floor(state.lp),
+      totalEarned: Math.floor(state.totalEarned),
+      spent: state.spent,
+      stats: this.getStats(state, archetype, data)
+    };
+    return result;
+  }
+
+  // Offline claim, energy regen since the last session, taps, and (once a day) task rewards
+  private playSession(state: PlayerState, archetype: Archetype, data: SimulationData, firstSessionToday: boolean, day: number) {
+    const stats = this.getStats(state, archetype, data);
+    const hoursAway = state.hour === 0 ? 0 : state.hour - state.lastSessionHour;
+    state.lastSessionHour = state.hour;
+
+    const passive = stats.lpPerHour * Math.min(hoursAway, stats.offlineCapMinutes / 60);
+    state.energy = Math.min(stats.maxEnergy, state.energy + stats.energyRegen * hoursAway * 3600);
+
+    const taps = Math.floor(Math.min(archetype.tapsPerSession, state.energy));
+    state.energy -= taps;
+    this.earn(state, passive + taps * this.tapValue(stats, data));
+    state.xp += taps * data.xp.perTap;
+
+    if (firstSessionToday && archetype.doesTasks) {
+      const claimTasks = (tasks: SimulationData['dailyTaskLp']) => {
+        const claimable = tasks.filter(t => t.levelRequirement <= state.level);
+        this.earn(state, claimable.reduce((sum, t) => sum + t.lp, 0));
+        state.xp += claimable.length * data.xp.perTaskClaim;
+      };
+      claimTasks(data.dailyTaskLp);
+      if (day % 7 === 0) claimTasks(data.weeklyTaskLp);
+    }
+
+    const tier = archetype.vipTier ? vipTiers[archetype.vipTier as keyof typeof vipTiers] : undefined;
+    if (firstSessionToday && tier) this.earn(state, tier.dailyBonus);
+  }
+
+  // Same rule as /api/level/claim: every level whose XP threshold is met
+  private claimLevels(state: PlayerState, data: SimulationData, result: ArchetypeResult) {
+    for (;;) {
+      const next = data.levels.find(l => l.level === state.level + 1);
+      if (!next || state.xp < next.xpRequired) return;
+      state.level = next.level;
+      this.earn(state, this.rewardLp(next.rewards));
+      result.levelCurve.push({ level: state.level, hour: state.hour, day: Math.floor(state.hour / 24) });
+    }
+  }
+
+  /**
+   * Spends LP according to the archetype's strategy.
+   * Returns true when no unlocked level left would pay for itself within the payback limit.
+   */
+  private async buyUpgrades(state: PlayerState, archetype: Archetype, data: SimulationData, paybackLimitHours: number, result: ArchetypeResult): Promise<boolean> {
+    for (;;) {
+      const options = await this.getOptions(state, archetype, data);
+      const worthwhile = options.filter(o => o.paybackHours !== null && o.paybackHours <= paybackLimitHours);
+      if (archetype.strategy === 'none') return worthwhile.length === 0;
+
+      const affordable = (archetype.strategy === 'cheapest' ? options : worthwhile).filter(o => o.cost <= state.lp);
+      if (affordable.length === 0) return worthwhile.length === 0;
+
+      const pick = archetype.strategy === 'cheapest'
+        ? affordable.reduce((a, b) => (b.cost < a.cost ? b : a))
+        : affordable.reduce((a, b) => ((b.paybackHours ?? Infinity) < (a.paybackHours ?? Infinity) ? b : a));
+
+      state.lp -= pick.cost;
+      state.spent += pick.cost;
+      this.setLevel(state, pick.upgrade.id, pick.level);
+      result.purchases.push({
+        hour: state.hour,
+        upgradeId: pick.upgrade.id,
+        level: pick.level,
+        cost: pick.cost,
+        paybackHours: pick.paybackHours === null ? null : round(pick.paybackHours)
+      });
+    }
+  }
+
+  // Next level of every unlocked, non-maxed upgrade with its cost and payback for this archetype
+  private async getOptions(state: PlayerState, archetype: Archetype, data: SimulationData) {
+    const ctx = this.unlockContext(state, archetype, data);
+    const income = this.hourlyIncome(this.getStats(state, archetype, data), archetype, data);
+    const options: { upgrade: Upgrade; level: number; cost: number; paybackHours: number | null }[] = [];
+
+    for (const upgrade of data.upgrades) {
+      const current = this.getLevel(state, upgrade.id);
+      if (current >= upgrade.maxLevel) continue;
+      if (!(await this.upgradeStorage.getUnlockStatus('', upgrade, ctx)).unlocked) continue;
+
+      const cost = this.upgradeStorage.calculateCost(upgrade, current);
+      const gain = this.hourlyIncome(this.getStats(state, archetype, data, { [upgrade.id]: current + 1 }), archetype, data) - income;
+      options.push({ upgrade, level: current + 1, cost, paybackHours: gain > 0 ? cost / gain : null });
+    }
+    return options;
+  }
+
+  // For each upgrade, the highest level that still pays back within the limit from the final state
+  private getBreakEven(state: PlayerState, archetype: Archetype, data: SimulationData, paybackLimitHours: number): UpgradeBreakEven[] {
+    return data.upgrades.map(upgrade => {
+      const level = this.getLevel(state, upgrade.id);
+      let worthUntilLevel = level;
+      for (let next = level + 1; next <= upgrade.maxLevel; next++) {
+        const before = this.hourlyIncome(this.getStats(state, archetype, data, { [upgrade.id]: next - 1 }), archetype, data);
+        const after = this.hourlyIncome(this.getStats(state, archetype, data, { [upgrade.id]: next }), archetype, data);
+        const gain = after - before;
+        if (gain <= 0 || this.upgradeStorage.calculateCost(upgrade, next - 1) / gain > paybackLimitHours) break;
+        worthUntilLevel = next;
+      }
+      return { upgradeId: upgrade.id, level, maxLevel: upgrade.maxLevel, worthUntilLevel };
+    });
+  }
+
+  /**
+   * Average LP per hour for an archetype's daily routine with the given stats:
+   * passive income claimed per session (capped) plus taps limited by energy regenerated between sessions.
+   */
+  private hourlyIncome(stats: StatValues, archetype: Archetype, data: SimulationData): number {
+    const hours = archetype.sessionHours;
+    if (hours.length === 0) return 0;
+
+    let passive = 0;
+    let taps = 0;
+    hours.forEach((hour, i) => {
+      const gap = i === 0 ? hours[0] + 24 - hours[hours.length - 1] : hour - hours[i - 1];
+      passive += stats.lpPerHour * Math.min(gap, stats.offlineCapMinutes / 60);
+      taps += Math.min(archetype.tapsPerSession, stats.maxEnergy, stats.energyRegen * gap * 3600);
+    });
+
+    return (passive + taps * this.tapValue(stats, data)) / 24;
+  }
+
+  // Expected LP per tap including crits
+  private tapValue(stats: StatValues, data: SimulationData): number {
+    const critMultiplier = data.settings.critMultiplier ?? 2;
+    return stats.lpPerTap * (1 + stats.critChance * (critMultiplier - 1));
+  }
+
+  // base → upgrades → VIP, as StatService does without boosters (VIP offline multiplier as in OfflineIncomeService)
+  private getStats(state: PlayerState, archetype: Archetype, data: SimulationData, levelOverrides: Record<string, number> = {}): StatValues {
+    const userUpgrades = state.userUpgrades
+      .filter(u => !(u.upgradeId in levelOverrides))
+      .concat(Object.entries(levelOverrides).map(([upgradeId, level]) => ({ upgradeId, level })));
+    const stats = this.upgradeStorage.composeStats(data.base, data.upgrades, userUpgrades);
+
+    const tier = archetype.vipTier ? vipTiers[archetype.vipTier as keyof typeof vipTiers] : undefined;
+    if (tier) {
+      stats.lpPerTap *= tier.lpMultiplier;
+      stats.lpPerHour *= tier.offlineMultiplier;
+    }
+    stats.critChance = Math.min(0.75, Math.max(0, stats.critChance));
+    return stats;
+  }
+
+  // Unlock context for the simulated player (no achievements or character bonds)
+  private unlockContext(state: PlayerState, archetype: Archetype, data: SimulationData): UnlockContext {
+    return {
+      user: { level: state.level, lp: state.lp } as User,
+      allUpgrades: data.upgrades,
+      userUpgrades: state.userUpgrades,
+      completedAchievements: new Set(),
+      achievementNames: new Map(),
+      bondLevels: new Map(),
+      characterNames: new Map(),
+      vipRank: archetype.vipTier ? Object.keys(vipTiers).indexOf(archetype.vipTier) : -1,
+      activeEvents: data.settings.activeEvents || []
+    };
+  }
+
+  private getLevel(state: PlayerState, upgradeId: string): number {
+    return state.userUpgrades.find(u => u.upgradeId === upgradeId)?.level || 0;
+  }
+
+  private setLevel(state: PlayerState, upgradeId: string, level: number) {
+    const existing = state.userUpgrades.find(u => u.upgradeId === upgradeId);
+    if (existing) existing.level = level;
+    else state.userUpgrades.push({ upgradeId, level });
+  }
+
+  private earn(state: PlayerState, amount: number) {
+    state.lp += amount;
+    state.totalEarned += amount;
+  }
+
+  private rewardLp(rewards: RewardDefinition[]): number {
+    return rewards.filter(r => r.type === 'lp').reduce((sum, r) => sum + (Number(r.amount) || 0), 0);
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
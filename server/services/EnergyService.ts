@@ -0,0 +1,110 @@
+import { SupabaseStorage } from "../../shared/SupabaseStorage";
+import { FileStorage } from "../../shared/FileStorage";
+import type { User } from "../../shared/schema";
+import { BoosterService, BOOSTER_TYPES } from "./BoosterService";
+import { StatService } from "./StatService";
+
+export interface EnergyState {
+  energy: number; // Whole energy available right now
+  maxEnergy: number;
+  regenPerSecond: number; // Settings rate + regen upgrades, before boosters
+  boostMultiplier: number; // Active energy_regen boosters right now (1 = none)
+  energyUpdatedAt: Date; // Anchor to persist with `energy` so partial regen progress carries over
+  secondsToFull: number;
+}
+
+/**
+ * Lazy energy regeneration. Only `energy` and `energyUpdatedAt` are stored; the current value
+ * is derived on read from elapsed time, the energyRegen stat (GameSettings.energyRegenRate + upgrades)
+ * and any energy_regen boosters that overlapped the elapsed window. No timers, no background writes.
+ */
+export class EnergyService {
+  private static instance: EnergyService;
+  private storage = SupabaseStorage.getInstance();
+  private files = FileStorage.getInstance();
+  private stats = StatService.getInstance();
+  private boosters = BoosterService.getInstance();
+
+  static getInstance() {
+    if (!EnergyService.instance) EnergyService.instance = new EnergyService();
+    return EnergyService.instance;
+  }
+
+  // Settings rate + energyRegen upgrades (the `upgrades` stage - boosters are integrated in getState)
+  async getRegenPerSecond(user: User): Promise<number> {
+    try {
+      const stats = await this.stats.getUpgradeStats(user);
+      return Math.max(0, stats.energyRegen);
+    } catch (error) {
+      console.log(`⚠️ [ENERGY] Could not get regen stats for ${user.id}:`, error);
+      const settings = await this.files.getGameSettings();
+      return Math.max(0, settings.energyRegenRate ?? 1);
+    }
+  }
+
+  async getState(user: User, now = Date.now()): Promise<EnergyState> {
+    const maxEnergy = user.maxEnergy || 1000;
+    const stored = Math.max(0, user.energy || 0);
+    const anchor = user.energyUpdatedAt ? new Date(user.energyUpdatedAt).getTime() : now;
+    const from = Math.min(anchor, now);
+
+    const regenPerSecond = await this.getRegenPerSecond(user);
+    const boosters = await this.boosters.getWindows(user.id, BOOSTER_TYPES.energyRegen, from, now);
+    const boostMultiplier = BoosterService.multiplierAt(boosters, now);
+
+    // Already full (or over-full from a reward): nothing regenerates, anchor resets
+    if (stored >= maxEnergy) {
+      return { energy: stored, maxEnergy, regenPerSecond, boostMultiplier, energyUpdatedAt: new Date(now), secondsToFull: 0 };
+    }
+
+    // Base regen over the whole window plus the extra from each booster's overlap
+    const regenerated = regenPerSecond * (now - from + BoosterService.bonusMs(boosters, from, now)) / 1000;
+
+    const raw = stored + regenerated;
+    if (raw >= maxEnergy) {
+      return { energy: maxEnergy, maxEnergy, regenPerSecond, boostMultiplier, energyUpdatedAt: new Date(now), secondsToFull: 0 };
+    }
+
+    const energy = Math.floor(raw);
+    const currentRate = regenPerSecond * boostMultiplier;
+    const carryMs = currentRate > 0 ? ((raw - energy) / currentRate) * 1000 : 0;
+    const secondsToFull = currentRate > 0 ? Math.ceil((maxEnergy - raw) / currentRate) : Infinity;
+
+    return {
+      energy,
+      maxEnergy,
+      regenPerSecond,
+      boostMultiplier,
+      energyUpdatedAt: new Date(now - carryMs),
+      secondsToFull
+    };
+  }
+
+  /**
+   * Columns to write when changing energy. Keeps the partial-regen carry unless the
+   * user was full, in which case regeneration starts from now.
+   */
+  toUpdate(state: EnergyState, newEnergy: number, now = Date.now()): { energy: number; energyUpdatedAt: Date } {
+    const energy = Math.max(0, Math.floor(newEnergy));
+    const energyUpdatedAt = state.energy >= state.maxEnergy ? new Date(now) : state.energyUpdatedAt;
+    return { energy, energyUpdatedAt };
+  }
+
+  // Returns the user with `energy` replaced by the regenerated value (read-only, no write)
+  async withCurrentEnergy<T extends User>(user: T, now = Date.now()): Promise<T> {
+    const state = await this.getState(user, now);
+    return { ...user, energy: state.energy };
+  }
+
+  // Persists the regenerated value; used by /api/energy/regen
+  async sync(userId: string): Promise<{ user?: User; state: EnergyState }> {
+    const user = await this.storage.getUser(userId);
+    if (!user) throw new Error('User not found');
+
+    const state = await this.getState(user);
+    if (state.energy === user.energy) return { user, state };
+
+    const updated = await this.storage.updateUser(userId, this.toUpdate(state, state.energy));
+    return { user: updated, state };
+  }
+}
@@ -0,0 +1,441 @@
+import { SupabaseStorage } from "../../shared/SupabaseStorage";
+import { FileStorage } from "../../shared/FileStorage";
+import type { FriendGift, FriendGiftItem, Friendship, GameSettings, RewardDefinition, User } from "../../shared/schema";
+import { RewardService, type GrantedReward } from "./RewardService";
+import { LoginStreakService } from "./LoginStreakService";
+import { ReferralService } from "./ReferralService";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_MAX_FRIENDS = 50;
+const DEFAULT_MAX_ENERGY_GIFT = 100;
+
+type FriendshipStatus = 'pending' | 'accepted' | 'declined';
+
+export type FriendTarget = { username: string } | { code: string };
+
+export type GiftRequest = { type: 'energy'; amount: number } | { type: 'item'; itemId: string };
+
+interface Profile {
+  id: string;
+  username: string;
+  displayPicture: string | null;
+  level: number;
+  selectedCharacterId: string | null;
+}
+
+export interface FriendView {
+  userId: string;
+  username: string;
+  displayPicture: string | null;
+  level: number;
+  selectedCharacter: { id: string; name: string; imageUrl: string | null } | null;
+  source: string;
+  since: string;
+  giftSentToday: boolean;
+}
+
+export interface FriendRequestView {
+  id: string;
+  userId: string; // The other player
+  username: string;
+  displayPicture: string | null;
+  level: number;
+  createdAt: string;
+}
+
+export interface FriendsView {
+  friends: FriendView[];
+  incoming: FriendRequestView[];
+  outgoing: FriendRequestView[];
+  maxFriends: number;
+  gifts: { maxEnergy: number; items: FriendGiftItem[]; nextResetAt: string };
+}
+
+export interface PendingGiftView {
+  id: string;
+  from: { userId: string; username: string; displayPicture: string | null };
+  kind: string;
+  rewards: RewardDefinition[];
+  sentAt: string;
+}
+
+export interface FriendResult {
+  success: boolean;
+  reason?: string;
+  friendship?: Friendship;
+}
+
+export interface GiftResult {
+  success: boolean;
+  reason?: string;
+  gift?: FriendGift;
+  granted?: GrantedReward[];
+  newStats?: { lp: number; energy: number; charisma: number };
+}
+
+/**
+ * Friends and daily gifts. A friendship is one row per pair (pairKey = sorted ids) that starts as a
+ * request and is accepted or declined by the other player; a request to someone who already asked
+ * you accepts theirs, and a referral code of someone you are linked to by a referral is accepted
+ * straight away.
+ *
+ * Friends can send each other one gift per reset window (GameSettings.dailyBonusHour): a capped
+ * amount of energy or one of friends.giftItems. Gifts wait in the recipient's pending list and are
+ * granted through RewardService when claimed - the claim is marked first and undone if the grant fails.
+ */
+export class FriendService {
+  private static instance: FriendService;
+  private storage = SupabaseStorage.getInstance();
+  private files = FileStorage.getInstance();
+  private rewards = RewardService.getInstance();
+  private streaks = LoginStreakService.getInstance();
+  private referrals = ReferralService.getInstance();
+
+  static getInstance() {
+    if (!FriendService.instance) FriendService.instance = new FriendService();
+    return FriendService.instance;
+  }
+
+  pairKey(a: string, b: string): string {
+    return [a, b].sort().join(':');
+  }
+
+  async sendRequest(user: User, target: FriendTarget): Promise<FriendResult> {
+    const friend = 'username' in target
+      ? await this.storage.getUserByUsername(target.username.trim())
+      : await this.findByCode(target.code);
+    if (!friend) return { success: false, reason: 'Player not found' };
+    if (friend.id === user.id) return { success: false, reason: 'You cannot add yourself' };
+
+    const settings = await this.files.getGameSettings();
+    const existing = await this.getFriendship(user.id, friend.id);
+    if (existing?.status === 'accepted') return { success: false, reason: 'Already friends' };
+    if (existing?.status === 'pending' && existing.requesterId === user.id) return { success: false, reason: 'Friend request already sent' };
+
+    // They asked first - treat this as accepting their request
+    if (existing?.status === 'pending') return this.respond(user, existing.id, true);
+
+    const source = 'code' in target ? 'referral' : 'username';
+    const autoAccept = source === 'referral' && await this.linkedByReferral(user.id, friend.id);
+    if (autoAccept) {
+      const full = await this.checkCapacity(user.id, friend.id, settings);
+      if (full) return { success: false, reason: full };
+    } else if (await this.countFriends(user.id) >= this.maxFriends(settings)) {
+      return { success: false, reason: 'Your friend list is full' };
+    }
+
+    const now = new Date().toISOString();
+    const row = {
+      requesterId: user.id,
+      addresseeId: friend.id,
+      pairKey: this.pairKey(user.id, friend.id),
+      status: (autoAccept ? 'accepted' : 'pending') as FriendshipStatus,
+      source,
+      createdAt: now,
+      respondedAt: autoAccept ? now : null
+    };
+
+    // A declined pair can ask again; the row is reused with the new requester
+    const { data, error } = existing
+      ? await this.storage.supabase.from('friendships').update(row).eq('id', existing.id).eq('status', 'declined').select().maybeSingle()
+      : await this.storage.supabase.from('friendships').insert(row).select().single();
+    if (error) {
+      if (error.code === '23505') return { success: false, reason: 'Friend request already sent' };
+      throw error;
+    }
+    if (!data) return { success: false, reason: 'Friend request already sent' };
+
+    console.log(`👥 [FRIENDS] ${user.id} → ${friend.id}: ${row.status} (${source})`);
+    return { success: true, friendship: data as Friendship };
+  }
+
+  // Only the addressee can answer, and only while the request is pending
+  async respond(user: User, requestId: string, accept: boolean): Promise<FriendResult> {
+    const { data: request, error } = await this.storage.supabase
+      .from('friendships')
+      .select('*')
+      .eq('id', requestId)
+      .maybeSingle();
+    if (error) throw error;
+    if (!request || request.addresseeId !== user.id) return { success: false, reason: 'Friend request not found' };
+    if (request.status !== 'pending') return { success: false, reason: 'Friend request was already answered' };
+
+    if (accept) {
+      const full = await this.checkCapacity(user.id, request.requesterId, await this.files.getGameSettings());
+      if (full) return { success: false, reason: full };
+    }
+
+    const { data, error: updateError } = await this.storage.supabase
+      .from('friendships')
+      .update({ status: accept ? 'accepted' : 'declined', respondedAt: new Date().toISOString() })
+      .eq('id', requestId)
+      .eq('status', 'pending')
+      .select()
+      .maybeSingle();
+    if (updateError) throw updateError;
+    if (!data) return { success: false, reason: 'Friend request was already answered' };
+
+    return { success: true, friendship: data as Friendship };
+  }
+
+  // Unfriends, or cancels a request either side made
+  async remove(user: User, friendId: string): Promise<FriendResult> {
+    const friend = await this.storage.getUser(friendId);
+    const existing = friend ? await this.getFriendship(user.id, friend.id) : null;
+    if (!existing || existing.status === 'declined') return { success: false, reason: 'Friend not found' };
+
+    const { error } = await this.storage.supabase.from('friendships').delete().eq('id', existing.id);
+    if (error) throw error;
+    return { success: true, friendship: existing };
+  }
+
+  async getFriends(user: User, now = Date.now()): Promise<FriendsView> {
+    const settings = await this.files.getGameSettings();
+    const { data, error } = await this.storage.supabase
+      .from('friendships')
+      .select('*')
+      .or(`requesterId.eq.${user.id},addresseeId.eq.${user.id}`)
+      .in('status', ['pending', 'accepted']);
+    if (error) throw error;
+    const rows = (data || []) as Friendship[];
+
+    const otherId = (f: Friendship) => f.requesterId === user.id ? f.addresseeId : f.requesterId;
+    const [profiles, characters, sentToday] = await Promise.all([
+      this.getProfiles(rows.map(otherId)),
+      this.storage.getAllCharacters(),
+      this.getSentGiftRecipients(user.id, this.dayKey(now, settings))
+    ]);
+
+    const requestView = (f: Friendship): FriendRequestView => {
+      const profile = profiles.get(otherId(f));
+      return {
+        id: f.id,
+        userId: otherId(f),
+        username: profile?.username || 'Unknown player',
+        displayPicture: profile?.displayPicture || null,
+        level: profile?.level || 1,
+        createdAt: new Date(f.createdAt).toISOString()
+      };
+    };
+
+    const friends = rows
+      .filter(f => f.status === 'accepted')
+      .map(f => {
+        const id = otherId(f);
+        const profile = profiles.get(id);
+        const character = profile?.selectedCharacterId ? characters.find(c => c.id === profile.selectedCharacterId) : undefined;
+        return {
+          userId: id,
+          username: profile?.username || 'Unknown player',
+          displayPicture: profile?.displayPicture || null,
+          level: profile?.level || 1,
+          selectedCharacter: character ? { id: character.id, name: character.name, imageUrl: character.avatarUrl || character.imageUrl || null } : null,
+          source: f.source,
+          since: new Date(f.respondedAt || f.createdAt).toISOString(),
+          giftSentToday: sentToday.has(id)
+        };
+      })
+      .sort((a, b) => b.level - a.level || a.username.localeCompare(b.username));
+
+    const pending = rows.filter(f => f.status === 'pending');
+    return {
+      friends,
+      incoming: pending.filter(f => f.addresseeId === user.id).map(requestView),
+      outgoing: pending.filter(f => f.requesterId === user.id).map(requestView),
+      maxFriends: this.maxFriends(settings),
+      gifts: {
+        maxEnergy: this.maxEnergyGift(settings),
+        items: settings.friends?.giftItems || [],
+        nextResetAt: new Date(this.nextReset(now, settings)).toISOString()
+      }
+    };
+  }
+
+  async sendGift(user: User, friendId: string, request: GiftRequest, now = Date.now()): Promise<GiftResult> {
+    const friend = await this.storage.getUser(friendId);
+    const friendship = friend ? await this.getFriendship(user.id, friend.id) : null;
+    if (!friend || friendship?.status !== 'accepted') return { success: false, reason: 'Friend not found' };
+
+    const settings = await this.files.getGameSettings();
+    let rewards: RewardDefinition[];
+    if (request.type === 'energy') {
+      const amount = Math.floor(Number(request.amount));
+      const max = this.maxEnergyGift(settings);
+      if (!Number.isFinite(amount) || amount < 1 || amount > max) return { success: false, reason: `Energy gifts must be between 1 and ${max}` };
+      rewards = [{ type: 'energy', amount }];
+    } else if (request.type === 'item') {
+      const item = (settings.friends?.giftItems || []).find(i => i.itemId === request.itemId);
+      if (!item) return { success: false, reason: 'Item cannot be gifted' };
+      rewards = [{ type: 'item', itemId: item.itemId, amount: item.amount || 1 }];
+    } else {
+      return { success: false, reason: 'Unknown gift type' };
+    }
+
+    const { data, error } = await this.storage.supabase
+      .from('friendGifts')
+      .insert({
+        senderId: user.id,
+        recipientId: friend.id,
+        day: this.dayKey(now, settings),
+        kind: request.type,
+        rewards,
+        createdAt: new Date(now).toISOString()
+      })
+      .select()
+      .single();
+    if (error) {
+      if (error.code === '23505') return { success: false, reason: 'You already sent this friend a gift today' };
+      throw error;
+    }
+
+    console.log(`🎁 [FRIENDS] ${user.id} sent ${friend.id} a ${request.type} gift`);
+    return { success: true, gift: data as FriendGift };
+  }
+
+  async getPendingGifts(user: User): Promise<PendingGiftView[]> {
+    const { data, error } = await this.storage.supabase
+      .from('friendGifts')
+      .select('*')
+      .eq('recipientId', user.id)
+      .is('claimedAt', null)
+      .order('createdAt', { ascending: false });
+    if (error) throw error;
+    const gifts = (data || []) as FriendGift[];
+
+    const profiles = await this.getProfiles(gifts.map(g => g.senderId));
+    return gifts.map(gift => {
+      const sender = profiles.get(gift.senderId);
+      return {
+        id: gift.id,
+        from: { userId: gift.senderId, username: sender?.username || 'Unknown player', displayPicture: sender?.displayPicture || null },
+        kind: gift.kind,
+        rewards: (gift.rewards || []) as RewardDefinition[],
+        sentAt: new Date(gift.createdAt).toISOString()
+      };
+    });
+  }
+
+  /**
+   * Claims a pending gift. `userId` is the id the client used (passed on to RewardService). The row is
+   * marked claimed only if it still is unclaimed, so a double click can't grant twice.
+   */
+  async claimGift(userId: string, user: User, giftId: string): Promise<GiftResult> {
+    const { data: marked, error } = await this.storage.supabase
+      .from('friendGifts')
+      .update({ claimedAt: new Date().toISOString() })
+      .eq('id', giftId)
+      .eq('recipientId', user.id)
+      .is('claimedAt', null)
+      .select()
+      .maybeSingle();
+    if (error) throw error;
+    if (!marked) {
+      const { data: existing } = await this.storage.supabase.from('friendGifts').select('id, recipientId').eq('id', giftId).maybeSingle();
+      return existing && existing.recipientId === user.id
+        ? { success: false, reason: 'Gift already claimed' }
+        : { success: false, reason: 'Gift not found' };
+    }
+
+    const gift = marked as FriendGift;
+    try {
+      const { granted, newStats } = await this.rewards.grant(userId, (gift.rewards || []) as RewardDefinition[], {
+        source: 'friend_gift',
+        refId: gift.id,
+        user
+      });
+      return { success: true, gift, granted, newStats };
+    } catch (err) {
+      await this.storage.supabase.from('friendGifts').update({ claimedAt: null }).eq('id', gift.id);
+      throw err;
+    }
+  }
+
+  private maxFriends(settings: GameSettings): number {
+    return Math.max(1, Math.floor(settings.friends?.maxFriends ?? DEFAULT_MAX_FRIENDS));
+  }
+
+  private maxEnergyGift(settings: GameSettings): number {
+    return Math.max(1, Math.floor(settings.friends?.maxEnergyGift ?? DEFAULT_MAX_ENERGY_GIFT));
+  }
+
+  // Gifts share the daily reset window of login streaks
+  private dayKey(now: number, settings: GameSettings): string {
+    return new Date(this.streaks.windowIndex(now, settings) * DAY_MS).toISOString().slice(0, 10);
+  }
+
+  private nextReset(now: number, settings: GameSettings): number {
+    const hour = Math.min(23, Math.max(0, Math.floor(settings.dailyBonusHour ?? 0)));
+    return (this.streaks.windowIndex(now, settings) + 1) * DAY_MS + hour * 60 * 60 * 1000;
+  }
+
+  // Why `userId` can't become friends with `friendId`, or null when both lists have room
+  private async checkCapacity(userId: string, friendId: string, settings: GameSettings): Promise<string | null> {
+    const max = this.maxFriends(settings);
+    const [mine, theirs] = await Promise.all([this.countFriends(userId), this.countFriends(friendId)]);
+    if (mine >= max) return 'Your friend list is full';
+    if (theirs >= max) return 'Their friend list is full';
+    return null;
+  }
+
+  private async countFriends(userId: string): Promise<number> {
+    const { count, error } = await this.storage.supabase
+      .from('friendships')
+      .select('id', { count: 'exact', head: true })
+      .or(`requesterId.eq.${userId},addresseeId.eq.${userId}`)
+      .eq('status', 'accepted');
+    if (error) throw error;
+    return count || 0;
+  }
+
+  private async findByCode(rawCode: string): Promise<User | undefined> {
+    const code = this.referrals.normalizeCode(rawCode);
+    if (!code) return undefined;
+    const { data, error } = await this.storage.supabase
+      .from('users')
+      .select('*')
+      .eq('referralCode', code)
+      .maybeSingle();
+    if (error) throw error;
+    return data || undefined;
+  }
+
+  private async linkedByReferral(a: string, b: string): Promise<boolean> {
+    const { data, error } = await this.storage.supabase
+      .from('referrals')
+      .select('id')
+      .or(`and(referrerId.eq.${a},inviteeId.eq.${b}),and(referrerId.eq.${b},inviteeId.eq.${a})`)
+      .limit(1);
+    if (error) throw error;
+    return (data || []).length > 0;
+  }
+
+  private async getFriendship(a: string, b: string): Promise<Friendship | null> {
+    const { data, error } = await this.storage.supabase
+      .from('friendships')
+      .select('*')
+      .eq('pairKey', this.pairKey(a, b))
+      .maybeSingle();
+    if (error) throw error;
+    return data as Friendship | null;
+  }
+
+  private async getSentGiftRecipients(senderId: string, day: string): Promise<Set<string>> {
+    const { data, error } = await this.storage.supabase
+      .from('friendGifts')
+      .select('recipientId')
+      .eq('senderId', senderId)
+      .eq('day', day);
+    if (error) throw error;
+    return new Set(((data || []) as { recipientId: string }[]).map(r => r.recipientId));
+  }
+
+  private async getProfiles(ids: string[]): Promise<Map<string, Profile>> {
+    if (ids.length === 0) return new Map();
+    const { data, error } = await this.storage.supabase
+      .from('users')
+      .select('id, username, displayPicture, level, selectedCharacterId')
+      .in('id', Array.from(new Set(ids)));
+    if (error) throw error;
+    return new Map(((data || []) as Profile[]).map(p => [p.id, p]));
+  }
+}
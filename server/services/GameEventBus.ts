@@ -0,0 +1,63 @@
+import type { User } from "../../shared/schema";
+import type { LedgerSource } from "./LedgerService";
+
+interface PlayerEventBase {
+  userId: string;
+  user?: User; // Pass when the emitter already has the (updated) user to skip a read
+}
+
+// What the player just did - emitted by the routes/services that did it
+export type PlayerEvent = PlayerEventBase & (
+  | { type: 'tap'; taps: number; lp: number; critTaps: number; energySpent: number }
+  | { type: 'purchase'; upgradeId: string; levels: number; cost: number }
+  | { type: 'spin'; prizeId: string }
+  | { type: 'chat_message'; characterId?: string }
+  | { type: 'level_up'; level: number; previousLevel: number }
+  | { type: 'media_received'; characterId?: string; mediaId?: string }
+  | { type: 'session_start' }
+  | { type: 'lp_earned'; lp: number; source: LedgerSource } // Emitted by LedgerService for every earning source, taps included
+);
+
+export type PlayerEventType = PlayerEvent['type'];
+
+export type PlayerEventHandler = (event: PlayerEvent) => Promise<void> | void;
+
+interface Subscription {
+  name: string;
+  types: PlayerEventType[] | null; // null = every event
+  handler: PlayerEventHandler;
+}
+
+/**
+ * In-process pub/sub for player events. Emitters don't know who listens (achievements, stats, ...);
+ * emit() waits for every handler so progress is written before the response, but never throws -
+ * a failing subscriber must not fail the action that raised the event.
+ */
+export class GameEventBus {
+  private static instance: GameEventBus;
+  private subscriptions: Subscription[] = [];
+
+  static getInstance() {
+    if (!GameEventBus.instance) GameEventBus.instance = new GameEventBus();
+    return GameEventBus.instance;
+  }
+
+  // Returns an unsubscribe function
+  subscribe(name: string, handler: PlayerEventHandler, types: PlayerEventType[] | null = null): () => void {
+    const subscription = { name, types, handler };
+    this.subscriptions.push(subscription);
+    return () => {
+      this.subscriptions = this.subscriptions.filter(s => s !== subscription);
+    };
+  }
+
+  async emit(event: PlayerEvent): Promise<void> {
+    const targets = this.subscriptions.filter(s => !s.types || s.types.includes(event.type));
+    const results = await Promise.allSettled(targets.map(s => s.handler(event)));
+    results.forEach((result, i) => {
+      if (result.status === 'rejected') {
+        console.error(`📣 [EVENTS] ${targets[i].name} failed on ${event.type} for ${event.userId}:`, result.reason);
+      }
+    });
+  }
+}
@@ -0,0 +1,164 @@
+import { SupabaseStorage } from "../../shared/SupabaseStorage";
+import type { GameStats, GameStatsDaily, User } from "../../shared/schema";
+import { GameEventBus, type PlayerEvent } from "./GameEventBus";
+
+export const STAT_COUNTERS = [
+  'totalTaps',
+  'totalLpEarned',
+  'totalEnergyUsed',
+  'sessionsPlayed',
+  'wheelSpins',
+  'chatMessages',
+  'mediaReceived',
+  'upgradesPurchased'
+] as const;
+
+export type StatCounter = typeof STAT_COUNTERS[number];
+export type StatCounters = Record<StatCounter, number>;
+
+export interface LifetimeStats extends StatCounters {
+  playerId: string;
+  lastUpdated: string | null;
+}
+
+export interface DailyStats extends StatCounters {
+  day: string; // YYYY-MM-DD (UTC)
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_HISTORY_DAYS = 365;
+
+// A player load only counts as a new session after this long without tracked activity
+const SESSION_GAP_MS = 30 * 60 * 1000;
+
+// gameStats was created with "sessionPlayed"; every other column matches its counter name
+const LIFETIME_COLUMNS: Record<StatCounter, string> = {
+  totalTaps: 'totalTaps',
+  totalLpEarned: 'totalLpEarned',
+  totalEnergyUsed: 'totalEnergyUsed',
+  sessionsPlayed: 'sessionPlayed',
+  wheelSpins: 'wheelSpins',
+  chatMessages: 'chatMessages',
+  mediaReceived: 'mediaReceived',
+  upgradesPurchased: 'upgradesPurchased'
+};
+
+const emptyCounters = (): StatCounters =>
+  Object.fromEntries(STAT_COUNTERS.map(c => [c, 0])) as StatCounters;
+
+/**
+ * Persistent player statistics. Subscribes to player events (GameEventBus) and adds each one to the
+ * player's lifetime row in gameStats and to that UTC day's row in gameStatsDaily, so history charts
+ * read one row per day instead of replaying activity. Counters are incremented in SQL, so concurrent
+ * events for one player add up instead of overwriting each other.
+ */
+export class GameStatsService {
+  private static instance: GameStatsService;
+  private storage = SupabaseStorage.getInstance();
+  private unsubscribe: (() => void) | null = null;
+
+  static getInstance() {
+    if (!GameStatsService.instance) GameStatsService.instance = new GameStatsService();
+    return GameStatsService.instance;
+  }
+
+  // Starts listening to player events (once)
+  subscribe() {
+    if (this.unsubscribe) return;
+    this.unsubscribe = GameEventBus.getInstance().subscribe('stats', event => this.track(event));
+  }
+
+  async track(event: PlayerEvent, now = Date.now()): Promise<void> {
+    const user = event.user || await this.storage.getUser(event.userId);
+    if (!user) return;
+
+    const lifetime = await this.getRow(user.id);
+    const deltas = this.deltasFor(event, lifetime, now);
+    if (!deltas) return;
+
+    const counters: Partial<StatCounters> = {};
+    for (const counter of STAT_COUNTERS) {
+      const delta = Math.floor(deltas[counter] || 0);
+      if (delta) counters[counter] = delta;
+    }
+
+    const { error } = await this.storage.supabase.rpc('increment_game_stats', {
+      p_user_id: user.id,
+      p_day: this.dayKey(now),
+      p_deltas: counters,
+      p_at: new Date(now).toISOString()
+    });
+    if (error) throw error;
+  }
+
+  async getLifetime(user: User): Promise<LifetimeStats> {
+    const row = await this.getRow(user.id);
+    const counters = emptyCounters();
+    for (const counter of STAT_COUNTERS) counters[counter] = this.lifetimeValue(row, counter);
+    return {
+      playerId: user.id,
+      ...counters,
+      lastUpdated: row?.lastUpdated ? new Date(row.lastUpdated).toISOString() : null
+    };
+  }
+
+  // The last `days` UTC days up to today, oldest first; days without activity are zero
+  async getHistory(user: User, days = 30, now = Date.now()): Promise<DailyStats[]> {
+    const count = Math.min(MAX_HISTORY_DAYS, Math.max(1, Math.floor(days) || 1));
+    const keys = Array.from({ length: count }, (_, i) => this.dayKey(now - (count - 1 - i) * DAY_MS));
+    const rows = await this.getDailyRows(user.id, keys[0], keys[keys.length - 1]);
+
+    return keys.map(day => {
+      const row = rows.get(day);
+      const counters = emptyCounters();
+      if (row) for (const counter of STAT_COUNTERS) counters[counter] = row[counter] || 0;
+      return { day, ...counters };
+    });
+  }
+
+  private deltasFor(event: PlayerEvent, lifetime: GameStats | null, now: number): Partial<StatCounters> | null {
+    switch (event.type) {
+      case 'tap': return { totalTaps: event.taps, totalEnergyUsed: event.energySpent };
+      case 'lp_earned': return { totalLpEarned: event.lp };
+      case 'purchase': return { upgradesPurchased: event.levels };
+      case 'spin': return { wheelSpins: 1 };
+      case 'chat_message': return { chatMessages: 1 };
+      case 'media_received': return { mediaReceived: 1 };
+      case 'session_start': {
+        const last = lifetime?.lastUpdated ? new Date(lifetime.lastUpdated).getTime() : 0;
+        return now - last >= SESSION_GAP_MS ? { sessionsPlayed: 1 } : null;
+      }
+      default: return null;
+    }
+  }
+
+  private lifetimeValue(row: GameStats | null, counter: StatCounter): number {
+    return Number((row as Record<string, unknown> | null)?.[LIFETIME_COLUMNS[counter]]) || 0;
+  }
+
+  private dayKey(at: number): string {
+    return new Date(at).toISOString().slice(0, 10);
+  }
+
+  private async getRow(userId: string): Promise<GameStats | null> {
+    const { data, error } = await this.storage.supabase
+      .from('gameStats')
+      .select('*')
+      .eq('userId', userId)
+      .maybeSingle();
+    if (error) throw error;
+    return data as GameStats | null;
+  }
+
+  // Day keys sort as text, so a range is a plain string comparison
+  private async getDailyRows(userId: string, from: string, to: string): Promise<Map<string, GameStatsDaily>> {
+    const { data, error } = await this.storage.supabase
+      .from('gameStatsDaily')
+      .select('*')
+      .eq('userId', userId)
+      .gte('day', from)
+      .lte('day', to);
+    if (error) throw error;
+    return new Map(((data || []) as GameStatsDaily[]).map(row => [row.day, row]));
+  }
+}
@@ -0,0 +1,496 @@
+import { SupabaseStorage } from "../../shared/SupabaseStorage";
+import { FileStorage } from "../../shared/FileStorage";
+import type { GameSettings, LeaderboardEntry, LeaderboardRewardTier, User } from "../../shared/schema";
+import { RewardService } from "./RewardService";
+import { fetchAllPages } from "../utils/helpers";
+
+export type LeaderboardWindow = 'global' | 'weekly';
+
+export interface LeaderboardDefinition {
+  id: string;
+  name: string;
+  description: string;
+  unit: string;
+  windows: LeaderboardWindow[];
+  perCharacter?: boolean; // One board per character (?characterId=)
+}
+
+export interface LeaderboardRow {
+  rank: number;
+  userId: string;
+  score: number;
+  username: string;
+  displayPicture: string | null;
+  level: number;
+  isMe: boolean;
+}
+
+export interface LeaderboardView {
+  board: string;
+  characterId?: string;
+  window: LeaderboardWindow;
+  period: string; // global or the ISO week shown
+  season: { period: string; startsAt: string; endsAt: string; closed: boolean; rewards: LeaderboardRewardTier[] } | null;
+  updatedAt: string | null; // When the snapshot was taken
+  totalPlayers: number;
+  entries: LeaderboardRow[];
+  me: LeaderboardRow | null; // The player's own row, even outside the top entries
+  around: LeaderboardRow[]; // Rows next to the player's when they are outside the top entries
+}
+
+export interface LeaderboardResult {
+  success: boolean;
+  reason?: string;
+  leaderboard?: LeaderboardView;
+}
+
+export interface LeaderboardSnapshotResult {
+  board: string;
+  period: string;
+  entries: number;
+}
+
+export interface SeasonCloseResult {
+  board: string;
+  period: string;
+  closed: boolean; // false when it was already closed
+  rewarded: number;
+  failed: number;
+}
+
+interface ScoreRow {
+  userId: string;
+  score: number;
+  tiebreak?: number; // Orders equal scores (xp on the level board); equal both = shared rank
+}
+
+export const LEADERBOARDS: LeaderboardDefinition[] = [
+  { id: 'lp', name: 'LP Earned', description: 'Lifetime LP earned, or LP earned this week', unit: 'LP', windows: ['global', 'weekly'] },
+  { id: 'taps', name: 'Taps', description: 'Lifetime taps, or taps this week', unit: 'taps', windows: ['global', 'weekly'] },
+  { id: 'level', name: 'Level', description: 'Player level (ties go to the most XP)', unit: 'level', windows: ['global'] },
+  { id: 'bond', name: 'Bond', description: 'Bond level with a character (ties go to the most affection)', unit: 'bond level', windows: ['global'], perCharacter: true }
+];
+
+// gameStats/gameStatsDaily column behind each counter board (totalLpEarned counts every earning ledger source)
+const COUNTER_COLUMNS: Record<string, string> = { lp: 'totalLpEarned', taps: 'totalTaps' };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_REFRESH_MINUTES = 5;
+const DEFAULT_SIZE = 100;
+const AROUND = 2; // Rows shown on each side of the player
+const WRITE_CHUNK = 500;
+const PERIOD_PATTERN = /^\d{4}-W\d{2}$/;
+
+/**
+ * Leaderboards read from rank snapshots in leaderboardEntries rather than ranking gameStats/users on
+ * every request. A job rebuilds the snapshots every few minutes (global boards and the current weekly
+ * season) and closes the seasons of ended weeks: their final ranks are kept and the top ranks get
+ * the rewards from GameSettings.leaderboards.weeklyRewards.
+ *
+ * Weekly seasons are ISO weeks (Monday 00:00 UTC), summed from the gameStatsDaily rollups.
+ */
+export class LeaderboardService {
+  private static instance: LeaderboardService;
+  private storage = SupabaseStorage.getInstance();
+  private files = FileStorage.getInstance();
+  private rewards = RewardService.getInstance();
+  private jobTimer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  static getInstance() {
+    if (!LeaderboardService.instance) LeaderboardService.instance = new LeaderboardService();
+    return LeaderboardService.instance;
+  }
+
+  async getBoards(): Promise<(LeaderboardDefinition & { characters?: { id: string; name: string }[] })[]> {
+    const characters = await this.storage.getAllCharacters();
+    return LEADERBOARDS.map(def => def.perCharacter
+      ? { ...def, characters: characters.map(c => ({ id: c.id, name: c.name })) }
+      : def);
+  }
+
+  async getLeaderboard(boardId: string, window: LeaderboardWindow, opts: { user?: User | null; characterId?: string; period?: string; now?: number } = {}): Promise<LeaderboardResult> {
+    const def = LEADERBOARDS.find(b => b.id === boardId);
+    if (!def) return { success: false, reason: 'Leaderboard not found' };
+    if (!def.windows.includes(window)) return { success: false, reason: `${def.name} has no ${window} window` };
+    if (def.perCharacter && !opts.characterId) return { success: false, reason: 'characterId is required' };
+    if (opts.period && !PERIOD_PATTERN.test(opts.period)) return { success: false, reason: 'Invalid period' };
+
+    const board = def.perCharacter ? `${def.id}:${opts.characterId}` : def.id;
+    const now = opts.now ?? Date.now();
+    const period = window === 'weekly' ? (opts.period || this.weekKey(now)) : 'global';
+    const settings = await this.files.getGameSettings();
+    const size = Math.max(1, Math.floor(settings.leaderboards?.size ?? DEFAULT_SIZE));
+
+    const [top, me, totalPlayers, season] = await Promise.all([
+      this.getEntries(board, period, 1, size),
+      opts.user ? this.getEntry(board, period, opts.user.id) : Promise.resolve(null),
+      this.countEntries(board, period),
+      window === 'weekly' ? this.getSeasonInfo(def.id, period, settings) : Promise.resolve(null)
+    ]);
+    const around = me && me.rank > size
+      ? await this.getEntries(board, period, me.rank - AROUND, me.rank + AROUND)
+      : [];
+
+    const profiles = await this.getProfiles([...top, ...around, ...(me ? [me] : [])].map(e => e.userId));
+    const toRow = (entry: LeaderboardEntry): LeaderboardRow => {
+      const profile = profiles.get(entry.userId);
+      return {
+        rank: entry.rank,
+        userId: entry.userId,
+        score: entry.score,
+        username: profile?.username || 'Player',
+        displayPicture: profile?.displayPicture || null,
+        level: profile?.level || 1,
+        isMe: entry.userId === opts.user?.id
+      };
+    };
+
+    return {
+      success: true,
+      leaderboard: {
+        board: def.id,
+        ...(def.perCharacter ? { characterId: opts.characterId } : {}),
+        window,
+        period,
+        season,
+        updatedAt: top[0]?.updatedAt ? new Date(top[0].updatedAt).toISOString() : null,
+        totalPlayers,
+        entries: top.map(toRow),
+        me: me ? toRow(me) : null,
+        around: around.map(toRow)
+      }
+    };
+  }
+
+  // Rebuilds every global board and the current weekly season
+  async refresh(now = Date.now()): Promise<LeaderboardSnapshotResult[]> {
+    const week = this.weekKey(now);
+    const results: LeaderboardSnapshotResult[] = [];
+
+    for (const board of Object.keys(COUNTER_COLUMNS)) {
+      results.push(await this.writeSnapshot(board, 'global', await this.getCounterScores(board)));
+      results.push(await this.writeSnapshot(board, week, await this.getWeeklyScores(board, week)));
+    }
+    results.push(await this.writeSnapshot('level', 'global', await this.getLevelScores()));
+    for (const [characterId, scores] of Array.from(await this.getBondScores())) {
+      results.push(await this.writeSnapshot(`bond:${characterId}`, 'global', scores));
+    }
+    return results;
+  }
+
+  /**
+   * Closes every ended season of each weekly board, from the last one closed up to last week, so weeks
+   * that ended while the job wasn't running are still closed and paid: takes the final snapshot, records
+   * the season and grants the rank rewards. Safe to run repeatedly - the season row is only inserted once
+   * and each entry is marked rewarded before its grant (and un-marked if the grant fails, to retry next run).
+   */
+  async closeSeasons(now = Date.now()): Promise<SeasonCloseResult[]> {
+    const previous = this.weekKey(now - 7 * DAY_MS);
+    const settings = await this.files.getGameSettings();
+    const results: SeasonCloseResult[] = [];
+
+    for (const board of Object.keys(COUNTER_COLUMNS)) {
+      const { data: last, error } = await this.storage.supabase
+        .from('leaderboardSeasons')
+        .select('period')
+        .eq('board', board)
+        .order('period', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (error) throw error;
+
+      // The last closed season is revisited so its failed rewards are retried; a board never closed starts at last week
+      for (const period of last ? this.weeksBetween(last.period, previous) : [previous]) {
+        results.push(await this.closeSeason(board, period, settings));
+      }
+    }
+    return results;
+  }
+
+  startJob(intervalMs?: number) {
+    if (this.jobTimer) return;
+    const run = async () => {
+      if (this.running) return;
+      this.running = true;
+      try {
+        const seasons = await this.closeSeasons();
+        const snapshots = await this.refresh();
+        const rewarded = seasons.reduce((sum, s) => sum + s.rewarded, 0);
+        console.log(`🏅 [LEADERBOARD] Refreshed ${snapshots.length} boards${rewarded ? `, ${rewarded} season rewards granted` : ''}`);
+      } catch (err) {
+        console.error('🏅 [LEADERBOARD] Snapshot job failed:', err);
+      } finally {
+        this.running = false;
+      }
+    };
+
+    void this.files.getGameSettings().then(settings => {
+      if (this.jobTimer) return;
+      const minutes = Math.max(1, settings.leaderboards?.refreshMinutes ?? DEFAULT_REFRESH_MINUTES);
+      this.jobTimer = setInterval(run, intervalMs ?? minutes * 60 * 1000);
+      void run();
+    });
+  }
+
+  stopJob() {
+    if (this.jobTimer) {
+      clearInterval(this.jobTimer);
+      this.jobTimer = null;
+    }
+  }
+
+  // ISO week of `at` (weeks start Monday 00:00 UTC), e.g. 2026-W42. The week's Thursday decides its year
+  weekKey(at: number): string {
+    const date = new Date(at);
+    const monday = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()) - ((date.getUTCDay() + 6) % 7) * DAY_MS;
+    const year = new Date(monday + 3 * DAY_MS).getUTCFullYear();
+    const week = 1 + Math.round((monday - this.firstMonday(year)) / (7 * DAY_MS));
+    return `${year}-W${String(week).padStart(2, '0')}`;
+  }
+
+  // Monday 00:00 UTC of an ISO week and the Monday after
+  weekRange(period: string): { startsAt: number; endsAt: number } {
+    const [year, week] = period.split('-W').map(Number);
+    const startsAt = this.firstMonday(year) + (week - 1) * 7 * DAY_MS;
+    return { startsAt, endsAt: startsAt + 7 * DAY_MS };
+  }
+
+  // Monday of ISO week 1 (the week holding January 4th)
+  private firstMonday(year: number): number {
+    const jan4 = Date.UTC(year, 0, 4);
+    return jan4 - ((new Date(jan4).getUTCDay() + 6) % 7) * DAY_MS;
+  }
+
+  private async closeSeason(board: string, period: string, settings: GameSettings): Promise<SeasonCloseResult> {
+    const { data: existing, error } = await this.storage.supabase
+      .from('leaderboardSeasons')
+      .select('id')
+      .eq('board', board)
+      .eq('period', period)
+      .maybeSingle();
+    if (error) throw error;
+
+    let closed = false;
+    if (!existing) {
+      const snapshot = await this.writeSnapshot(board, period, await this.getWeeklyScores(board, period));
+      const { error: insertError } = await this.storage.supabase
+        .from('leaderboardSeasons')
+        .insert({ board, period, entries: snapshot.entries });
+      if (insertError && insertError.code !== '23505') throw insertError;
+      closed = !insertError;
+      if (closed) console.log(`🏅 [LEADERBOARD] Closed ${board} season ${period} (${snapshot.entries} players)`);
+    }
+
+    const { rewarded, failed } = await this.rewardSeason(board, period, settings);
+    return { board, period, closed, rewarded, failed };
+  }
+
+  // ISO weeks from `from` to `to`, both included (empty when `from` is later)
+  private weeksBetween(from: string, to: string): string[] {
+    const weeks: string[] = [];
+    for (let at = this.weekRange(from).startsAt; this.weekKey(at) <= to; at += 7 * DAY_MS) {
+      weeks.push(this.weekKey(at));
+    }
+    return weeks;
+  }
+
+  private async rewardSeason(board: string, period: string, settings: GameSettings): Promise<{ rewarded: number; failed: number }> {
+    const tiers = settings.leaderboards?.weeklyRewards?.[board] || [];
+    const maxRank = Math.max(0, ...tiers.map(t => t.toRank));
+    if (maxRank === 0) return { rewarded: 0, failed: 0 };
+
+    const { data, error } = await this.storage.supabase
+      .from('leaderboardEntries')
+      .select('*')
+      .eq('board', board)
+      .eq('period', period)
+      .lte('rank', maxRank)
+      .is('rewardedAt', null)
+      .order('rank', { ascending: true });
+    if (error) throw error;
+
+    let rewarded = 0;
+    let failed = 0;
+    for (const entry of (data || []) as LeaderboardEntry[]) {
+      const tier = tiers.find(t => entry.rank >= t.fromRank && entry.rank <= t.toRank);
+      if (!tier || tier.rewards.length === 0) continue;
+
+      const { data: marked, error: markError } = await this.storage.supabase
+        .from('leaderboardEntries')
+        .update({ rewardedAt: new Date().toISOString() })
+        .eq('id', entry.id)
+        .is('rewardedAt', null)
+        .select('id');
+      if (markError) throw markError;
+      if (!marked || marked.length === 0) continue;
+
+      try {
+        await this.rewards.grant(entry.userId, tier.rewards, { source: 'leaderboard_reward', refId: `${board}:${period}:${entry.rank}` });
+        rewarded++;
+      } catch (err) {
+        failed++;
+        console.error(`🏅 [LEADERBOARD] Reward for ${entry.userId} (${board} ${period} #${entry.rank}) failed:`, err);
+        await this.storage.supabase
+          .from('leaderboardEntries')
+          .update({ rewardedAt: null })
+          .eq('id', entry.id);
+      }
+    }
+    return { rewarded, failed };
+  }
+
+  // Ranks the scores and replaces the board's snapshot; rows not rewritten (players who dropped out) are removed
+  private async writeSnapshot(board: string, period: string, scores: ScoreRow[]): Promise<LeaderboardSnapshotResult> {
+    const sorted = scores
+      .filter(s => s.score > 0)
+      .sort((a, b) => b.score - a.score || (b.tiebreak ?? 0) - (a.tiebreak ?? 0));
+    const updatedAt = new Date().toISOString();
+
+    let rank = 0;
+    const rows = sorted.map((s, i) => {
+      const prev = sorted[i - 1];
+      if (!prev || prev.score !== s.score || (prev.tiebreak ?? 0) !== (s.tiebreak ?? 0)) rank = i + 1;
+      return { board, period, userId: s.userId, score: s.score, rank, updatedAt };
+    });
+
+    for (let i = 0; i < rows.length; i += WRITE_CHUNK) {
+      const { error } = await this.storage.supabase
+        .from('leaderboardEntries')
+        .upsert(rows.slice(i, i + WRITE_CHUNK), { onConflict: 'board,period,userId' });
+      if (error) throw error;
+    }
+
+    const { error } = await this.storage.supabase
+      .from('leaderboardEntries')
+      .delete()
+      .eq('board', board)
+      .eq('period', period)
+      .lt('updatedAt', updatedAt);
+    if (error) throw error;
+
+    return { board, period, entries: rows.length };
+  }
+
+  private async getCounterScores(board: string): Promise<ScoreRow[]> {
+    const column = COUNTER_COLUMNS[board];
+    const rows = await fetchAllPages<Record<string, any>>((from, to) => this.storage.supabase
+      .from('gameStats')
+      .select(`userId, ${column}`)
+      .gt(column, 0)
+      .order('userId')
+      .range(from, to));
+    return rows.map(r => ({ userId: String(r.userId), score: Number(r[column]) || 0 }));
+  }
+
+  private async getWeeklyScores(board: string, period: string): Promise<ScoreRow[]> {
+    const column = COUNTER_COLUMNS[board];
+    const { startsAt, endsAt } = this.weekRange(period);
+    const firstDay = new Date(startsAt).toISOString().slice(0, 10);
+    const lastDay = new Date(endsAt - DAY_MS).toISOString().slice(0, 10);
+
+    const rows = await fetchAllPages<Record<string, any>>((from, to) => this.storage.supabase
+      .from('gameStatsDaily')
+      .select(`userId, ${column}`)
+      .gte('day', firstDay)
+      .lte('day', lastDay)
+      .gt(column, 0)
+      .order('id')
+      .range(from, to));
+
+    const totals = new Map<string, number>();
+    for (const r of rows) totals.set(r.userId, (totals.get(r.userId) || 0) + (Number(r[column]) || 0));
+    return Array.from(totals, ([userId, score]) => ({ userId, score }));
+  }
+
+  private async getLevelScores(): Promise<ScoreRow[]> {
+    const rows = await fetchAllPages<{ id: string; level: number; xp: number }>((from, to) => this.storage.supabase
+      .from('users')
+      .select('id, level, xp')
+      .order('id')
+      .range(from, to));
+    return rows.map(r => ({ userId: r.id, score: r.level || 1, tiebreak: r.xp || 0 }));
+  }
+
+  // One score list per character, from a single pass over userCharacters
+  private async getBondScores(): Promise<Map<string, ScoreRow[]>> {
+    const rows = await fetchAllPages<{ userId: string; characterId: string; bondLevel: number; affection: number }>((from, to) => this.storage.supabase
+      .from('userCharacters')
+      .select('userId, characterId, bondLevel, affection')
+      .order('id')
+      .range(from, to));
+
+    const boards = new Map<string, ScoreRow[]>();
+    for (const r of rows) {
+      const list = boards.get(r.characterId) || [];
+      list.push({ userId: r.userId, score: r.bondLevel || 0, tiebreak: r.affection || 0 });
+      boards.set(r.characterId, list);
+    }
+    return boards;
+  }
+
+  private async getSeasonInfo(board: string, period: string, settings: GameSettings): Promise<LeaderboardView['season']> {
+    const { startsAt, endsAt } = this.weekRange(period);
+    const { data, error } = await this.storage.supabase
+      .from('leaderboardSeasons')
+      .select('id')
+      .eq('board', board)
+      .eq('period', period)
+      .maybeSingle();
+    if (error) throw error;
+    return {
+      period,
+      startsAt: new Date(startsAt).toISOString(),
+      endsAt: new Date(endsAt).toISOString(),
+      closed: !!data,
+      rewards: settings.leaderboards?.weeklyRewards?.[board] || []
+    };
+  }
+
+  private async getEntries(board: string, period: string, fromRank: number, toRank: number): Promise<LeaderboardEntry[]> {
+    const { data, error } = await this.storage.supabase
+      .from('leaderboardEntries')
+      .select('*')
+      .eq('board', board)
+      .eq('period', period)
+      .gte('rank', fromRank)
+      .lte('rank', toRank)
+      .order('rank', { ascending: true })
+      .order('userId', { ascending: true });
+    if (error) throw error;
+    return (data || []) as LeaderboardEntry[];
+  }
+
+  private async getEntry(board: string, period: string, userId: string): Promise<LeaderboardEntry | null> {
+    const { data, error } = await this.storage.supabase
+      .from('leaderboardEntries')
+      .select('*')
+      .eq('board', board)
+      .eq('period', period)
+      .eq('userId', userId)
+      .maybeSingle();
+    if (error) throw error;
+    return data as LeaderboardEntry | null;
+  }
+
+  private async countEntries(board: string, period: string): Promise<number> {
+    const { count, error } = await this.storage.supabase
+      .from('leaderboardEntries')
+      .select('id', { count: 'exact', head: true })
+      .eq('board', board)
+      .eq('period', period);
+    if (error) throw error;
+    return count || 0;
+  }
+
+  private async getProfiles(userIds: string[]): Promise<Map<string, Pick<User, 'id' | 'username' | 'displayPicture' | 'level'>>> {
+    const ids = Array.from(new Set(userIds));
+    if (ids.length === 0) return new Map();
+    const { data, error } = await this.storage.supabase
+      .from('users')
+      .select('id, username, displayPicture, level')
+      .in('id', ids);
+    if (error) throw error;
+    return new Map((data || []).map(u => [u.id, u]));
+  }
+}
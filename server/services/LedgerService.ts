@@ -0,0 +1,298 @@
+import { SupabaseStorage } from "../../shared/SupabaseStorage";
+import type { User, LpLedgerEntry } from "../../shared/schema";
+import { fetchAllPages } from "../utils/helpers";
+import { GameEventBus } from "./GameEventBus";
+
+export type LedgerSource =
+  | 'tap'
+  | 'reward_claim'
+  | 'upgrade_purchase'
+  | 'upgrade_refund'
+  | 'upgrade_respec'
+  | 'wheel'
+  | 'offline_claim'
+  | 'level_claim'
+  | 'achievement_claim'
+  | 'task_claim'
+  | 'quest_claim'
+  | 'vip_daily_bonus'
+  | 'login_reward'
+  | 'leaderboard_reward'
+  | 'referral_reward'
+  | 'friend_gift'
+  | 'club_reward'
+  | 'bond_level'
+  | 'booster_purchase'
+  | 'booster_refund'
+  | 'admin_adjustment'
+  | 'reconciliation';
+
+// Sources that count as LP earned (stats, club goals, XP seeding) - spends, refunds and corrections don't
+export const EARNING_SOURCES: LedgerSource[] = [
+  'tap', 'reward_claim', 'wheel', 'offline_claim', 'level_claim', 'achievement_claim', 'task_claim', 'quest_claim', 'vip_daily_bonus', 'login_reward', 'leaderboard_reward', 'referral_reward', 'club_reward', 'bond_level'
+];
+
+// Other columns written with the balance. Columns derived from the row (energy, xp, charisma) go in a
+// function: it gets the row each attempt writes against, so a retry doesn't write values from a stale read.
+export type LpUpdates = Partial<User> | ((user: User) => Partial<User> | Promise<Partial<User>>);
+
+export interface LpChange {
+  userId: string;
+  delta: number;
+  source: LedgerSource;
+  refId?: string | number | null;
+  currentLp?: number; // Pass when the caller already loaded the user to skip a read
+  user?: User; // The row the caller read - skips the first read, including for function updates
+  updates?: LpUpdates; // Other columns written in the same update (energy, level, lastTick, ...)
+  expected?: Partial<Record<keyof User, string | number | boolean | null>>; // Values as read - the change is dropped if one moved
+}
+
+export interface LpChangeResult {
+  user?: User;
+  delta: number;
+  balanceBefore: number;
+  balanceAfter: number;
+  conflict?: boolean; // An `expected` column had changed - nothing was written
+}
+
+export interface LedgerReconciliation {
+  userId: string;
+  entries: number;
+  openingBalance: number;
+  ledgerBalance: number; // openingBalance + sum(delta)
+  currentLp: number;
+  drift: number; // currentLp - ledgerBalance
+  chainBreaks: number; // entries whose balanceAfter doesn't follow from the previous entry
+  corrected: boolean;
+}
+
+const RECONCILE_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+const RECONCILE_LOOKBACK_MS = 24 * 60 * 60 * 1000; // Users with ledger activity in the last day
+const DRIFT_EPSILON = 0.0001; // lp is a real column
+const LP_WRITE_ATTEMPTS = 5; // Compare-and-set retries when concurrent writes move the balance
+
+/**
+ * Single write path for LP. Every balance change goes through applyLpChange so it lands
+ * in the append-only lpLedger table together with the resulting balance. Positive changes from an
+ * earning source are also emitted as 'lp_earned' player events.
+ */
+export class LedgerService {
+  private static instance: LedgerService;
+  private storage = SupabaseStorage.getInstance();
+  private reconcileTimer: NodeJS.Timeout | null = null;
+
+  static getInstance() {
+    if (!LedgerService.instance) LedgerService.instance = new LedgerService();
+    return LedgerService.instance;
+  }
+
+  /**
+   * Moves LP by `delta` with a compare-and-set on users.lp: the write only lands if the balance is
+   * still the one it was computed from, otherwise the row is re-read and the change retried. The
+   * ledger records the balance of the row that was actually written.
+   *
+   * `expected` columns must also still hold the given values; when one has moved on, nothing is
+   * written and the result has conflict = true (e.g. two tap batches read the same lastTapAt).
+   * Function `updates` are recomputed from the re-read row on every attempt.
+   */
+  async applyLpChange(change: LpChange): Promise<LpChangeResult> {
+    const delta = Number(change.delta) || 0;
+    const derived = typeof change.updates === 'function';
+    const expected = Object.entries(change.expected || {});
+
+    if (delta === 0 && expected.length === 0) {
+      // No balance to compare on, so function updates are computed from a fresh read right before the write
+      const current = derived ? await this.storage.getUser(change.userId) : undefined;
+      if (derived && !current) throw new Error('User not found');
+      const updates = await this.resolveUpdates(change.updates, current || undefined);
+      const user = Object.keys(updates).length
+        ? await this.storage.updateUser(change.userId, updates)
+        : await this.storage.getUser(change.userId);
+      if (!user) throw new Error('Failed to update user LP');
+      const balance = user.lp || 0;
+      return { user, delta, balanceBefore: balance, balanceAfter: balance };
+    }
+
+    // users.id, or the telegramId behind a telegram_ prefixed id (like SupabaseStorage.updateUser)
+    const [column, value] = change.userId.startsWith('telegram_')
+      ? ['telegramId', change.userId.replace('telegram_', '')]
+      : ['id', change.userId];
+
+    let row = change.user;
+    let balanceBefore = change.currentLp ?? (row ? row.lp || 0 : undefined);
+    for (let attempt = 0; attempt < LP_WRITE_ATTEMPTS; attempt++) {
+      if (balanceBefore === undefined || attempt > 0 || (derived && !row)) {
+        const current = await this.storage.getUser(change.userId);
+        if (!current) throw new Error('User not found');
+        row = current;
+        const balance = current.lp || 0;
+        if (expected.some(([key, value]) => !this.sameValue(current[key as keyof User], value))) {
+          return { user: current, delta: 0, balanceBefore: balance, balanceAfter: balance, conflict: true };
+        }
+        // A spend was checked against the balance the caller read - it still has to be affordable
+        if (attempt > 0 && delta < 0 && change.source !== 'reconciliation' && balance + delta < 0) {
+          throw new Error('Insufficient LP');
+        }
+        balanceBefore = balance;
+      }
+
+      const updates = await this.resolveUpdates(change.updates, row);
+      let query = this.storage.supabase
+        .from('users')
+        .update(delta !== 0 ? { ...updates, lp: balanceBefore + delta } : updates)
+        .eq(column, value);
+      if (delta !== 0) query = query.eq('lp', balanceBefore);
+      for (const [key, expectedValue] of expected) {
+        query = expectedValue === null || expectedValue === undefined ? query.is(key, null) : query.eq(key, expectedValue);
+      }
+
+      const { data, error } = await query.select().maybeSingle();
+      if (error) throw error;
+
+      if (data) {
+        const user = data as User;
+        const balanceAfter = user.lp || 0;
+        if (delta !== 0) await this.record(user.id, delta, balanceAfter, change.source, change.refId);
+        if (delta > 0 && EARNING_SOURCES.includes(change.source)) {
+          await GameEventBus.getInstance().emit({ type: 'lp_earned', userId: user.id, user, lp: delta, source: change.source });
+        }
+        return { user, delta, balanceBefore, balanceAfter };
+      }
+      // Someone else wrote the row since it was read - the next pass re-reads it
+    }
+    throw new Error(`LP for ${change.userId} kept changing, ${change.source} (${delta}) not applied`);
+  }
+
+  // Static updates as given, function updates from `user`; unset values are dropped
+  private async resolveUpdates(updates: LpUpdates | undefined, user: User | undefined): Promise<Partial<User>> {
+    const resolved: Partial<User> = { ...(typeof updates === 'function' ? await updates(user!) : updates || {}) };
+    Object.keys(resolved).forEach(key => {
+      if (resolved[key as keyof User] === undefined || resolved[key as keyof User] === null) delete resolved[key as keyof User];
+    });
+    return resolved;
+  }
+
+  async getEntries(userId: string, opts: { limit?: number; offset?: number; source?: string } = {}): Promise<LpLedgerEntry[]> {
+    const limit = Math.min(Math.max(opts.limit ?? 100, 1), 500);
+    const offset = Math.max(opts.offset ?? 0, 0);
+
+    let query = this.storage.supabase
+      .from('lpLedger')
+      .select('*')
+      .eq('userId', userId)
+      .order('createdAt', { ascending: false })
+      .range(offset, offset + limit - 1);
+    if (opts.source) query = query.eq('source', opts.source);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * Replays a user's ledger and compares the result against users.lp.
+   * The opening balance is inferred from the first entry (balanceAfter - delta), so LP
+   * earned before the ledger existed doesn't count as drift. With apply=true the user's LP
+   * is set back to the ledger balance and the correction is itself recorded.
+   */
+  async reconcileUser(userId: string, apply = false): Promise<LedgerReconciliation> {
+    const user = await this.storage.getUser(userId);
+    if (!user) throw new Error('User not found');
+
+    const entries = await fetchAllPages<{ delta: number; balanceAfter: number }>((from, to) => this.storage.supabase
+      .from('lpLedger')
+      .select('delta, balanceAfter, createdAt')
+      .eq('userId', user.id)
+      .order('createdAt', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, to));
+    const currentLp = user.lp || 0;
+    const openingBalance = entries.length ? entries[0].balanceAfter - entries[0].delta : currentLp;
+
+    let running = openingBalance;
+    let chainBreaks = 0;
+    for (const entry of entries) {
+      running += entry.delta;
+      if (Math.abs(entry.balanceAfter - running) > DRIFT_EPSILON) chainBreaks++;
+    }
+
+    const drift = currentLp - running;
+    const result: LedgerReconciliation = {
+      userId: user.id,
+      entries: entries.length,
+      openingBalance,
+      ledgerBalance: running,
+      currentLp,
+      drift,
+      chainBreaks,
+      corrected: false
+    };
+
+    if (apply && Math.abs(drift) > DRIFT_EPSILON) {
+      await this.applyLpChange({ userId: user.id, delta: -drift, source: 'reconciliation', currentLp });
+      result.corrected = true;
+    }
+
+    return result;
+  }
+
+  async reconcileRecent(opts: { sinceMs?: number; apply?: boolean } = {}): Promise<LedgerReconciliation[]> {
+    const since = new Date(Date.now() - (opts.sinceMs ?? RECONCILE_LOOKBACK_MS)).toISOString();
+    const userIds = (await fetchAllPages<{ userId: string }>((from, to) => this.storage.supabase
+      .rpc('lp_ledger_users_since', { p_since: since })
+      .order('userId')
+      .range(from, to))).map(row => row.userId);
+    const results: LedgerReconciliation[] = [];
+    for (const id of userIds) {
+      try {
+        results.push(await this.reconcileUser(id, opts.apply));
+      } catch (err) {
+        console.error(`⚖️ [LEDGER] Reconcile failed for ${id}:`, err);
+      }
+    }
+    return results;
+  }
+
+  // Report-only: drift is logged for support, corrections go through the admin endpoint
+  startReconciliationJob(intervalMs = RECONCILE_INTERVAL_MS) {
+    if (this.reconcileTimer) return;
+    this.reconcileTimer = setInterval(async () => {
+      try {
+        const results = await this.reconcileRecent();
+        const drifted = results.filter(r => Math.abs(r.drift) > DRIFT_EPSILON);
+        for (const r of drifted) {
+          console.warn(`⚖️ [LEDGER] Drift for ${r.userId}: lp=${r.currentLp}, ledger=${r.ledgerBalance}, drift=${r.drift}`);
+        }
+        console.log(`⚖️ [LEDGER] Reconciled ${results.length} users, ${drifted.length} with drift`);
+      } catch (err) {
+        console.error('⚖️ [LEDGER] Reconciliation job failed:', err);
+      }
+    }, intervalMs);
+  }
+
+  stopReconciliationJob() {
+    if (this.reconcileTimer) {
+      clearInterval(this.reconcileTimer);
+      this.reconcileTimer = null;
+    }
+  }
+
+  // Timestamps come back as strings, so compare what was read with what is there now as text
+  private sameValue(current: unknown, expected: unknown): boolean {
+    if (current === null || current === undefined) return expected === null || expected === undefined;
+    if (expected === null || expected === undefined) return false;
+    return String(current) === String(expected);
+  }
+
+  private async record(userId: string, delta: number, balanceAfter: number, source: LedgerSource, refId?: string | number | null) {
+    const { error } = await this.storage.supabase.from('lpLedger').insert({
+      userId,
+      delta,
+      balanceAfter,
+      source,
+      refId: refId === undefined || refId === null ? null : String(refId)
+    });
+    // The balance is already written; a missing ledger row shows up as drift on reconcile
+    if (error) console.error(`⚖️ [LEDGER] Failed to record ${source} (${delta}) for ${userId}:`, error);
+  }
+}
@@ -0,0 +1,342 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { SupabaseStorage } from "../../shared/SupabaseStorage";
+import { LevelStorage } from "../../shared/LevelStorage";
+import type { Character, LevelDefinition, LevelFunction, RewardDefinition, User } from "../../shared/schema";
+import { RewardService, type GrantedReward } from "./RewardService";
+import { BOOSTER_TYPES } from "./BoosterService";
+import { XpService } from "./XpService";
+import { GameEventBus } from "./GameEventBus";
+
+export interface LevelFunctionCall {
+  handler: string;
+  args: string[]; // "handler:arg1:arg2" string form
+  params: Record<string, any>; // { handler, ...params } object form
+  label: string; // Original entry, for logs and responses
+}
+
+export interface LevelFunctionContext {
+  userId: string; // Id the client used (telegram_<id> or uuid) - chat files are keyed by it
+  user: User;
+  level: number;
+}
+
+export interface LevelFunctionResult {
+  function: string;
+  handler: string;
+  applied: boolean;
+  note?: string;
+  message?: { characterId: string; text: string };
+}
+
+/**
+ * A named level-up handler. `rewards` turns the call into reward definitions granted in the same
+ * RewardService grant as the level's own rewards (all-or-nothing, validated before anything is written);
+ * `run` is a side effect after the level is committed, and its failure is reported rather than undone.
+ */
+export interface LevelFunctionHandler {
+  description: string;
+  rewards?: (call: LevelFunctionCall) => Promise<RewardDefinition[]>;
+  run?: (call: LevelFunctionCall, ctx: LevelFunctionContext) => Promise<Omit<LevelFunctionResult, 'function' | 'handler'>>;
+}
+
+export interface LevelClaimStep {
+  level: number;
+  name?: string;
+  icon?: string;
+  color?: string;
+  granted: GrantedReward[];
+  functions: LevelFunctionResult[];
+}
+
+export interface LevelClaimResult {
+  previousLevel: number;
+  newLevel: number;
+  levelsGained: number;
+  levels: LevelClaimStep[];
+  totals: { lp: number; energy: number; charisma: number };
+  features: string[]; // Feature flags unlocked by this claim
+  messages: { characterId: string; text: string }[];
+  newStats?: { lp: number; energy: number; charisma: number };
+  error?: string; // Set when a later level failed - the levels before it stay claimed
+}
+
+export interface ClaimPlan {
+  currentLevel: number;
+  levels: LevelDefinition[]; // Every level the player qualifies for right now, in order
+}
+
+/**
+ * Level-up claims and the registry of level "functions".
+ * Entries in LevelDefinition.functions name a registered handler ("unlock_character:luna",
+ * { "handler": "character_message", ... }); bare names without a handler are feature flags.
+ * A claim walks every level the player's XP qualifies for (XP is earned, never spent - see XpService)
+ * and grants each level separately so the ledger keeps one entry per level.
+ */
+export class LevelUpService {
+  private static instance: LevelUpService;
+  private storage = SupabaseStorage.getInstance();
+  private levels = LevelStorage.getInstance();
+  private rewards = RewardService.getInstance();
+  private xp = XpService.getInstance();
+  private gameEvents = GameEventBus.getInstance();
+  private handlers = new Map<string, LevelFunctionHandler>();
+
+  static getInstance() {
+    if (!LevelUpService.instance) LevelUpService.instance = new LevelUpService();
+    return LevelUpService.instance;
+  }
+
+  constructor() {
+    this.registerDefaults();
+  }
+
+  register(name: string, handler: LevelFunctionHandler) {
+    this.handlers.set(name, handler);
+  }
+
+  getHandlers(): { name: string; description: string }[] {
+    return Array.from(this.handlers.entries()).map(([name, h]) => ({ name, description: h.description }));
+  }
+
+  // Levels after the player's current one whose XP threshold is met
+  async plan(user: User): Promise<ClaimPlan> {
+    const currentLevel = user.level || 1;
+    const all = await this.levels.getLevels();
+    const levels: LevelDefinition[] = [];
+    const xp = user.xp || 0;
+
+    for (const def of all) {
+      if (def.level <= currentLevel) continue;
+      if (xp < def.xpRequired) break;
+      levels.push(def);
+    }
+
+    return { currentLevel, levels };
+  }
+
+  async claim(userId: string): Promise<LevelClaimResult> {
+    const found = await this.storage.getUser(userId);
+    if (!found) throw new Error('User not found');
+    let user = await this.xp.ensureMigrated(found);
+
+    const { currentLevel, levels } = await this.plan(user);
+    if (levels.length === 0) throw new Error('Not enough XP to level up');
+
+    // Resolve every level's functions first so a config error fails the claim before anything is written
+    const resolved = await Promise.all(levels.map(async def => {
+      const calls = def.functions.map(fn => this.parse(fn));
+      const rewards: RewardDefinition[] = [...def.rewards];
+      const rewardCounts: number[] = [];
+      for (const call of calls) {
+        const handler = this.handlers.get(call.handler);
+        if (!handler) throw new Error(`Unknown level function handler: ${call.handler} (level ${def.level})`);
+        const extra = handler.rewards ? await handler.rewards(call) : [];
+        rewards.push(...extra);
+        rewardCounts.push(extra.length);
+      }
+      return { def, calls, rewards, rewardCounts };
+    }));
+
+    const result: LevelClaimResult = {
+      previousLevel: currentLevel,
+      newLevel: currentLevel,
+      levelsGained: 0,
+      levels: [],
+      totals: { lp: 0, energy: 0, charisma: 0 },
+      features: [],
+      messages: []
+    };
+
+    for (const { def, calls, rewards, rewardCounts } of resolved) {
+      let grant;
+      try {
+        grant = await this.rewards.grant(userId, rewards, {
+          source: 'level_claim',
+          refId: def.level,
+          user,
+          updates: { level: def.level }
+        });
+      } catch (error: any) {
+        if (result.levelsGained === 0) throw error;
+        console.error(`⬆️ [LEVEL-UP] ${user.id}: level ${def.level} failed, stopping at ${result.newLevel}:`, error);
+        result.error = error?.message || `Failed to claim level ${def.level}`;
+        break;
+      }
+
+      user = grant.user;
+      const step: LevelClaimStep = {
+        level: def.level,
+        name: def.name,
+        icon: def.icon,
+        color: def.color,
+        granted: grant.granted,
+        functions: await this.runFunctions(calls, rewardCounts, { userId, user, level: def.level }, grant.granted.slice(def.rewards.length))
+      };
+
+      result.levels.push(step);
+      result.newLevel = def.level;
+      result.levelsGained++;
+      result.totals.lp += grant.totals.lp;
+      result.totals.energy += grant.totals.energy;
+      result.totals.charisma += grant.totals.charisma;
+      result.newStats = grant.newStats;
+      result.features.push(...grant.granted.filter(g => g.type === 'featureUnlock' && g.applied).map(g => g.feature!));
+      result.messages.push(...step.functions.filter(f => f.message).map(f => f.message!));
+    }
+
+    console.log(`⬆️ [LEVEL-UP] ${user.id}: level ${result.previousLevel} → ${result.newLevel} (${result.levelsGained} level(s))`);
+    if (result.levelsGained > 0) {
+      await this.gameEvents.emit({ type: 'level_up', userId, user, level: result.newLevel, previousLevel: result.previousLevel });
+    }
+    return result;
+  }
+
+  // Feature flags the player has unlocked (level functions and featureUnlock rewards)
+  async getFeatures(userId: string): Promise<string[]> {
+    const { data, error } = await this.storage.supabase
+      .from('userUnlocks')
+      .select('key')
+      .eq('userId', userId)
+      .eq('kind', 'feature');
+    if (error) throw error;
+    return (data || []).map((row: any) => row.key);
+  }
+
+  parse(fn: LevelFunction): LevelFunctionCall {
+    if (typeof fn === 'object' && fn !== null) {
+      const { handler, ...params } = fn;
+      return { handler: String(handler), args: [], params, label: String(handler) };
+    }
+
+    const label = String(fn);
+    const [name, ...args] = label.split(':');
+    if (this.handlers.has(name)) return { handler: name, args, params: {}, label };
+
+    // Legacy level-requirements.json names: character_unlock_<character>
+    const legacyCharacter = name.match(/^character_unlock_(.+)$/);
+    if (legacyCharacter) return { handler: 'unlock_character', args: [legacyCharacter[1]], params: {}, label };
+
+    return { handler: 'unlock_feature', args: [label], params: {}, label };
+  }
+
+  // `granted` holds only the function rewards, in call order (rewardCounts[i] entries per call)
+  private async runFunctions(calls: LevelFunctionCall[], rewardCounts: number[], ctx: LevelFunctionContext, granted: GrantedReward[]): Promise<LevelFunctionResult[]> {
+    const results: LevelFunctionResult[] = [];
+    let offset = 0;
+
+    for (let i = 0; i < calls.length; i++) {
+      const call = calls[i];
+      const handler = this.handlers.get(call.handler)!;
+      if (handler.rewards) {
+        // Reward-backed handlers report how their rewards were granted
+        const own = granted.slice(offset, offset + rewardCounts[i]);
+        offset += rewardCounts[i];
+        results.push({
+          function: call.label,
+          handler: call.handler,
+          applied: own.some(g => g.applied),
+          note: own.find(g => !g.applied)?.note
+        });
+        continue;
+      }
+      try {
+        results.push({ function: call.label, handler: call.handler, ...await handler.run!(call, ctx) });
+      } catch (error: any) {
+        console.error(`⬆️ [LEVEL-UP] Function ${call.label} at level ${ctx.level} failed:`, error);
+        results.push({ function: call.label, handler: call.handler, applied: false, note: error?.message || 'Failed' });
+      }
+    }
+    return results;
+  }
+
+  // Character by id, then by name; "starter" is the enabled non-VIP character with the lowest level requirement
+  private async resolveCharacter(ref: string | undefined): Promise<Character> {
+    if (!ref) throw new Error('unlock_character is missing its character');
+    const byId = await this.storage.getCharacter(ref);
+    if (byId) return byId;
+
+    const all = await this.storage.getAllCharacters();
+    const key = ref.toLowerCase();
+    const byName = all.find(c => c.name?.toLowerCase() === key);
+    if (byName) return byName;
+
+    if (key === 'starter') {
+      const starter = all
+        .filter(c => c.isEnabled !== false && !c.isVip)
+        .sort((a, b) => (a.levelRequirement || 1) - (b.levelRequirement || 1))[0];
+      if (starter) return starter;
+    }
+    throw new Error(`Unknown character in level function: ${ref}`);
+  }
+
+  private registerDefaults() {
+    this.register('unlock_character', {
+      description: 'Unlock a character - unlock_character:<id|name|starter>',
+      rewards: async (call) => {
+        const character = await this.resolveCharacter(call.args[0] ?? call.params.characterId);
+        return [{ type: 'character', characterId: character.id }];
+      }
+    });
+
+    this.register('unlock_feature', {
+      description: 'Unlock a feature flag - unlock_feature:<key>, or any bare name',
+      rewards: async (call) => {
+        const feature = call.args[0] ?? call.params.feature;
+        if (!feature) throw new Error('unlock_feature is missing its feature');
+        return [{ type: 'featureUnlock', feature }];
+      }
+    });
+
+    this.register('grant_booster', {
+      description: 'Activate a booster - grant_booster:<type>[:<minutes>]',
+      rewards: async (call) => {
+        const minutes = Number(call.args[1] ?? call.params.minutes);
+        return [{
+          type: 'booster',
+          boosterType: call.args[0] ?? call.params.boosterType ?? BOOSTER_TYPES.lpMultiplier,
+          amount: Number.isFinite(minutes) && minutes > 0 ? minutes : undefined,
+          multiplier: call.params.multiplier
+        }];
+      }
+    });
+
+    this.register('character_message', {
+      description: 'Send a chat message from a character - character_message:<character>:<text>',
+      run: async (call, ctx) => {
+        const character = await this.resolveCharacter(call.args[0] ?? call.params.characterId);
+        const text = String(call.args.slice(1).join(':') || call.params.text || '')
+          .replace(/\{level\}/g, String(ctx.level))
+          .replace(/\{name\}/g, ctx.user.username || '');
+        if (!text) return { applied: false, note: 'No message text' };
+
+        await this.appendConversation(ctx.userId, character.id, text);
+        return { applied: true, message: { characterId: character.id, text } };
+      }
+    });
+  }
+
+  // Same player-data/<userId>/conversations_<characterId>.json file the chat routes read
+  private async appendConversation(userId: string, characterId: string, text: string) {
+    const playerFolder = path.join(process.cwd(), 'player-data', userId);
+    const conversationPath = path.join(playerFolder, `conversations_${characterId}.json`);
+    await fs.mkdir(playerFolder, { recursive: true });
+
+    let conversations: any[] = [];
+    try {
+      conversations = JSON.parse(await fs.readFile(conversationPath, 'utf8'));
+    } catch {
+      conversations = [];
+    }
+
+    conversations.push({
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 11)}`,
+      content: text,
+      sender: 'character',
+      timestamp: new Date().toISOString(),
+      type: 'level_up',
+      mood: 'happy'
+    });
+    await fs.writeFile(conversationPath, JSON.stringify(conversations, null, 2));
+  }
+}
@@ -0,0 +1,314 @@
+import { SupabaseStorage } from "../../shared/SupabaseStorage";
+import { FileStorage } from "../../shared/FileStorage";
+import type { GameSettings, LoginCalendar, RewardDefinition, User } from "../../shared/schema";
+import { RewardService, type GrantedReward } from "./RewardService";
+import { TaskService } from "./TaskService";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_FREEZE_ITEM = 'streak_freeze';
+
+export interface LoginCheckIn {
+  user: User;
+  checkedIn: boolean; // false when today's login was already recorded
+  streak: number;
+  previousStreak: number;
+  graceUsed: number; // Missed windows forgiven by graceDays
+  freezesUsed: number; // Missed windows covered by freeze items
+  broken: boolean; // The streak restarted at 1
+}
+
+export interface LoginCalendarDay {
+  day: number;
+  rewards: RewardDefinition[];
+  label?: string;
+  highlight?: boolean;
+  state: 'past' | 'today' | 'claimed' | 'upcoming';
+}
+
+export interface LoginCalendarView {
+  id: string;
+  name: string;
+  length: number;
+  currentDay: number | null; // null when the streak is past a non-repeating calendar
+  claimedToday: boolean;
+  canClaim: boolean;
+  tomorrow: { day: number; rewards: RewardDefinition[] } | null; // If the streak continues
+  days: LoginCalendarDay[];
+}
+
+export interface LoginStreakStatus {
+  streak: number;
+  longestStreak: number;
+  lastLoginAt: string | null;
+  checkedInToday: boolean;
+  periodKey: string;
+  nextResetAt: string;
+  graceDays: number;
+  freezeItemId: string;
+  freezes: number;
+  calendars: LoginCalendarView[];
+}
+
+export interface LoginRewardClaimResult {
+  success: boolean;
+  reason?: string;
+  calendarId?: string;
+  day?: number;
+  granted?: GrantedReward[];
+  totals?: { lp: number; energy: number; charisma: number };
+  newStats?: { lp: number; energy: number; charisma: number };
+}
+
+/**
+ * Login streaks and the login reward calendars (game-data/progression/login-calendars.json).
+ *
+ * A streak counts consecutive reset windows - days starting at GameSettings.dailyBonusHour UTC -
+ * with at least one login. Missed windows are forgiven up to loginStreak.graceDays, and each further
+ * missed window can be covered by one freeze item from the inventory (userItems); otherwise the
+ * streak restarts at 1. Each calendar can be claimed once per window at the day the streak points to.
+ */
+export class LoginStreakService {
+  private static instance: LoginStreakService;
+  private storage = SupabaseStorage.getInstance();
+  private files = FileStorage.getInstance();
+  private rewards = RewardService.getInstance();
+  private tasks = TaskService.getInstance();
+
+  static getInstance() {
+    if (!LoginStreakService.instance) LoginStreakService.instance = new LoginStreakService();
+    return LoginStreakService.instance;
+  }
+
+  // Index of the reset window `at` falls in (days since epoch, shifted to the reset hour)
+  windowIndex(at: number, settings: GameSettings): number {
+    const hour = Math.min(23, Math.max(0, Math.floor(settings.dailyBonusHour ?? 0)));
+    return Math.floor((at - hour * 60 * 60 * 1000) / DAY_MS);
+  }
+
+  private windowStart(index: number, settings: GameSettings): number {
+    const hour = Math.min(23, Math.max(0, Math.floor(settings.dailyBonusHour ?? 0)));
+    return index * DAY_MS + hour * 60 * 60 * 1000;
+  }
+
+  private getConfig(settings: GameSettings) {
+    return {
+      graceDays: Math.max(0, Math.floor(settings.loginStreak?.graceDays ?? 0)),
+      freezeItemId: settings.loginStreak?.freezeItemId || DEFAULT_FREEZE_ITEM
+    };
+  }
+
+  /**
+   * Records a login for the current window. A no-op when today is already counted, so it is safe
+   * to call on every player load. The write only applies if lastLoginAt is unchanged, so two
+   * concurrent loads can't both extend the streak.
+   */
+  async checkIn(user: User, now = Date.now()): Promise<LoginCheckIn> {
+    const settings = await this.files.getGameSettings();
+    const { graceDays, freezeItemId } = this.getConfig(settings);
+    const previousStreak = user.loginStreak || 0;
+    const today = this.windowIndex(now, settings);
+    const last = user.lastLoginAt ? this.windowIndex(new Date(user.lastLoginAt).getTime(), settings) : null;
+
+    const unchanged = { user, checkedIn: false, streak: previousStreak, previousStreak, graceUsed: 0, freezesUsed: 0, broken: false };
+    if (last !== null && last >= today) return unchanged;
+
+    let streak = 1;
+    let graceUsed = 0;
+    let freezesUsed = 0;
+    let broken = previousStreak > 0;
+
+    if (last !== null && previousStreak > 0) {
+      const missed = today - last - 1;
+      graceUsed = Math.min(missed, graceDays);
+      const needed = missed - graceUsed;
+      const freezes = needed > 0 ? await this.getFreezeCount(user.id, freezeItemId) : 0;
+      if (needed <= freezes) {
+        streak = previousStreak + 1;
+        freezesUsed = needed;
+        broken = false;
+      } else {
+        graceUsed = 0;
+      }
+    }
+
+    let query = this.storage.supabase
+      .from('users')
+      .update({
+        loginStreak: streak,
+        longestLoginStreak: Math.max(user.longestLoginStreak || 0, streak),
+        lastLoginAt: new Date(now).toISOString()
+      })
+      .eq('id', user.id);
+    // Compare against the value as read (rows come back as strings) so precision can't break the match
+    const lastRaw = user.lastLoginAt as unknown as string | Date | null;
+    query = lastRaw
+      ? query.eq('lastLoginAt', typeof lastRaw === 'string' ? lastRaw : lastRaw.toISOString())
+      : query.is('lastLoginAt', null);
+    const { data, error } = await query.select().maybeSingle();
+    if (error) throw error;
+
+    // Another request recorded this login first
+    if (!data) {
+      const current = await this.storage.getUser(user.id);
+      return current ? { ...unchanged, user: current, streak: current.loginStreak || 0 } : unchanged;
+    }
+
+    if (freezesUsed > 0) await this.consumeFreezes(user.id, freezeItemId, freezesUsed);
+    await this.tasks.record(data as User, { login_streak: streak });
+
+    console.log(`📅 [STREAK] ${user.id}: ${previousStreak} → ${streak}${graceUsed ? ` (${graceUsed} grace)` : ''}${freezesUsed ? ` (${freezesUsed} freeze)` : ''}${broken ? ' (broken)' : ''}`);
+    return { user: data as User, checkedIn: true, streak, previousStreak, graceUsed, freezesUsed, broken };
+  }
+
+  async getStatus(user: User, now = Date.now()): Promise<LoginStreakStatus> {
+    const [settings, calendars] = await Promise.all([this.files.getGameSettings(), this.getCalendars()]);
+    const { graceDays, freezeItemId } = this.getConfig(settings);
+    const today = this.windowIndex(now, settings);
+    const periodKey = this.periodKey(today, settings);
+    const checkedInToday = !!user.lastLoginAt && this.windowIndex(new Date(user.lastLoginAt).getTime(), settings) >= today;
+
+    const [freezes, claimed] = await Promise.all([
+      this.getFreezeCount(user.id, freezeItemId),
+      this.getClaimedCalendars(user.id, periodKey)
+    ]);
+
+    const streak = user.loginStreak || 0;
+    return {
+      streak,
+      longestStreak: user.longestLoginStreak || 0,
+      lastLoginAt: user.lastLoginAt ? new Date(user.lastLoginAt).toISOString() : null,
+      checkedInToday,
+      periodKey,
+      nextResetAt: new Date(this.windowStart(today + 1, settings)).toISOString(),
+      graceDays,
+      freezeItemId,
+      freezes,
+      calendars: calendars.map(calendar => this.toView(calendar, streak, claimed.has(calendar.id)))
+    };
+  }
+
+  /**
+   * Claims today's reward of a calendar. The claim row is inserted first - the unique
+   * (userId, calendarId, periodKey) index makes a second claim in the same window fail - and is
+   * removed again if the grant fails.
+   */
+  async claim(userId: string, calendarId: string, now = Date.now()): Promise<LoginRewardClaimResult> {
+    const found = await this.storage.getUser(userId);
+    if (!found) return { success: false, reason: 'User not found' };
+
+    const calendar = (await this.getCalendars()).find(c => c.id === calendarId);
+    if (!calendar) return { success: false, reason: 'Calendar not found' };
+
+    const { user, streak } = await this.checkIn(found, now);
+    const settings = await this.files.getGameSettings();
+    const periodKey = this.periodKey(this.windowIndex(now, settings), settings);
+    const day = this.dayFor(calendar, streak);
+    const entry = day ? calendar.days.find(d => d.day === day) : undefined;
+    if (!day || !entry) return { success: false, reason: 'No reward for this streak day', calendarId };
+
+    const { data: row, error: insertError } = await this.storage.supabase
+      .from('loginRewardClaims')
+      .insert({ userId: user.id, calendarId, day, streak, periodKey })
+      .select('id')
+      .single();
+    if (insertError) {
+      if (insertError.code === '23505') return { success: false, reason: 'Already claimed today', calendarId, day };
+      throw insertError;
+    }
+
+    try {
+      const { granted, totals, newStats } = await this.rewards.grant(user.id, entry.rewards, {
+        source: 'login_reward',
+        refId: `${calendarId}:${day}`,
+        user
+      });
+      console.log(`📅 [STREAK] ${user.id} claimed ${calendarId} day ${day} (streak ${streak})`);
+      return { success: true, calendarId, day, granted, totals, newStats };
+    } catch (error) {
+      await this.storage.supabase.from('loginRewardClaims').delete().eq('id', row.id);
+      throw error;
+    }
+  }
+
+  async getCalendars(): Promise<LoginCalendar[]> {
+    return (await this.files.getLoginCalendars())
+      .filter(c => c.isActive !== false && c.length > 0 && Array.isArray(c.days));
+  }
+
+  // Calendar day a streak value lands on
+  dayFor(calendar: LoginCalendar, streak: number): number | null {
+    if (streak < 1) return null;
+    if (calendar.repeat === false) return streak <= calendar.length ? streak : null;
+    return ((streak - 1) % calendar.length) + 1;
+  }
+
+  private toView(calendar: LoginCalendar, streak: number, claimedToday: boolean): LoginCalendarView {
+    const currentDay = this.dayFor(calendar, streak);
+    const tomorrowDay = this.dayFor(calendar, streak + 1);
+    const tomorrow = tomorrowDay ? calendar.days.find(d => d.day === tomorrowDay) : undefined;
+
+    const days = Array.from({ length: calendar.length }, (_, i) => {
+      const day = i + 1;
+      const entry = calendar.days.find(d => d.day === day);
+      const state: LoginCalendarDay['state'] = currentDay === null || day < currentDay ? 'past'
+        : day > currentDay ? 'upcoming'
+        : claimedToday ? 'claimed'
+        : 'today';
+      return { day, rewards: entry?.rewards || [], label: entry?.label, highlight: entry?.highlight, state };
+    });
+
+    return {
+      id: calendar.id,
+      name: calendar.name,
+      length: calendar.length,
+      currentDay,
+      claimedToday,
+      canClaim: currentDay !== null && !claimedToday && days[currentDay - 1].rewards.length > 0,
+      tomorrow: tomorrowDay ? { day: tomorrowDay, rewards: tomorrow?.rewards || [] } : null,
+      days
+    };
+  }
+
+  private periodKey(index: number, settings: GameSettings): string {
+    return `d:${new Date(this.windowStart(index, settings)).toISOString().slice(0, 13)}`;
+  }
+
+  private async getClaimedCalendars(userId: string, periodKey: string): Promise<Set<string>> {
+    const { data, error } = await this.storage.supabase
+      .from('loginRewardClaims')
+      .select('calendarId')
+      .eq('userId', userId)
+      .eq('periodKey', periodKey);
+    if (error) throw error;
+    return new Set((data || []).map((row: any) => row.calendarId));
+  }
+
+  private async getFreezeCount(userId: string, itemId: string): Promise<number> {
+    const { data, error } = await this.storage.supabase
+      .from('userItems')
+      .select('quantity')
+      .eq('userId', userId)
+      .eq('itemId', itemId)
+      .maybeSingle();
+    if (error) throw error;
+    return data?.quantity || 0;
+  }
+
+  private async consumeFreezes(userId: string, itemId: string, count: number) {
+    const { data, error } = await this.storage.supabase
+      .from('userItems')
+      .select('id, quantity')
+      .eq('userId', userId)
+      .eq('itemId', itemId)
+      .maybeSingle();
+    if (error || !data) {
+      console.error(`📅 [STREAK] Could not consume ${count} ${itemId} for ${userId}:`, error);
+      return;
+    }
+    const { error: updateError } = await this.storage.supabase
+      .from('userItems')
+      .update({ quantity: Math.max(0, data.quantity - count), updatedAt: new Date().toISOString() })
+      .eq('id', data.id);
+    if (updateError) console.error(`📅 [STREAK] Could not consume ${count} ${itemId} for ${userId}:`, updateError);
+  }
+}
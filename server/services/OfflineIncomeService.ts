@@ -0,0 +1,245 @@
+import { randomUUID } from "crypto";
+import { SupabaseStorage } from "../../shared/SupabaseStorage";
+import { EventStorage, type EventContext } from "../../shared/EventStorage";
+import { getActiveVipTier } from "../../shared/vipTiers";
+import type { OfflineClaim, User } from "../../shared/schema";
+import { LedgerService } from "./LedgerService";
+import { BoosterService, BOOSTER_TYPES } from "./BoosterService";
+import { StatService } from "./StatService";
+import { TaskService } from "./TaskService";
+
+export type OfflineIncomeSource = 'base' | 'booster' | 'vip' | 'event';
+
+export interface OfflineIncomeLine {
+  source: OfflineIncomeSource;
+  label: string;
+  lp: number;
+  multiplier?: number; // vip/event lines
+  minutes?: number; // base: minutes credited, booster: extra base-rate minutes from boosters
+  eventId?: string;
+}
+
+export interface OfflineIncomeQuote {
+  since: string; // lastTick the window starts from
+  offlineMinutes: number;
+  minutesApplied: number;
+  capMinutes: number;
+  lpPerHour: number;
+  boostedMinutes: number;
+  breakdown: OfflineIncomeLine[];
+  total: number; // Σ breakdown lp
+  lostMinutes: number; // Time away beyond the cap
+  lostToCap: number; // LP those minutes would have earned
+  minutesUntilCap: number; // 0 once the cap is reached
+  capReachedAt: string;
+}
+
+export interface OfflineClaimResult extends OfflineIncomeQuote {
+  claimId: string | null; // offlineClaims row (null when nothing was claimed)
+  claimedLp: number;
+  newLp: number;
+  alreadyClaimed?: boolean; // Another claim moved lastTick first - nothing was credited
+}
+
+interface OfflineModifiers {
+  lpPerHour: number;
+  capMinutes: number;
+  vip: { name: string; multiplier: number } | null;
+  events: { eventId: string; name: string; multiplier: number }[];
+}
+
+// Without a lastTick the player is treated as away for 5 minutes
+const DEFAULT_AWAY_MS = 5 * 60 * 1000;
+
+/**
+ * Offline (passive) income. The window since lastTick is credited up to the offlineCapMinutes stat at
+ * the upgrades' lpPerHour; lp_multiplier boosters count for the part of the window they overlapped,
+ * then the VIP tier's offlineMultiplier and the offline multipliers of running events
+ * (modifiers.offlineLpMultiplier of live events in game-data/events, combined additively) apply on top.
+ *
+ * Every line of the breakdown is floored on its own so they always add up to the claimed total.
+ * Claims are kept in offlineClaims and written to the ledger (source offline_claim, refId = offlineClaims.id).
+ */
+export class OfflineIncomeService {
+  private static instance: OfflineIncomeService;
+  private storage = SupabaseStorage.getInstance();
+  private events = EventStorage.getInstance();
+  private ledger = LedgerService.getInstance();
+  private boosters = BoosterService.getInstance();
+  private stats = StatService.getInstance();
+  private tasks = TaskService.getInstance();
+
+  static getInstance() {
+    if (!OfflineIncomeService.instance) OfflineIncomeService.instance = new OfflineIncomeService();
+    return OfflineIncomeService.instance;
+  }
+
+  // What a claim right now would pay, without writing anything
+  async quote(user: User, now = Date.now()): Promise<OfflineIncomeQuote> {
+    const since = user.lastTick ? new Date(user.lastTick).getTime() : now - DEFAULT_AWAY_MS;
+    const offlineMinutes = Math.max(0, Math.floor((now - since) / 60000));
+    const modifiers = await this.getModifiers(user);
+    const { capMinutes, lpPerHour } = modifiers;
+
+    const minutesApplied = Math.min(offlineMinutes, capMinutes);
+    const windowEnd = since + minutesApplied * 60000;
+    const credited = await this.earn(user.id, since, windowEnd, modifiers);
+
+    // The time beyond the cap, priced the same way
+    const lostMinutes = offlineMinutes - minutesApplied;
+    const lost = lostMinutes > 0
+      ? await this.earn(user.id, windowEnd, windowEnd + lostMinutes * 60000, modifiers)
+      : { lines: [], boostedMinutes: 0 };
+
+    return {
+      since: new Date(since).toISOString(),
+      offlineMinutes,
+      minutesApplied,
+      capMinutes,
+      lpPerHour,
+      boostedMinutes: credited.boostedMinutes,
+      breakdown: credited.lines,
+      total: this.sum(credited.lines),
+      lostMinutes,
+      lostToCap: this.sum(lost.lines),
+      minutesUntilCap: Math.max(0, capMinutes - offlineMinutes),
+      capReachedAt: new Date(since + capMinutes * 60000).toISOString()
+    };
+  }
+
+  /**
+   * Claims the window since lastTick. lastTick is moved to now first, and only if it still holds the
+   * value the window was priced from - a second claim racing this one finds no row and gets
+   * alreadyClaimed. The history row is written next and the LP credited last; a failure undoes both.
+   */
+  async claim(userId: string): Promise<OfflineClaimResult> {
+    const user = await this.storage.getUser(userId);
+    if (!user) throw new Error('User not found');
+
+    const now = new Date();
+    const quote = await this.quote(user, now.getTime());
+    const previousTick = user.lastTick as unknown as string | null;
+
+    let mark = this.storage.supabase.from('users').update({ lastTick: now.toISOString() }).eq('id', user.id);
+    mark = previousTick ? mark.eq('lastTick', previousTick) : mark.is('lastTick', null);
+    const { data: marked, error: markError } = await mark.select('id').maybeSingle();
+    if (markError) throw markError;
+    if (!marked) return { ...quote, claimId: null, claimedLp: 0, newLp: user.lp || 0, alreadyClaimed: true };
+
+    const restoreTick = () => this.storage.supabase.from('users').update({ lastTick: previousTick }).eq('id', user.id).eq('lastTick', now.toISOString());
+
+    if (quote.total <= 0) {
+      return { ...quote, claimId: null, claimedLp: 0, newLp: user.lp || 0 };
+    }
+
+    const claimId = randomUUID();
+    const { error } = await this.storage.supabase.from('offlineClaims').insert({
+      id: claimId,
+      userId: user.id,
+      offlineMinutes: quote.offlineMinutes,
+      minutesApplied: quote.minutesApplied,
+      capMinutes: quote.capMinutes,
+      lpClaimed: quote.total,
+      lostToCap: quote.lostToCap,
+      breakdown: quote.breakdown,
+      claimedAt: now.toISOString()
+    });
+    if (error) {
+      await restoreTick();
+      throw error;
+    }
+
+    let credit: Awaited<ReturnType<LedgerService['applyLpChange']>>;
+    try {
+      credit = await this.ledger.applyLpChange({
+        userId: user.id,
+        delta: quote.total,
+        source: 'offline_claim',
+        refId: claimId,
+        currentLp: user.lp || 0
+      });
+    } catch (err) {
+      await this.storage.supabase.from('offlineClaims').delete().eq('id', claimId);
+      await restoreTick();
+      throw err;
+    }
+
+    await this.tasks.record(credit.user || user, { lp_earned: quote.total });
+
+    return { ...quote, claimId, claimedLp: quote.total, newLp: credit.balanceAfter };
+  }
+
+  async getHistory(userId: string, opts: { limit?: number; offset?: number } = {}): Promise<OfflineClaim[]> {
+    const limit = Math.min(Math.max(opts.limit ?? 50, 1), 500);
+    const offset = Math.max(opts.offset ?? 0, 0);
+
+    const { data, error } = await this.storage.supabase
+      .from('offlineClaims')
+      .select('*')
+      .eq('userId', userId)
+      .order('claimedAt', { ascending: false })
+      .range(offset, offset + limit - 1);
+    if (error) throw error;
+    return data || [];
+  }
+
+  private async getModifiers(user: User): Promise<OfflineModifiers> {
+    const [{ final, upgrades }, events] = await Promise.all([
+      this.stats.getStats(user),
+      this.events.resolve()
+    ]);
+
+    // Rate before boosters/VIP - those are integrated per window and listed separately
+    const tier = getActiveVipTier(user);
+    return {
+      lpPerHour: Math.max(0, Math.floor(upgrades.lpPerHour)),
+      capMinutes: Math.max(0, Math.floor(final.offlineCapMinutes)),
+      vip: tier && tier.offlineMultiplier > 1 ? { name: tier.name, multiplier: tier.offlineMultiplier } : null,
+      events: this.getEventModifiers(events)
+    };
+  }
+
+  private getEventModifiers(events: EventContext): OfflineModifiers['events'] {
+    return events.live
+      .map(event => ({
+        eventId: event.id,
+        name: event.name || event.id,
+        multiplier: Number(event.modifiers?.offlineLpMultiplier) || 1
+      }))
+      .filter(e => e.multiplier > 1);
+  }
+
+  // Breakdown lines for [from, to]: base, booster bonus, then VIP and events on the boosted amount
+  private async earn(userId: string, from: number, to: number, modifiers: OfflineModifiers) {
+    const minutes = Math.max(0, (to - from) / 60000);
+    const perMinute = modifiers.lpPerHour / 60;
+    const windows = minutes > 0
+      ? await this.boosters.getWindows(userId, BOOSTER_TYPES.lpMultiplier, from, to)
+      : [];
+    const boostedMinutes = BoosterService.bonusMs(windows, from, to) / 60000;
+
+    const base = minutes * perMinute;
+    const booster = boostedMinutes * perMinute;
+    const vip = modifiers.vip ? (base + booster) * (modifiers.vip.multiplier - 1) : 0;
+    const subtotal = base + booster + vip;
+
+    const lines: OfflineIncomeLine[] = [
+      { source: 'base', label: 'Passive income', lp: Math.floor(base), minutes: Math.round(minutes) }
+    ];
+    if (booster > 0) {
+      lines.push({ source: 'booster', label: 'LP boosters', lp: Math.floor(booster), minutes: Math.round(boostedMinutes * 10) / 10 });
+    }
+    if (modifiers.vip) {
+      lines.push({ source: 'vip', label: modifiers.vip.name, lp: Math.floor(vip), multiplier: modifiers.vip.multiplier });
+    }
+    for (const event of modifiers.events) {
+      lines.push({ source: 'event', label: event.name, lp: Math.floor(subtotal * (event.multiplier - 1)), multiplier: event.multiplier, eventId: event.eventId });
+    }
+
+    return { lines, boostedMinutes };
+  }
+
+  private sum(lines: OfflineIncomeLine[]): number {
+    return lines.reduce((total, line) => total + line.lp, 0);
+  }
+}
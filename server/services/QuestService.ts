@@ -0,0 +1,265 @@
+import { SupabaseStorage } from "../../shared/SupabaseStorage";
+import { FileStorage } from "../../shared/FileStorage";
+import { EventStorage, type EventContext } from "../../shared/EventStorage";
+import type { QuestChain, QuestStep, User, UserQuestProgress } from "../../shared/schema";
+import { RewardService, type GrantedReward, type RewardGrantResult } from "./RewardService";
+import { XpService } from "./XpService";
+import type { TaskActivity, TaskRequirementType } from "./TaskService";
+
+export interface QuestStepView extends QuestStep {
+  chainId: string;
+  giverId: string | null; // Character giving the step (step.characterId, else the chain's)
+  progress: number;
+  maxProgress: number;
+  status: 'locked' | 'active' | 'completed' | 'claimed';
+  lockedReason?: string;
+  canClaim: boolean;
+}
+
+export interface QuestChainView extends Omit<QuestChain, 'steps'> {
+  steps: QuestStepView[];
+  status: 'locked' | 'active' | 'completed';
+  currentStepId: string | null; // First step not yet claimed that is unlocked
+  claimedSteps: number;
+  totalSteps: number;
+}
+
+export interface QuestClaimResult {
+  success: boolean;
+  reason?: string;
+  step?: QuestStepView;
+  unlocked?: QuestStepView[]; // Steps opened by this claim
+  granted?: GrantedReward[];
+  totals?: { lp: number; energy: number; charisma: number };
+  newStats?: { lp: number; energy: number; charisma: number };
+  xpGained?: number;
+}
+
+// Requirement types whose progress is the latest value rather than a running total
+const ABSOLUTE_TYPES: TaskRequirementType[] = ['login_streak'];
+
+/**
+ * Quest chains from game-data/quests/*.json. Each step unlocks once its prerequisite step is claimed
+ * (the previous step unless `prerequisite.stepId` says otherwise) and the player meets its level, and
+ * only counts activity from then on. Progress lives in userQuestProgress, one row per user and step;
+ * claiming a step creates the rows of the steps it unlocks. Chains listed by an event only run while
+ * that event is live.
+ *
+ * Activity arrives through TaskService.record, so every route that reports task activity also
+ * advances quests.
+ */
+export class QuestService {
+  private static instance: QuestService;
+  private storage = SupabaseStorage.getInstance();
+  private files = FileStorage.getInstance();
+  private events = EventStorage.getInstance();
+  private rewards = RewardService.getInstance();
+  private xp = XpService.getInstance();
+
+  static getInstance() {
+    if (!QuestService.instance) QuestService.instance = new QuestService();
+    return QuestService.instance;
+  }
+
+  async getChains(user: User | null, events?: EventContext): Promise<QuestChainView[]> {
+    const chains = await this.getActiveChains(events);
+    const rows = user ? await this.getRows(user.id, chains.map(c => c.id)) : [];
+    return chains.map(chain => this.toChainView(chain, rows, user));
+  }
+
+  /**
+   * Adds activity to every unlocked, unclaimed step it matches. Never throws - quest progress must not
+   * fail the action that caused it.
+   */
+  async record(user: User, activity: TaskActivity, opts: { characterId?: string } = {}): Promise<void> {
+    try {
+      const chains = (await this.getActiveChains()).filter(chain => chain.steps.some(step => {
+        const amount = activity[step.requirements.type];
+        return !!amount && amount > 0;
+      }));
+      if (chains.length === 0) return;
+
+      const rows = await this.getRows(user.id, chains.map(c => c.id));
+      const updatedAt = new Date().toISOString();
+
+      const steps = chains.flatMap(chain => this.toChainView(chain, rows, user).steps
+        .filter(step => step.status === 'active')
+        .filter(step => !step.requirements.characterId || step.requirements.characterId === opts.characterId)
+        .filter(step => (activity[step.requirements.type] || 0) > 0)
+        .map(step => ({ chain, step })));
+      if (steps.length === 0) return;
+
+      // Progress moves in SQL (record_quest_progress) so concurrent activity isn't lost; claimed steps are skipped there
+      const results = await Promise.all(steps.map(({ chain, step }) => this.storage.supabase.rpc('record_quest_progress', {
+        p_user_id: user.id,
+        p_chain_id: chain.id,
+        p_step_id: step.id,
+        p_amount: activity[step.requirements.type]!,
+        p_target: step.requirements.target,
+        p_absolute: ABSOLUTE_TYPES.includes(step.requirements.type),
+        p_at: updatedAt
+      })));
+      const failed = results.find(r => r.error);
+      if (failed) throw failed.error;
+    } catch (error) {
+      console.error(`📜 [QUESTS] Failed to record progress for ${user.id}:`, error);
+    }
+  }
+
+  /**
+   * Claims a completed step. As with tasks the row is marked claimed first (only if it isn't already)
+   * and un-marked if the grant fails. Steps the claim unlocks get their rows right away.
+   */
+  async claim(userId: string, chainId: string, stepId: string): Promise<QuestClaimResult> {
+    const user = await this.storage.getUser(userId);
+    if (!user) return { success: false, reason: 'User not found' };
+
+    const chain = (await this.getActiveChains()).find(c => c.id === chainId);
+    if (!chain) return { success: false, reason: 'Quest not found' };
+
+    const rows = await this.getRows(user.id, [chain.id]);
+    const view = this.toChainView(chain, rows, user);
+    const step = view.steps.find(s => s.id === stepId);
+    if (!step) return { success: false, reason: 'Quest step not found' };
+    if (step.status === 'claimed') return { success: false, reason: 'Quest step already claimed', step };
+    if (step.status === 'locked') return { success: false, reason: step.lockedReason || 'Quest step is locked', step };
+    if (!step.canClaim) return { success: false, reason: 'Quest step not completed', step };
+
+    const row = rows.find(r => r.chainId === chain.id && r.stepId === step.id)!;
+    const claimedAt = new Date().toISOString();
+    const { data: marked, error: markError } = await this.storage.supabase
+      .from('userQuestProgress')
+      .update({ claimedAt, updatedAt: claimedAt })
+      .eq('id', row.id)
+      .is('claimedAt', null)
+      .select('id');
+    if (markError) throw markError;
+    if (!marked || marked.length === 0) return { success: false, reason: 'Quest step already claimed', step };
+
+    let result: RewardGrantResult;
+    let xpGained: number;
+    try {
+      const xp = await this.xp.award(user, 'quest_claim');
+      result = await this.rewards.grant(user.id, step.rewards, {
+        source: 'quest_claim',
+        refId: `${chain.id}:${step.id}`,
+        user,
+        characterId: step.giverId || undefined,
+        updates: xp.updates
+      });
+      xpGained = xp.gain;
+    } catch (error) {
+      await this.storage.supabase
+        .from('userQuestProgress')
+        .update({ claimedAt: null })
+        .eq('id', row.id);
+      throw error;
+    }
+
+    // Open the steps that were waiting on this one
+    const claimedRows = rows.map(r => r.id === row.id ? { ...r, claimedAt: new Date(claimedAt) } : r);
+    const after = this.toChainView(chain, claimedRows, result.user);
+    const unlocked = after.steps.filter(s => s.status !== 'locked'
+      && view.steps.find(before => before.id === s.id)?.status === 'locked');
+    if (unlocked.length > 0) {
+      const { error } = await this.storage.supabase
+        .from('userQuestProgress')
+        .upsert(unlocked.map(s => ({
+          userId: user.id,
+          chainId: chain.id,
+          stepId: s.id,
+          progress: 0,
+          unlockedAt: claimedAt,
+          updatedAt: claimedAt
+        })), { onConflict: 'userId,chainId,stepId', ignoreDuplicates: true });
+      // Unlocking is derived from the claim, so a missing row only delays progress tracking
+      if (error) console.error(`📜 [QUESTS] Failed to unlock steps after ${chain.id}:${step.id} for ${user.id}:`, error);
+    }
+
+    return {
+      success: true,
+      step: { ...step, status: 'claimed', canClaim: false },
+      unlocked,
+      granted: result.granted,
+      totals: result.totals,
+      newStats: result.newStats,
+      xpGained
+    };
+  }
+
+  private async getActiveChains(events?: EventContext): Promise<QuestChain[]> {
+    const [chains, ctx] = await Promise.all([this.files.getAllQuestChains(), events ?? this.events.resolve()]);
+    return chains.filter(chain => chain.isActive !== false
+      && chain.steps?.length > 0
+      && ctx.allows('quests', chain.id));
+  }
+
+  private async getRows(userId: string, chainIds: string[]): Promise<UserQuestProgress[]> {
+    if (chainIds.length === 0) return [];
+    const { data, error } = await this.storage.supabase
+      .from('userQuestProgress')
+      .select('*')
+      .eq('userId', userId)
+      .in('chainId', chainIds);
+    if (error) throw error;
+    return (data || []) as UserQuestProgress[];
+  }
+
+  // Prerequisite step id: explicit (null = none), else the previous step
+  private prerequisiteOf(chain: QuestChain, index: number): string | null {
+    const step = chain.steps[index];
+    if (step.prerequisite && step.prerequisite.stepId !== undefined) return step.prerequisite.stepId;
+    return index > 0 ? chain.steps[index - 1].id : null;
+  }
+
+  private toChainView(chain: QuestChain, rows: UserQuestProgress[], user: User | null): QuestChainView {
+    const byStep = new Map(rows.filter(r => r.chainId === chain.id).map(r => [r.stepId, r]));
+    const level = user?.level || 1;
+
+    const steps: QuestStepView[] = chain.steps.map((step, index) => {
+      const row = byStep.get(step.id);
+      const maxProgress = step.requirements.target;
+      const progress = Math.min(maxProgress, row?.progress || 0);
+      const prerequisiteId = this.prerequisiteOf(chain, index);
+      const requiredLevel = Math.max(chain.levelRequirement || 1, step.prerequisite?.level || 1);
+
+      let lockedReason: string | undefined;
+      if (prerequisiteId && !byStep.get(prerequisiteId)?.claimedAt) {
+        const prerequisite = chain.steps.find(s => s.id === prerequisiteId);
+        lockedReason = `Complete "${prerequisite?.title || prerequisiteId}" first`;
+      } else if (level < requiredLevel) {
+        lockedReason = `Requires level ${requiredLevel}`;
+      }
+
+      const status = row?.claimedAt ? 'claimed'
+        : lockedReason ? 'locked'
+        : progress >= maxProgress ? 'completed'
+        : 'active';
+
+      return {
+        ...step,
+        chainId: chain.id,
+        giverId: step.characterId || chain.characterId || null,
+        progress,
+        maxProgress,
+        status,
+        ...(status === 'locked' ? { lockedReason } : {}),
+        canClaim: !!user && status === 'completed'
+      };
+    });
+
+    const claimedSteps = steps.filter(s => s.status === 'claimed').length;
+    const current = steps.find(s => s.status === 'active' || s.status === 'completed');
+    const { steps: _steps, ...meta } = chain;
+    return {
+      ...meta,
+      steps,
+      status: claimedSteps === steps.length ? 'completed'
+        : current ? 'active'
+        : 'locked',
+      currentStepId: current?.id || null,
+      claimedSteps,
+      totalSteps: steps.length
+    };
+  }
+}
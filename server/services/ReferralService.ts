@@ -0,0 +1,314 @@
+import { randomBytes } from "crypto";
+import { SupabaseStorage } from "../../shared/SupabaseStorage";
+import { FileStorage } from "../../shared/FileStorage";
+import type { Referral, ReferralMilestone, ReferralReward, RewardDefinition, User } from "../../shared/schema";
+import { RewardService } from "./RewardService";
+import { GameEventBus, type PlayerEvent } from "./GameEventBus";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DEFAULT_ATTRIBUTION_WINDOW_HOURS = 24;
+const DEFAULT_BOT_USERNAME = 'ClassikLust_Bot';
+
+// No 0/O or 1/I so codes survive being read out or retyped
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+const CODE_PATTERN = /^[A-Z0-9]{4,16}$/;
+const CODE_ATTEMPTS = 5;
+
+export const REFERRAL_PAYLOAD_PREFIX = 'ref_';
+
+type RewardSide = 'referrer' | 'invitee';
+
+export interface ReferralAttributionResult {
+  success: boolean;
+  reason?: string;
+  referral?: Referral;
+}
+
+export interface ReferralMilestoneStatus {
+  id: string;
+  reached: boolean;
+  rewardedAt: string | null; // When this player's side was paid
+}
+
+export interface ReferralListEntry {
+  username: string;
+  displayPicture: string | null;
+  level: number;
+  joinedAt: string;
+  milestones: ReferralMilestoneStatus[];
+}
+
+export interface ReferralsView {
+  code: string;
+  link: string;
+  referredBy: { username: string; joinedAt: string; milestones: ReferralMilestoneStatus[] } | null;
+  milestones: ReferralMilestone[];
+  maxReferrals: number | null;
+  totals: { invited: number; completed: number }; // completed = invitees past every milestone
+  referrals: ReferralListEntry[];
+}
+
+/**
+ * Referral program. Every player gets a code (created on first use) that others pass through the
+ * bot's /start ref_<code> deep link. A brand-new Telegram account starting the bot with a code is
+ * attributed to its owner once; GameSettings.referrals.milestones then pay both sides as the invitee
+ * progresses. Each side of each milestone is marked in referralRewards before it is granted, so a
+ * repeated event can't pay twice.
+ */
+export class ReferralService {
+  private static instance: ReferralService;
+  private storage = SupabaseStorage.getInstance();
+  private files = FileStorage.getInstance();
+  private rewards = RewardService.getInstance();
+  private unsubscribe: (() => void) | null = null;
+
+  static getInstance() {
+    if (!ReferralService.instance) ReferralService.instance = new ReferralService();
+    return ReferralService.instance;
+  }
+
+  // Starts listening for invitee progress (once)
+  subscribe() {
+    if (this.unsubscribe) return;
+    this.unsubscribe = GameEventBus.getInstance().subscribe('referrals', event => this.track(event), ['level_up', 'purchase']);
+  }
+
+  // Accepts "ref_abc123", "ABC123" or a bare /start payload; null when it isn't a code
+  normalizeCode(raw: string | null | undefined): string | null {
+    if (!raw) return null;
+    const trimmed = raw.trim();
+    const code = (trimmed.toLowerCase().startsWith(REFERRAL_PAYLOAD_PREFIX) ? trimmed.slice(REFERRAL_PAYLOAD_PREFIX.length) : trimmed).toUpperCase();
+    return CODE_PATTERN.test(code) ? code : null;
+  }
+
+  shareLink(code: string): string {
+    const bot = process.env.TELEGRAM_BOT_USERNAME || DEFAULT_BOT_USERNAME;
+    return `https://t.me/${bot}?start=${REFERRAL_PAYLOAD_PREFIX}${code}`;
+  }
+
+  async getOrCreateCode(user: User): Promise<string> {
+    if (user.referralCode) return user.referralCode;
+
+    for (let attempt = 0; attempt < CODE_ATTEMPTS; attempt++) {
+      const code = this.generateCode();
+      const { data, error } = await this.storage.supabase
+        .from('users')
+        .update({ referralCode: code })
+        .eq('id', user.id)
+        .is('referralCode', null)
+        .select('referralCode')
+        .maybeSingle();
+      if (error) {
+        if (error.code === '23505') continue; // Code taken - draw another
+        throw error;
+      }
+      if (data?.referralCode) return data.referralCode;
+
+      // Another request gave the player a code first
+      const fresh = await this.storage.getUser(user.id);
+      if (fresh?.referralCode) return fresh.referralCode;
+    }
+    throw new Error(`Could not create a referral code for ${user.id}`);
+  }
+
+  /**
+   * Attributes a new player to the owner of `rawCode`. Rejects unknown codes, the player's own code
+   * (same account or Telegram id), accounts older than the attribution window or older than the
+   * referrer, players who already have a referrer and codes at their maxReferrals limit.
+   */
+  async attribute(invitee: User, rawCode: string, now = Date.now()): Promise<ReferralAttributionResult> {
+    const code = this.normalizeCode(rawCode);
+    if (!code) return { success: false, reason: 'Invalid referral code' };
+
+    const settings = await this.files.getGameSettings();
+    const config = settings.referrals || {};
+
+    const { data: referrer, error } = await this.storage.supabase
+      .from('users')
+      .select('*')
+      .eq('referralCode', code)
+      .maybeSingle();
+    if (error) throw error;
+    if (!referrer) return { success: false, reason: 'Referral code not found' };
+
+    if (referrer.id === invitee.id || (referrer.telegramId && referrer.telegramId === invitee.telegramId)) {
+      return { success: false, reason: 'You cannot use your own referral code' };
+    }
+
+    const windowMs = Math.max(0, config.attributionWindowHours ?? DEFAULT_ATTRIBUTION_WINDOW_HOURS) * HOUR_MS;
+    const inviteeCreated = new Date(invitee.createdAt).getTime();
+    if (now - inviteeCreated > windowMs) {
+      return { success: false, reason: 'Referral codes only apply to new players' };
+    }
+    if (new Date(referrer.createdAt).getTime() > inviteeCreated) {
+      return { success: false, reason: 'Referral code belongs to a newer account' };
+    }
+
+    if (await this.getReferralFor(invitee.id)) return { success: false, reason: 'Player was already referred' };
+
+    if (config.maxReferrals != null) {
+      const { count, error: countError } = await this.storage.supabase
+        .from('referrals')
+        .select('id', { count: 'exact', head: true })
+        .eq('referrerId', referrer.id);
+      if (countError) throw countError;
+      if ((count || 0) >= config.maxReferrals) return { success: false, reason: 'Referral code has reached its limit' };
+    }
+
+    const { data: referral, error: insertError } = await this.storage.supabase
+      .from('referrals')
+      .insert({ referrerId: referrer.id, inviteeId: invitee.id, code, createdAt: new Date(now).toISOString() })
+      .select()
+      .single();
+    if (insertError) {
+      if (insertError.code === '23505') return { success: false, reason: 'Player was already referred' };
+      throw insertError;
+    }
+
+    console.log(`🤝 [REFERRALS] ${invitee.id} joined with ${referrer.id}'s code ${code}`);
+    return { success: true, referral: referral as Referral };
+  }
+
+  async track(event: PlayerEvent): Promise<void> {
+    if (event.type !== 'level_up' && event.type !== 'purchase') return;
+
+    const user = event.user || await this.storage.getUser(event.userId);
+    if (!user) return;
+    const referral = await this.getReferralFor(user.id);
+    if (!referral) return;
+
+    const settings = await this.files.getGameSettings();
+    const reached = (settings.referrals?.milestones || []).filter(m => this.isReached(m, user, event));
+    for (const milestone of reached) {
+      await this.payOut(referral, milestone, 'referrer', referral.referrerId, milestone.referrerRewards);
+      await this.payOut(referral, milestone, 'invitee', referral.inviteeId, milestone.inviteeRewards);
+    }
+  }
+
+  async getReferrals(user: User): Promise<ReferralsView> {
+    const settings = await this.files.getGameSettings();
+    const milestones = settings.referrals?.milestones || [];
+    const code = await this.getOrCreateCode(user);
+
+    const { data, error } = await this.storage.supabase
+      .from('referrals')
+      .select('*')
+      .eq('referrerId', user.id)
+      .order('createdAt', { ascending: false });
+    if (error) throw error;
+    const invites = (data || []) as Referral[];
+
+    const own = await this.getReferralFor(user.id);
+    const referralIds = [...invites.map(r => r.id), ...(own ? [own.id] : [])];
+    const profiles = await this.getProfiles([...invites.map(r => r.inviteeId), ...(own ? [own.referrerId] : [])]);
+    const paid = await this.getRewardRows(referralIds);
+
+    const statusFor = (referral: Referral, side: RewardSide, inviteeLevel: number): ReferralMilestoneStatus[] =>
+      milestones.map(m => {
+        const rows = paid.filter(r => r.referralId === referral.id && r.milestoneId === m.id);
+        const mine = rows.find(r => r.side === side);
+        return {
+          id: m.id,
+          reached: rows.length > 0 || (m.type === 'level' && inviteeLevel >= (m.level || 0)),
+          rewardedAt: mine ? new Date(mine.rewardedAt).toISOString() : null
+        };
+      });
+
+    const referrals = invites.map(referral => {
+      const profile = profiles.get(referral.inviteeId);
+      const level = profile?.level || 1;
+      return {
+        username: profile?.username || 'Unknown player',
+        displayPicture: profile?.displayPicture || null,
+        level,
+        joinedAt: new Date(referral.createdAt).toISOString(),
+        milestones: statusFor(referral, 'referrer', level)
+      };
+    });
+
+    const referrer = own ? profiles.get(own.referrerId) : undefined;
+    return {
+      code,
+      link: this.shareLink(code),
+      referredBy: own ? {
+        username: referrer?.username || 'Unknown player',
+        joinedAt: new Date(own.createdAt).toISOString(),
+        milestones: statusFor(own, 'invitee', user.level || 1)
+      } : null,
+      milestones,
+      maxReferrals: settings.referrals?.maxReferrals ?? null,
+      totals: {
+        invited: referrals.length,
+        completed: referrals.filter(r => r.milestones.length > 0 && r.milestones.every(m => m.reached)).length
+      },
+      referrals
+    };
+  }
+
+  private isReached(milestone: ReferralMilestone, user: User, event: PlayerEvent): boolean {
+    switch (milestone.type) {
+      case 'level': return Math.max(user.level || 1, event.type === 'level_up' ? event.level : 0) >= (milestone.level || 0);
+      case 'first_upgrade': return event.type === 'purchase';
+      default: return false;
+    }
+  }
+
+  // Marks one side of a milestone, then grants it; the mark is removed again if the grant fails
+  private async payOut(referral: Referral, milestone: ReferralMilestone, side: RewardSide, userId: string, rewards: RewardDefinition[]) {
+    if (!rewards || rewards.length === 0) return;
+
+    const { data: marked, error } = await this.storage.supabase
+      .from('referralRewards')
+      .insert({ referralId: referral.id, milestoneId: milestone.id, side, userId })
+      .select('id')
+      .single();
+    if (error) {
+      if (error.code === '23505') return; // Already paid
+      throw error;
+    }
+
+    try {
+      await this.rewards.grant(userId, rewards, { source: 'referral_reward', refId: `${referral.id}:${milestone.id}:${side}` });
+      console.log(`🤝 [REFERRALS] Paid ${side} ${userId} for ${milestone.id} (referral ${referral.id})`);
+    } catch (err) {
+      console.error(`🤝 [REFERRALS] ${side} reward for ${milestone.id} (referral ${referral.id}) failed:`, err);
+      await this.storage.supabase.from('referralRewards').delete().eq('id', marked.id);
+    }
+  }
+
+  private async getReferralFor(inviteeId: string): Promise<Referral | null> {
+    const { data, error } = await this.storage.supabase
+      .from('referrals')
+      .select('*')
+      .eq('inviteeId', inviteeId)
+      .maybeSingle();
+    if (error) throw error;
+    return data as Referral | null;
+  }
+
+  private async getRewardRows(referralIds: string[]): Promise<ReferralReward[]> {
+    if (referralIds.length === 0) return [];
+    const { data, error } = await this.storage.supabase
+      .from('referralRewards')
+      .select('*')
+      .in('referralId', referralIds);
+    if (error) throw error;
+    return (data || []) as ReferralReward[];
+  }
+
+  private async getProfiles(ids: string[]): Promise<Map<string, Pick<User, 'id' | 'username' | 'displayPicture' | 'level'>>> {
+    if (ids.length === 0) return new Map();
+    const { data, error } = await this.storage.supabase
+      .from('users')
+      .select('id, username, displayPicture, level')
+      .in('id', Array.from(new Set(ids)));
+    if (error) throw error;
+    return new Map(((data || []) as Pick<User, 'id' | 'username' | 'displayPicture' | 'level'>[]).map(p => [p.id, p]));
+  }
+
+  private generateCode(): string {
+    const bytes = randomBytes(CODE_LENGTH);
+    return Array.from(bytes, b => CODE_ALPHABET[b % CODE_ALPHABET.length]).join('');
+  }
+}
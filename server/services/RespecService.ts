@@ -0,0 +1,237 @@
+import { SupabaseStorage } from "../../shared/SupabaseStorage";
+import { FileStorage } from "../../shared/FileStorage";
+import { UpgradeStorage, type ComputedStats } from "../../shared/UpgradeStorage";
+import type { User } from "../../shared/schema";
+import { LedgerService } from "./LedgerService";
+import { StatService } from "./StatService";
+import { fetchAllPages } from "../utils/helpers";
+
+const DEFAULT_REFUND_PERCENT = 50;
+const DEFAULT_COOLDOWN_HOURS = 24;
+const DEFAULT_LP_FEE = 0;
+
+export interface RespecOptions {
+  upgradeId?: string; // Omit to reset every upgrade
+  admin?: boolean; // Support override: no cooldown, no fee, cooldown anchor untouched
+  refundPercent?: number; // Admin-only override of GameSettings.respec.refundPercent
+}
+
+export interface RespecLine {
+  upgradeId: string;
+  level: number;
+  spent: number; // LP the ledger shows paid for this upgrade since its last respec
+  refund: number;
+}
+
+export interface RespecQuote {
+  valid: boolean;
+  reason?: string;
+  upgrades: RespecLine[];
+  spent: number;
+  refundPercent: number;
+  refund: number;
+  fee: number;
+  delta: number; // refund - fee, applied to LP in one ledger entry
+  balance: number;
+  balanceAfter: number;
+  cooldownEndsAt: string | null; // Set while the player is still on cooldown
+}
+
+export interface RespecResult {
+  success: boolean;
+  reason?: string;
+  quote: RespecQuote;
+  newStats?: ComputedStats & { lp: number };
+}
+
+/**
+ * Resets one upgrade, or all of them, to level 0 and refunds part of the LP spent.
+ * The spend is summed from the player's lpLedger purchase entries, so levels granted for free refund nothing;
+ * the refund lands in the ledger as 'upgrade_respec', and users.lastRespecAt anchors the cooldown.
+ * Settings: GameSettings.respec { refundPercent, cooldownHours, lpFee }.
+ */
+export class RespecService {
+  private static instance: RespecService;
+  private storage = SupabaseStorage.getInstance();
+  private files = FileStorage.getInstance();
+  private upgrades = UpgradeStorage.getInstance();
+  private ledger = LedgerService.getInstance();
+
+  static getInstance() {
+    if (!RespecService.instance) RespecService.instance = new RespecService();
+    return RespecService.instance;
+  }
+
+  async quote(userId: string, options: RespecOptions = {}, now = Date.now()): Promise<RespecQuote> {
+    const user = await this.storage.getUser(userId);
+    if (!user) {
+      return this.emptyQuote('User not found');
+    }
+    return this.buildQuote(user, options, now);
+  }
+
+  async respec(userId: string, options: RespecOptions = {}): Promise<RespecResult> {
+    const now = Date.now();
+    const user = await this.storage.getUser(userId);
+    if (!user) {
+      return { success: false, reason: 'User not found', quote: this.emptyQuote('User not found') };
+    }
+
+    const quote = await this.buildQuote(user, options, now);
+    if (!quote.valid) {
+      return { success: false, reason: quote.reason, quote };
+    }
+
+    const upgradeKey = StatService.upgradeKey(user);
+    const reset: RespecLine[] = [];
+
+    try {
+      for (const line of quote.upgrades) {
+        await this.upgrades.setUserUpgradeLevel(upgradeKey, line.upgradeId, 0);
+        reset.push(line);
+      }
+
+      await this.ledger.applyLpChange({
+        userId: user.id,
+        delta: quote.delta,
+        source: 'upgrade_respec',
+        refId: options.upgradeId || 'all',
+        currentLp: quote.balance,
+        // Admin respecs are support actions and don't start the player's cooldown
+        updates: options.admin ? undefined : { lastRespecAt: new Date(now) }
+      });
+    } catch (error) {
+      // Put levels back so a failed refund doesn't cost the player their upgrades
+      for (const line of reset.reverse()) {
+        await this.upgrades.setUserUpgradeLevel(upgradeKey, line.upgradeId, line.level).catch((restoreError) =>
+          console.error(`❌ [RESPEC] Failed to restore ${line.upgradeId} to level ${line.level}:`, restoreError)
+        );
+      }
+      throw error;
+    }
+
+    const stats = await this.upgrades.applyUserUpgradeEffects(upgradeKey);
+
+    console.log(`♻️ [RESPEC] ${user.id}: reset ${quote.upgrades.length} upgrades, refund ${quote.refund} - fee ${quote.fee} LP${options.admin ? ' (admin)' : ''}`);
+
+    return {
+      success: true,
+      quote,
+      newStats: { ...stats, lp: quote.balanceAfter }
+    };
+  }
+
+  private async buildQuote(user: User, options: RespecOptions, now: number): Promise<RespecQuote> {
+    const settings = (await this.files.getGameSettings()).respec || {};
+    const refundPercent = Math.min(100, Math.max(0,
+      options.admin && options.refundPercent !== undefined
+        ? options.refundPercent
+        : settings.refundPercent ?? DEFAULT_REFUND_PERCENT
+    ));
+    const fee = options.admin ? 0 : Math.max(0, settings.lpFee ?? DEFAULT_LP_FEE);
+    const balance = user.lp || 0;
+
+    const quote: RespecQuote = {
+      valid: false,
+      upgrades: [],
+      spent: 0,
+      refundPercent,
+      refund: 0,
+      fee,
+      delta: 0,
+      balance,
+      balanceAfter: balance,
+      cooldownEndsAt: null
+    };
+
+    const [allUpgrades, userUpgrades, spentByUpgrade] = await Promise.all([
+      this.upgrades.getAllUpgrades(),
+      this.upgrades.getUserUpgrades(StatService.upgradeKey(user)),
+      this.lpSpentByUpgrade(user.id)
+    ]);
+
+    if (options.upgradeId && !allUpgrades.some(u => u.id === options.upgradeId)) {
+      return { ...quote, reason: 'Upgrade not found in JSON files' };
+    }
+
+    for (const owned of userUpgrades) {
+      if (owned.level <= 0) continue;
+      if (options.upgradeId && owned.upgradeId !== options.upgradeId) continue;
+      const upgrade = allUpgrades.find(u => u.id === owned.upgradeId);
+      // Levels of upgrades removed from the JSON are still reset, just without a refund
+      const spent = upgrade ? spentByUpgrade[owned.upgradeId] || 0 : 0;
+      const refund = Math.floor(spent * refundPercent / 100);
+      quote.upgrades.push({ upgradeId: owned.upgradeId, level: owned.level, spent, refund });
+      quote.spent += spent;
+      quote.refund += refund;
+    }
+
+    quote.delta = quote.refund - fee;
+    quote.balanceAfter = balance + quote.delta;
+
+    if (!options.admin && user.lastRespecAt) {
+      const cooldownMs = Math.max(0, settings.cooldownHours ?? DEFAULT_COOLDOWN_HOURS) * 60 * 60 * 1000;
+      const endsAt = new Date(user.lastRespecAt).getTime() + cooldownMs;
+      if (endsAt > now) {
+        return { ...quote, cooldownEndsAt: new Date(endsAt).toISOString(), reason: 'Respec on cooldown' };
+      }
+    }
+
+    if (quote.upgrades.length === 0) {
+      return { ...quote, reason: 'No upgrade levels to reset' };
+    }
+
+    if (quote.balanceAfter < 0) {
+      return { ...quote, reason: 'Insufficient LP for respec fee' };
+    }
+
+    return { ...quote, valid: true };
+  }
+
+  /**
+   * Net LP paid per upgrade: upgrade_purchase charges minus upgrade_refund rollbacks, zeroed by each
+   * upgrade_respec that reset the upgrade (refId is the upgradeId or 'all'). Purchase refIds are
+   * `${upgradeId}:${level}` or `${upgradeId}:${from}-${to}` (see purchaseRefId in upgradeRoutes).
+   */
+  private async lpSpentByUpgrade(userId: string): Promise<Record<string, number>> {
+    const entries = await fetchAllPages<{ delta: number; source: string; refId: string | null }>((from, to) => this.storage.supabase
+      .from('lpLedger')
+      .select('delta, source, refId')
+      .eq('userId', userId)
+      .in('source', ['upgrade_purchase', 'upgrade_refund', 'upgrade_respec'])
+      .order('createdAt', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, to));
+
+    let spent: Record<string, number> = {};
+    for (const entry of entries) {
+      if (!entry.refId) continue;
+      if (entry.source === 'upgrade_respec') {
+        if (entry.refId === 'all') spent = {};
+        else delete spent[entry.refId];
+        continue;
+      }
+      const separator = entry.refId.lastIndexOf(':');
+      const upgradeId = separator > 0 ? entry.refId.slice(0, separator) : entry.refId;
+      // Purchases are negative deltas, rollback refunds positive - both flip into the spend
+      spent[upgradeId] = Math.max(0, (spent[upgradeId] || 0) - entry.delta);
+    }
+    return spent;
+  }
+
+  private emptyQuote(reason: string): RespecQuote {
+    return {
+      valid: false,
+      reason,
+      upgrades: [],
+      spent: 0,
+      refundPercent: 0,
+      refund: 0,
+      fee: 0,
+      delta: 0,
+      balance: 0,
+      balanceAfter: 0,
+      cooldownEndsAt: null
+    };
+  }
+}
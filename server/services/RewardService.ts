@@ -0,0 +1,363 @@
+import { SupabaseStorage } from "../../shared/SupabaseStorage";
+import { UpgradeStorage } from "../../shared/UpgradeStorage";
+import type { User, RewardDefinition } from "../../shared/schema";
+import { LedgerService, type LedgerSource, type LpUpdates } from "./LedgerService";
+import { EnergyService } from "./EnergyService";
+import { BoosterService, BOOSTER_TYPES } from "./BoosterService";
+import { TriggerService, type TriggerEvent } from "./TriggerService";
+import { StatService } from "./StatService";
+
+const REWARD_TYPES: RewardDefinition['type'][] = [
+  'lp', 'energy', 'charisma', 'booster', 'mediaTagUnlock', 'featureUnlock', 'upgradeId', 'character', 'item'
+];
+
+// Which trigger a grant raises - sources without their own trigger type use reward_grant
+const TRIGGER_TYPES: Partial<Record<LedgerSource, TriggerEvent['type']>> = {
+  level_claim: 'level_up',
+  task_claim: 'task_claim',
+  quest_claim: 'task_claim',
+  achievement_claim: 'achievement_claim'
+};
+
+export interface RewardContext {
+  source: LedgerSource;
+  refId?: string | number | null;
+  user?: User; // Pass when the caller already loaded the user to skip a read
+  characterId?: string; // Character the reward is attributed to (trigger events)
+  updates?: LpUpdates; // Other columns written together with the balance change (level, lastVipBonusClaim, xp, ...)
+}
+
+export interface GrantedReward extends RewardDefinition {
+  applied: boolean; // false when there was nothing to grant (max level, already unlocked, booster at cap)
+  note?: string;
+}
+
+export interface RewardGrantResult {
+  user: User;
+  granted: GrantedReward[];
+  totals: { lp: number; energy: number; charisma: number };
+  newStats: { lp: number; energy: number; charisma: number };
+}
+
+type Undo = () => Promise<void>;
+
+/**
+ * Single grant path for rewards defined in JSON (tasks, achievements, level unlocks, wheel prizes, ...).
+ * A reward type behaves the same no matter which claim route grants it.
+ *
+ * Grants are all-or-nothing: every definition is validated before anything is written, side grants
+ * (upgrade levels, items, tag/feature unlocks, characters, boosters) record an undo step, and lp/energy/charisma
+ * land in one ledger write at the end. If any write fails the completed steps are undone in reverse.
+ */
+export class RewardService {
+  private static instance: RewardService;
+  private storage = SupabaseStorage.getInstance();
+  private upgrades = UpgradeStorage.getInstance();
+  private ledger = LedgerService.getInstance();
+  private energy = EnergyService.getInstance();
+  private boosters = BoosterService.getInstance();
+  private triggers = TriggerService.getInstance();
+
+  static getInstance() {
+    if (!RewardService.instance) RewardService.instance = new RewardService();
+    return RewardService.instance;
+  }
+
+  /**
+   * Grants rewards to a user. `userId` may be the client id (telegram_<id>) or users.id - upgrade levels
+   * are keyed by StatService.upgradeKey of the resolved user, everything else by users.id.
+   */
+  async grant(userId: string, rewards: RewardDefinition[], ctx: RewardContext): Promise<RewardGrantResult> {
+    const user = ctx.user ?? await this.storage.getUser(userId);
+    if (!user) throw new Error('User not found');
+
+    const list = (rewards || []).map(r => this.normalize(r));
+    await this.validate(list);
+
+    const granted: GrantedReward[] = [];
+    const undo: Undo[] = [];
+    const totals = { lp: 0, energy: 0, charisma: 0 };
+
+    try {
+      let upgradesChanged = false;
+
+      for (const reward of list) {
+        switch (reward.type) {
+          case 'lp':
+          case 'energy':
+          case 'charisma':
+            totals[reward.type] += reward.amount!;
+            granted.push({ ...reward, applied: true });
+            break;
+          case 'upgradeId': {
+            const result = await this.grantUpgradeLevels(user, reward, undo);
+            upgradesChanged = upgradesChanged || result.applied;
+            granted.push(result);
+            break;
+          }
+          case 'item':
+            granted.push(await this.grantItem(user.id, reward, undo));
+            break;
+          case 'mediaTagUnlock':
+            granted.push(await this.grantUnlock(user.id, 'mediaTag', reward.tag!, ctx.source, reward, undo));
+            break;
+          case 'featureUnlock':
+            granted.push(await this.grantUnlock(user.id, 'feature', reward.feature!, ctx.source, reward, undo));
+            break;
+          case 'character':
+            granted.push(await this.grantCharacter(user.id, reward, undo));
+            break;
+          case 'booster':
+            granted.push(await this.grantBooster(user.id, reward, undo));
+            break;
+        }
+      }
+
+      if (upgradesChanged) {
+        const upgradeKey = StatService.upgradeKey(user);
+        await this.upgrades.applyUserUpgradeEffects(upgradeKey);
+        undo.push(async () => { await this.upgrades.applyUserUpgradeEffects(upgradeKey); });
+      }
+
+      // Energy and charisma are added to the row each ledger attempt writes against
+      let energy = user.energy || 0;
+      const updates = async (current: User): Promise<Partial<User>> => {
+        const columns: Partial<User> = { ...(typeof ctx.updates === 'function' ? await ctx.updates(current) : ctx.updates || {}) };
+        if (totals.energy) {
+          const state = await this.energy.getState(current);
+          energy = Math.min(state.maxEnergy, state.energy + totals.energy);
+          Object.assign(columns, this.energy.toUpdate(state, energy));
+        }
+        if (totals.charisma) columns.charisma = (current.charisma || 0) + totals.charisma;
+        return columns;
+      };
+
+      const { user: updatedUser, balanceAfter } = await this.ledger.applyLpChange({
+        userId,
+        delta: totals.lp,
+        source: ctx.source,
+        refId: ctx.refId,
+        user,
+        updates
+      });
+
+      console.log(`🎁 [REWARD] ${ctx.source}${ctx.refId !== undefined && ctx.refId !== null ? ` ${ctx.refId}` : ''} for ${user.id}: ${granted.filter(g => g.applied).map(g => g.type).join(', ') || 'nothing'}`);
+
+      await this.emit(user.id, granted, ctx);
+
+      return {
+        user: updatedUser!,
+        granted,
+        totals,
+        newStats: {
+          lp: balanceAfter,
+          energy: updatedUser?.energy ?? energy,
+          charisma: updatedUser?.charisma ?? (user.charisma || 0) + totals.charisma
+        }
+      };
+    } catch (error) {
+      console.error(`🎁 [REWARD] Grant for ${user.id} (${ctx.source}) failed, rolling back ${undo.length} step(s):`, error);
+      for (const step of undo.reverse()) {
+        try {
+          await step();
+        } catch (rollbackError) {
+          console.error('🎁 [REWARD] Rollback step failed:', rollbackError);
+        }
+      }
+      throw error;
+    }
+  }
+
+  // Accepts the legacy JSON shapes: wheel prizes use eventTag, some files omit amount
+  normalize(raw: any): RewardDefinition {
+    const type = raw?.type;
+    const reward: RewardDefinition = { type };
+    const amount = Number(raw?.amount);
+
+    switch (type) {
+      case 'lp':
+      case 'energy':
+      case 'charisma':
+        reward.amount = Number.isFinite(amount) ? amount : 0;
+        break;
+      case 'booster':
+        reward.boosterType = raw.boosterType || BOOSTER_TYPES.lpMultiplier;
+        if (Number.isFinite(amount) && amount > 0) reward.amount = amount; // minutes, default = maxDuration
+        if (raw.multiplier !== undefined) reward.multiplier = Number(raw.multiplier);
+        break;
+      case 'mediaTagUnlock':
+        reward.tag = raw.tag || raw.eventTag;
+        break;
+      case 'featureUnlock':
+        reward.feature = raw.feature;
+        break;
+      case 'upgradeId':
+        reward.upgradeId = raw.upgradeId;
+        reward.amount = Number.isFinite(amount) && amount > 0 ? Math.floor(amount) : 1;
+        break;
+      case 'character':
+        reward.characterId = raw.characterId;
+        break;
+      case 'item':
+        reward.itemId = raw.itemId;
+        reward.amount = Number.isFinite(amount) && amount > 0 ? Math.floor(amount) : 1;
+        break;
+    }
+    return reward;
+  }
+
+  // Config errors are thrown before anything is written
+  private async validate(rewards: RewardDefinition[]) {
+    for (const reward of rewards) {
+      if (!REWARD_TYPES.includes(reward.type)) throw new Error(`Unknown reward type: ${reward.type}`);
+
+      switch (reward.type) {
+        case 'booster':
+          if (!await this.boosters.getDefinition(reward.boosterType!)) {
+            throw new Error(`Unknown booster type in reward: ${reward.boosterType}`);
+          }
+          break;
+        case 'mediaTagUnlock':
+          if (!reward.tag) throw new Error('mediaTagUnlock reward is missing its tag');
+          break;
+        case 'featureUnlock':
+          if (!reward.feature) throw new Error('featureUnlock reward is missing its feature');
+          break;
+        case 'upgradeId':
+          if (!reward.upgradeId) throw new Error('upgradeId reward is missing its upgradeId');
+          if (!await this.upgrades.getUpgrade(reward.upgradeId)) {
+            throw new Error(`Unknown upgrade in reward: ${reward.upgradeId}`);
+          }
+          break;
+        case 'character':
+          if (!reward.characterId) throw new Error('character reward is missing its characterId');
+          if (!await this.storage.getCharacter(reward.characterId)) {
+            throw new Error(`Unknown character in reward: ${reward.characterId}`);
+          }
+          break;
+        case 'item':
+          if (!reward.itemId) throw new Error('item reward is missing its itemId');
+          break;
+      }
+    }
+  }
+
+  // Free levels, capped at maxLevel
+  private async grantUpgradeLevels(user: User, reward: RewardDefinition, undo: Undo[]): Promise<GrantedReward> {
+    const upgradeKey = StatService.upgradeKey(user);
+    const upgrade = (await this.upgrades.getUpgrade(reward.upgradeId!))!;
+    const current = await this.upgrades.getUserUpgradeLevel(upgradeKey, upgrade.id);
+    const target = Math.min(upgrade.maxLevel, current + reward.amount!);
+    if (target <= current) return { ...reward, amount: 0, applied: false, note: 'Max level reached' };
+
+    await this.upgrades.setUserUpgradeLevel(upgradeKey, upgrade.id, target);
+    undo.push(() => this.upgrades.setUserUpgradeLevel(upgradeKey, upgrade.id, current));
+    return { ...reward, amount: target - current, applied: true };
+  }
+
+  private async grantItem(userId: string, reward: RewardDefinition, undo: Undo[]): Promise<GrantedReward> {
+    const { data: existing, error: readError } = await this.storage.supabase
+      .from('userItems')
+      .select('id, quantity')
+      .eq('userId', userId)
+      .eq('itemId', reward.itemId!)
+      .maybeSingle();
+    if (readError) throw readError;
+
+    const updatedAt = new Date().toISOString();
+    if (existing) {
+      const { error } = await this.storage.supabase
+        .from('userItems')
+        .update({ quantity: existing.quantity + reward.amount!, updatedAt })
+        .eq('id', existing.id);
+      if (error) throw error;
+      undo.push(async () => {
+        await this.storage.supabase.from('userItems').update({ quantity: existing.quantity }).eq('id', existing.id);
+      });
+    } else {
+      const { data, error } = await this.storage.supabase
+        .from('userItems')
+        .insert({ userId, itemId: reward.itemId, quantity: reward.amount, updatedAt })
+        .select('id')
+        .single();
+      if (error) throw error;
+      undo.push(async () => {
+        await this.storage.supabase.from('userItems').delete().eq('id', data.id);
+      });
+    }
+    return { ...reward, applied: true };
+  }
+
+  private async grantUnlock(userId: string, kind: string, key: string, source: LedgerSource, reward: RewardDefinition, undo: Undo[]): Promise<GrantedReward> {
+    const { data: existing, error: readError } = await this.storage.supabase
+      .from('userUnlocks')
+      .select('id')
+      .eq('userId', userId)
+      .eq('kind', kind)
+      .eq('key', key)
+      .maybeSingle();
+    if (readError) throw readError;
+    if (existing) return { ...reward, applied: false, note: 'Already unlocked' };
+
+    const { data, error } = await this.storage.supabase
+      .from('userUnlocks')
+      .insert({ userId, kind, key, source })
+      .select('id')
+      .single();
+    if (error) throw error;
+    undo.push(async () => {
+      await this.storage.supabase.from('userUnlocks').delete().eq('id', data.id);
+    });
+    return { ...reward, applied: true };
+  }
+
+  private async grantCharacter(userId: string, reward: RewardDefinition, undo: Undo[]): Promise<GrantedReward> {
+    const { data: existing, error: readError } = await this.storage.supabase
+      .from('userCharacters')
+      .select('id')
+      .eq('userId', userId)
+      .eq('characterId', reward.characterId!)
+      .maybeSingle();
+    if (readError) throw readError;
+    if (existing) return { ...reward, applied: false, note: 'Already unlocked' };
+
+    const { data, error } = await this.storage.supabase
+      .from('userCharacters')
+      .insert({ userId, characterId: reward.characterId })
+      .select('id')
+      .single();
+    if (error) throw error;
+    undo.push(async () => {
+      await this.storage.supabase.from('userCharacters').delete().eq('id', data.id);
+    });
+    return { ...reward, applied: true };
+  }
+
+  // A booster at its stacking limit is reported, not treated as a failed grant
+  private async grantBooster(userId: string, reward: RewardDefinition, undo: Undo[]): Promise<GrantedReward> {
+    const activation = await this.boosters.activate(userId, reward.boosterType!, {
+      durationMinutes: reward.amount,
+      multiplier: reward.multiplier
+    });
+    if (!activation.success) return { ...reward, applied: false, note: activation.reason };
+
+    undo.push(() => this.boosters.revert(activation));
+    return { ...reward, applied: true };
+  }
+
+  // Trigger failures never fail the grant - the rewards are already written
+  private async emit(userId: string, granted: GrantedReward[], ctx: RewardContext) {
+    const applied = granted.filter(g => g.applied);
+    try {
+      await this.triggers.handle({
+        userId,
+        characterId: ctx.characterId,
+        type: TRIGGER_TYPES[ctx.source] ?? 'reward_grant',
+        tags: applied.filter(g => g.type === 'mediaTagUnlock').map(g => g.tag!),
+        reward: applied
+      });
+    } catch (error) {
+      console.error(`🎁 [REWARD] Trigger for ${ctx.source} failed:`, error);
+    }
+  }
+}
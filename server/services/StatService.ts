@@ -0,0 +1,83 @@
+import { UpgradeStorage, UPGRADE_STATS, type StatValues } from "../../shared/UpgradeStorage";
+import type { User, UpgradeStat } from "../../shared/schema";
+import { BoosterService, BOOSTER_TYPES } from "./BoosterService";
+import { getActiveVipTier } from "../../shared/vipTiers";
+
+// Booster types that multiply each stat (combined multiplier per type from BoosterService)
+const BOOSTER_STATS: Partial<Record<UpgradeStat, string[]>> = {
+  lpPerTap: [BOOSTER_TYPES.tapPower, BOOSTER_TYPES.lpMultiplier],
+  lpPerHour: [BOOSTER_TYPES.lpMultiplier],
+  energyRegen: [BOOSTER_TYPES.energyRegen]
+};
+
+// Hard limits applied to the final value
+const STAT_LIMITS: Partial<Record<UpgradeStat, [number, number]>> = {
+  critChance: [0, 0.75],
+  wheelCooldownReduction: [0, 0.9]
+};
+
+export interface StatBreakdown {
+  base: StatValues;
+  upgrades: StatValues; // base → upgrades
+  boosters: StatValues; // → active boosters
+  final: StatValues; // → VIP, clamped
+  boosterMultipliers: Record<string, number>;
+  vipMultipliers: Partial<Record<UpgradeStat, number>>;
+}
+
+/**
+ * Player stat pipeline, always composed in the same order:
+ *   base (GameSettings) → upgrades (UpgradeStorage effects) → boosters (active now) → VIP tier
+ * Lazy integrations over elapsed time (energy regen, offline income) read the `upgrades` stage and
+ * apply booster windows themselves; instant actions (taps, wheel, chat) read `final`.
+ */
+export class StatService {
+  private static instance: StatService;
+  private upgrades = UpgradeStorage.getInstance();
+  private boosters = BoosterService.getInstance();
+
+  static getInstance() {
+    if (!StatService.instance) StatService.instance = new StatService();
+    return StatService.instance;
+  }
+
+  // userUpgrades is keyed by the id the client used (telegram_<id> for Telegram players)
+  static upgradeKey(user: User): string {
+    return user.telegramId ? `telegram_${user.telegramId}` : user.id;
+  }
+
+  async getUpgradeStats(user: User): Promise<StatValues> {
+    return this.upgrades.getUpgradeStats(StatService.upgradeKey(user));
+  }
+
+  async getStats(user: User, now = Date.now()): Promise<StatBreakdown> {
+    const [base, allUpgrades, userUpgrades, boosterMultipliers] = await Promise.all([
+      this.upgrades.getBaseStats(),
+      this.upgrades.getAllUpgrades(),
+      this.upgrades.getUserUpgrades(StatService.upgradeKey(user)),
+      this.boosters.getMultipliers(user.id, now)
+    ]);
+
+    const upgrades = this.upgrades.composeStats(base, allUpgrades, userUpgrades);
+
+    const boosters = { ...upgrades };
+    for (const [stat, types] of Object.entries(BOOSTER_STATS) as [UpgradeStat, string[]][]) {
+      for (const type of types) boosters[stat] *= boosterMultipliers[type] ?? 1;
+    }
+
+    const vipMultipliers = this.getVipMultipliers(user);
+    const final = { ...boosters };
+    for (const stat of UPGRADE_STATS) {
+      final[stat] *= vipMultipliers[stat] ?? 1;
+      const limits = STAT_LIMITS[stat];
+      if (limits) final[stat] = Math.min(limits[1], Math.max(limits[0], final[stat]));
+    }
+
+    return { base, upgrades, boosters, final, boosterMultipliers, vipMultipliers };
+  }
+
+  private getVipMultipliers(user: User): Partial<Record<UpgradeStat, number>> {
+    const tier = getActiveVipTier(user);
+    return tier ? { lpPerTap: tier.lpMultiplier } : {};
+  }
+}
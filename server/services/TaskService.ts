@@ -0,0 +1,247 @@
+import { SupabaseStorage } from "../../shared/SupabaseStorage";
+import { FileStorage } from "../../shared/FileStorage";
+import { EventStorage, type EventContext } from "../../shared/EventStorage";
+import type { GameSettings, Task, User, UserTaskProgress } from "../../shared/schema";
+import { RewardService, type GrantedReward } from "./RewardService";
+import { XpService } from "./XpService";
+import { QuestService } from "./QuestService";
+
+export type TaskRequirementType = Task['requirements']['type'];
+
+// Amounts earned by one action, keyed by requirement type
+export type TaskActivity = Partial<Record<TaskRequirementType, number>>;
+
+export interface TaskPeriod {
+  key: string; // d:<start>, w:<start> or once
+  startsAt: string | null;
+  resetsAt: string | null; // null for one-time (event) tasks
+}
+
+export interface TaskView extends Task {
+  periodKey: string;
+  resetsAt: string | null;
+  progress: number;
+  maxProgress: number;
+  status: 'locked' | 'active' | 'completed' | 'claimed';
+  canClaim: boolean;
+}
+
+export interface TaskClaimResult {
+  success: boolean;
+  reason?: string;
+  task?: TaskView;
+  granted?: GrantedReward[];
+  totals?: { lp: number; energy: number; charisma: number };
+  newStats?: { lp: number; energy: number; charisma: number };
+  xpGained?: number;
+}
+
+// Requirement types whose progress is the latest value rather than a running total
+const ABSOLUTE_TYPES: TaskRequirementType[] = ['login_streak'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * JSON task engine. Definitions come from game-data/tasks/*.json (FileStorage.getAllTasks) and
+ * progress is kept per reset period in userTaskProgress, so a new day/week starts a fresh row
+ * instead of clearing the old one.
+ *
+ * Periods follow resetSchedule (UTC hour, plus dayOfWeek for weekly resets). Tasks without one use
+ * their category: daily resets at GameSettings.dailyBonusHour, weekly on Monday at that hour,
+ * event tasks never reset. Event-category tasks (and any task listed by an event) are only active
+ * while one of their events is live (shared/EventStorage.ts).
+ *
+ * Activity is reported by the routes that cause it (taps, chat, offline claims, logins) through
+ * record(), which passes it on to quest chains (QuestService) as well; login_streak is set to the
+ * current streak rather than added to.
+ */
+export class TaskService {
+  private static instance: TaskService;
+  private storage = SupabaseStorage.getInstance();
+  private files = FileStorage.getInstance();
+  private events = EventStorage.getInstance();
+  private rewards = RewardService.getInstance();
+  private xp = XpService.getInstance();
+  private quests = QuestService.getInstance();
+
+  static getInstance() {
+    if (!TaskService.instance) TaskService.instance = new TaskService();
+    return TaskService.instance;
+  }
+
+  getPeriod(task: Task, settings: GameSettings, now = Date.now()): TaskPeriod {
+    const defaultHour = settings.dailyBonusHour ?? 0;
+    const schedule = task.resetSchedule
+      ?? (task.category === 'daily' ? { hour: defaultHour }
+        : task.category === 'weekly' ? { hour: defaultHour, dayOfWeek: 1 }
+        : undefined);
+    if (!schedule) return { key: 'once', startsAt: null, resetsAt: null };
+
+    const start = new Date(now);
+    start.setUTCHours(Math.min(23, Math.max(0, Math.floor(schedule.hour ?? 0))), 0, 0, 0);
+    if (start.getTime() > now) start.setTime(start.getTime() - DAY_MS);
+
+    const weekly = schedule.dayOfWeek !== undefined && schedule.dayOfWeek !== null;
+    if (weekly) {
+      const back = (start.getUTCDay() - schedule.dayOfWeek! + 7) % 7;
+      start.setTime(start.getTime() - back * DAY_MS);
+    }
+
+    const startsAt = start.toISOString();
+    return {
+      key: `${weekly ? 'w' : 'd'}:${startsAt.slice(0, 13)}`,
+      startsAt,
+      resetsAt: new Date(start.getTime() + (weekly ? 7 : 1) * DAY_MS).toISOString()
+    };
+  }
+
+  // Active tasks with the player's progress for the current period (events: e.g. a request's admin preview)
+  async getTasks(user: User | null, now = Date.now(), events?: EventContext): Promise<TaskView[]> {
+    const [tasks, settings] = await Promise.all([this.getActiveTasks(events), this.files.getGameSettings()]);
+    const periods = new Map(tasks.map(t => [t.id, this.getPeriod(t, settings, now)]));
+    const rows = user ? await this.getRows(user.id, tasks, periods) : new Map<string, UserTaskProgress>();
+
+    return tasks.map(task => this.toView(task, periods.get(task.id)!, rows.get(task.id), user));
+  }
+
+  /**
+   * Adds activity to every matching task in its current period and to active quest steps. Never
+   * throws - task progress must not fail the action that caused it.
+   */
+  async record(user: User, activity: TaskActivity, opts: { characterId?: string } = {}): Promise<void> {
+    await Promise.all([
+      this.recordTasks(user, activity, opts),
+      this.quests.record(user, activity, opts)
+    ]);
+  }
+
+  private async recordTasks(user: User, activity: TaskActivity, opts: { characterId?: string }): Promise<void> {
+    try {
+      const tasks = (await this.getActiveTasks()).filter(task => {
+        const amount = activity[task.requirements.type];
+        if (!amount || amount <= 0) return false;
+        if (task.levelRequirement > (user.level || 1)) return false;
+        return !task.requirements.characterId || task.requirements.characterId === opts.characterId;
+      });
+      if (tasks.length === 0) return;
+
+      const settings = await this.files.getGameSettings();
+      const periods = new Map(tasks.map(t => [t.id, this.getPeriod(t, settings)]));
+      const updatedAt = new Date().toISOString();
+
+      // Progress moves in SQL (record_task_progress) so concurrent activity isn't lost; claimed rows are skipped there
+      const results = await Promise.all(tasks.map(task => this.storage.supabase.rpc('record_task_progress', {
+        p_user_id: user.id,
+        p_task_id: task.id,
+        p_period_key: periods.get(task.id)!.key,
+        p_amount: activity[task.requirements.type]!,
+        p_target: task.requirements.target,
+        p_absolute: ABSOLUTE_TYPES.includes(task.requirements.type),
+        p_at: updatedAt
+      })));
+      const failed = results.find(r => r.error);
+      if (failed) throw failed.error;
+    } catch (error) {
+      console.error(`📋 [TASKS] Failed to record progress for ${user.id}:`, error);
+    }
+  }
+
+  /**
+   * Claims a completed task for the current period. The row is marked claimed first (only if it
+   * isn't already) so two concurrent claims can't both grant; a failed grant un-marks it.
+   */
+  async claim(userId: string, taskId: string): Promise<TaskClaimResult> {
+    const user = await this.storage.getUser(userId);
+    if (!user) return { success: false, reason: 'User not found' };
+
+    const task = (await this.getActiveTasks()).find(t => t.id === taskId);
+    if (!task) return { success: false, reason: 'Task not found' };
+
+    const period = this.getPeriod(task, await this.files.getGameSettings());
+    const row = (await this.getRows(user.id, [task], new Map([[task.id, period]]))).get(task.id);
+    const view = this.toView(task, period, row, user);
+    if (view.status === 'locked') return { success: false, reason: `Requires level ${task.levelRequirement}`, task: view };
+    if (view.status === 'claimed') return { success: false, reason: 'Task already claimed', task: view };
+    if (!view.canClaim) return { success: false, reason: 'Task not completed', task: view };
+
+    const claimedAt = new Date().toISOString();
+    const { data: marked, error: markError } = await this.storage.supabase
+      .from('userTaskProgress')
+      .update({ claimedAt, updatedAt: claimedAt })
+      .eq('id', row!.id)
+      .is('claimedAt', null)
+      .select('id');
+    if (markError) throw markError;
+    if (!marked || marked.length === 0) return { success: false, reason: 'Task already claimed', task: view };
+
+    try {
+      // Task XP lands in the same write as the rewards
+      const xp = await this.xp.award(user, 'task_claim');
+      const { granted, totals, newStats } = await this.rewards.grant(user.id, task.rewards, {
+        source: 'task_claim',
+        refId: `${task.id}:${period.key}`,
+        user,
+        updates: xp.updates
+      });
+      return {
+        success: true,
+        task: { ...view, status: 'claimed', canClaim: false },
+        granted,
+        totals,
+        newStats,
+        xpGained: xp.gain
+      };
+    } catch (error) {
+      await this.storage.supabase
+        .from('userTaskProgress')
+        .update({ claimedAt: null })
+        .eq('id', row!.id);
+      throw error;
+    }
+  }
+
+  private async getActiveTasks(events?: EventContext): Promise<Task[]> {
+    const [tasks, ctx] = await Promise.all([this.files.getAllTasks(), events ?? this.events.resolve()]);
+    return tasks.filter(task => task.isActive
+      && task.requirements?.target > 0
+      && ctx.allows('tasks', task.id, task.category === 'event'));
+  }
+
+  // Current-period rows by task id
+  private async getRows(userId: string, tasks: Task[], periods: Map<string, TaskPeriod>): Promise<Map<string, UserTaskProgress>> {
+    if (tasks.length === 0) return new Map();
+    const { data, error } = await this.storage.supabase
+      .from('userTaskProgress')
+      .select('*')
+      .eq('userId', userId)
+      .in('taskId', tasks.map(t => t.id))
+      .in('periodKey', Array.from(new Set(Array.from(periods.values()).map(p => p.key))));
+    if (error) throw error;
+
+    const rows = new Map<string, UserTaskProgress>();
+    for (const row of (data || []) as UserTaskProgress[]) {
+      if (periods.get(row.taskId)?.key === row.periodKey) rows.set(row.taskId, row);
+    }
+    return rows;
+  }
+
+  private toView(task: Task, period: TaskPeriod, row: UserTaskProgress | undefined, user: User | null): TaskView {
+    const maxProgress = task.requirements.target;
+    const progress = Math.min(maxProgress, row?.progress || 0);
+    const locked = !!user && task.levelRequirement > (user.level || 1);
+    const status = row?.claimedAt ? 'claimed'
+      : locked ? 'locked'
+      : progress >= maxProgress ? 'completed'
+      : 'active';
+
+    return {
+      ...task,
+      periodKey: period.key,
+      resetsAt: period.resetsAt,
+      progress,
+      maxProgress,
+      status,
+      canClaim: !!user && status === 'completed'
+    };
+  }
+}
@@ -1,13 +1,14 @@
 import { MediaStorage } from "../../shared/MediaStorage";
+import { EventStorage } from "../../shared/EventStorage";
 import { SupabaseStorage } from "../../shared/SupabaseStorage";
 
 export interface TriggerEvent {
   userId: string;
-  characterId: string;
-  type: 'chat' | 'level_up' | 'task_claim' | 'achievement_claim' | 'time_tick';
+  characterId?: string;
+  type: 'chat' | 'level_up' | 'task_claim' | 'achievement_claim' | 'reward_grant' | 'time_tick';
   text?: string; // for chat
   tags?: string[]; // explicit tag unlocks
-  reward?: any; // from tasks/achievements/levels
+  reward?: any; // granted rewards from RewardService (tasks/achievements/levels/wheel)
 }
 
 // Lightweight in-memory booster map per user to influence random selection weights
@@ -70,6 +71,7 @@ class BoosterEngine {
 export class TriggerService {
   private static instance: TriggerService;
   private media = MediaStorage.getInstance();
+  private events = EventStorage.getInstance();
   private storage = SupabaseStorage.getInstance();
   private boosters = BoosterEngine.getInstance();
 
@@ -85,9 +87,11 @@ export class TriggerService {
         break;
       case 'level_up':
         await this.onLevelUp(event);
+        await this.onReward(event);
         break;
       case 'task_claim':
       case 'achievement_claim':
+      case 'reward_grant':
         await this.onReward(event);
         break;
       case 'time_tick':
@@ -139,7 +143,11 @@ export class TriggerService {
 
   // Helper to get a weighted random item considering user boosts
   async getRandomForChat(userId: string, characterId: string) {
-    const list = await this.media.getMediaByCharacter(characterId, { enabledForRandomSend: true });
+    const [all, events] = await Promise.all([
+      this.media.getMediaByCharacter(characterId, { enabledForRandomSend: true }),
+      this.events.resolve()
+    ]);
+    const list = all.filter(m => events.allowsTags((m as any).tags, m.isEvent));
     if (list.length === 0) return undefined;
 
     const weights = list.map(m => {
@@ -0,0 +1,199 @@
+import { SupabaseStorage } from "../../shared/SupabaseStorage";
+import { FileStorage } from "../../shared/FileStorage";
+import { LevelStorage } from "../../shared/LevelStorage";
+import type { GameSettings, User } from "../../shared/schema";
+import { EARNING_SOURCES } from "./LedgerService";
+import { fetchAllPages } from "../utils/helpers";
+
+export type XpSource = 'tap' | 'chat' | 'task_claim' | 'quest_claim' | 'achievement_claim';
+
+export type XpWeights = Required<NonNullable<GameSettings['xp']>>;
+
+const DEFAULT_WEIGHTS: XpWeights = {
+  perTap: 1,
+  perChatMessage: 5,
+  perTaskClaim: 50,
+  perAchievementClaim: 100,
+  perQuestStep: 75,
+  lifetimeLpRate: 1
+};
+
+// Ledger sources that count as LP earned when seeding xp - spending, refunds and corrections don't
+export interface XpProgress {
+  xp: number;
+  level: number;
+  currentLevelXp: number; // xpRequired of the level the player holds
+  nextLevelXp: number | null; // null at max level
+  xpToNext: number; // XP still missing for the next level
+  percent: number; // Progress between the current and the next threshold
+}
+
+export interface XpSeed {
+  userId: string;
+  lifetimeLp: number;
+  xp: number;
+  previousXp: number;
+}
+
+/**
+ * Server-side XP track. XP is earned (never spent) from taps, chat, tasks, quest steps and achievements with
+ * weights from GameSettings.xp, and levels are claimed against it - spending LP on upgrades no
+ * longer costs progress. Awards are returned as column updates so they land in the same write as
+ * the action that earned them (LedgerService/RewardService `updates`).
+ *
+ * Accounts from before the XP track have xpMigratedAt = NULL. Their xp is seeded once from lifetime
+ * LP earned (ledger opening balance + earning entries) × lifetimeLpRate, never below the threshold of
+ * the level they already hold.
+ */
+export class XpService {
+  private static instance: XpService;
+  private storage = SupabaseStorage.getInstance();
+  private files = FileStorage.getInstance();
+  private levels = LevelStorage.getInstance();
+
+  static getInstance() {
+    if (!XpService.instance) XpService.instance = new XpService();
+    return XpService.instance;
+  }
+
+  async getWeights(): Promise<XpWeights> {
+    const configured = (await this.files.getGameSettings()).xp || {};
+    const weights = { ...DEFAULT_WEIGHTS };
+    for (const key of Object.keys(DEFAULT_WEIGHTS) as (keyof XpWeights)[]) {
+      const value = Number(configured[key]);
+      if (Number.isFinite(value) && value >= 0) weights[key] = value;
+    }
+    return weights;
+  }
+
+  async amountFor(source: XpSource, count = 1): Promise<number> {
+    const weights = await this.getWeights();
+    const perUnit = {
+      tap: weights.perTap,
+      chat: weights.perChatMessage,
+      task_claim: weights.perTaskClaim,
+      quest_claim: weights.perQuestStep,
+      achievement_claim: weights.perAchievementClaim
+    }[source];
+    return perUnit * Math.max(0, count);
+  }
+
+  /**
+   * XP earned by an action plus the columns to write with it, computed from the row being written
+   * (pass `updates` to LedgerService.applyLpChange as is). Seeds a pre-XP account in the same write.
+   */
+  async award(user: User, source: XpSource, count = 1): Promise<{ gain: number; updates: (current: User) => Partial<User> }> {
+    const gain = await this.amountFor(source, count);
+    const seed = user.xpMigratedAt ? null : await this.seedFor(user);
+    return {
+      gain,
+      updates: current => seed && !current.xpMigratedAt
+        ? { xp: Math.max(seed.xp, current.xp || 0) + gain, xpMigratedAt: new Date() }
+        : gain > 0 ? { xp: (current.xp || 0) + gain } : {}
+    };
+  }
+
+  // Returns the user with xp seeded; a no-op for accounts already on the XP track
+  async ensureMigrated(user: User): Promise<User> {
+    if (user.xpMigratedAt) return user;
+    const seed = await this.seedFor(user);
+    const updated = await this.storage.updateUser(user.id, { xp: seed.xp, xpMigratedAt: new Date() });
+    console.log(`✨ [XP] Seeded ${user.id}: ${seed.lifetimeLp} lifetime LP → ${seed.xp} XP`);
+    return updated || { ...user, xp: seed.xp, xpMigratedAt: new Date() };
+  }
+
+  async seedFor(user: User): Promise<XpSeed> {
+    const [lifetimeLp, weights, current] = await Promise.all([
+      this.lifetimeLpEarned(user),
+      this.getWeights(),
+      this.levels.getLevel(user.level || 1)
+    ]);
+    const xp = Math.max(
+      Math.floor(lifetimeLp * weights.lifetimeLpRate),
+      current?.xpRequired || 0,
+      user.xp || 0
+    );
+    return { userId: user.id, lifetimeLp, xp, previousXp: user.xp || 0 };
+  }
+
+  // LP held when the ledger started (first entry's balance before it) plus every earning entry since
+  async lifetimeLpEarned(user: User): Promise<number> {
+    const { data: first, error } = await this.storage.supabase
+      .from('lpLedger')
+      .select('delta, balanceAfter')
+      .eq('userId', user.id)
+      .order('createdAt', { ascending: true })
+      .order('id', { ascending: true })
+      .limit(1);
+    if (error) throw error;
+    if (!first || first.length === 0) return Math.max(0, user.lp || 0);
+
+    const earnings = await fetchAllPages<{ delta: number }>((from, to) => this.storage.supabase
+      .from('lpLedger')
+      .select('delta')
+      .eq('userId', user.id)
+      .in('source', EARNING_SOURCES)
+      .gt('delta', 0)
+      .order('createdAt', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, to));
+
+    const opening = Math.max(0, first[0].balanceAfter - first[0].delta);
+    const earned = earnings.reduce((sum, e) => sum + e.delta, 0);
+    return Math.floor(opening + earned);
+  }
+
+  async getProgress(user: User): Promise<XpProgress> {
+    const level = user.level || 1;
+    const [current, next] = await Promise.all([this.levels.getLevel(level), this.levels.getLevel(level + 1)]);
+    const xp = user.xp || 0;
+    const currentLevelXp = current?.xpRequired || 0;
+    const nextLevelXp = next ? next.xpRequired : null;
+    const span = nextLevelXp === null ? 0 : nextLevelXp - currentLevelXp;
+
+    return {
+      xp,
+      level,
+      currentLevelXp,
+      nextLevelXp,
+      xpToNext: nextLevelXp === null ? 0 : Math.max(0, nextLevelXp - xp),
+      percent: span > 0 ? Math.min(100, Math.max(0, ((xp - currentLevelXp) / span) * 100)) : 100
+    };
+  }
+
+  /**
+   * Seeds every account still on the LP track. Used by server/migrate-xp.ts; dryRun only reports.
+   */
+  async migrateAll(opts: { dryRun?: boolean; batchSize?: number } = {}): Promise<XpSeed[]> {
+    const batchSize = Math.min(Math.max(opts.batchSize ?? 200, 1), 1000);
+    const seeds: XpSeed[] = [];
+    let offset = 0;
+
+    for (;;) {
+      const { data, error } = await this.storage.supabase
+        .from('users')
+        .select('*')
+        .is('xpMigratedAt', null)
+        .order('createdAt', { ascending: true })
+        .range(offset, offset + batchSize - 1);
+      if (error) throw error;
+      if (!data || data.length === 0) break;
+
+      for (const user of data as User[]) {
+        const seed = await this.seedFor(user);
+        seeds.push(seed);
+        if (!opts.dryRun) {
+          // A silent failure would leave the row in the NULL filter and page over it forever
+          const updated = await this.storage.updateUser(user.id, { xp: seed.xp, xpMigratedAt: new Date() });
+          if (!updated) throw new Error(`Failed to seed xp for ${user.id}`);
+        }
+      }
+
+      // Migrated rows drop out of the NULL filter; a dry run has to page past them
+      if (opts.dryRun) offset += data.length;
+      if (data.length < batchSize) break;
+    }
+
+    return seeds;
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Economy Simulator CLI - balance game-data without a live player base
+ * Plays the default archetypes (casual tapper, idle-only, whale VIP) over N days against the live JSON.
+ *
+ * Usage:
+ *   npx tsx server/simulate-economy.ts --days=30
+ *   npx tsx server/simulate-economy.ts --days=30 --format=csv --table=levels --out=levels.csv
+ *   npx tsx server/simulate-economy.ts --archetypes=casual,whale --payback=48 --sample=6
+ *
+ * Needs the same Supabase env vars as the server (storage singletons are created on import).
+ * The same report is available to admins at POST /api/admin/economy/simulate.
+ */
+
+import { promises as fs } from 'fs';
+import { EconomySimulator } from './services/EconomySimulator';
+
+function arg(name: string): string | undefined {
+  return process.argv.slice(2).find(a => a.startsWith(`--${name}=`))?.split('=')[1];
+}
+
+async function simulateEconomy() {
+  const simulator = EconomySimulator.getInstance();
+  const format = arg('format') === 'csv' ? 'csv' : 'json';
+  const table = (arg('table') || 'samples') as 'samples' | 'levels' | 'purchases';
+
+  const report = await simulator.run({
+    days: arg('days') ? Number(arg('days')) : undefined,
+    paybackLimitHours: arg('payback') ? Number(arg('payback')) : undefined,
+    sampleEveryHours: arg('sample') ? Number(arg('sample')) : undefined,
+    archetypes: arg('archetypes')?.split(',').map(id => ({ id }))
+  });
+
+  const output = format === 'csv' ? simulator.toCsv(report, table) : JSON.stringify(report, null, 2);
+  const out = arg('out');
+  if (out) {
+    await fs.writeFile(out, output, 'utf8');
+    console.error(`📈 Simulation written to ${out}`);
+  } else {
+    process.stdout.write(output + '\n');
+  }
+
+  // Short summary on stderr so piping the data stays clean
+  for (const result of report.archetypes) {
+    const saturation = result.saturation ? `day ${result.saturation.day}` : 'not reached';
+    console.error(`📊 ${result.archetype.name}: level ${result.final.level}, ${result.final.totalEarned} LP earned, ${result.purchases.length} upgrades bought, saturation ${saturation}`);
+  }
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  simulateEconomy()
+    .then(() => process.exit(0))
+    .catch(error => {
+      console.error('❌ Simulation failed:', error);
+      process.exit(1);
+    });
+}
+
+export { simulateEconomy };
@@ -142,6 +142,20 @@ export function keysToCamel<T>(obj: T): T {
   return obj;
 }
 
+// PostgREST returns at most 1000 rows per request - reads that can pass that page with .range().
+// The query must have a stable order (end it on a unique column).
+const PAGE_SIZE = 1000;
+
+export async function fetchAllPages<T>(page: (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: any }>): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...((data || []) as T[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
 // Character helpers
 export function getDefaultCharacter() {
   return {
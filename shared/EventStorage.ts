@@ -0,0 +1,112 @@
+/**
+ * EventStorage.ts - Event schedule resolver
+ * Events live in game-data/events/*.json with a start/end window and the content they enable.
+ * resolve() answers "is this event live?" and "may this task/prize/character/media/quest be served?"
+ * for one request, so every route gates event content the same way.
+ */
+
+import { FileStorage } from './FileStorage';
+import type { GameEvent } from './schema';
+
+export type EventContentKind = 'tasks' | 'wheelPrizes' | 'characters' | 'mediaTags' | 'quests';
+
+export type EventStatus = 'live' | 'upcoming' | 'ended' | 'disabled';
+
+// Admin preview: the listed events (or every upcoming one) count as live
+export interface EventPreview {
+  eventIds: string[] | 'all';
+}
+
+export interface ResolvedEvent extends GameEvent {
+  status: EventStatus; // Schedule status, before preview/overrides
+  live: boolean; // What gating uses
+  forced: boolean; // Live through GameSettings.activeEvents
+  previewed: boolean; // Live only because of an admin preview
+}
+
+export interface EventContext {
+  at: string;
+  preview: EventPreview | null;
+  events: ResolvedEvent[];
+  live: ResolvedEvent[];
+  liveIds: string[]; // Includes activeEvents ids without an event file (upgrade unlock conditions)
+  isLive(eventId: string): boolean;
+  // Content no event lists is always allowed unless flagged isEvent; listed content needs one of its events live
+  allows(kind: EventContentKind, id: string, isEvent?: boolean): boolean;
+  // Every event-listed tag must be live; isEvent media without one is hidden
+  allowsTags(tags: string[] | undefined, isEvent?: boolean): boolean;
+}
+
+export class EventStorage {
+  private static instance: EventStorage;
+  private files = FileStorage.getInstance();
+
+  static getInstance(): EventStorage {
+    if (!EventStorage.instance) EventStorage.instance = new EventStorage();
+    return EventStorage.instance;
+  }
+
+  async getEvents(): Promise<GameEvent[]> {
+    return (await this.files.getAllEvents()).filter(e => e && e.id);
+  }
+
+  getStatus(event: GameEvent, now = Date.now()): EventStatus {
+    if (event.isActive === false) return 'disabled';
+    const startsAt = new Date(event.startsAt).getTime();
+    const endsAt = new Date(event.endsAt).getTime();
+    if (Number.isFinite(startsAt) && now < startsAt) return 'upcoming';
+    if (Number.isFinite(endsAt) && now >= endsAt) return 'ended';
+    return 'live';
+  }
+
+  async resolve(opts: { now?: number; preview?: EventPreview | null } = {}): Promise<EventContext> {
+    const now = opts.now ?? Date.now();
+    const preview = opts.preview ?? null;
+    const [events, settings] = await Promise.all([this.getEvents(), this.files.getGameSettings()]);
+    const forcedIds = new Set(settings.activeEvents || []);
+
+    const resolved: ResolvedEvent[] = events.map(event => {
+      const status = this.getStatus(event, now);
+      const forced = forcedIds.has(event.id);
+      const previewed = !!preview && status !== 'live' && (preview.eventIds === 'all'
+        ? status === 'upcoming'
+        : preview.eventIds.includes(event.id));
+      return { ...event, status, forced, previewed, live: status === 'live' || forced || previewed };
+    });
+
+    const live = resolved.filter(e => e.live);
+    const liveIds = Array.from(new Set([...live.map(e => e.id), ...Array.from(forcedIds)]));
+
+    // Content id → the events that list it
+    const owners = new Map<string, ResolvedEvent[]>();
+    for (const event of resolved) {
+      for (const kind of Object.keys(event.content || {}) as EventContentKind[]) {
+        for (const id of event.content[kind] || []) {
+          const key = `${kind}:${id}`;
+          owners.set(key, [...(owners.get(key) || []), event]);
+        }
+      }
+    }
+
+    const allows = (kind: EventContentKind, id: string, isEvent = false) => {
+      const listedBy = owners.get(`${kind}:${id}`);
+      if (!listedBy) return !isEvent;
+      return listedBy.some(e => e.live);
+    };
+
+    return {
+      at: new Date(now).toISOString(),
+      preview,
+      events: resolved,
+      live,
+      liveIds,
+      isLive: (eventId: string) => liveIds.includes(eventId),
+      allows,
+      allowsTags: (tags: string[] | undefined, isEvent = false) => {
+        const gated = (tags || []).filter(tag => owners.has(`mediaTags:${tag}`));
+        if (gated.length === 0) return !isEvent;
+        return gated.every(tag => allows('mediaTags', tag));
+      }
+    };
+  }
+}
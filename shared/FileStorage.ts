@@ -4,7 +4,7 @@
 
 import { promises as fs } from 'fs';
 import { join } from 'path';
-import type { Upgrade, Achievement, Task, LevelRequirement, GameSettings } from './schema';
+import type { Upgrade, Achievement, Task, LevelRequirement, GameSettings, LoginCalendar, GameEvent, QuestChain, BondTrack } from './schema';
 
 export class FileStorage {
   private static instance: FileStorage;
@@ -344,6 +344,39 @@ export class FileStorage {
     return await this.getCached<LevelRequirement>('progression/level-requirements.json');
   }
 
+  // Login reward calendars (LoginStreakService)
+  async getLoginCalendars(): Promise<LoginCalendar[]> {
+    return await this.getCached<LoginCalendar>('progression/login-calendars.json');
+  }
+
+  // Every JSON file in a game-data folder; a file holds one object or an array of them
+  private async getCachedFolder<T>(folder: string): Promise<T[]> {
+    let fileNames: string[] = [];
+    try {
+      fileNames = (await fs.readdir(join(this.gameDataPath, folder))).filter(f => f.endsWith('.json')).sort();
+    } catch {
+      return [];
+    }
+
+    const files = await Promise.all(fileNames.map(f => this.getCached<T>(`${folder}/${f}`)));
+    return files.flatMap(data => Array.isArray(data) ? data : [data as unknown as T]);
+  }
+
+  // 🎉 EVENTS - game-data/events
+  async getAllEvents(): Promise<GameEvent[]> {
+    return await this.getCachedFolder<GameEvent>('events');
+  }
+
+  // 📜 QUEST CHAINS - game-data/quests
+  async getAllQuestChains(): Promise<QuestChain[]> {
+    return await this.getCachedFolder<QuestChain>('quests');
+  }
+
+  // 💞 BOND TRACKS - game-data/bonds
+  async getAllBondTracks(): Promise<BondTrack[]> {
+    return await this.getCachedFolder<BondTrack>('bonds');
+  }
+
   async getLevelRequirement(level: number): Promise<LevelRequirement | undefined> {
     const requirements = await this.getAllLevelRequirements();
     return requirements.find(req => req.level === level);
@@ -543,13 +576,17 @@ export class FileStorage {
         errors.push('Duplicate achievement IDs found');
       }
 
-      // Check level requirements are sequential
-      const levelRequirements = await this.getAllLevelRequirements();
-      const levels = levelRequirements.map(lr => lr.level).sort((a, b) => a - b);
+      // Level overrides are sparse (the curve fills the gaps) but must keep XP requirements increasing
+      const levelRequirements = [...await this.getAllLevelRequirements()].sort((a, b) => a.level - b.level);
+      const xpRequired = (r: LevelRequirement & { xpRequired?: number }) => r.xpRequired ?? r.lpRequired;
       
-      for (let i = 1; i < levels.length; i++) {
-        if (levels[i] !== levels[i-1] + 1) {
-          errors.push(`Missing level requirement for level ${levels[i-1] + 1}`);
+      for (let i = 1; i < levelRequirements.length; i++) {
+        const prev = levelRequirements[i - 1];
+        const curr = levelRequirements[i];
+        if (curr.level === prev.level) {
+          errors.push(`Duplicate level override for level ${curr.level}`);
+        } else if (xpRequired(curr) !== undefined && xpRequired(prev) !== undefined && xpRequired(curr) <= xpRequired(prev)) {
+          errors.push(`Level ${curr.level} requires no more XP than level ${prev.level}`);
         }
       }
 
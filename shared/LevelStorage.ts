@@ -0,0 +1,138 @@
+/**
+ * LevelStorage.ts - Unified level model
+ * Levels 1..GameSettings.maxLevel come from an XP formula curve; explicit entries in
+ * game-data/progression/level-requirements.json override whichever fields they set.
+ * Older entry shapes (lpRequired, requiredXp, rewards.coins) are still understood.
+ */
+
+import { FileStorage } from './FileStorage';
+import type { GameSettings, LevelDefinition, RewardDefinition } from './schema';
+
+type LevelOverride = Partial<Omit<LevelDefinition, 'source' | 'overriddenFields'>> & { level: number };
+
+export interface LevelCurve {
+  baseXpRequired: number; // GameSettings.baseExperienceRequired
+  multiplier: number; // GameSettings.experienceMultiplier
+  maxLevel: number;
+}
+
+export class LevelStorage {
+  private static instance: LevelStorage;
+  private files = FileStorage.getInstance();
+
+  static getInstance() {
+    if (!LevelStorage.instance) LevelStorage.instance = new LevelStorage();
+    return LevelStorage.instance;
+  }
+
+  getCurve(settings: GameSettings): LevelCurve {
+    return {
+      baseXpRequired: Math.max(0, settings.baseExperienceRequired ?? 1000),
+      multiplier: Math.max(1, settings.experienceMultiplier ?? 1.5),
+      maxLevel: Math.max(1, Math.floor(settings.maxLevel ?? 100))
+    };
+  }
+
+  // Formula value for a level: 0 at level 1, baseXpRequired at level 2, then × multiplier per level
+  generatedXpRequired(level: number, curve: LevelCurve): number {
+    if (level <= 1) return 0;
+    return Math.round(curve.baseXpRequired * Math.pow(curve.multiplier, level - 2));
+  }
+
+  /**
+   * 📶 ALL LEVELS (1..maxLevel)
+   * A generated level after an override that raised the bar continues the curve from it
+   * (previous × multiplier), so requirements keep increasing.
+   */
+  async getLevels(): Promise<LevelDefinition[]> {
+    const [settings, overrides] = await Promise.all([
+      this.files.getGameSettings(),
+      this.getOverrides()
+    ]);
+    const curve = this.getCurve(settings);
+    const byLevel = new Map(overrides.map(o => [o.level, o]));
+
+    const levels: LevelDefinition[] = [];
+    let previous = 0;
+    for (let level = 1; level <= curve.maxLevel; level++) {
+      const generated = level <= 1
+        ? 0
+        : Math.max(this.generatedXpRequired(level, curve), Math.round(previous * curve.multiplier));
+
+      const definition: LevelDefinition = {
+        level,
+        xpRequired: generated,
+        name: `Level ${level}`,
+        rewards: [],
+        functions: [],
+        unlocks: [],
+        upgradeRequirements: [],
+        source: 'generated'
+      };
+
+      const override = byLevel.get(level);
+      if (override) {
+        const { level: _level, ...fields } = override;
+        Object.assign(definition, fields);
+        definition.source = 'override';
+        definition.overriddenFields = Object.keys(fields);
+      }
+
+      levels.push(definition);
+      previous = definition.xpRequired;
+    }
+
+    return levels;
+  }
+
+  async getLevel(level: number): Promise<LevelDefinition | undefined> {
+    return (await this.getLevels()).find(l => l.level === level);
+  }
+
+  async getMaxLevel(): Promise<number> {
+    return this.getCurve(await this.files.getGameSettings()).maxLevel;
+  }
+
+  // Explicit JSON entries, normalized to LevelDefinition fields (only the fields they set)
+  async getOverrides(): Promise<LevelOverride[]> {
+    const raw = await this.files.getAllLevelRequirements();
+    return (raw as any[])
+      .map(entry => this.normalizeOverride(entry))
+      .filter((entry): entry is LevelOverride => entry !== null)
+      .sort((a, b) => a.level - b.level);
+  }
+
+  normalizeOverride(raw: any): LevelOverride | null {
+    const level = Number(raw?.level ?? String(raw?.id || '').replace(/^level-/, ''));
+    if (!Number.isInteger(level) || level < 1) return null;
+
+    const override: LevelOverride = { level };
+    const xpRequired = raw.xpRequired ?? raw.requiredXp ?? raw.lpRequired;
+    if (xpRequired !== undefined && xpRequired !== null) override.xpRequired = Number(xpRequired);
+    if (raw.name) override.name = raw.name;
+    if (raw.description) override.description = raw.description;
+    if (raw.icon) override.icon = raw.icon;
+    if (raw.color) override.color = raw.color;
+    if (Array.isArray(raw.functions)) override.functions = raw.functions;
+    if (Array.isArray(raw.unlocks)) override.unlocks = raw.unlocks;
+    if (Array.isArray(raw.upgradeRequirements)) override.upgradeRequirements = raw.upgradeRequirements;
+
+    const rewards = this.normalizeRewards(raw.unlockRewards ?? raw.rewards);
+    if (rewards) override.rewards = rewards;
+
+    return override;
+  }
+
+  // unlockRewards array, or the old { coins, energy, charisma } object (coins = LP)
+  private normalizeRewards(raw: any): RewardDefinition[] | null {
+    if (Array.isArray(raw)) return raw as RewardDefinition[];
+    if (!raw || typeof raw !== 'object') return null;
+
+    const rewards: RewardDefinition[] = [];
+    const lp = Number(raw.lp ?? raw.coins ?? 0);
+    if (lp > 0) rewards.push({ type: 'lp', amount: lp });
+    if (Number(raw.energy) > 0) rewards.push({ type: 'energy', amount: Number(raw.energy) });
+    if (Number(raw.charisma) > 0) rewards.push({ type: 'charisma', amount: Number(raw.charisma) });
+    return rewards;
+  }
+}
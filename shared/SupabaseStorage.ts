@@ -260,9 +260,11 @@ export class SupabaseStorage implements IStorage {
     }
   }
 
+  // undefined when nothing is selected yet (or the selected character is gone)
   async getSelectedCharacter(userId: string): Promise<Character | undefined> {
-    const characters = await this.getAllCharacters();
-    return characters[0];
+    const user = await this.getUser(userId);
+    if (!user?.selectedCharacterId) return undefined;
+    return await this.getCharacter(user.selectedCharacterId);
   }
 
   async createCharacter(character: InsertCharacter): Promise<Character> {
@@ -286,6 +288,10 @@ export class SupabaseStorage implements IStorage {
   }
 
   async selectCharacter(userId: string, characterId: string): Promise<void> {
+    const user = await this.getUser(userId);
+    if (!user) return; // Guests have no row - their selection lives in the client only
+    const { error } = await this.supabase.from('users').update({ selectedCharacterId: characterId }).eq('id', user.id);
+    if (error) throw error;
     console.log(`User ${userId} selected character ${characterId}`);
   }
 
@@ -1,11 +1,32 @@
 /**
  * UpgradeStorage.ts - Pure JSON-First Upgrade System
  * Now with upgrade effects application to user stats
+ * Effects are declared per upgrade (`effect` block) and composed per stat:
+ * (base + Σ additive) × (1 + Σ percent / 100) × Π multiplicative
  */
 
 import { promises as fs } from 'fs';
 import { join } from 'path';
 import { SupabaseStorage } from './SupabaseStorage';
+import { FileStorage } from './FileStorage';
+import { EventStorage } from './EventStorage';
+import { vipTiers, getActiveVipTier } from './vipTiers';
+import type { UpgradeEffect, UpgradeStat, UnlockCondition, UnlockRequirement, UnmetRequirement, User } from './schema';
+
+export type StatValues = Record<UpgradeStat, number>;
+
+export const UPGRADE_STATS: UpgradeStat[] = [
+  'lpPerTap', 'lpPerHour', 'maxEnergy', 'energyRegen',
+  'offlineCapMinutes', 'critChance', 'wheelCooldownReduction', 'chatCharismaBonus'
+];
+
+// Stat a category feeds when the upgrade JSON has no `effect` block (charisma/special have none)
+const CATEGORY_STATS: Partial<Record<Upgrade['category'], UpgradeStat>> = {
+  lpPerTap: 'lpPerTap',
+  lpPerHour: 'lpPerHour',
+  passive: 'lpPerHour',
+  energy: 'maxEnergy'
+};
 
 export interface Upgrade {
   id: string;
@@ -23,10 +44,13 @@ export interface Upgrade {
   sortOrder: number;
   hourlyBonus: number;
   tapBonus: number;
+  effect?: UpgradeEffect;
   unlockRequirements?: {
-    upgradeId?: string;
+    upgradeId?: string; // Legacy single upgrade/level pair
     level?: number;
     totalUpgradeLevels?: number;
+    all?: UnlockRequirement[]; // Every entry must hold
+    any?: UnlockRequirement[]; // At least one entry must hold
   };
 }
 
@@ -42,10 +66,50 @@ export interface ComputedStats {
   energy?: number; // optional to cap energy to new maxEnergy
 }
 
+// Number of levels to buy, or 'max' for as many as the player can afford
+export type PurchaseQuantity = number | 'max';
+
+export interface PurchaseQuote {
+  valid: boolean;
+  reason?: string;
+  upgradeId: string;
+  quantity: PurchaseQuantity;
+  currentLevel: number;
+  targetLevel: number;
+  maxLevel?: number;
+  levels: number; // levels actually bought (capped at maxLevel)
+  totalCost: number;
+  balance: number;
+  balanceAfter: number;
+  unmetRequirements?: UnmetRequirement[]; // Set when the upgrade is still locked
+}
+
+export interface UnlockStatus {
+  unlocked: boolean;
+  unmet: UnmetRequirement[]; // Top-level unmet requirements (AND-ed)
+}
+
+// Everything unlock conditions read, loaded once per user and reused across upgrades
+export interface UnlockContext {
+  user: User;
+  allUpgrades: Upgrade[];
+  userUpgrades: UserUpgrade[];
+  completedAchievements: Set<string>;
+  achievementNames: Map<string, string>;
+  bondLevels: Map<string, number>; // characterId → bondLevel
+  characterNames: Map<string, string>;
+  vipRank: number; // Index in vipTiers, -1 when not VIP
+  activeEvents: string[]; // Live event ids (EventStorage.resolve().liveIds)
+}
+
+const VIP_TIER_ORDER = Object.keys(vipTiers);
+
 export class UpgradeStorage {
   private static instance: UpgradeStorage;
   private cache: Map<string, Upgrade[]> = new Map();
   private storage = SupabaseStorage.getInstance();
+  private files = FileStorage.getInstance();
+  private events = EventStorage.getInstance();
 
   static getInstance() {
     if (!UpgradeStorage.instance) {
@@ -152,70 +216,119 @@ export class UpgradeStorage {
     return upgrade.baseEffect + (upgrade.effectMultiplier * (level - 1));
   }
 
+  /**
+   * Declared effect, or the legacy category mapping (baseEffect + effectMultiplier × level, additive)
+   */
+  getEffect(upgrade: Upgrade): UpgradeEffect | null {
+    if (upgrade.effect) return upgrade.effect;
+    const stat = CATEGORY_STATS[upgrade.category];
+    if (!stat) return null;
+    return {
+      stat,
+      type: 'additive',
+      base: (upgrade.baseEffect || 0) + (upgrade.effectMultiplier || 0),
+      perLevel: upgrade.effectMultiplier || 0
+    };
+  }
+
+  // Effect value at a level: amount (additive), percent (percent) or factor (multiplicative)
+  calculateEffectValue(effect: UpgradeEffect, level: number): number {
+    if (level <= 0) return 0;
+    switch (effect.type) {
+      case 'table': {
+        const table = effect.table || [];
+        return table.length ? table[Math.min(level, table.length) - 1] : 0;
+      }
+      case 'multiplicative':
+        return (effect.base ?? 1) * Math.pow(effect.perLevel ?? 1, level - 1);
+      default:
+        return (effect.base ?? 0) + (effect.perLevel ?? 0) * (level - 1);
+    }
+  }
+
   calculateTotalEffect(upgrade: Upgrade, level: number): number {
-    if (level === 0) return 0;
-    
-    // Use tapBonus and hourlyBonus from JSON if available
-    if (upgrade.tapBonus && upgrade.category === 'lpPerTap') {
-      return upgrade.tapBonus * level;
+    const effect = this.getEffect(upgrade);
+    return effect ? this.calculateEffectValue(effect, level) : 0;
+  }
+
+  /**
+   * 📊 BASE STATS (before upgrades)
+   * GameSettings.baseStats, falling back to maxEnergy/energyRegenRate and built-in defaults
+   */
+  async getBaseStats(): Promise<StatValues> {
+    const settings = await this.files.getGameSettings();
+    return {
+      lpPerTap: 2,
+      lpPerHour: 250,
+      maxEnergy: settings.maxEnergy ?? 1000,
+      energyRegen: settings.energyRegenRate ?? 1,
+      offlineCapMinutes: 180,
+      critChance: 0,
+      wheelCooldownReduction: 0,
+      chatCharismaBonus: 0,
+      ...(settings.baseStats || {})
+    };
+  }
+
+  /**
+   * 📊 COMPOSE STATS: base → upgrades
+   * Per stat: (base + Σ additive) × (1 + Σ percent / 100) × Π multiplicative
+   */
+  composeStats(base: StatValues, allUpgrades: Upgrade[], userUpgrades: UserUpgrade[]): StatValues {
+    const additive = {} as StatValues;
+    const percent = {} as StatValues;
+    const multiplier = {} as StatValues;
+    for (const stat of UPGRADE_STATS) {
+      additive[stat] = 0;
+      percent[stat] = 0;
+      multiplier[stat] = 1;
     }
-    if (upgrade.hourlyBonus && upgrade.category === 'lpPerHour') {
-      return upgrade.hourlyBonus * level;
+
+    for (const userUpgrade of userUpgrades) {
+      const upgrade = allUpgrades.find(u => u.id === userUpgrade.upgradeId);
+      if (!upgrade || userUpgrade.level <= 0) continue;
+      const effect = this.getEffect(upgrade);
+      if (!effect || !UPGRADE_STATS.includes(effect.stat)) continue;
+
+      const value = this.calculateEffectValue(effect, userUpgrade.level);
+      const mode = effect.type === 'table' ? (effect.tableAs || 'additive') : effect.type;
+      if (mode === 'percent') percent[effect.stat] += value;
+      else if (mode === 'multiplicative') multiplier[effect.stat] *= value;
+      else additive[effect.stat] += value;
     }
-    
-    // Fallback to original calculation
-    if (upgrade.category === 'lpPerTap' && upgrade.id !== 'mega-tap') {
-      return upgrade.baseEffect * Math.pow(1 + upgrade.effectMultiplier, level - 1);
+
+    const stats = {} as StatValues;
+    for (const stat of UPGRADE_STATS) {
+      stats[stat] = (base[stat] + additive[stat]) * (1 + percent[stat] / 100) * multiplier[stat];
     }
-    // For additive effects
-    return upgrade.baseEffect + (upgrade.effectMultiplier * level);
+    return stats;
+  }
+
+  // Base + upgrades for one user (userUpgrades key: telegram_<id> or uuid)
+  async getUpgradeStats(userId: string): Promise<StatValues> {
+    const [base, allUpgrades, userUpgrades] = await Promise.all([
+      this.getBaseStats(),
+      this.getAllUpgrades(),
+      this.getUserUpgrades(userId)
+    ]);
+    return this.composeStats(base, allUpgrades, userUpgrades);
   }
 
   /**
    * 🔥 NEW: APPLY UPGRADE EFFECTS TO USER STATS
    * Recalculates user stats based on purchased upgrades and saves to database
+   * Only the stored columns (lpPerTap, lpPerHour, maxEnergy) - the other stats are read through StatService
    */
   async applyUserUpgradeEffects(userId: string): Promise<ComputedStats> {
     console.log(`⚡ [EFFECTS] Applying upgrade effects for user: ${userId}`);
     
-    const allUpgrades = await this.getAllUpgrades();
-    const userUpgrades = await this.getUserUpgrades(userId);
     const user = await this.storage.getUser(userId);
-    
     if (!user) {
       throw new Error('User not found');
     }
 
-    // Base stats (default values)
-    let lpPerTap = 2;      // base tap power
-    let lpPerHour = 250;   // base passive income
-    let maxEnergy = 1000;  // base energy capacity
-
-    console.log(`⚡ [EFFECTS] Processing ${userUpgrades.length} purchased upgrades...`);
-
-    // Apply effects from each purchased upgrade
-    for (const userUpgrade of userUpgrades) {
-      const upgrade = allUpgrades.find(u => u.id === userUpgrade.upgradeId);
-      if (!upgrade || userUpgrade.level === 0) continue;
-
-      const effectValue = this.calculateTotalEffect(upgrade, userUpgrade.level);
-      console.log(`⚡ [EFFECTS] ${upgrade.name} level ${userUpgrade.level}: +${effectValue} ${upgrade.category}`);
-
-      switch (upgrade.category) {
-        case 'lpPerTap':
-          lpPerTap += effectValue;
-          break;
-        case 'lpPerHour':
-          lpPerHour += effectValue;
-          break;
-        case 'energy':
-          maxEnergy += effectValue;
-          break;
-        case 'passive':
-          lpPerHour += effectValue; // passive upgrades boost hourly income
-          break;
-      }
-    }
+    const stats = await this.getUpgradeStats(userId);
+    const { lpPerTap, lpPerHour, maxEnergy } = stats;
 
     // Cap current energy to new max if energy was increased
     let newEnergy = user.energy;
@@ -226,7 +339,7 @@ export class UpgradeStorage {
     const newStats: ComputedStats = {
       lpPerTap: Math.max(1, Math.floor(lpPerTap)),
       lpPerHour: Math.max(10, Math.floor(lpPerHour)),
-      maxEnergy: Math.max(1000, Math.floor(maxEnergy)),
+      maxEnergy: Math.max(1, Math.floor(maxEnergy)),
       energy: newEnergy
     };
 
@@ -272,85 +385,322 @@ export class UpgradeStorage {
     return upgrade?.level || 0;
   }
 
+  /**
+   * Writes a user's level for one upgrade (INSERT or UPDATE - no upsert constraint on userUpgrades).
+   * Does not touch LP or recompute stats; call applyUserUpgradeEffects afterwards.
+   */
+  async setUserUpgradeLevel(userId: string, upgradeId: string, level: number): Promise<void> {
+    const now = new Date().toISOString();
+    const { data: existing } = await this.storage.supabase
+      .from('userUpgrades')
+      .select('id')
+      .eq('userId', userId)
+      .eq('upgradeId', upgradeId)
+      .maybeSingle();
+
+    const { error } = existing
+      ? await this.storage.supabase
+          .from('userUpgrades')
+          .update({ level, updatedAt: now })
+          .eq('userId', userId)
+          .eq('upgradeId', upgradeId)
+      : await this.storage.supabase
+          .from('userUpgrades')
+          .insert({ userId, upgradeId, level, createdAt: now, updatedAt: now });
+
+    if (error) {
+      console.error(`❌ Failed to set ${upgradeId} to level ${level} for ${userId}:`, error);
+      throw new Error('Failed to save upgrade progress');
+    }
+  }
+
   async isUpgradeUnlocked(userId: string, upgrade: Upgrade): Promise<boolean> {
+    return (await this.getUnlockStatus(userId, upgrade)).unlocked;
+  }
+
+  async getUnlockStatus(userId: string, upgrade: Upgrade, ctx?: UnlockContext | null): Promise<UnlockStatus> {
+    const context = ctx ?? await this.loadUnlockContext(userId);
+    if (!context) return { unlocked: false, unmet: [{ label: 'User not found' }] };
+    const unmet = this.getUnlockRequirements(upgrade).flatMap(req => this.evaluateRequirement(req, context));
+    return { unlocked: unmet.length === 0, unmet };
+  }
+
+  /**
+   * 🔓 UNLOCK REQUIREMENTS
+   * requiredLevel, the legacy upgradeId/level and totalUpgradeLevels fields, `all` and `any`
+   * are AND-ed together; groups inside `all`/`any` nest freely.
+   */
+  getUnlockRequirements(upgrade: Upgrade): UnlockRequirement[] {
+    const requirements: UnlockRequirement[] = [];
+    const unlock = upgrade.unlockRequirements || {};
+
+    if ((upgrade.requiredLevel || 1) > 1) {
+      requirements.push({ type: 'playerLevel', level: upgrade.requiredLevel });
+    }
+    if (unlock.upgradeId && unlock.level) {
+      requirements.push({ type: 'upgrade', upgradeId: unlock.upgradeId, level: unlock.level });
+    }
+    if (unlock.totalUpgradeLevels) {
+      requirements.push({ type: 'totalUpgradeLevels', levels: unlock.totalUpgradeLevels });
+    }
+    if (unlock.all?.length) requirements.push(...unlock.all);
+    if (unlock.any?.length) requirements.push({ any: unlock.any });
+
+    return requirements;
+  }
+
+  async loadUnlockContext(userId: string): Promise<UnlockContext | null> {
     const user = await this.storage.getUser(userId);
-    if (!user) return false;
+    if (!user) return null;
+
+    const [allUpgrades, userUpgrades, achievements, events] = await Promise.all([
+      this.getAllUpgrades(),
+      this.getUserUpgrades(userId),
+      this.files.getAllAchievements(),
+      this.events.resolve()
+    ]);
+
+    // Achievement rows are keyed by the id the client sent; bonds by users.id
+    const [{ data: achievementRows }, { data: bondRows }] = await Promise.all([
+      this.storage.supabase
+        .from('userAchievements')
+        .select('achievementId')
+        .in('userId', Array.from(new Set([userId, user.id])))
+        .eq('completed', true),
+      this.storage.supabase
+        .from('userCharacters')
+        .select('characterId, bondLevel')
+        .eq('userId', user.id)
+    ]);
+
+    const bondCharacters = new Set<string>();
+    const collect = (req: UnlockRequirement) => {
+      if ('all' in req) req.all.forEach(collect);
+      else if ('any' in req) req.any.forEach(collect);
+      else if (req.type === 'bond') bondCharacters.add(req.characterId);
+    };
+    allUpgrades.forEach(upgrade => this.getUnlockRequirements(upgrade).forEach(collect));
+
+    const characterNames = new Map<string, string>();
+    if (bondCharacters.size > 0) {
+      const { data: characters } = await this.storage.supabase
+        .from('characters')
+        .select('id, name')
+        .in('id', Array.from(bondCharacters));
+      (characters || []).forEach((c: any) => characterNames.set(c.id, c.name));
+    }
 
-    // Check user level requirement
-    if ((user.level || 1) < upgrade.requiredLevel) return false;
+    const tier = getActiveVipTier(user);
 
-    // Check upgrade requirements
-    if (upgrade.unlockRequirements?.upgradeId && upgrade.unlockRequirements?.level) {
-      const requiredLevel = await this.getUserUpgradeLevel(userId, upgrade.unlockRequirements.upgradeId);
-      if (requiredLevel < upgrade.unlockRequirements.level) return false;
+    return {
+      user,
+      allUpgrades,
+      userUpgrades,
+      completedAchievements: new Set((achievementRows || []).map((r: any) => r.achievementId)),
+      achievementNames: new Map(achievements.map(a => [a.id, a.name])),
+      bondLevels: new Map((bondRows || []).map((r: any) => [r.characterId, r.bondLevel || 0])),
+      characterNames,
+      vipRank: tier ? VIP_TIER_ORDER.indexOf(tier.id) : -1,
+      activeEvents: events.liveIds
+    };
+  }
+
+  // Unmet parts of a requirement; empty when it holds
+  private evaluateRequirement(req: UnlockRequirement, ctx: UnlockContext): UnmetRequirement[] {
+    if ('all' in req) {
+      return req.all.flatMap(child => this.evaluateRequirement(child, ctx));
     }
 
-    // Check total upgrade levels requirement
-    if (upgrade.unlockRequirements?.totalUpgradeLevels) {
-      const userUpgrades = await this.getUserUpgrades(userId);
-      const totalLevels = userUpgrades.reduce((sum, u) => sum + u.level, 0);
-      if (totalLevels < upgrade.unlockRequirements.totalUpgradeLevels) return false;
+    if ('any' in req) {
+      const options: UnmetRequirement[] = [];
+      for (const child of req.any) {
+        const unmet = this.evaluateRequirement(child, ctx);
+        if (unmet.length === 0) return [];
+        options.push(unmet.length === 1
+          ? unmet[0]
+          : { label: `(${unmet.map(u => u.label).join(' and ')})`, all: unmet });
+      }
+      return options.length ? [{ label: options.map(o => o.label).join(' or '), any: options }] : [];
     }
 
-    return true;
+    return this.isConditionMet(req, ctx) ? [] : [{ label: req.label || this.describeCondition(req, ctx), condition: req }];
   }
 
-  async getAvailableUpgrades(userId: string): Promise<(Upgrade & { currentLevel: number; nextCost: number; canAfford: boolean })[]> {
-    const allUpgrades = await this.getAllUpgrades();
-    const user = await this.storage.getUser(userId);
+  private isConditionMet(condition: UnlockCondition, ctx: UnlockContext): boolean {
+    switch (condition.type) {
+      case 'upgrade':
+        return (ctx.userUpgrades.find(u => u.upgradeId === condition.upgradeId)?.level || 0) >= condition.level;
+      case 'playerLevel':
+        return (ctx.user.level || 1) >= condition.level;
+      case 'totalUpgradeLevels':
+        return ctx.userUpgrades.reduce((sum, u) => sum + u.level, 0) >= condition.levels;
+      case 'achievement':
+        return ctx.completedAchievements.has(condition.achievementId);
+      case 'bond':
+        return (ctx.bondLevels.get(condition.characterId) || 0) >= condition.level;
+      case 'vip':
+        return condition.tier
+          ? ctx.vipRank >= 0 && ctx.vipRank >= VIP_TIER_ORDER.indexOf(condition.tier)
+          : ctx.vipRank >= 0;
+      case 'event':
+        return condition.eventId ? ctx.activeEvents.includes(condition.eventId) : ctx.activeEvents.length > 0;
+      default:
+        console.warn('⚠️ Unknown unlock condition:', condition);
+        return false;
+    }
+  }
+
+  private describeCondition(condition: UnlockCondition, ctx: UnlockContext): string {
+    switch (condition.type) {
+      case 'upgrade': {
+        const name = ctx.allUpgrades.find(u => u.id === condition.upgradeId)?.name || condition.upgradeId;
+        return `${name} level ${condition.level}`;
+      }
+      case 'playerLevel':
+        return `Player level ${condition.level}`;
+      case 'totalUpgradeLevels':
+        return `${condition.levels} total upgrade levels`;
+      case 'achievement':
+        return `Achievement: ${ctx.achievementNames.get(condition.achievementId) || condition.achievementId}`;
+      case 'bond':
+        return `Bond level ${condition.level} with ${ctx.characterNames.get(condition.characterId) || condition.characterId}`;
+      case 'vip': {
+        const tier = condition.tier ? vipTiers[condition.tier as keyof typeof vipTiers] : undefined;
+        return tier ? `${tier.name} or higher` : 'VIP membership';
+      }
+      case 'event':
+        return condition.eventId ? `Event: ${condition.eventId}` : 'An active event';
+      default:
+        return 'Unknown requirement';
+    }
+  }
+
+  /**
+   * Upgrades with the user's progress. Locked upgrades are included with isUnlocked=false and
+   * the conditions still missing, so the UI can show "requires X and Y".
+   */
+  async getAvailableUpgrades(userId: string): Promise<(Upgrade & {
+    currentLevel: number;
+    nextCost: number;
+    canAfford: boolean;
+    currentEffect: number;
+    nextEffect: number | null;
+    isUnlocked: boolean;
+    unmetRequirements: UnmetRequirement[];
+  })[]> {
+    const ctx = await this.loadUnlockContext(userId);
     
-    if (!user) {
+    if (!ctx) {
       console.warn('⚠️ User not found:', userId);
       return [];
     }
 
     const result = [];
-    for (const upgrade of allUpgrades) {
-      const isUnlocked = await this.isUpgradeUnlocked(userId, upgrade);
-      if (!isUnlocked) continue;
+    for (const upgrade of ctx.allUpgrades) {
+      const { unlocked, unmet } = await this.getUnlockStatus(userId, upgrade, ctx);
 
-      const currentLevel = await this.getUserUpgradeLevel(userId, upgrade.id);
+      const currentLevel = ctx.userUpgrades.find(u => u.upgradeId === upgrade.id)?.level || 0;
       const nextCost = this.calculateCost(upgrade, currentLevel);
-      const canAfford = (user.lp || 0) >= nextCost;
+      const canAfford = unlocked && (ctx.user.lp || 0) >= nextCost;
 
       result.push({
         ...upgrade,
         currentLevel,
         nextCost,
-        canAfford
+        canAfford,
+        effect: this.getEffect(upgrade) ?? undefined, // Declared or legacy-derived
+        currentEffect: this.calculateTotalEffect(upgrade, currentLevel),
+        nextEffect: currentLevel < upgrade.maxLevel ? this.calculateTotalEffect(upgrade, currentLevel + 1) : null,
+        isUnlocked: unlocked,
+        unmetRequirements: unmet
       });
     }
 
     return result;
   }
 
-  async validatePurchase(userId: string, upgradeId: string): Promise<{ valid: boolean; reason?: string; cost?: number }> {
+  /**
+   * Total cost of buying `levels` levels starting at `currentLevel` - the geometric series of
+   * calculateCost, summed per level so it matches single purchases exactly (each level is floored)
+   */
+  calculateBulkCost(upgrade: Upgrade, currentLevel: number, levels: number): number {
+    let total = 0;
+    for (let level = currentLevel; level < currentLevel + levels; level++) {
+      total += this.calculateCost(upgrade, level);
+    }
+    return total;
+  }
+
+  /**
+   * 🧮 PURCHASE QUOTE
+   * Prices `quantity` levels (or as many as the player can afford with 'max'), capped at maxLevel.
+   * Used both for the preview endpoint and to validate the actual purchase.
+   */
+  async quotePurchase(userId: string, upgradeId: string, quantity: PurchaseQuantity = 1): Promise<PurchaseQuote> {
+    const quote: PurchaseQuote = {
+      valid: false,
+      upgradeId,
+      quantity,
+      currentLevel: 0,
+      targetLevel: 0,
+      levels: 0,
+      totalCost: 0,
+      balance: 0,
+      balanceAfter: 0
+    };
+
     const upgrade = await this.getUpgrade(upgradeId);
     if (!upgrade) {
-      return { valid: false, reason: 'Upgrade not found in JSON files' };
+      return { ...quote, reason: 'Upgrade not found in JSON files' };
     }
 
     const user = await this.storage.getUser(userId);
     if (!user) {
-      return { valid: false, reason: 'User not found' };
+      return { ...quote, reason: 'User not found' };
     }
 
-    const isUnlocked = await this.isUpgradeUnlocked(userId, upgrade);
-    if (!isUnlocked) {
-      return { valid: false, reason: 'Upgrade not unlocked' };
+    quote.balance = quote.balanceAfter = user.lp || 0;
+    quote.currentLevel = quote.targetLevel = await this.getUserUpgradeLevel(userId, upgradeId);
+    quote.maxLevel = upgrade.maxLevel;
+
+    const unlock = await this.getUnlockStatus(userId, upgrade);
+    if (!unlock.unlocked) {
+      return { ...quote, reason: 'Upgrade not unlocked', unmetRequirements: unlock.unmet };
     }
 
-    const currentLevel = await this.getUserUpgradeLevel(userId, upgradeId);
-    if (currentLevel >= upgrade.maxLevel) {
-      return { valid: false, reason: 'Max level reached' };
+    const remaining = upgrade.maxLevel - quote.currentLevel;
+    if (remaining <= 0) {
+      return { ...quote, reason: 'Max level reached' };
     }
 
-    const cost = this.calculateCost(upgrade, currentLevel);
-    if ((user.lp || 0) < cost) {
-      return { valid: false, reason: 'Insufficient LP', cost };
+    if (quantity === 'max') {
+      // Walk levels until the next one is unaffordable
+      while (quote.levels < remaining) {
+        const next = this.calculateCost(upgrade, quote.currentLevel + quote.levels);
+        if (quote.totalCost + next > quote.balance) break;
+        quote.totalCost += next;
+        quote.levels++;
+      }
+      if (quote.levels === 0) {
+        return { ...quote, totalCost: this.calculateCost(upgrade, quote.currentLevel), reason: 'Insufficient LP' };
+      }
+    } else {
+      quote.levels = Math.min(quantity, remaining);
+      quote.totalCost = this.calculateBulkCost(upgrade, quote.currentLevel, quote.levels);
+    }
+
+    quote.targetLevel = quote.currentLevel + quote.levels;
+    quote.balanceAfter = quote.balance - quote.totalCost;
+    if (quote.balanceAfter < 0) {
+      return { ...quote, reason: 'Insufficient LP' };
     }
 
-    return { valid: true, cost };
+    return { ...quote, valid: true };
+  }
+
+  async validatePurchase(userId: string, upgradeId: string): Promise<{ valid: boolean; reason?: string; cost?: number }> {
+    const quote = await this.quotePurchase(userId, upgradeId, 1);
+    return { valid: quote.valid, reason: quote.reason, cost: quote.totalCost || undefined };
   }
 
   /**
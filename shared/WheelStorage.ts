@@ -1,16 +1,22 @@
 import { promises as fs } from 'fs';
 import { join } from 'path';
+import type { RewardDefinition } from './schema';
 
 export interface WheelPrize {
   id: string;
   label: string;
-  type: 'lp' | 'energy' | 'charisma' | 'booster' | 'mediaTagUnlock' | 'upgradeId';
+  type: RewardDefinition['type']; // Granted through RewardService like any other JSON reward
   amount?: number;
   weight: number;
   vipOnly?: boolean;
   nsfw?: boolean;
-  eventTag?: string;
+  eventTag?: string; // mediaTagUnlock prizes: the tag to unlock
   minLevel?: number;
+  boosterType?: string; // booster prizes: key in GameSettings.boosterEffects (amount = minutes)
+  multiplier?: number; // booster prizes: override the configured multiplier
+  upgradeId?: string; // upgradeId prizes: free level(s) of this upgrade (amount = levels, default 1)
+  characterId?: string; // character prizes
+  itemId?: string; // item prizes (amount = quantity)
 }
 
 export class WheelStorage {
@@ -36,9 +42,9 @@ export class WheelStorage {
         { id: 'lp_300', label: '+300 LP', type: 'lp', amount: 300, weight: 15 },
         { id: 'energy_200', label: '+200 Energy', type: 'energy', amount: 200, weight: 20 },
         { id: 'charisma_10', label: '+10 Charisma', type: 'charisma', amount: 10, weight: 10 },
-        { id: 'booster_tap2x', label: '2x Tap Booster (15m)', type: 'booster', amount: 15, weight: 8 },
+        { id: 'booster_tap2x', label: '2x Tap Booster (15m)', type: 'booster', boosterType: 'tap_power', multiplier: 2, amount: 15, weight: 8 },
         { id: 'unlock_event_tag', label: 'Unlock: Halloween Set', type: 'mediaTagUnlock', weight: 5, eventTag: 'event:halloween2025' },
-        { id: 'upgrade_discount', label: 'Upgrade: mega-tap', type: 'upgradeId', weight: 3 },
+        { id: 'upgrade_discount', label: 'Upgrade: mega-tap', type: 'upgradeId', upgradeId: 'mega-tap', weight: 3 },
         { id: 'lp_1000_vip', label: '+1000 LP (VIP)', type: 'lp', amount: 1000, weight: 2, vipOnly: true }
       ];
       await fs.writeFile(this.filePath, JSON.stringify(defaults, null, 2), 'utf8');
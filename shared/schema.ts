@@ -22,6 +22,16 @@ export const users = pgTable("users", {
   isEvent: boolean("isEvent").notNull().default(false),
   lastTick: timestamp("lastTick").notNull().default(sql`now()`),
   lastWheelSpin: timestamp("lastWheelSpin"),
+  energyUpdatedAt: timestamp("energyUpdatedAt").notNull().default(sql`now()`), // Anchor for lazy energy regen
+  lastTapAt: timestamp("lastTapAt"), // Time of the last credited tap, never ahead of server time (tap cooldown)
+  lastRespecAt: timestamp("lastRespecAt"), // Last player-initiated upgrade respec (cooldown anchor)
+  xp: real("xp").notNull().default(0), // Progression track that drives levels - earned, never spent
+  xpMigratedAt: timestamp("xpMigratedAt").default(sql`now()`), // NULL = pre-XP account whose xp is still to be seeded from lifetime LP
+  loginStreak: integer("loginStreak").notNull().default(0), // Consecutive daily reset windows with a login
+  longestLoginStreak: integer("longestLoginStreak").notNull().default(0),
+  lastLoginAt: timestamp("lastLoginAt"), // Last recorded login (LoginStreakService)
+  referralCode: text("referralCode").unique(), // Code other players pass in /start ref_<code> (created on first use)
+  selectedCharacterId: text("selectedCharacterId"), // Character the player last selected (shown to friends)
   createdAt: timestamp("createdAt").notNull().default(sql`now()`),
 });
 
@@ -120,6 +130,7 @@ export const wheelRewards = pgTable("wheelRewards", {
   spunAt: timestamp("spunAt").notNull().default(sql`now()`),
 });
 
+// Lifetime counters - one row per user, written by server/services/GameStatsService.ts
 export const gameStats = pgTable("gameStats", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: uuid("userId").notNull().references(() => users.id, { onDelete: "cascade" }),
@@ -127,7 +138,27 @@ export const gameStats = pgTable("gameStats", {
   totalLpEarned: integer("totalLpEarned").notNull().default(0),
   totalEnergyUsed: integer("totalEnergyUsed").notNull().default(0),
   sessionsPlayed: integer("sessionPlayed").notNull().default(0),
-  lastUpdated: timestamp("lastUpdated").notNull().default(sql`now()`),
+  wheelSpins: integer("wheelSpins").notNull().default(0),
+  chatMessages: integer("chatMessages").notNull().default(0),
+  mediaReceived: integer("mediaReceived").notNull().default(0),
+  upgradesPurchased: integer("upgradesPurchased").notNull().default(0), // Levels bought
+  lastUpdated: timestamp("lastUpdated").notNull().default(sql`now()`), // Last tracked activity (sessions start after a gap)
+});
+
+// The same counters per UTC day, for history charts
+export const gameStatsDaily = pgTable("gameStatsDaily", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: text("userId").notNull(),
+  day: text("day").notNull(), // YYYY-MM-DD (UTC)
+  totalTaps: integer("totalTaps").notNull().default(0),
+  totalLpEarned: integer("totalLpEarned").notNull().default(0),
+  totalEnergyUsed: integer("totalEnergyUsed").notNull().default(0),
+  sessionsPlayed: integer("sessionsPlayed").notNull().default(0),
+  wheelSpins: integer("wheelSpins").notNull().default(0),
+  chatMessages: integer("chatMessages").notNull().default(0),
+  mediaReceived: integer("mediaReceived").notNull().default(0),
+  upgradesPurchased: integer("upgradesPurchased").notNull().default(0),
+  updatedAt: timestamp("updatedAt").notNull().default(sql`now()`),
 });
 
 export const chatMessages = pgTable("chatMessages", {
@@ -176,18 +207,226 @@ export const achievements = pgTable("achievements", {
   createdAt: timestamp("createdAt").notNull().default(sql`now()`),
 });
 
+// Achievement progress, written by server/services/AchievementService.ts from player events
 export const userAchievements = pgTable("userAchievements", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
-  userId: uuid("userId").notNull().references(() => users.id, { onDelete: "cascade" }),
-  achievementId: uuid("achievementId").notNull().references(() => achievements.id, { onDelete: "cascade" }),
-  currentLevel: integer("currentLevel").notNull().default(1),
+  userId: text("userId").notNull(),
+  achievementId: text("achievementId").notNull(), // JSON achievement id, no FK
+  currentLevel: integer("currentLevel").notNull().default(0), // Highest tier reached (0 = none yet)
   progress: integer("progress").notNull().default(0),
   completed: boolean("completed").notNull().default(false), // True when max level reached
-  lastClaimedLevel: integer("lastClaimedLevel").notNull().default(0),
+  lastClaimedLevel: integer("lastClaimedLevel").notNull().default(0), // Tiers are claimed one at a time
+  unlockedAt: timestamp("unlockedAt"), // First tier reached - hidden achievements are listed from here on
   completedAt: timestamp("completedAt"),
   updatedAt: timestamp("updatedAt").notNull().default(sql`now()`),
 });
 
+// Append-only LP ledger - one row per LP mutation, never updated or deleted
+export const lpLedger = pgTable("lpLedger", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: text("userId").notNull(), // TEXT like userUpgrades - resolved users.id
+  delta: real("delta").notNull(), // Signed LP change
+  balanceAfter: real("balanceAfter").notNull(), // users.lp after this change was written
+  source: text("source").notNull(), // tap, upgrade_purchase, wheel, offline_claim, level_claim, ...
+  refId: text("refId"), // upgradeId, prizeId, taskId, achievementId, level, ...
+  createdAt: timestamp("createdAt").notNull().default(sql`now()`),
+});
+
+// Inventory items granted by rewards - one row per user and item, quantity accumulates
+export const userItems = pgTable("userItems", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: text("userId").notNull(), // TEXT like lpLedger - resolved users.id
+  itemId: text("itemId").notNull(), // JSON item key, no FK
+  quantity: integer("quantity").notNull().default(0),
+  updatedAt: timestamp("updatedAt").notNull().default(sql`now()`),
+});
+
+// Permanent unlocks granted by rewards (mediaTag, ...) - one row per user/kind/key
+export const userUnlocks = pgTable("userUnlocks", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: text("userId").notNull(),
+  kind: text("kind").notNull(), // mediaTag, feature
+  key: text("key").notNull(), // e.g. event:halloween2025, wheel_spin
+  source: text("source"), // LedgerSource of the grant that unlocked it
+  unlockedAt: timestamp("unlockedAt").notNull().default(sql`now()`),
+});
+
+// One row per offline income claim with the per-source breakdown (see server/services/OfflineIncomeService.ts)
+export const offlineClaims = pgTable("offlineClaims", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: text("userId").notNull(), // TEXT like lpLedger - resolved users.id
+  offlineMinutes: integer("offlineMinutes").notNull(), // Time away, before the cap
+  minutesApplied: integer("minutesApplied").notNull(), // Time credited (min of offlineMinutes and capMinutes)
+  capMinutes: integer("capMinutes").notNull(),
+  lpClaimed: real("lpClaimed").notNull(),
+  lostToCap: real("lostToCap").notNull().default(0), // LP the time beyond the cap would have earned
+  breakdown: jsonb("breakdown").notNull().default([]), // OfflineIncomeLine[]
+  claimedAt: timestamp("claimedAt").notNull().default(sql`now()`),
+});
+
+// Task progress per reset period - a new period key starts from 0 (see server/services/TaskService.ts)
+export const userTaskProgress = pgTable("userTaskProgress", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: text("userId").notNull(),
+  taskId: text("taskId").notNull(), // JSON task id, no FK
+  periodKey: text("periodKey").notNull(), // d:<period start>, w:<period start> or once
+  progress: real("progress").notNull().default(0),
+  completedAt: timestamp("completedAt"),
+  claimedAt: timestamp("claimedAt"),
+  updatedAt: timestamp("updatedAt").notNull().default(sql`now()`),
+});
+
+// Login calendar rewards - at most one claim per user, calendar and daily reset window
+export const loginRewardClaims = pgTable("loginRewardClaims", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: text("userId").notNull(),
+  calendarId: text("calendarId").notNull(), // JSON calendar id, no FK
+  day: integer("day").notNull(), // Calendar day claimed (1..length)
+  streak: integer("streak").notNull(), // loginStreak at the time of the claim
+  periodKey: text("periodKey").notNull(), // Reset window the claim belongs to
+  claimedAt: timestamp("claimedAt").notNull().default(sql`now()`),
+});
+
+// Quest chain step progress - one row per user and step, created when the step unlocks (see server/services/QuestService.ts)
+export const userQuestProgress = pgTable("userQuestProgress", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: text("userId").notNull(),
+  chainId: text("chainId").notNull(), // JSON chain id, no FK
+  stepId: text("stepId").notNull(), // Step id within the chain
+  progress: real("progress").notNull().default(0),
+  unlockedAt: timestamp("unlockedAt").notNull().default(sql`now()`),
+  completedAt: timestamp("completedAt"),
+  claimedAt: timestamp("claimedAt"),
+  updatedAt: timestamp("updatedAt").notNull().default(sql`now()`),
+});
+
+// Leaderboard rank snapshots - rebuilt by server/services/LeaderboardService.ts so reads never rank the live tables
+export const leaderboardEntries = pgTable("leaderboardEntries", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  board: text("board").notNull(), // lp, taps, level or bond:<characterId>
+  period: text("period").notNull(), // global or an ISO week (2026-W42)
+  userId: text("userId").notNull(),
+  score: real("score").notNull().default(0),
+  rank: integer("rank").notNull(),
+  rewardedAt: timestamp("rewardedAt"), // Weekly season reward granted (closed seasons only)
+  updatedAt: timestamp("updatedAt").notNull().default(sql`now()`), // Snapshot that last wrote the row
+});
+
+// Closed weekly seasons - one row per board and week, inserted when the season's final ranks are taken
+export const leaderboardSeasons = pgTable("leaderboardSeasons", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  board: text("board").notNull(),
+  period: text("period").notNull(),
+  entries: integer("entries").notNull().default(0), // Ranked players at close
+  closedAt: timestamp("closedAt").notNull().default(sql`now()`),
+});
+
+// Who invited whom - one row per invitee, written when a new Telegram account starts the bot with a code
+export const referrals = pgTable("referrals", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  referrerId: text("referrerId").notNull(), // users.id of the code owner
+  inviteeId: text("inviteeId").notNull().unique(), // users.id of the new player
+  code: text("code").notNull(),
+  createdAt: timestamp("createdAt").notNull().default(sql`now()`),
+});
+
+// Milestone rewards already granted - one row per referral, milestone and side
+export const referralRewards = pgTable("referralRewards", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  referralId: text("referralId").notNull(),
+  milestoneId: text("milestoneId").notNull(),
+  side: text("side").notNull(), // referrer or invitee
+  userId: text("userId").notNull(), // Who received the rewards
+  rewardedAt: timestamp("rewardedAt").notNull().default(sql`now()`),
+});
+
+// Friend requests and friendships - one row per pair of players whoever asked first
+export const friendships = pgTable("friendships", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  requesterId: text("requesterId").notNull(), // users.id
+  addresseeId: text("addresseeId").notNull(), // users.id
+  pairKey: text("pairKey").notNull().unique(), // Both ids sorted and joined with ":" so a pair can't exist twice
+  status: text("status").notNull().default("pending"), // pending, accepted or declined
+  source: text("source").notNull().default("username"), // username or referral (added by referral code)
+  createdAt: timestamp("createdAt").notNull().default(sql`now()`),
+  respondedAt: timestamp("respondedAt"),
+});
+
+// Daily gifts between friends - at most one per sender, recipient and reset window; claimed by the recipient
+export const friendGifts = pgTable("friendGifts", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  senderId: text("senderId").notNull(),
+  recipientId: text("recipientId").notNull(),
+  day: text("day").notNull(), // Reset window the gift was sent in (YYYY-MM-DD)
+  kind: text("kind").notNull(), // energy or item
+  rewards: jsonb("rewards").notNull(), // RewardDefinition[] granted on claim
+  createdAt: timestamp("createdAt").notNull().default(sql`now()`),
+  claimedAt: timestamp("claimedAt"),
+});
+
+// Affection a player gained with a character per reset window, by source - enforces the bond daily caps
+export const characterAffectionDaily = pgTable("characterAffectionDaily", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: text("userId").notNull(), // users.id
+  characterId: text("characterId").notNull(),
+  day: text("day").notNull(), // Reset window (YYYY-MM-DD); unique with userId and characterId
+  chat: integer("chat").notNull().default(0),
+  tap: integer("tap").notNull().default(0),
+  gift: integer("gift").notNull().default(0),
+  taps: integer("taps").notNull().default(0), // Taps counted toward tap affection (tapsPerPoint taps = 1 point)
+  updatedAt: timestamp("updatedAt").notNull().default(sql`now()`),
+});
+
+// Player clubs - members are in clubMembers (one club per player)
+export const clubs = pgTable("clubs", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(), // Unique ignoring case (index on lower(name))
+  description: text("description"),
+  ownerId: text("ownerId").notNull(), // users.id - mirrors the member with role owner
+  createdAt: timestamp("createdAt").notNull().default(sql`now()`),
+});
+
+export const clubMembers = pgTable("clubMembers", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  clubId: text("clubId").notNull(),
+  userId: text("userId").notNull().unique(), // users.id
+  role: text("role").notNull().default("member"), // owner, officer or member
+  joinedAt: timestamp("joinedAt").notNull().default(sql`now()`),
+});
+
+// What each member added to each weekly goal - club progress is the sum over its members
+export const clubContributions = pgTable("clubContributions", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  clubId: text("clubId").notNull(),
+  period: text("period").notNull(), // ISO week (2026-W42)
+  userId: text("userId").notNull(),
+  goalId: text("goalId").notNull(),
+  amount: real("amount").notNull().default(0),
+  updatedAt: timestamp("updatedAt").notNull().default(sql`now()`),
+});
+
+// Closed club weeks - one row per club and week, inserted once the week's rewards are queued
+export const clubWeeks = pgTable("clubWeeks", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  clubId: text("clubId").notNull(),
+  period: text("period").notNull(),
+  progress: jsonb("progress").notNull(), // Goal id → final total
+  members: integer("members").notNull().default(0), // Members rewarded
+  closedAt: timestamp("closedAt").notNull().default(sql`now()`),
+});
+
+// Goal tier rewards owed to members of a closed week - rewardedAt is set when granted
+export const clubRewards = pgTable("clubRewards", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  clubId: text("clubId").notNull(),
+  period: text("period").notNull(),
+  goalId: text("goalId").notNull(),
+  tier: integer("tier").notNull(), // 1-based tier of the goal
+  userId: text("userId").notNull(),
+  rewardedAt: timestamp("rewardedAt"),
+  createdAt: timestamp("createdAt").notNull().default(sql`now()`),
+});
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   userCharacters: many(userCharacters),
@@ -301,6 +540,82 @@ export const telegramAuthTokens = pgTable("telegramAuthTokens", {
 
 // 🚀 FileStorage JSON-First Types (not in database - pure JSON!)
 
+// Reward definition shared by tasks, achievements, level unlocks and wheel prizes (granted by RewardService)
+export interface RewardDefinition {
+  type: 'lp' | 'energy' | 'charisma' | 'booster' | 'mediaTagUnlock' | 'featureUnlock' | 'upgradeId' | 'character' | 'item';
+  amount?: number; // lp/energy/charisma amount, booster minutes, free upgrade levels, item quantity
+  tag?: string; // mediaTagUnlock
+  feature?: string; // featureUnlock: feature flag key (wheel_spin, weekly_tasks, ...)
+  upgradeId?: string; // upgradeId
+  characterId?: string; // character
+  itemId?: string; // item
+  boosterType?: string; // booster: key in GameSettings.boosterEffects
+  multiplier?: number; // booster: override the configured multiplier
+}
+
+// Player stats that upgrades can target (StatService composes base → upgrades → boosters → VIP)
+export type UpgradeStat =
+  | 'lpPerTap'
+  | 'lpPerHour'
+  | 'maxEnergy'
+  | 'energyRegen' // Energy per second
+  | 'offlineCapMinutes'
+  | 'critChance' // 0-1 chance per tap
+  | 'wheelCooldownReduction' // 0-1 fraction of wheelSpinCooldown
+  | 'chatCharismaBonus'; // Charisma per chat message sent
+
+// Declarative upgrade effect (upgrade JSON `effect` block)
+export interface UpgradeEffect {
+  stat: UpgradeStat;
+  type: 'additive' | 'multiplicative' | 'percent' | 'table';
+  base?: number; // Value at level 1 (multiplicative: factor at level 1)
+  perLevel?: number; // additive/percent: added per level after the first; multiplicative: factor per level after the first
+  table?: number[]; // table: value per level (index 0 = level 1), the last entry repeats
+  tableAs?: 'additive' | 'multiplicative' | 'percent'; // table: how the looked-up value applies (default additive)
+}
+
+// Single unlock condition (upgrade JSON `unlockRequirements`)
+export type UnlockCondition =
+  | { type: 'upgrade'; upgradeId: string; level: number; label?: string }
+  | { type: 'playerLevel'; level: number; label?: string }
+  | { type: 'totalUpgradeLevels'; levels: number; label?: string }
+  | { type: 'achievement'; achievementId: string; label?: string } // Achievement completed
+  | { type: 'bond'; characterId: string; level: number; label?: string } // userCharacters.bondLevel
+  | { type: 'vip'; tier?: string; label?: string } // Any active tier, or this tier or higher
+  | { type: 'event'; eventId?: string; label?: string }; // Any active event, or this one
+
+// AND/OR groups nest freely: { all: [...] } needs every entry, { any: [...] } needs one
+export type UnlockRequirement = UnlockCondition | { all: UnlockRequirement[] } | { any: UnlockRequirement[] };
+
+// Unmet part of a requirement, ready for "requires X and Y" (any = alternatives, one of which is needed)
+export interface UnmetRequirement {
+  label: string;
+  condition?: UnlockCondition;
+  any?: UnmetRequirement[];
+  all?: UnmetRequirement[]; // An AND group offered as one alternative inside `any`
+}
+
+// A named level-up handler: "handler:arg[:arg]" or { handler, ...params }.
+// Bare names without a registered handler (basic_tapping, wheel_spin) are feature flags.
+export type LevelFunction = string | { handler: string; [param: string]: any };
+
+// Unified level model: an XP curve generated from GameSettings (baseExperienceRequired × experienceMultiplier^(level-2))
+// up to maxLevel, with explicit entries in progression/level-requirements.json overriding individual levels
+export interface LevelDefinition {
+  level: number;
+  xpRequired: number; // Total XP needed to claim this level
+  name?: string;
+  description?: string;
+  rewards: RewardDefinition[]; // Granted through RewardService on claim
+  functions: LevelFunction[]; // Level-up handlers run on claim (see server/services/LevelUpService.ts)
+  unlocks: string[];
+  upgradeRequirements: { upgradeId: string; requiredLevel: number }[];
+  icon?: string;
+  color?: string;
+  source: 'generated' | 'override';
+  overriddenFields?: string[]; // Fields set by the JSON entry (source = override)
+}
+
 // Task type for JSON-first task management
 export interface Task {
   id: string;
@@ -312,10 +627,7 @@ export interface Task {
     target: number;
     characterId?: string; // Optional for character-specific tasks
   };
-  rewards: {
-    type: 'lp' | 'energy' | 'charisma' | 'booster';
-    amount: number;
-  }[];
+  rewards: RewardDefinition[];
   resetSchedule?: {
     hour: number; // 0-23 UTC hour
     dayOfWeek?: number; // 0-6 for weekly tasks (0 = Sunday)
@@ -326,6 +638,169 @@ export interface Task {
   updatedAt: Date;
 }
 
+// One step of a quest chain. Steps unlock in order unless they name another prerequisite
+export interface QuestStep {
+  id: string;
+  title: string;
+  description: string;
+  requirements: Task['requirements']; // Same activity types as tasks
+  rewards: RewardDefinition[];
+  prerequisite?: {
+    stepId?: string | null; // Step that must be claimed first (default: the previous step; null for none)
+    level?: number; // Player level required
+  };
+  characterId?: string; // Character who gives the step (default: the chain's)
+  dialogue?: {
+    intro?: string[]; // Lines shown when the step is offered
+    outro?: string[]; // Lines shown when it is turned in
+  };
+}
+
+// Multi-step quest line from game-data/quests/*.json
+export interface QuestChain {
+  id: string;
+  name: string;
+  description: string;
+  characterId?: string; // Default quest giver for the steps
+  levelRequirement?: number;
+  isActive?: boolean; // default true
+  steps: QuestStep[];
+}
+
+// Login reward calendar from game-data/progression/login-calendars.json
+export interface LoginCalendar {
+  id: string;
+  name: string;
+  length: number; // Days in one cycle (e.g. 7 or 30)
+  repeat?: boolean; // Start over after the last day (default true); otherwise streaks past the end get nothing
+  isActive?: boolean;
+  days: {
+    day: number; // 1..length
+    rewards: RewardDefinition[];
+    label?: string;
+    highlight?: boolean; // Milestone day shown bigger in the calendar
+  }[];
+}
+
+// Perk unlocked at a bond level - applies to affection gained with that character only
+export interface BondPerk {
+  id: string;
+  name: string;
+  description?: string;
+  type: 'affectionMultiplier' | 'dailyCapBonus'; // Multiplier on every gain, or extra points on every daily cap
+  value: number; // Perks of one type stack: multipliers multiply, cap bonuses add
+}
+
+// One bond level - reached once userCharacters.affection hits `affection`
+export interface BondLevel {
+  level: number; // Level 1 starts at 0 affection
+  affection: number; // Total affection needed
+  name: string;
+  rewards?: RewardDefinition[]; // Granted once through RewardService when the level is reached
+  unlocks?: {
+    mediaTags?: string[]; // Granted as mediaTagUnlock rewards
+    outfits?: string[];
+    dialogue?: string[]; // Dialogue/line set keys the chat can use
+    perks?: BondPerk[];
+  };
+}
+
+// Bond track from game-data/bonds/*.json - one without characterId is the default for every character
+export interface BondTrack {
+  id: string;
+  characterId?: string;
+  affection: {
+    chatMessage: number; // Affection per chat message
+    tapsPerPoint: number; // Taps on the selected character per affection point
+    dailyCaps: { chat: number; tap: number; gift: number }; // Per source and reset window
+  };
+  giftItems?: { itemId: string; affection: number }[]; // Inventory items the character accepts as gifts
+  levels: BondLevel[];
+}
+
+// Achievement from game-data/achievements/*.json. Single-tier entries use target + rewardType/amount;
+// tiered ones list `levels`, and each tier is claimed on its own (userAchievements.lastClaimedLevel)
+export interface AchievementDefinition {
+  id: string;
+  key?: string;
+  name: string;
+  description: string;
+  category: string;
+  icon?: string;
+  requirementType: string; // tapCount, lpEarned, critTaps, upgradesPurchased, lpSpent, wheelSpins, chatMessages, playerLevel, mediaReceived
+  characterId?: string; // chatMessages/mediaReceived: only count this character
+  target?: number;
+  rewardType?: RewardDefinition['type'];
+  amount?: number;
+  reward?: RewardDefinition;
+  levels?: {
+    level: number;
+    target: number;
+    name?: string;
+    reward?: RewardDefinition;
+    rewards?: RewardDefinition[];
+  }[];
+  hidden?: boolean; // Not listed until the first tier is reached
+  enabled?: boolean; // default true
+  sortOrder?: number;
+}
+
+// Timed event from game-data/events/*.json. Content listed here is only served while the event is live
+export interface GameEvent {
+  id: string;
+  name: string;
+  description?: string;
+  startsAt: string; // ISO timestamp
+  endsAt: string; // ISO timestamp (exclusive)
+  tags: string[];
+  isActive?: boolean; // false turns the event off whatever its dates (default true)
+  content: {
+    tasks?: string[]; // Task ids
+    wheelPrizes?: string[]; // Wheel prize ids
+    characters?: string[]; // Character ids
+    mediaTags?: string[]; // Media (and mediaTagUnlock prizes) carrying these tags
+    quests?: string[]; // Quest chain ids
+  };
+  modifiers?: {
+    offlineLpMultiplier?: number; // Offline income multiplier while live
+  };
+}
+
+// Reward for the ranks fromRank..toRank (inclusive) of a closed weekly season
+export interface LeaderboardRewardTier {
+  fromRank: number;
+  toRank: number;
+  rewards: RewardDefinition[];
+}
+
+// Invitee progress that pays out to both sides of a referral
+export interface ReferralMilestone {
+  id: string;
+  name: string;
+  type: 'level' | 'first_upgrade'; // level: invitee reaches `level`; first_upgrade: invitee buys any upgrade
+  level?: number;
+  referrerRewards: RewardDefinition[];
+  inviteeRewards: RewardDefinition[];
+}
+
+// Item a player may send a friend as their daily gift
+export interface FriendGiftItem {
+  itemId: string;
+  name: string;
+  amount?: number; // Quantity the friend receives (default 1)
+}
+
+// What a club goal counts - fed by the same player events as gameStats
+export type ClubGoalMetric = 'taps' | 'lp' | 'spins' | 'chat_messages' | 'upgrades';
+
+// Weekly cooperative goal; every member who contributed that week gets each reached tier's rewards
+export interface ClubGoal {
+  id: string;
+  name: string;
+  metric: ClubGoalMetric;
+  tiers: { target: number; rewards: RewardDefinition[] }[]; // Ascending targets
+}
+
 // GameSettings type for JSON-first settings management
 export interface GameSettings {
   id: string;
@@ -333,16 +808,62 @@ export interface GameSettings {
   energyRegenRate: number; // Energy per second
   tapCooldown: number; // Seconds between taps
   maxLevel: number;
-  baseExperienceRequired: number;
-  experienceMultiplier: number; // Multiplier for each level
+  baseExperienceRequired: number; // XP required for level 2 on the generated level curve
+  experienceMultiplier: number; // Growth of the generated curve per level
   autoSaveInterval: number; // Milliseconds
   wheelSpinCooldown?: number; // Hours between wheel spins
   dailyBonusHour?: number; // UTC hour for daily reset
   characterUnlockLevels?: { characterId: string; levelRequired: number }[];
+  activeEvents?: string[]; // Event ids forced live regardless of their dates (see shared/EventStorage.ts)
+  baseStats?: Partial<Record<UpgradeStat, number>>; // Stat values before upgrades (maxEnergy/energyRegen default to the fields above)
+  critMultiplier?: number; // LP multiplier for critical taps (default 2)
+  xp?: {
+    perTap?: number; // XP per accepted tap (default 1)
+    perChatMessage?: number; // XP per player chat message (default 5)
+    perTaskClaim?: number; // XP per claimed task (default 50)
+    perAchievementClaim?: number; // XP per claimed achievement (default 100)
+    perQuestStep?: number; // XP per claimed quest step (default 75)
+    lifetimeLpRate?: number; // Migration: XP per LP earned before the XP track existed (default 1)
+  };
+  loginStreak?: {
+    graceDays?: number; // Missed reset windows forgiven for free (default 0)
+    freezeItemId?: string; // Inventory item that covers one further missed window (default streak_freeze)
+  };
+  leaderboards?: {
+    refreshMinutes?: number; // How often rank snapshots are rebuilt (default 5)
+    size?: number; // Entries returned per board (default 100)
+    weeklyRewards?: Record<string, LeaderboardRewardTier[]>; // Board id → rewards granted when a weekly season closes
+  };
+  referrals?: {
+    maxReferrals?: number; // Invitees one code can bring in (default unlimited)
+    attributionWindowHours?: number; // Only accounts younger than this can be attributed (default 24)
+    milestones?: ReferralMilestone[];
+  };
+  friends?: {
+    maxFriends?: number; // Accepted friends per player (default 50)
+    maxEnergyGift?: number; // Cap on a daily energy gift (default 100)
+    giftItems?: FriendGiftItem[];
+  };
+  clubs?: {
+    maxMembers?: number; // Default 30
+    maxOfficers?: number; // Default 3
+    jobMinutes?: number; // How often the week-close job runs (default 10)
+    weeklyGoals?: ClubGoal[];
+  };
+  respec?: {
+    refundPercent?: number; // % of LP spent on the reset levels given back (default 50)
+    cooldownHours?: number; // Hours between player respecs (default 24)
+    lpFee?: number; // Flat LP fee taken from the refund (default 0)
+  };
   boosterEffects?: {
     [key: string]: {
       multiplier: number;
       maxDuration: number; // Minutes
+      name?: string;
+      description?: string;
+      cost?: number; // LP price to activate from the shop; omit = not purchasable
+      stacking?: 'extend' | 'refresh' | 'stack'; // Same-type activation rule (default extend)
+      maxStacks?: number; // extend: cap on remaining time in maxDuration units; stack: max concurrent
     };
   };
   createdAt: Date;
@@ -367,8 +888,29 @@ export type InsertBooster = z.infer<typeof insertBoosterSchema>;
 export type ChatMessage = typeof chatMessages.$inferSelect;
 export type InsertChatMessage = z.infer<typeof insertChatMessageSchema>;
 export type GameStats = typeof gameStats.$inferSelect;
+export type GameStatsDaily = typeof gameStatsDaily.$inferSelect;
 export type WheelReward = typeof wheelRewards.$inferSelect;
 export type Bonus = typeof bonuses.$inferSelect;
+export type LpLedgerEntry = typeof lpLedger.$inferSelect;
+export type InsertLpLedgerEntry = typeof lpLedger.$inferInsert;
+export type UserItem = typeof userItems.$inferSelect;
+export type UserUnlock = typeof userUnlocks.$inferSelect;
+export type OfflineClaim = typeof offlineClaims.$inferSelect;
+export type UserTaskProgress = typeof userTaskProgress.$inferSelect;
+export type UserQuestProgress = typeof userQuestProgress.$inferSelect;
+export type LoginRewardClaim = typeof loginRewardClaims.$inferSelect;
+export type LeaderboardEntry = typeof leaderboardEntries.$inferSelect;
+export type LeaderboardSeason = typeof leaderboardSeasons.$inferSelect;
+export type Referral = typeof referrals.$inferSelect;
+export type ReferralReward = typeof referralRewards.$inferSelect;
+export type Friendship = typeof friendships.$inferSelect;
+export type FriendGift = typeof friendGifts.$inferSelect;
+export type Club = typeof clubs.$inferSelect;
+export type ClubMember = typeof clubMembers.$inferSelect;
+export type ClubContribution = typeof clubContributions.$inferSelect;
+export type ClubWeek = typeof clubWeeks.$inferSelect;
+export type ClubReward = typeof clubRewards.$inferSelect;
+export type CharacterAffectionDaily = typeof characterAffectionDaily.$inferSelect;
 export type TelegramAuthToken = typeof telegramAuthTokens.$inferSelect;
 export type InsertTelegramAuthToken = typeof telegramAuthTokens.$inferInsert;
 export type LevelRequirement = typeof levelRequirements.$inferSelect;
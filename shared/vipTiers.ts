@@ -0,0 +1,80 @@
+/**
+ * vipTiers.ts - VIP tier configuration
+ *
+ * Shared by the VIP routes (status, purchase, daily bonus), StatService (VIP stat multipliers),
+ * OfflineIncomeService (offline income multiplier) and UpgradeStorage (VIP unlock conditions)
+ */
+
+// VIP tier configuration
+export const vipTiers = {
+  basic: {
+    id: 'basic',
+    name: 'VIP Basic',
+    price: 9.99,
+    duration: 30, // days
+    benefits: [
+      '2x LP per tap',
+      '1.5x offline income',
+      'Access to 10 exclusive characters',
+      'Priority chat responses',
+      'Daily bonus: 1000 LP',
+      'Exclusive VIP media content'
+    ],
+    lpMultiplier: 2,
+    offlineMultiplier: 1.5, // Offline income (OfflineIncomeService)
+    exclusiveCharacters: 10,
+    dailyBonus: 1000
+  },
+  premium: {
+    id: 'premium',
+    name: 'VIP Premium',
+    price: 19.99,
+    duration: 30,
+    benefits: [
+      '3x LP per tap',
+      '2x offline income',
+      'Access to ALL exclusive characters',
+      'Instant AI responses',
+      'Daily bonus: 2500 LP',
+      'All NSFW content unlocked',
+      'Custom character creation',
+      'Priority support'
+    ],
+    lpMultiplier: 3,
+    offlineMultiplier: 2, // Offline income (OfflineIncomeService)
+    exclusiveCharacters: -1, // -1 means all
+    dailyBonus: 2500,
+    nsfwUnlocked: true
+  },
+  lifetime: {
+    id: 'lifetime',
+    name: 'VIP Lifetime',
+    price: 99.99,
+    duration: -1, // -1 means permanent
+    benefits: [
+      '5x LP per tap',
+      '3x offline income',
+      'Unlimited access to all content',
+      'Custom AI personality training',
+      'Daily bonus: 5000 LP',
+      'Beta features access',
+      'Direct developer contact',
+      'Lifetime updates'
+    ],
+    lpMultiplier: 5,
+    offlineMultiplier: 3, // Offline income (OfflineIncomeService)
+    exclusiveCharacters: -1,
+    dailyBonus: 5000,
+    nsfwUnlocked: true,
+    betaAccess: true
+  }
+};
+
+export type VipTier = (typeof vipTiers)[keyof typeof vipTiers];
+
+// Active tier for a user, or null when not VIP or the membership has expired
+export function getActiveVipTier(user: { vipStatus?: boolean | null; vipTier?: string | null; vipExpiresAt?: string | Date | null }): VipTier | null {
+  if (!user.vipStatus || !user.vipTier) return null;
+  if (user.vipExpiresAt && new Date(user.vipExpiresAt).getTime() <= Date.now()) return null;
+  return vipTiers[user.vipTier as keyof typeof vipTiers] || null;
+}